@@ -1,40 +1,55 @@
 import React, { useState, useEffect } from 'react';
-import { Study, CardSortResult, ViewMode, ParticipantSession } from './types';
-import { saveToLocalStorage, loadFromLocalStorage, generateParticipantId, shuffleArray } from './utils';
+import { Study, CardSortResult, StudyResultsIndex, ViewMode, ParticipantSession } from './types';
+import { generateParticipantId, shuffleArray } from './utils';
+import { addResult, getResultsForStudy, removeStudyResults } from './utils/resultUtils';
+import { getLegacyImportWarning, getRepositories, importLegacyLocalStorage, toStorageError, StorageError } from './storage';
 import Dashboard from './components/Dashboard';
 import StudyCreator from './components/StudyCreator';
 import ParticipantCardSort from './components/ParticipantCardSort';
 import ParticipantComplete from './components/ParticipantComplete';
 import Analytics from './components/Analytics';
-
-const VUX_SORT_STUDIES_KEY = 'vux-sort-studies';
-const VUX_SORT_RESULTS_KEY = 'vux-sort-results';
+import StorageErrorBanner from './components/StorageErrorBanner';
 
 const App: React.FC = () => {
   const [currentView, setCurrentView] = useState<ViewMode>('dashboard');
   const [studies, setStudies] = useState<Study[]>([]);
-  const [results, setResults] = useState<Record<string, CardSortResult[]>>({});
+  const [results, setResults] = useState<StudyResultsIndex>({});
   const [selectedStudy, setSelectedStudy] = useState<Study | null>(null);
   const [currentParticipant, setCurrentParticipant] = useState<ParticipantSession | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [storageError, setStorageError] = useState<StorageError | null>(null);
 
   // Load data on component mount
   useEffect(() => {
-    const savedStudies = loadFromLocalStorage<Study[]>(VUX_SORT_STUDIES_KEY, []);
-    const savedResults = loadFromLocalStorage<Record<string, CardSortResult[]>>(VUX_SORT_RESULTS_KEY, {});
-    
-    setStudies(savedStudies);
-    setResults(savedResults);
+    const repositories = getRepositories();
+
+    importLegacyLocalStorage(repositories)
+      .then(outcome => {
+        const warning = getLegacyImportWarning(outcome);
+        if (warning) setStorageError(warning);
+        return Promise.all([repositories.studies.getAll(), repositories.results.getAll()]);
+      })
+      .then(([savedStudies, savedResults]) => {
+        setStudies(savedStudies);
+        setResults(savedResults);
+        setIsLoaded(true);
+      })
+      .catch(error => setStorageError(toStorageError(error, 'load saved studies')));
   }, []);
 
-  // Save studies when they change
+  // Save studies when they change; nothing is written until loading succeeded
   useEffect(() => {
-    saveToLocalStorage(VUX_SORT_STUDIES_KEY, studies);
-  }, [studies]);
+    if (!isLoaded) return;
+    getRepositories().studies.saveAll(studies)
+      .catch(error => setStorageError(toStorageError(error, 'save studies')));
+  }, [studies, isLoaded]);
 
   // Save results when they change
   useEffect(() => {
-    saveToLocalStorage(VUX_SORT_RESULTS_KEY, results);
-  }, [results]);
+    if (!isLoaded) return;
+    getRepositories().results.saveAll(results)
+      .catch(error => setStorageError(toStorageError(error, 'save results')));
+  }, [results, isLoaded]);
 
   const handleCreateStudy = () => {
     setSelectedStudy(null);
@@ -62,16 +77,7 @@ const App: React.FC = () => {
   const handleDeleteStudy = (studyId: number) => {
     setStudies(prev => prev.filter(s => s.id !== studyId));
     // Also remove related results
-    setResults(prev => {
-      const updated = { ...prev };
-      Object.keys(updated).forEach(key => {
-        updated[key] = updated[key].filter(result => result.studyId !== studyId);
-        if (updated[key].length === 0) {
-          delete updated[key];
-        }
-      });
-      return updated;
-    });
+    setResults(prev => removeStudyResults(prev, studyId));
   };
 
   const handleDuplicateStudy = (study: Study) => {
@@ -104,11 +110,8 @@ const App: React.FC = () => {
   };
 
   const handleParticipantComplete = (result: CardSortResult) => {
-    // Save the result
-    setResults(prev => ({
-      ...prev,
-      [result.participantId]: [result]
-    }));
+    // Save the result alongside any earlier attempts by the same participant
+    setResults(prev => addResult(prev, result));
 
     // Update participant count on the study
     setStudies(prev => prev.map(study => 
@@ -132,7 +135,7 @@ const App: React.FC = () => {
   };
 
   const getStudyResults = (studyId: number): CardSortResult[] => {
-    return Object.values(results).flat().filter(result => result.studyId === studyId);
+    return getResultsForStudy(results, studyId, { attempts: 'latest' }) as CardSortResult[];
   };
 
   // Prepare study for participant (shuffle cards if needed)
@@ -147,6 +150,10 @@ const App: React.FC = () => {
 
   return (
     <div className="min-h-screen bg-gray-50">
+      {storageError && (
+        <StorageErrorBanner error={storageError} onDismiss={() => setStorageError(null)} />
+      )}
+
       {currentView === 'dashboard' && (
         <Dashboard
           studies={studies}
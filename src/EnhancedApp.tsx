@@ -1,6 +1,33 @@
-import React, { useState, useEffect } from 'react';
-import { Study, StudyResult, ViewMode, ParticipantSession } from './types';
-import { saveToLocalStorage, loadFromLocalStorage, generateParticipantId, shuffleArray } from './utils';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  AppRoute,
+  CardSortProgress,
+  Study,
+  StudyResult,
+  StudyResultsIndex,
+  StudyStatus,
+  ViewMode,
+  ParticipantSession,
+  SessionCheckpoint,
+  TreeTestProgress
+} from './types';
+import { generateParticipantId, shuffleArray } from './utils';
+import { addResult, getResultsForStudy, removeStudyResults } from './utils/resultUtils';
+import { applyStudyEdit, getStudyVersionNumber, isStudyVersionLocked } from './utils/studyVersions';
+import { applyAutoClose, getAutoCloseReason, getNextCloseTime, transitionStudy } from './utils/studyLifecycle';
+import { getCurrentRoute, pushRoute } from './utils/routing';
+import {
+  createCheckpoint,
+  getPausedDuration,
+  pauseSession,
+  removeCheckpoints,
+  resumeSession,
+  unpauseSession,
+  updateCheckpoint
+} from './utils/sessionUtils';
+import { cloneTaggingSystem, createTaggingSystem, TaggingSystem } from './analytics/cardMetadata';
+import { CardLinkConfirmations, finalizeStudyResults, needsFinalizingOnClose } from './analytics/cardHistory';
+import { getLegacyImportWarning, getRepositories, importLegacyLocalStorage, toStorageError, StorageError } from './storage';
 import Dashboard from './components/Dashboard';
 import EnhancedStudyCreator from './components/EnhancedStudyCreator';
 import ParticipantCardSort from './components/ParticipantCardSort';
@@ -11,72 +38,274 @@ import ParticipantComplete from './components/ParticipantComplete';
 import EnhancedAnalytics from './components/EnhancedAnalytics';
 import ParticipantManager from './components/ParticipantManager';
 import ParticipantEntry from './components/ParticipantEntry';
+import StorageErrorBanner from './components/StorageErrorBanner';
+import StudyComparisonView from './components/StudyComparisonView';
+import SessionPauseControl from './components/SessionPauseControl';
 
-const VUX_SORT_STUDIES_KEY = 'vux-sort-studies';
-const VUX_SORT_RESULTS_KEY = 'vux-sort-results';
+// A session for a researcher trying the study from the dashboard, without an invite
+const createPreviewSession = (study: Study): ParticipantSession => ({
+  participantId: generateParticipantId(),
+  studyId: study.id,
+  startTime: Date.now(),
+  isComplete: false,
+  studyType: study.type
+});
+
+// Keys whose records were added or replaced, and keys that were removed, since the last save
+const getChangedKeys = <T,>(saved: Record<string, T>, current: Record<string, T>) => ({
+  changed: Object.keys(current).filter(key => current[key] !== saved[key]),
+  removed: Object.keys(saved).filter(key => !(key in current))
+});
 
 const EnhancedApp: React.FC = () => {
   const [currentView, setCurrentView] = useState<ViewMode>('dashboard');
   const [studies, setStudies] = useState<Study[]>([]);
-  const [results, setResults] = useState<Record<string, StudyResult[]>>({});
+  const [results, setResults] = useState<StudyResultsIndex>({});
+  const [taggingSystem, setTaggingSystem] = useState<TaggingSystem>(() => createTaggingSystem());
   const [selectedStudy, setSelectedStudy] = useState<Study | null>(null);
   const [currentParticipant, setCurrentParticipant] = useState<ParticipantSession | null>(null);
+  const [checkpoints, setCheckpoints] = useState<Record<string, SessionCheckpoint>>({});
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [storageError, setStorageError] = useState<StorageError | null>(null);
+  const [clock, setClock] = useState(() => Date.now());
+  const [entryLink, setEntryLink] = useState<{ studyId?: number; inviteCode?: string }>({});
+  const [initialRouteShown, setInitialRouteShown] = useState(false);
+  // What was last written, so saving a change only writes the records it touched
+  const persistedResults = useRef<StudyResultsIndex>({});
+  const persistedCheckpoints = useRef<Record<string, SessionCheckpoint>>({});
 
   // Load data on component mount
   useEffect(() => {
-    const savedStudies = loadFromLocalStorage<Study[]>(VUX_SORT_STUDIES_KEY, []);
-    const savedResults = loadFromLocalStorage<Record<string, StudyResult[]>>(VUX_SORT_RESULTS_KEY, {});
-    
-    setStudies(savedStudies);
-    setResults(savedResults);
+    const repositories = getRepositories();
+
+    importLegacyLocalStorage(repositories)
+      .then(outcome => {
+        const warning = getLegacyImportWarning(outcome);
+        if (warning) setStorageError(warning);
+        return Promise.all([
+          repositories.studies.getAll(),
+          repositories.results.getAll(),
+          repositories.tagging.load(),
+          repositories.sessions.getAll()
+        ]);
+      })
+      .then(([savedStudies, savedResults, savedTaggingSystem, savedCheckpoints]) => {
+        // Repositories upgrade older data to the current schema as it loads
+        persistedResults.current = savedResults;
+        persistedCheckpoints.current = savedCheckpoints;
+        setStudies(savedStudies);
+        setResults(savedResults);
+        setTaggingSystem(savedTaggingSystem);
+        setCheckpoints(savedCheckpoints);
+        setIsLoaded(true);
+      })
+      .catch(error => setStorageError(toStorageError(error, 'load saved studies')));
   }, []);
 
-  // Save studies when they change
+  // Save studies when they change; nothing is written until loading succeeded
+  useEffect(() => {
+    if (!isLoaded) return;
+    getRepositories().studies.saveAll(studies)
+      .catch(error => setStorageError(toStorageError(error, 'save studies')));
+  }, [studies, isLoaded]);
+
+  // Save results when they change, one study's results at a time
+  useEffect(() => {
+    if (!isLoaded) return;
+    const { changed, removed } = getChangedKeys(persistedResults.current, results);
+    persistedResults.current = results;
+    const repository = getRepositories().results;
+    Promise.all([
+      ...changed.map(studyId => repository.saveForStudy(Number(studyId), results[studyId])),
+      ...removed.map(studyId => repository.deleteForStudy(Number(studyId)))
+    ]).catch(error => setStorageError(toStorageError(error, 'save results')));
+  }, [results, isLoaded]);
+
+  // Save tags and card history when they change
+  useEffect(() => {
+    if (!isLoaded) return;
+    getRepositories().tagging.save(taggingSystem)
+      .catch(error => setStorageError(toStorageError(error, 'save card history')));
+  }, [taggingSystem, isLoaded]);
+
+  // Save in-progress participant sessions when they change, one checkpoint at a time
   useEffect(() => {
-    saveToLocalStorage(VUX_SORT_STUDIES_KEY, studies);
+    if (!isLoaded) return;
+    const { changed, removed } = getChangedKeys(persistedCheckpoints.current, checkpoints);
+    persistedCheckpoints.current = checkpoints;
+    const repository = getRepositories().sessions;
+    Promise.all([
+      ...changed.map(inviteCode => repository.save(inviteCode, checkpoints[inviteCode])),
+      ...removed.map(inviteCode => repository.delete(inviteCode))
+    ]).catch(error => setStorageError(toStorageError(error, 'save participant progress')));
+  }, [checkpoints, isLoaded]);
+
+  // Invited participants' progress is checkpointed so they can resume with their invite code
+  const currentInviteCode = currentParticipant?.inviteCode;
+  const handleCardSortProgress = useCallback((cardSort: CardSortProgress) => {
+    if (currentInviteCode) setCheckpoints(prev => updateCheckpoint(prev, currentInviteCode, { cardSort }));
+  }, [currentInviteCode]);
+
+  const handleTreeTestProgress = useCallback((treeTest: TreeTestProgress) => {
+    if (currentInviteCode) setCheckpoints(prev => updateCheckpoint(prev, currentInviteCode, { treeTest }));
+  }, [currentInviteCode]);
+
+  // Show the screen for a route in the address bar, without adding to the browser history
+  const showRoute = useCallback((route: AppRoute | null) => {
+    const study = route && 'studyId' in route ? studies.find(s => s.id === route.studyId) : undefined;
+    setCurrentParticipant(null);
+    setSelectedStudy(study || null);
+
+    switch (route?.name) {
+      case 'dashboard':
+        setCurrentView('dashboard');
+        return;
+      case 'comparison':
+        setCurrentView('comparison');
+        return;
+      case 'new-study':
+        setCurrentView('study-creator');
+        return;
+      case 'participate':
+        setEntryLink({ studyId: route.studyId, inviteCode: route.inviteCode });
+        setCurrentView('participant-entry');
+        return;
+      case 'edit-study':
+        if (study) {
+          setCurrentView('study-creator');
+          return;
+        }
+        break;
+      case 'analytics':
+        if (study) {
+          setCurrentView('analytics');
+          return;
+        }
+        break;
+      case 'participants':
+        if (study) {
+          setCurrentView('participant-manager');
+          return;
+        }
+        break;
+      case 'preview':
+        if (study) {
+          setCurrentParticipant(createPreviewSession(study));
+          setCurrentView('participant-view');
+          return;
+        }
+        break;
+    }
+
+    // Unknown addresses and studies that no longer exist go to the dashboard
+    setCurrentView('dashboard');
+    pushRoute({ name: 'dashboard' }, { replace: true });
   }, [studies]);
 
-  // Save results when they change
+  // Open the screen in the address bar once saved studies have loaded
   useEffect(() => {
-    saveToLocalStorage(VUX_SORT_RESULTS_KEY, results);
-  }, [results]);
+    if (!isLoaded || initialRouteShown) return;
+    showRoute(getCurrentRoute());
+    setInitialRouteShown(true);
+  }, [isLoaded, initialRouteShown, showRoute]);
+
+  // Follow the browser's back and forward buttons
+  useEffect(() => {
+    if (!isLoaded) return;
+    const handlePopState = () => showRoute(getCurrentRoute());
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [isLoaded, showRoute]);
+
+  // Close studies that reached their participant limit or close date, and wake up for the next close date
+  useEffect(() => {
+    if (!isLoaded) return;
+    const now = Date.now();
+    if (studies.some(study => getAutoCloseReason(study, results, now))) {
+      setStudies(prev => prev.map(study => applyAutoClose(study, results, now)));
+      return;
+    }
+
+    const nextClose = getNextCloseTime(studies, now);
+    if (nextClose === null) return;
+    // Timer delays are capped at about 24.8 days; a longer wait just checks again then
+    const timer = setTimeout(() => setClock(Date.now()), Math.min(nextClose - now, 2 ** 31 - 1));
+    return () => clearTimeout(timer);
+  }, [studies, results, isLoaded, clock]);
+
+  // Results recorded in the card history: each participant's latest attempt at the current version
+  const getFinalizedResults = useCallback(
+    (study: Study) => getResultsForStudy(results, study.id, { attempts: 'latest', version: getStudyVersionNumber(study) }),
+    [results]
+  );
+
+  // Closing a study, by hand or automatically, records its results in the card history
+  useEffect(() => {
+    if (!isLoaded) return;
+    const closed = studies.filter(needsFinalizingOnClose);
+    if (closed.length === 0) return;
+
+    const nextTaggingSystem = cloneTaggingSystem(taggingSystem);
+    const finalized = new Map(closed.map(study => [
+      study.id,
+      finalizeStudyResults(nextTaggingSystem, study, getFinalizedResults(study))
+    ]));
+    setTaggingSystem(nextTaggingSystem);
+    setStudies(prev => prev.map(study => finalized.get(study.id) ?? study));
+  }, [studies, taggingSystem, getFinalizedResults, isLoaded]);
 
   const handleCreateStudy = () => {
     setSelectedStudy(null);
     setCurrentView('study-creator');
+    pushRoute({ name: 'new-study' });
   };
 
   const handleEditStudy = (study: Study) => {
     setSelectedStudy(study);
     setCurrentView('study-creator');
+    pushRoute({ name: 'edit-study', studyId: study.id });
+  };
+
+  // Drafts open in the editor and only become studies once saved
+  const handleCreateStudyDraft = (draft: Study) => {
+    setSelectedStudy(draft);
+    setCurrentView('study-creator');
+    pushRoute({ name: 'new-study' });
   };
 
   const handleSaveStudy = (study: Study) => {
     setStudies(prev => {
       const exists = prev.find(s => s.id === study.id);
       if (exists) {
-        return prev.map(s => s.id === study.id ? study : s);
+        // Edits to a study participants have completed become a new version
+        const saved = applyStudyEdit(exists, study, results);
+        return prev.map(s => s.id === study.id ? saved : s);
       } else {
         return [...prev, study];
       }
     });
     setCurrentView('dashboard');
     setSelectedStudy(null);
+    pushRoute({ name: 'dashboard' });
+  };
+
+  // Update a study in place without leaving the current view
+  const handleUpdateStudy = (study: Study) => {
+    setStudies(prev => prev.map(s => s.id === study.id ? study : s));
+    setSelectedStudy(study);
+  };
+
+  // Throws when a study is not ready to launch; the dashboard shows why
+  const handleChangeStudyStatus = (study: Study, status: StudyStatus) => {
+    const updated = transitionStudy(study, status, results);
+    setStudies(prev => prev.map(s => s.id === study.id ? updated : s));
   };
 
   const handleDeleteStudy = (studyId: number) => {
     setStudies(prev => prev.filter(s => s.id !== studyId));
-    // Also remove related results
-    setResults(prev => {
-      const updated = { ...prev };
-      Object.keys(updated).forEach(key => {
-        updated[key] = updated[key].filter(result => result.studyId !== studyId);
-        if (updated[key].length === 0) {
-          delete updated[key];
-        }
-      });
-      return updated;
-    });
+    // Also remove related results and sessions in progress
+    setResults(prev => removeStudyResults(prev, studyId));
+    setCheckpoints(prev => removeCheckpoints(prev, checkpoint => checkpoint.session.studyId === studyId));
   };
 
   const handleDuplicateStudy = (study: Study) => {
@@ -85,41 +314,103 @@ const EnhancedApp: React.FC = () => {
       id: Date.now(),
       name: `${study.name} (Copy)`,
       participants: 0,
+      resultsFinalizedAt: undefined,
+      status: 'draft',
+      statusChangedAt: undefined,
+      closedReason: undefined,
+      version: undefined,
+      versionHistory: undefined,
       created: new Date().toISOString(),
       updated: new Date().toISOString()
     };
     setStudies(prev => [...prev, duplicatedStudy]);
   };
 
+  // Link the study's cards to the card history, then record its results there
+  const handleFinalizeResults = (study: Study, confirmations: CardLinkConfirmations) => {
+    const nextTaggingSystem = cloneTaggingSystem(taggingSystem);
+    const linkedStudy = finalizeStudyResults(nextTaggingSystem, study, getFinalizedResults(study), confirmations);
+
+    setTaggingSystem(nextTaggingSystem);
+    handleUpdateStudy(linkedStudy);
+  };
+
+  // Imported bundles arrive already merged with the local studies, results and card history
+  const handleImport = (importedStudies: Study[], importedResults: StudyResultsIndex, importedTaggingSystem?: TaggingSystem) => {
+    setStudies(importedStudies);
+    setResults(importedResults);
+    if (importedTaggingSystem) setTaggingSystem(importedTaggingSystem);
+  };
+
   const handleStartParticipant = (study: Study) => {
-    const participantId = generateParticipantId();
-    const startTime = Date.now();
-    
-    const session: ParticipantSession = {
-      participantId,
-      studyId: study.id,
-      startTime,
-      isComplete: false,
-      studyType: study.type
-    };
-    
+    setCurrentParticipant(createPreviewSession(study));
+    setSelectedStudy(study);
+    setCurrentView('participant-view');
+    pushRoute({ name: 'preview', studyId: study.id });
+  };
+
+  // Invited participants start with a checkpoint, and their invite is marked as started
+  const handleStartInvitedSession = (study: Study, session: ParticipantSession) => {
+    const inviteCode = session.inviteCode;
+    if (inviteCode) {
+      setCheckpoints(prev => ({ ...prev, [inviteCode]: createCheckpoint(session, study, inviteCode) }));
+      setStudies(prev => prev.map(s => s.id === study.id
+        ? {
+            ...s,
+            invites: s.invites?.map(invite =>
+              invite.inviteCode === inviteCode && invite.status === 'invited' ? { ...invite, status: 'started' as const } : invite
+            )
+          }
+        : s
+      ));
+    }
+
+    setSelectedStudy(study);
     setCurrentParticipant(session);
+    setCurrentView('participant-view');
+  };
+
+  const handleResumeSession = (study: Study, checkpoint: SessionCheckpoint) => {
+    const session = resumeSession(checkpoint);
+    setCheckpoints(prev => updateCheckpoint(prev, checkpoint.inviteCode, { session }));
     setSelectedStudy(study);
+    setCurrentParticipant(session);
     setCurrentView('participant-view');
   };
 
+  // Pausing and resuming are saved with the checkpoint, so a pause lasts until resumed even across a reload
+  const handleUpdateSession = (session: ParticipantSession) => {
+    setCurrentParticipant(session);
+    if (session.inviteCode) {
+      const inviteCode = session.inviteCode;
+      setCheckpoints(prev => updateCheckpoint(prev, inviteCode, { session }));
+    }
+  };
+
   const handleParticipantComplete = (result: StudyResult) => {
-    // Save the result
-    setResults(prev => ({
-      ...prev,
-      [result.participantId]: [result]
+    // Save the result alongside any earlier attempts by the same participant, tagged with the version it was collected under
+    // The session knows who the participant is; paused time is left out of the duration
+    const study = studies.find(s => s.id === result.studyId);
+    const session = currentParticipant;
+    const inviteCode = result.inviteCode ?? session?.inviteCode;
+    setResults(prev => addResult(prev, {
+      ...result,
+      inviteCode,
+      demographics: result.demographics ?? session?.demographics,
+      participantName: result.participantName ?? session?.participantName,
+      participantEmail: result.participantEmail ?? session?.participantEmail,
+      totalDuration: Math.max(0, result.totalDuration - (session ? getPausedDuration(session) : 0)),
+      studyVersion: study ? getStudyVersionNumber(study) : undefined
     }));
+    if (inviteCode) {
+      setCheckpoints(prev => removeCheckpoints(prev, checkpoint => checkpoint.inviteCode === inviteCode));
+    }
 
     // Update participant count and invite status
     setStudies(prev => prev.map(study => {
       if (study.id === result.studyId) {
         const updatedInvites = study.invites?.map(invite => {
-          if (invite.inviteCode === result.inviteCode) {
+          if (inviteCode && invite.inviteCode === inviteCode) {
             return {
               ...invite,
               status: 'completed' as const,
@@ -144,21 +435,25 @@ const EnhancedApp: React.FC = () => {
   const handleViewAnalytics = (study: Study) => {
     setSelectedStudy(study);
     setCurrentView('analytics');
+    pushRoute({ name: 'analytics', studyId: study.id });
   };
 
   const handleManageParticipants = (study: Study) => {
     setSelectedStudy(study);
     setCurrentView('participant-manager');
+    pushRoute({ name: 'participants', studyId: study.id });
+  };
+
+  const handleCompareStudies = () => {
+    setCurrentView('comparison');
+    pushRoute({ name: 'comparison' });
   };
 
   const handleReturnToDashboard = () => {
     setCurrentView('dashboard');
     setSelectedStudy(null);
     setCurrentParticipant(null);
-  };
-
-  const getStudyResults = (studyId: number): StudyResult[] => {
-    return Object.values(results).flat().filter(result => result.studyId === studyId);
+    pushRoute({ name: 'dashboard' });
   };
 
   // Prepare study for participant (shuffle cards if needed)
@@ -183,31 +478,50 @@ const EnhancedApp: React.FC = () => {
       participantStartTime: currentParticipant.startTime,
       onComplete: handleParticipantComplete
     };
+    // Components only read the checkpoint when they mount, to resume from it
+    const checkpoint = currentParticipant.inviteCode ? checkpoints[currentParticipant.inviteCode] : undefined;
+    const cardSortProps = { ...commonProps, progress: checkpoint?.cardSort, onProgress: handleCardSortProgress };
 
     switch (selectedStudy.type) {
       case 'card-sorting':
-        return <ParticipantCardSort {...commonProps} />;
+        // Closed sorts that let participants add categories need the category controls of the open sort
+        return selectedStudy.settings.allowCustomCategories
+          ? <OpenCardSort {...cardSortProps} />
+          : <ParticipantCardSort {...cardSortProps} />;
       
       case 'open-card-sorting':
-        return <OpenCardSort {...commonProps} />;
+        return <OpenCardSort {...cardSortProps} />;
       
       case 'tree-testing':
-        return <TreeTest {...commonProps} />;
+        return (
+          <TreeTest
+            {...commonProps}
+            progress={checkpoint?.treeTest}
+            onProgress={handleTreeTestProgress}
+            paused={currentParticipant.pausedAt !== undefined}
+            pausedDuration={currentParticipant.pausedDuration || 0}
+          />
+        );
       
       case 'reverse-card-sorting':
-        return <ReverseCardSort {...commonProps} />;
+        return <ReverseCardSort {...cardSortProps} />;
       
       default:
-        return <ParticipantCardSort {...commonProps} />;
+        return <ParticipantCardSort {...cardSortProps} />;
     }
   };
 
   return (
     <div className="min-h-screen bg-gray-50">
+      {storageError && (
+        <StorageErrorBanner error={storageError} onDismiss={() => setStorageError(null)} />
+      )}
+
       {currentView === 'dashboard' && (
         <Dashboard
           studies={studies}
-          results={results as any}
+          results={results}
+          taggingSystem={taggingSystem}
           onCreateStudy={handleCreateStudy}
           onEditStudy={handleEditStudy}
           onDeleteStudy={handleDeleteStudy}
@@ -215,12 +529,16 @@ const EnhancedApp: React.FC = () => {
           onStartParticipant={handleStartParticipant}
           onDuplicateStudy={handleDuplicateStudy}
           onManageParticipants={handleManageParticipants}
+          onImport={handleImport}
+          onCompareStudies={handleCompareStudies}
+          onChangeStudyStatus={handleChangeStudyStatus}
         />
       )}
 
       {currentView === 'study-creator' && (
         <EnhancedStudyCreator
           study={selectedStudy || undefined}
+          isVersionLocked={selectedStudy ? isStudyVersionLocked(selectedStudy, results) : false}
           onSave={handleSaveStudy}
           onCancel={handleReturnToDashboard}
         />
@@ -228,11 +546,20 @@ const EnhancedApp: React.FC = () => {
 
       {currentView === 'participant-view' && renderParticipantComponent()}
 
+      {currentView === 'participant-view' && currentParticipant && selectedStudy?.settings.allowPause && (
+        <SessionPauseControl
+          paused={currentParticipant.pausedAt !== undefined}
+          canResumeLater={Boolean(currentParticipant.inviteCode)}
+          onPause={() => handleUpdateSession(pauseSession(currentParticipant))}
+          onResume={() => handleUpdateSession(unpauseSession(currentParticipant))}
+        />
+      )}
+
       {currentView === 'participant-complete' && selectedStudy && currentParticipant && (
         <ParticipantComplete
           participantId={currentParticipant.participantId}
           studyName={selectedStudy.name}
-          duration={Date.now() - currentParticipant.startTime}
+          duration={Date.now() - currentParticipant.startTime - getPausedDuration(currentParticipant)}
           onReturnHome={handleReturnToDashboard}
         />
       )}
@@ -240,7 +567,20 @@ const EnhancedApp: React.FC = () => {
       {currentView === 'analytics' && selectedStudy && (
         <EnhancedAnalytics
           study={selectedStudy}
-          results={getStudyResults(selectedStudy.id)}
+          results={results}
+          onBack={handleReturnToDashboard}
+          onCreateStudyDraft={handleCreateStudyDraft}
+          onUpdateStudy={handleUpdateStudy}
+          taggingSystem={taggingSystem}
+          onTaggingSystemChange={setTaggingSystem}
+          onFinalizeResults={handleFinalizeResults}
+        />
+      )}
+
+      {currentView === 'comparison' && (
+        <StudyComparisonView
+          studies={studies}
+          results={results}
           onBack={handleReturnToDashboard}
         />
       )}
@@ -248,19 +588,21 @@ const EnhancedApp: React.FC = () => {
       {currentView === 'participant-manager' && selectedStudy && (
         <ParticipantManager
           study={selectedStudy}
-          onUpdateStudy={handleSaveStudy}
+          results={results}
+          onUpdateStudy={handleUpdateStudy}
           onBack={handleReturnToDashboard}
         />
       )}
 
       {currentView === 'participant-entry' && (
         <ParticipantEntry
+          key={`${entryLink.studyId}-${entryLink.inviteCode}`}
           studies={studies}
-          onStartStudy={(study, session) => {
-            setSelectedStudy(study);
-            setCurrentParticipant(session);
-            setCurrentView('participant-view');
-          }}
+          studyId={entryLink.studyId}
+          inviteCode={entryLink.inviteCode}
+          checkpoints={checkpoints}
+          onStartStudy={handleStartInvitedSession}
+          onResumeStudy={handleResumeSession}
         />
       )}
     </div>
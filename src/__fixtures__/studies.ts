@@ -0,0 +1,17 @@
+import { Study } from '../types';
+
+/**
+ * An empty closed card sort for tests; pass only the fields a test depends on
+ */
+export const createTestStudy = (overrides: Partial<Study> = {}): Study => ({
+  id: 1,
+  name: 'Test study',
+  type: 'card-sorting',
+  cards: [],
+  categories: [],
+  participants: 0,
+  created: '2024-01-01T00:00:00.000Z',
+  updated: '2024-01-01T00:00:00.000Z',
+  settings: {},
+  ...overrides
+});
@@ -5,11 +5,13 @@
  */
 
 import { StudyResult, CardSortResult } from '../types';
+import { wilsonPercentInterval, checkSampleSize, type ConfidenceInterval, type SampleSizeCheck } from './confidenceIntervals';
 
 export interface CardAgreementScore {
   cardId: string;
   cardText: string;
   agreementScore: number; // 0-100 percentage
+  confidenceInterval: ConfidenceInterval; // 95% Wilson interval for agreementScore
   consensusCategory: string;
   categoryAgreementPercentage: number;
   placementFrequency: { [categoryName: string]: number };
@@ -23,6 +25,7 @@ export interface CategoryAgreementScore {
   cardCount: number;
   usageFrequency: number; // How many participants used this category
   usagePercentage: number;
+  usageConfidenceInterval: ConfidenceInterval; // 95% Wilson interval for usagePercentage
   cardsInCategory: string[];
   consensusCards: string[]; // Cards that most participants put in this category
 }
@@ -32,6 +35,7 @@ export interface StudyAgreementAnalysis {
   cardAgreements: CardAgreementScore[];
   categoryAgreements: CategoryAgreementScore[];
   agreementMatrix: number[][]; // Card-to-card agreement matrix
+  sampleSize: SampleSizeCheck;
   dendrogramData: any; // Hierarchical clustering data
   insights: {
     highestAgreementCard: CardAgreementScore;
@@ -102,6 +106,7 @@ export function calculateCardAgreementScores(results: CardSortResult[]): CardAgr
       cardId,
       cardText,
       agreementScore,
+      confidenceInterval: wilsonPercentInterval(maxPlacement.count, totalParticipants),
       consensusCategory: maxPlacement.category,
       categoryAgreementPercentage: agreementScore,
       placementFrequency,
@@ -175,6 +180,7 @@ export function calculateCategoryAgreementScores(results: CardSortResult[]): Cat
       cardCount: data.cards.size,
       usageFrequency,
       usagePercentage,
+      usageConfidenceInterval: wilsonPercentInterval(usageFrequency, totalParticipants),
       cardsInCategory: Array.from(data.cards),
       consensusCards
     });
@@ -251,9 +257,10 @@ export function generateAgreementMatrix(results: CardSortResult[]): {
 }
 
 /**
- * Perform complete agreement analysis for a study
+ * Perform complete agreement analysis for a study.
+ * Pass the study's minParticipants to flag samples too small to rely on.
  */
-export function performAgreementAnalysis(results: StudyResult[]): StudyAgreementAnalysis {
+export function performAgreementAnalysis(results: StudyResult[], minParticipants?: number): StudyAgreementAnalysis {
   const cardSortResults = results.filter(r =>
     ['card-sorting', 'open-card-sorting', 'reverse-card-sorting'].includes(r.studyType)
   ) as CardSortResult[];
@@ -298,6 +305,7 @@ export function performAgreementAnalysis(results: StudyResult[]): StudyAgreement
     cardAgreements,
     categoryAgreements,
     agreementMatrix,
+    sampleSize: checkSampleSize(cardSortResults.length, minParticipants),
     dendrogramData: null, // Will be generated separately with D3.js
     insights: {
       highestAgreementCard: sortedCardAgreements[0] || null,
@@ -314,7 +322,14 @@ export function performAgreementAnalysis(results: StudyResult[]): StudyAgreement
  * Generate agreement score heatmap data for visualization
  */
 export interface HeatmapData {
-  cardPairs: { cardA: string; cardB: string; score: number; cardAText: string; cardBText: string }[];
+  cardPairs: {
+    cardA: string;
+    cardB: string;
+    score: number;
+    confidenceInterval: ConfidenceInterval;
+    cardAText: string;
+    cardBText: string;
+  }[];
   maxScore: number;
   minScore: number;
 }
@@ -333,6 +348,7 @@ export function generateAgreementHeatmapData(results: CardSortResult[]): Heatmap
         cardA: cardIds[i],
         cardB: cardIds[j],
         score,
+        confidenceInterval: wilsonPercentInterval((score / 100) * results.length, results.length),
         cardAText: cardLabels[i],
         cardBText: cardLabels[j]
       });
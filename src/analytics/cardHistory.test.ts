@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { CardSortResult } from '../types';
+import { createTestStudy } from '../__fixtures__/studies';
+import { addCardMetadata, createCardMetadata, createTaggingSystem } from './cardMetadata';
+import { finalizeStudyResults, needsFinalizingOnClose } from './cardHistory';
+
+const study = createTestStudy({
+  cards: [
+    { id: 1, text: 'Change password' },
+    { id: 2, text: 'Billing history' }
+  ],
+  status: 'closed',
+  statusChangedAt: '2024-02-01T00:00:00.000Z'
+});
+
+const result: CardSortResult = {
+  participantId: 'P1',
+  studyId: 1,
+  studyType: 'card-sorting',
+  startTime: 0,
+  completionTime: 1000,
+  totalDuration: 1000,
+  cardSortResults: [{ categoryId: 1, categoryName: 'Account', cards: study.cards.map(({ id, text }) => ({ id, text })) }]
+};
+
+describe('needsFinalizingOnClose', () => {
+  it('is true for a closed card sort that was never finalized', () => {
+    expect(needsFinalizingOnClose(study)).toBe(true);
+  });
+
+  it('is true when the study was finalized before it closed', () => {
+    expect(needsFinalizingOnClose({ ...study, resultsFinalizedAt: '2024-01-15T00:00:00.000Z' })).toBe(true);
+  });
+
+  it('is false once the results were finalized after closing', () => {
+    expect(needsFinalizingOnClose({ ...study, resultsFinalizedAt: '2024-02-01T00:00:01.000Z' })).toBe(false);
+  });
+
+  it('is false for studies that are open or have no cards', () => {
+    expect(needsFinalizingOnClose({ ...study, status: 'live' })).toBe(false);
+    expect(needsFinalizingOnClose({ ...study, type: 'tree-testing', cards: [] })).toBe(false);
+  });
+});
+
+describe('finalizeStudyResults', () => {
+  it('records the results and marks the study finalized', () => {
+    const system = createTaggingSystem();
+
+    const finalized = finalizeStudyResults(system, study, [result], {}, Date.parse('2024-02-02T00:00:00.000Z'));
+
+    expect(finalized.resultsFinalizedAt).toBe('2024-02-02T00:00:00.000Z');
+    expect(needsFinalizingOnClose(finalized)).toBe(false);
+    finalized.cards.forEach(card => {
+      expect(system.cardMetadata.get(card.key!)?.crossStudyHistory.map(entry => entry.studyId)).toEqual(['1']);
+    });
+  });
+
+  it('leaves possible matches unlinked without the researcher confirming them', () => {
+    const system = createTaggingSystem();
+    addCardMetadata(system, createCardMetadata('card_tracked', 'change password'));
+
+    const finalized = finalizeStudyResults(system, study, [result]);
+
+    expect(finalized.cards[0].key).toBeUndefined();
+    expect(finalized.cards[1].key).toBeDefined();
+    expect(system.cardMetadata.get('card_tracked')!.crossStudyHistory).toEqual([]);
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Card History Module
+ * Links the same card across studies and feeds finalized study results into the tagging system's cross-study history
+ * Routed to: analytics-specialist for cross-study tracking and data modeling
+ */
+
+import { Card, CardSortResult, Study, StudyResult } from '../types';
+import { performAgreementAnalysis } from './agreementScores';
+import { addCardMetadata, createCardMetadata, updateCardAnalytics, type CardMetadata, type TaggingSystem } from './cardMetadata';
+import { standardizeStudyResults } from '../utils/categoryStandardization';
+import { getStudyStatus } from '../utils/studyLifecycle';
+
+/**
+ * A card without an established identity and the tracked cards it may be
+ */
+export interface CardMatch {
+  card: Card;
+  candidates: CardMetadata[];
+}
+
+/** Per card: the tracked card id it was confirmed as, or null to track it as a new card */
+export type CardLinkConfirmations = Record<number, string | null>;
+
+const CARD_SORT_TYPES = ['card-sorting', 'open-card-sorting', 'reverse-card-sorting'];
+
+/**
+ * Normalize card text for matching: case, spacing and punctuation are ignored
+ */
+export function normalizeCardText(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, '').replace(/\s+/g, ' ').trim();
+}
+
+export function createCardKey(): string {
+  return `card_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+}
+
+/**
+ * Cards in a study that are not yet linked to the card history, with any
+ * tracked cards whose text matches. Matches need the researcher's confirmation.
+ */
+export function findCardMatches(system: TaggingSystem, study: Study): CardMatch[] {
+  const linkedKeys = new Set(study.cards.map(card => card.key).filter(Boolean));
+
+  return study.cards
+    .filter(card => !card.key || !system.cardMetadata.has(card.key))
+    .map(card => ({
+      card,
+      candidates: Array.from(system.cardMetadata.values()).filter(metadata =>
+        // A tracked card can only stand for one card of this study
+        !linkedKeys.has(metadata.cardId) && normalizeCardText(metadata.cardText) === normalizeCardText(card.text)
+      )
+    }));
+}
+
+/**
+ * Give every card of a study a stable key, using the confirmed matches.
+ * Cards that already have a key keep it, and cards in `leaveUnlinked` stay without one.
+ */
+export function linkStudyCards(
+  study: Study,
+  confirmations: CardLinkConfirmations = {},
+  leaveUnlinked: Set<number> = new Set()
+): Study {
+  const linkCard = (card: Card): Card => {
+    if (card.key && confirmations[card.id] === undefined) return card;
+    if (leaveUnlinked.has(card.id)) return card;
+    return { ...card, key: confirmations[card.id] || card.key || createCardKey() };
+  };
+
+  const cards = study.cards.map(linkCard);
+  const keys = new Map(cards.map(card => [card.id, card.key]));
+  return {
+    ...study,
+    cards,
+    // Cards placed in predefined categories are copies; keep their keys in step
+    categories: study.categories.map(category => ({
+      ...category,
+      cards: category.cards.map(card => ({ ...card, key: keys.get(card.id) ?? card.key }))
+    }))
+  };
+}
+
+/**
+ * Record a study's results in the card history of each of its linked cards.
+ * Recording the same study again replaces its earlier entries.
+ */
+export function recordStudyInCardHistory(
+  system: TaggingSystem,
+  study: Study,
+  results: StudyResult[],
+  finalizedAt: number = Date.now()
+): number {
+  const cardSortResults = results.filter(result => CARD_SORT_TYPES.includes(result.studyType)) as CardSortResult[];
+  if (cardSortResults.length === 0) return 0;
+
+  const analysis = performAgreementAnalysis(standardizeStudyResults(study, cardSortResults), study.settings.minParticipants);
+  let recorded = 0;
+
+  study.cards.forEach(card => {
+    const agreement = analysis.cardAgreements.find(entry => entry.cardId === String(card.id));
+    if (!card.key || !agreement) return;
+
+    if (!system.cardMetadata.has(card.key)) {
+      addCardMetadata(system, createCardMetadata(card.key, card.text));
+    }
+
+    updateCardAnalytics(system, card.key, {
+      studyId: String(study.id),
+      studyName: study.name,
+      studyType: study.type,
+      participantCount: agreement.totalParticipants,
+      agreementScore: agreement.agreementScore,
+      primaryCategory: agreement.consensusCategory,
+      categoryFrequency: agreement.placementFrequency,
+      dateCompleted: finalizedAt
+    });
+    recorded++;
+  });
+
+  return recorded;
+}
+
+/**
+ * Link a study's cards and record its results in the card history. Without the
+ * researcher's confirmations, cards that may be an already tracked card are left
+ * unlinked until they finalize the results themselves.
+ */
+export function finalizeStudyResults(
+  system: TaggingSystem,
+  study: Study,
+  results: StudyResult[],
+  confirmations?: CardLinkConfirmations,
+  finalizedAt: number = Date.now()
+): Study {
+  const unconfirmed = confirmations
+    ? []
+    : findCardMatches(system, study).filter(match => match.candidates.length > 0).map(match => match.card.id);
+  const linkedStudy = {
+    ...linkStudyCards(study, confirmations, new Set(unconfirmed)),
+    resultsFinalizedAt: new Date(finalizedAt).toISOString()
+  };
+
+  recordStudyInCardHistory(system, linkedStudy, results, finalizedAt);
+  return linkedStudy;
+}
+
+/**
+ * Whether a closed card sort has results that were not recorded in the card history since it closed
+ */
+export function needsFinalizingOnClose(study: Study): boolean {
+  if (getStudyStatus(study) !== 'closed' || !CARD_SORT_TYPES.includes(study.type) || study.cards.length === 0) return false;
+  if (!study.resultsFinalizedAt) return true;
+  return study.statusChangedAt !== undefined && study.resultsFinalizedAt < study.statusChangedAt;
+}
+
+/**
+ * Tracked card history for the cards of one study
+ */
+export function getStudyCardHistory(system: TaggingSystem, study: Study): CardMetadata[] {
+  return study.cards
+    .map(card => (card.key ? system.cardMetadata.get(card.key) : undefined))
+    .filter((metadata): metadata is CardMetadata => metadata !== undefined);
+}
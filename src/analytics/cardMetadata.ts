@@ -70,6 +70,12 @@ export interface TaggingSystem {
   searchIndex: SearchIndex;
 }
 
+/** Plain-object form of a TaggingSystem for storage; the search index is rebuilt on restore */
+export interface SerializedTaggingSystem {
+  tags: CardTag[];
+  cards: CardMetadata[];
+}
+
 export interface TagCategoryInfo {
   category: TagCategory;
   name: string;
@@ -212,6 +218,33 @@ export function createTaggingSystem(): TaggingSystem {
   };
 }
 
+/**
+ * Convert a tagging system to plain objects for storage
+ */
+export function serializeTaggingSystem(system: TaggingSystem): SerializedTaggingSystem {
+  return {
+    tags: Array.from(system.tags.values()),
+    cards: Array.from(system.cardMetadata.values())
+  };
+}
+
+/**
+ * Rebuild a tagging system, including its search index, from stored data
+ */
+export function restoreTaggingSystem(data: SerializedTaggingSystem): TaggingSystem {
+  const system = createTaggingSystem();
+  data.tags.forEach(tag => addTag(system, tag));
+  data.cards.forEach(metadata => addCardMetadata(system, metadata));
+  return system;
+}
+
+/**
+ * Copy a tagging system so changes can be made without mutating the original
+ */
+export function cloneTaggingSystem(system: TaggingSystem): TaggingSystem {
+  return restoreTaggingSystem(JSON.parse(JSON.stringify(serializeTaggingSystem(system))));
+}
+
 /**
  * Create a new card tag
  */
@@ -324,9 +357,10 @@ function updateSearchIndex(system: TaggingSystem, metadata: CardMetadata): void
     propertyMap.get(value)!.add(cardId);
   });
 
-  // Index by agreement score range
+  // Index by agreement score range, moving the card out of the range it was in before
   const agreementScore = metadata.analytics.averageAgreementScore;
   const range = getAgreementRange(agreementScore);
+  system.searchIndex.byAgreementRange.forEach(cardIds => cardIds.delete(cardId));
   if (!system.searchIndex.byAgreementRange.has(range)) {
     system.searchIndex.byAgreementRange.set(range, new Set());
   }
@@ -407,6 +441,7 @@ export function updateCardAnalytics(
     primaryCategory: string;
     categoryFrequency: { [category: string]: number };
     problematicScore?: number;
+    dateCompleted?: number;
   }
 ): void {
   let metadata = system.cardMetadata.get(cardId);
@@ -421,10 +456,14 @@ export function updateCardAnalytics(
     averageAgreementScore: studyResults.agreementScore,
     mostCommonCategory: studyResults.primaryCategory,
     categoryFrequency: studyResults.categoryFrequency,
-    dateCompleted: Date.now()
+    dateCompleted: studyResults.dateCompleted ?? Date.now()
   };
 
-  metadata.crossStudyHistory.push(crossStudyEntry);
+  // A study recorded again (e.g. after more results came in) replaces its earlier entry
+  metadata.crossStudyHistory = [
+    ...metadata.crossStudyHistory.filter(entry => entry.studyId !== studyResults.studyId),
+    crossStudyEntry
+  ];
 
   // Recalculate analytics
   const analytics = metadata.analytics;
@@ -708,7 +747,7 @@ export function performCrossStudyAnalysis(system: TaggingSystem, cardId: string)
 /**
  * Calculate trend analysis from data points
  */
-function calculateTrend(dataPoints: { value: number; date: number }[]): TrendAnalysis {
+export function calculateTrend(dataPoints: { value: number; date: number }[]): TrendAnalysis {
   if (dataPoints.length < 2) {
     return {
       direction: 'stable',
@@ -0,0 +1,137 @@
+/**
+ * Cluster Suggestions Analytics Module
+ * Cuts the card clustering into candidate groups and turns them into new study drafts
+ * Routed to: analytics-specialist for information architecture synthesis
+ */
+
+import { Card, CardSortResult, Category, ClusterNode, Study, TreeNode } from '../types';
+import { SimilarityAnalysis, CategoryAnalysis, HierarchicalClustering, ClusterOptions } from './index';
+
+export interface SuggestionOptions extends ClusterOptions {
+  height?: number; // Cut where merges happen above this distance
+  groupCount?: number; // Or split until this many groups exist
+}
+
+export interface CandidateGroup {
+  id: number;
+  name: string;
+  cards: { id: number; text: string }[];
+  height: number; // Merge distance of the group; 0 for a single card
+  nameSupport: number; // 0-100 percentage of the group's card placements that used this name
+  alternativeNames: string[];
+}
+
+export type DraftStudyType = 'card-sorting' | 'tree-testing';
+
+/**
+ * Label a group with the name participants most often gave its cards,
+ * skipping names already taken by other groups
+ */
+function nameGroup(
+  results: CardSortResult[],
+  cards: { id: number; text: string }[],
+  usedNames: Set<string>,
+  fallback: string
+): Pick<CandidateGroup, 'name' | 'nameSupport' | 'alternativeNames'> {
+  const ranked = CategoryAnalysis.rankCategoryNames(results, cards.map(card => card.id));
+  const placements = ranked.reduce((sum, entry) => sum + entry.count, 0);
+  const chosen = ranked.find(entry => !usedNames.has(entry.name.toLowerCase()));
+
+  if (!chosen) {
+    return { name: fallback, nameSupport: 0, alternativeNames: ranked.slice(0, 3).map(entry => entry.name) };
+  }
+
+  usedNames.add(chosen.name.toLowerCase());
+  return {
+    name: chosen.name,
+    nameSupport: placements > 0 ? (chosen.count / placements) * 100 : 0,
+    alternativeNames: ranked.filter(entry => entry !== chosen).slice(0, 3).map(entry => entry.name)
+  };
+}
+
+/**
+ * Cluster the cards, cut the dendrogram and name each resulting group
+ */
+export function suggestCategoryStructure(results: CardSortResult[], options: SuggestionOptions = {}): CandidateGroup[] {
+  const allCards = SimilarityAnalysis.getCards(results);
+  if (allCards.length === 0) return [];
+
+  const root = HierarchicalClustering.cluster(results, options);
+  const groups = HierarchicalClustering.cutTree(root, { height: options.height, groupCount: options.groupCount });
+  const usedNames = new Set<string>();
+
+  // Name larger groups first so they get first pick of the popular names
+  const named = new Map<ClusterNode, Pick<CandidateGroup, 'name' | 'nameSupport' | 'alternativeNames'>>();
+  [...groups]
+    .sort((a, b) => HierarchicalClustering.getLeafOrder(b).length - HierarchicalClustering.getLeafOrder(a).length)
+    .forEach(group => {
+      const cards = HierarchicalClustering.getLeafOrder(group).map(index => allCards[index]);
+      named.set(group, nameGroup(results, cards, usedNames, `Group ${groups.indexOf(group) + 1}`));
+    });
+
+  return groups.map((group, index) => ({
+    id: index + 1,
+    ...named.get(group)!,
+    cards: HierarchicalClustering.getLeafOrder(group).map(cardIndex => allCards[cardIndex]),
+    height: group.distance
+  }));
+}
+
+/**
+ * Build a new closed card sort or tree test draft from candidate groups.
+ * Cards keep their rich content from the source study where available.
+ */
+export function createStudyDraftFromGroups(source: Study, groups: CandidateGroup[], type: DraftStudyType): Study {
+  const baseId = Date.now();
+  const sourceCards = new Map(source.cards.map(card => [card.id, card]));
+  const toCard = (card: { id: number; text: string }): Card => sourceCards.get(card.id) || { ...card };
+  const now = new Date().toISOString();
+
+  const draft: Study = {
+    id: baseId,
+    name: `${source.name} (suggested structure)`,
+    description: `Draft built from ${groups.length} clustered groups in "${source.name}".`,
+    type,
+    cards: [],
+    categories: [],
+    participants: 0,
+    status: 'draft',
+    created: now,
+    updated: now,
+    settings: { ...source.settings }
+  };
+
+  if (type === 'card-sorting') {
+    const categories: Category[] = groups.map((group, index) => ({
+      id: baseId + index + 1,
+      name: group.name,
+      cards: []
+    }));
+
+    return {
+      ...draft,
+      cards: groups.flatMap(group => group.cards.map(toCard)),
+      categories,
+      settings: { ...draft.settings, sortType: 'closed', allowCustomCategories: false }
+    };
+  }
+
+  let nextNodeId = baseId;
+  const treeStructure: TreeNode[] = groups.map(group => {
+    const groupId = ++nextNodeId;
+    return {
+      id: groupId,
+      name: group.name,
+      children: group.cards.map(card => ({
+        id: ++nextNodeId,
+        name: card.text,
+        parentId: groupId,
+        children: [],
+        level: 1
+      })),
+      level: 0
+    };
+  });
+
+  return { ...draft, treeStructure, tasks: [] };
+}
@@ -0,0 +1,74 @@
+/**
+ * Confidence Intervals Analytics Module
+ * Wilson score intervals and sample size checks for agreement, usage and similarity proportions
+ * Routed to: analytics-specialist with statistical analysis focus
+ */
+
+export interface ConfidenceInterval {
+  lower: number;
+  upper: number;
+}
+
+export interface SampleSizeCheck {
+  participants: number;
+  minParticipants: number;
+  isTooSmall: boolean;
+  message: string | null;
+}
+
+/** z-score for a two-sided 95% interval */
+export const Z_95 = 1.96;
+
+/** Participant target new studies start with */
+export const DEFAULT_MIN_PARTICIPANTS = 10;
+
+/**
+ * Wilson score interval for a proportion (0-1). Unlike the normal
+ * approximation it stays within [0, 1] and behaves at small samples.
+ */
+export function wilsonInterval(successes: number, trials: number, z: number = Z_95): ConfidenceInterval {
+  if (trials <= 0) return { lower: 0, upper: 0 };
+
+  const p = Math.min(1, Math.max(0, successes / trials));
+  const z2 = z * z;
+  const denominator = 1 + z2 / trials;
+  const center = (p + z2 / (2 * trials)) / denominator;
+  const margin = (z / denominator) * Math.sqrt((p * (1 - p)) / trials + z2 / (4 * trials * trials));
+
+  return {
+    lower: Math.max(0, center - margin),
+    upper: Math.min(1, center + margin)
+  };
+}
+
+/**
+ * Wilson interval expressed as 0-100 percentages
+ */
+export function wilsonPercentInterval(successes: number, trials: number, z: number = Z_95): ConfidenceInterval {
+  const interval = wilsonInterval(successes, trials, z);
+  return { lower: interval.lower * 100, upper: interval.upper * 100 };
+}
+
+/**
+ * Compare the number of results with the study's minimum participant target
+ */
+export function checkSampleSize(participants: number, minParticipants: number | undefined): SampleSizeCheck {
+  const minimum = minParticipants ?? 0;
+  const isTooSmall = participants < minimum;
+
+  return {
+    participants,
+    minParticipants: minimum,
+    isTooSmall,
+    message: isTooSmall
+      ? `Sample is too small: ${participants} of ${minimum} required participants. Treat scores as preliminary; confidence intervals are wide.`
+      : null
+  };
+}
+
+/**
+ * Format an interval as "lo–hi%" for display
+ */
+export function formatInterval(interval: ConfidenceInterval, digits: number = 0): string {
+  return `${interval.lower.toFixed(digits)}–${interval.upper.toFixed(digits)}%`;
+}
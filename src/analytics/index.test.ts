@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { CardSortResult, CategoryResult } from '../types';
+import { SimilarityAnalysis } from './index';
+import { wilsonInterval } from './confidenceIntervals';
+
+const CARD_A = { id: 1, text: 'A' };
+const CARD_B = { id: 2, text: 'B' };
+const CARD_C = { id: 3, text: 'C' };
+
+const sortResult = (participantId: string, cardSortResults: CategoryResult[]): CardSortResult => ({
+  participantId,
+  studyId: 1,
+  studyType: 'card-sorting',
+  startTime: 0,
+  completionTime: 1000,
+  totalDuration: 1000,
+  cardSortResults
+});
+
+const findPair = (results: CardSortResult[], id1: number, id2: number) =>
+  SimilarityAnalysis.calculateCardSimilarity(results, 'jaccard')
+    .find(pair => pair.cardId1 === id1 && pair.cardId2 === id2)!;
+
+describe('Jaccard similarity', () => {
+  it('divides by the participants who sorted either card', () => {
+    const results = [
+      sortResult('P1', [{ categoryId: 1, categoryName: 'Group', cards: [CARD_A, CARD_B] }]),
+      sortResult('P2', [{ categoryId: 1, categoryName: 'Group', cards: [CARD_A] }])
+    ];
+
+    const pair = findPair(results, CARD_A.id, CARD_B.id);
+
+    expect(pair.coOccurrence).toBe(1);
+    expect(pair.similarity).toBe(1 / 2);
+    expect(pair.confidenceInterval).toEqual(wilsonInterval(1, 2));
+  });
+
+  it('counts participants who split the cards but not those who sorted neither', () => {
+    const results = [
+      sortResult('P1', [{ categoryId: 1, categoryName: 'Group', cards: [CARD_A, CARD_B] }]),
+      sortResult('P2', [
+        { categoryId: 1, categoryName: 'One', cards: [CARD_A] },
+        { categoryId: 2, categoryName: 'Two', cards: [CARD_B] }
+      ]),
+      sortResult('P3', [{ categoryId: 1, categoryName: 'Group', cards: [CARD_C] }])
+    ];
+
+    const pair = findPair(results, CARD_A.id, CARD_B.id);
+
+    expect(pair.similarity).toBe(1 / 2);
+    expect(pair.confidenceInterval).toEqual(wilsonInterval(1, 2));
+  });
+
+  it('scores cards that were always grouped together as 1', () => {
+    const results = [
+      sortResult('P1', [{ categoryId: 1, categoryName: 'Group', cards: [CARD_A, CARD_B] }]),
+      sortResult('P2', [{ categoryId: 1, categoryName: 'Group', cards: [CARD_A, CARD_B, CARD_C] }])
+    ];
+
+    expect(findPair(results, CARD_A.id, CARD_B.id).similarity).toBe(1);
+  });
+});
@@ -1,76 +1,135 @@
 // Analytics utilities for Card Sorting
-import { CardSortResult, SimilarityPair, ClusterNode, CategoryFrequency } from '../types';
+import { CardSortResult, SimilarityPair, SimilarityMetric, LinkageMethod, ClusterNode, CategoryFrequency } from '../types';
+import { wilsonInterval } from './confidenceIntervals';
+
+export const SIMILARITY_METRIC_LABELS: Record<SimilarityMetric, string> = {
+  'co-occurrence': 'Co-occurrence',
+  'jaccard': 'Jaccard (category membership)',
+  'weighted-co-occurrence': 'Group-size weighted co-occurrence',
+  'actual-agreement': 'Actual agreement method'
+};
+
+export const SIMILARITY_METRIC_DESCRIPTIONS: Record<SimilarityMetric, string> = {
+  'co-occurrence': 'Share of participants who placed both cards in the same group.',
+  'jaccard': 'Participants who grouped both cards together divided by participants who sorted either card, so cards left unsorted are not counted as agreement.',
+  'weighted-co-occurrence': 'Co-occurrence where pairing inside a small group counts more than pairing inside a large catch-all group.',
+  'actual-agreement': 'Share of participants who placed both cards together under the same category label (open sorts).'
+};
+
+interface CardPlacement {
+  groupKey: string;
+  label: string;
+  groupSize: number;
+}
 
 export class SimilarityAnalysis {
-  static calculateCardSimilarity(results: CardSortResult[]): SimilarityPair[] {
-    const cardPairs = new Map<string, SimilarityPair>();
+  static getCards(results: CardSortResult[]): { id: number; text: string }[] {
+    const cards = new Map<number, { id: number; text: string }>();
+    results.forEach(result => {
+      result.cardSortResults.forEach(category => {
+        category.cards.forEach(card => {
+          if (!cards.has(card.id)) {
+            cards.set(card.id, { id: card.id, text: card.text });
+          }
+        });
+      });
+    });
+    return Array.from(cards.values());
+  }
+
+  static calculateCardSimilarity(results: CardSortResult[], metric: SimilarityMetric = 'co-occurrence'): SimilarityPair[] {
     const totalParticipants = results.length;
     
     if (totalParticipants === 0) return [];
     
-    // Get all unique cards from first result
-    const allCards: { id: number; text: string }[] = [];
-    if (results.length > 0) {
-      results[0].cardSortResults.forEach(category => {
+    const allCards = this.getCards(results);
+
+    // Index each participant's sort once so pair lookups are constant time
+    const placements = results.map(result => {
+      const byCard = new Map<number, CardPlacement>();
+      const sortedCards = result.cardSortResults.reduce((sum, category) => sum + category.cards.length, 0);
+      result.cardSortResults.forEach(category => {
         category.cards.forEach(card => {
-          if (!allCards.find(c => c.id === card.id)) {
-            allCards.push(card);
-          }
+          byCard.set(card.id, {
+            groupKey: `${category.categoryId}-${category.categoryName}`,
+            label: category.categoryName.trim().toLowerCase(),
+            groupSize: category.cards.length
+          });
         });
       });
-    }
+      return { byCard, sortedCards };
+    });
     
-    // Calculate co-occurrence for each card pair
+    const pairs: SimilarityPair[] = [];
+
     for (let i = 0; i < allCards.length; i++) {
       for (let j = i + 1; j < allCards.length; j++) {
         const card1 = allCards[i];
         const card2 = allCards[j];
-        const pairKey = `${Math.min(card1.id, card2.id)}-${Math.max(card1.id, card2.id)}`;
         
         let coOccurrence = 0;
+        let weightedCoOccurrence = 0;
+        let sortedCard1 = 0;
+        let sortedCard2 = 0;
+        let sortedBoth = 0;
+        const labelCounts = new Map<string, number>();
         
-        // Count how many participants put these cards in the same category
-        results.forEach(result => {
-          const foundInSameCategory = result.cardSortResults.some(category => 
-            category.cards.some(c => c.id === card1.id) &&
-            category.cards.some(c => c.id === card2.id)
-          );
-          
-          if (foundInSameCategory) {
-            coOccurrence++;
-          }
+        placements.forEach(({ byCard, sortedCards }) => {
+          const placement1 = byCard.get(card1.id);
+          const placement2 = byCard.get(card2.id);
+          if (placement1) sortedCard1++;
+          if (placement2) sortedCard2++;
+          if (placement1 && placement2) sortedBoth++;
+          if (!placement1 || !placement2 || placement1.groupKey !== placement2.groupKey) return;
+
+          coOccurrence++;
+          // A group holding every card says nothing; a pair on its own says the most
+          weightedCoOccurrence += sortedCards > 1
+            ? (sortedCards - placement1.groupSize + 1) / (sortedCards - 1)
+            : 1;
+          labelCounts.set(placement1.label, (labelCounts.get(placement1.label) || 0) + 1);
         });
         
-        const similarity = totalParticipants > 0 ? coOccurrence / totalParticipants : 0;
+        let similarity: number;
+        let trials = totalParticipants;
+        switch (metric) {
+          case 'jaccard': {
+            // Participants who sorted either card: those who sorted each, less those counted twice for sorting both
+            const union = sortedCard1 + sortedCard2 - sortedBoth;
+            similarity = union > 0 ? coOccurrence / union : 0;
+            trials = union;
+            break;
+          }
+          case 'weighted-co-occurrence':
+            similarity = weightedCoOccurrence / totalParticipants;
+            break;
+          case 'actual-agreement':
+            similarity = labelCounts.size > 0 ? Math.max(...labelCounts.values()) / totalParticipants : 0;
+            break;
+          default:
+            similarity = coOccurrence / totalParticipants;
+        }
         
-        cardPairs.set(pairKey, {
+        pairs.push({
           cardId1: card1.id,
           cardId2: card2.id,
           cardName1: card1.text,
           cardName2: card2.text,
           coOccurrence,
-          similarity
+          similarity,
+          // Weighted and agreement scores are treated as proportions of the same trials
+          confidenceInterval: wilsonInterval(similarity * trials, trials)
         });
       }
     }
     
-    return Array.from(cardPairs.values()).sort((a, b) => b.similarity - a.similarity);
+    return pairs.sort((a, b) => b.similarity - a.similarity);
   }
   
-  static createSimilarityMatrix(results: CardSortResult[]): number[][] {
-    const similarities = this.calculateCardSimilarity(results);
-    
-    // Get all unique cards
-    const allCards: { id: number; text: string }[] = [];
-    if (results.length > 0) {
-      results[0].cardSortResults.forEach(category => {
-        category.cards.forEach(card => {
-          if (!allCards.find(c => c.id === card.id)) {
-            allCards.push(card);
-          }
-        });
-      });
-    }
+  static createSimilarityMatrix(results: CardSortResult[], metric: SimilarityMetric = 'co-occurrence'): number[][] {
+    const similarities = this.calculateCardSimilarity(results, metric);
+    const allCards = this.getCards(results);
+    const indexById = new Map(allCards.map((card, index) => [card.id, index]));
     
     const matrix: number[][] = Array(allCards.length).fill(null).map(() => Array(allCards.length).fill(0));
     
@@ -81,10 +140,10 @@ export class SimilarityAnalysis {
     
     // Fill matrix with similarity values
     similarities.forEach(sim => {
-      const index1 = allCards.findIndex(c => c.id === sim.cardId1);
-      const index2 = allCards.findIndex(c => c.id === sim.cardId2);
+      const index1 = indexById.get(sim.cardId1);
+      const index2 = indexById.get(sim.cardId2);
       
-      if (index1 !== -1 && index2 !== -1) {
+      if (index1 !== undefined && index2 !== undefined) {
         matrix[index1][index2] = sim.similarity;
         matrix[index2][index1] = sim.similarity; // Symmetric matrix
       }
@@ -138,17 +197,76 @@ export class CategoryAnalysis {
     
     return frequencies.sort((a, b) => b.usage - a.usage);
   }
+
+  /**
+   * Rank the category names participants used for a set of cards by how many
+   * of those card placements carried each name (names compared case-insensitively)
+   */
+  static rankCategoryNames(results: CardSortResult[], cardIds: number[]): { name: string; count: number }[] {
+    const wanted = new Set(cardIds);
+    const names = new Map<string, { name: string; count: number }>();
+
+    this.calculateCategoryFrequency(results).forEach(frequency => {
+      const count = frequency.cards
+        .filter(card => wanted.has(card.id))
+        .reduce((sum, card) => sum + card.frequency, 0);
+      if (count === 0) return;
+
+      const key = frequency.categoryName.trim().toLowerCase();
+      const entry = names.get(key) || { name: frequency.categoryName.trim(), count: 0 };
+      entry.count += count;
+      names.set(key, entry);
+    });
+
+    return Array.from(names.values()).sort((a, b) => b.count - a.count);
+  }
+}
+
+export const LINKAGE_METHOD_LABELS: Record<LinkageMethod, string> = {
+  'single': 'Single (nearest card)',
+  'complete': 'Complete (farthest card)',
+  'average': 'Average',
+  'ward': "Ward's minimum variance"
+};
+
+export interface ClusterOptions {
+  metric?: SimilarityMetric;
+  linkage?: LinkageMethod;
+  optimalOrdering?: boolean; // Reorder branches so neighbouring leaves are as similar as possible
 }
 
 export class HierarchicalClustering {
-  static cluster(similarityMatrix: number[][], cardNames: string[]): ClusterNode {
+  static cluster(similarityMatrix: number[][], cardNames: string[], options?: ClusterOptions): ClusterNode;
+  static cluster(results: CardSortResult[], options?: ClusterOptions): ClusterNode;
+  static cluster(
+    input: number[][] | CardSortResult[],
+    namesOrOptions?: string[] | ClusterOptions,
+    clusterOptions: ClusterOptions = {}
+  ): ClusterNode {
+    if (input.length > 0 && !Array.isArray(input[0])) {
+      const results = input as CardSortResult[];
+      const options = (namesOrOptions || {}) as ClusterOptions;
+      return this.cluster(
+        SimilarityAnalysis.createSimilarityMatrix(results, options.metric),
+        SimilarityAnalysis.getCards(results).map(card => card.text),
+        options
+      );
+    }
+
+    const similarityMatrix = input as number[][];
+    const cardNames = (namesOrOptions || []) as string[];
+    const { linkage = 'average', optimalOrdering = true } = clusterOptions;
     const n = similarityMatrix.length;
     if (n === 0) return { name: 'Empty', children: [], distance: 0 };
     
-    // Convert similarity to distance (1 - similarity)
-    const distanceMatrix = similarityMatrix.map(row => 
-      row.map(sim => 1 - sim)
-    );
+    // Convert similarity to distance (1 - similarity); Ward works on squared distances
+    const distances = new Float64Array(n * n);
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < n; j++) {
+        const distance = i === j ? 0 : 1 - similarityMatrix[i][j];
+        distances[i * n + j] = linkage === 'ward' ? distance * distance : distance;
+      }
+    }
     
     // Initialize clusters (each card starts as its own cluster)
     const clusters: ClusterNode[] = cardNames.map((name, i) => ({
@@ -157,77 +275,245 @@ export class HierarchicalClustering {
       distance: 0,
       cardIndex: i
     }));
+    const sizes = new Array(n).fill(1);
+    const active = new Array(n).fill(true);
+    const merged: ClusterNode[] = [];
     
-    const distances = [...distanceMatrix.map(row => [...row])];
-    
-    // Merge clusters until only one remains
-    while (clusters.length > 1) {
-      let minDistance = Infinity;
-      let mergeI = 0, mergeJ = 1;
-      
-      // Find closest pair of clusters
-      for (let i = 0; i < clusters.length; i++) {
-        for (let j = i + 1; j < clusters.length; j++) {
-          const dist = this.getClusterDistance(clusters[i], clusters[j], distances);
-          if (dist < minDistance) {
-            minDistance = dist;
-            mergeI = i;
-            mergeJ = j;
-          }
+    // Nearest-neighbour chain: follow nearest neighbours until two clusters are
+    // each other's nearest, merge them, and keep the rest of the chain. Valid for
+    // all four linkages because they are reducible, and needs O(n²) time overall.
+    const chain: number[] = [];
+    let remaining = n;
+
+    while (remaining > 1) {
+      if (chain.length === 0) {
+        chain.push(active.indexOf(true));
+      }
+
+      const a = chain[chain.length - 1];
+      const previous = chain.length > 1 ? chain[chain.length - 2] : -1;
+      let nearest = previous;
+      let minDistance = previous !== -1 ? distances[a * n + previous] : Infinity;
+
+      for (let k = 0; k < n; k++) {
+        if (!active[k] || k === a) continue;
+        if (distances[a * n + k] < minDistance) {
+          minDistance = distances[a * n + k];
+          nearest = k;
         }
       }
-      
-      // Merge the closest clusters
+
+      if (nearest !== previous) {
+        chain.push(nearest);
+        continue;
+      }
+
+      // a and previous are mutual nearest neighbours: merge into a's slot
+      chain.pop();
+      chain.pop();
+      const b = previous;
+
+      for (let k = 0; k < n; k++) {
+        if (!active[k] || k === a || k === b) continue;
+        const updated = this.lanceWilliams(
+          linkage,
+          distances[a * n + k],
+          distances[b * n + k],
+          minDistance,
+          sizes[a],
+          sizes[b],
+          sizes[k]
+        );
+        distances[a * n + k] = updated;
+        distances[k * n + a] = updated;
+      }
+
       const newCluster: ClusterNode = {
-        name: `Cluster_${clusters.length}`,
-        children: [clusters[mergeI], clusters[mergeJ]],
-        distance: minDistance,
-        size: (clusters[mergeI].size || 1) + (clusters[mergeJ].size || 1)
+        name: '',
+        children: [clusters[a], clusters[b]],
+        distance: linkage === 'ward' ? Math.sqrt(minDistance) : minDistance,
+        size: sizes[a] + sizes[b]
       };
-      
-      // Remove merged clusters and add new one
-      const newClusters = clusters.filter((_, idx) => idx !== mergeI && idx !== mergeJ);
-      newClusters.push(newCluster);
-      clusters.splice(0, clusters.length, ...newClusters);
+      merged.push(newCluster);
+      clusters[a] = newCluster;
+      sizes[a] += sizes[b];
+      active[b] = false;
+      remaining--;
     }
+
+    // Name clusters in merge-height order, matching the count of clusters left before each merge
+    [...merged]
+      .sort((x, y) => x.distance - y.distance)
+      .forEach((cluster, index) => {
+        cluster.name = `Cluster_${n - index}`;
+      });
     
-    return clusters[0];
+    const root = clusters[active.indexOf(true)];
+    return optimalOrdering ? this.orderLeaves(root, similarityMatrix) : root;
   }
-  
-  private static getClusterDistance(cluster1: ClusterNode, cluster2: ClusterNode, distances: number[][]): number {
-    // For simplicity, use average linkage
-    if (cluster1.cardIndex !== undefined && cluster2.cardIndex !== undefined) {
-      return distances[cluster1.cardIndex][cluster2.cardIndex];
+
+  /**
+   * Cut the tree into groups, either where merges happen above a height or by
+   * splitting the highest merges until the target number of groups is reached
+   */
+  static cutTree(root: ClusterNode, options: { height?: number; groupCount?: number }): ClusterNode[] {
+    if (options.groupCount !== undefined) {
+      const groups = [root];
+      while (groups.length < options.groupCount) {
+        const splittable = groups.filter(group => group.children.length > 0);
+        if (splittable.length === 0) break;
+        const highest = splittable.reduce((a, b) => (b.distance > a.distance ? b : a));
+        groups.splice(groups.indexOf(highest), 1, ...highest.children);
+      }
+      return groups;
     }
-    
-    // Calculate average distance between all pairs in the clusters
-    const indices1 = this.getLeafIndices(cluster1);
-    const indices2 = this.getLeafIndices(cluster2);
-    
-    let total = 0;
-    let count = 0;
-    
-    indices1.forEach(i => {
-      indices2.forEach(j => {
-        total += distances[i][j];
-        count++;
-      });
-    });
-    
-    return count > 0 ? total / count : Infinity;
+
+    const height = options.height ?? 0;
+    const split = (node: ClusterNode): ClusterNode[] =>
+      node.children.length > 0 && node.distance > height ? node.children.flatMap(split) : [node];
+    return split(root);
   }
-  
-  private static getLeafIndices(cluster: ClusterNode): number[] {
+
+  /**
+   * Card indices in the order the dendrogram draws them
+   */
+  static getLeafOrder(cluster: ClusterNode): number[] {
     if (cluster.cardIndex !== undefined) {
       return [cluster.cardIndex];
     }
-    
-    const indices: number[] = [];
-    cluster.children.forEach(child => {
-      indices.push(...this.getLeafIndices(child));
+    return cluster.children.flatMap(child => this.getLeafOrder(child));
+  }
+
+  private static lanceWilliams(
+    linkage: LinkageMethod,
+    distanceA: number,
+    distanceB: number,
+    distanceAB: number,
+    sizeA: number,
+    sizeB: number,
+    sizeK: number
+  ): number {
+    switch (linkage) {
+      case 'single':
+        return Math.min(distanceA, distanceB);
+      case 'complete':
+        return Math.max(distanceA, distanceB);
+      case 'ward':
+        return ((sizeA + sizeK) * distanceA + (sizeB + sizeK) * distanceB - sizeK * distanceAB) /
+          (sizeA + sizeB + sizeK);
+      default:
+        return (sizeA * distanceA + sizeB * distanceB) / (sizeA + sizeB);
+    }
+  }
+
+  /**
+   * Optimal leaf ordering (Bar-Joseph et al., 2001): flip branches so the sum of
+   * distances between neighbouring leaves is minimal, without changing the tree.
+   * best[i][j] is the cheapest ordering of the subtree joining leaves i and j with
+   * i first and j last; each pair has exactly one such subtree, so one n×n table suffices.
+   */
+  private static orderLeaves(root: ClusterNode, similarityMatrix: number[][]): ClusterNode {
+    const n = similarityMatrix.length;
+    const distance = (i: number, j: number) => 1 - similarityMatrix[i][j];
+    const best = new Float64Array(n * n).fill(Infinity);
+    const leaves = new Map<ClusterNode, number[]>();
+
+    const fill = (node: ClusterNode): number[] => {
+      if (node.cardIndex !== undefined) {
+        best[node.cardIndex * n + node.cardIndex] = 0;
+        leaves.set(node, [node.cardIndex]);
+        return [node.cardIndex];
+      }
+
+      const [left, right] = node.children.map(fill);
+      const [leftNode, rightNode] = node.children;
+      const joinSides = (outer: number[], outerNode: ClusterNode, inner: number[], innerNode: ClusterNode) => {
+        outer.forEach(i => {
+          // Cheapest way to start at i, end the outer side at k and step to m on the inner side
+          const toInner = new Float64Array(n).fill(Infinity);
+          this.innerEnds(outerNode, i, leaves).forEach(k => {
+            const cost = best[i * n + k];
+            inner.forEach(m => {
+              const total = cost + distance(k, m);
+              if (total < toInner[m]) toInner[m] = total;
+            });
+          });
+          inner.forEach(j => {
+            let min = Infinity;
+            this.innerEnds(innerNode, j, leaves).forEach(m => {
+              const total = toInner[m] + best[m * n + j];
+              if (total < min) min = total;
+            });
+            best[i * n + j] = min;
+          });
+        });
+      };
+
+      joinSides(left, leftNode, right, rightNode);
+      joinSides(right, rightNode, left, leftNode);
+
+      const all = [...left, ...right];
+      leaves.set(node, all);
+      return all;
+    };
+
+    if (fill(root).length < 3) return root;
+
+    // The whole ordering starts on one side of the root and ends on the other
+    const [rootLeft, rootRight] = root.children.map(child => leaves.get(child)!);
+    let start = rootLeft[0];
+    let end = rootRight[0];
+    [[rootLeft, rootRight], [rootRight, rootLeft]].forEach(([firstSide, lastSide]) => {
+      firstSide.forEach(i => {
+        lastSide.forEach(j => {
+          if (best[i * n + j] < best[start * n + end]) {
+            start = i;
+            end = j;
+          }
+        });
+      });
     });
-    
-    return indices;
+
+    const rebuild = (node: ClusterNode, first: number, last: number): ClusterNode => {
+      if (node.cardIndex !== undefined) return node;
+
+      const [leftNode, rightNode] = node.children;
+      const [firstNode, lastNode] = leaves.get(leftNode)!.includes(first)
+        ? [leftNode, rightNode]
+        : [rightNode, leftNode];
+
+      // Recover where the ordering crosses from one child to the other
+      let bestK = first;
+      let bestM = last;
+      let min = Infinity;
+      this.innerEnds(firstNode, first, leaves).forEach(k => {
+        this.innerEnds(lastNode, last, leaves).forEach(m => {
+          const total = best[first * n + k] + distance(k, m) + best[m * n + last];
+          if (total < min) {
+            min = total;
+            bestK = k;
+            bestM = m;
+          }
+        });
+      });
+
+      return {
+        ...node,
+        children: [rebuild(firstNode, first, bestK), rebuild(lastNode, bestM, last)]
+      };
+    };
+
+    return rebuild(root, start, end);
+  }
+
+  /**
+   * Leaves that can end an ordering of a subtree starting at a given leaf:
+   * those on the opposite branch, or the leaf itself for a single card
+   */
+  private static innerEnds(node: ClusterNode, start: number, leaves: Map<ClusterNode, number[]>): number[] {
+    if (node.cardIndex !== undefined) return [node.cardIndex];
+    const [left, right] = node.children;
+    return leaves.get(left)!.includes(start) ? leaves.get(right)! : leaves.get(left)!;
   }
 }
 
@@ -254,14 +540,24 @@ export class PerformanceOptimizer {
     }) as T;
   }
   
-  static debounce<T extends (...args: any[]) => any>(func: T, delay: number): T {
+  // The returned function can be cancelled so a pending call doesn't fire after its context is gone
+  static debounce<T extends (...args: any[]) => any>(func: T, delay: number): T & { cancel: () => void } {
     let timeoutId: ReturnType<typeof setTimeout> | null = null;
     
-    return ((...args: any[]) => {
+    const debounced = ((...args: any[]) => {
       if (timeoutId) {
         clearTimeout(timeoutId);
       }
       timeoutId = setTimeout(() => func(...args), delay);
-    }) as T;
+    }) as T & { cancel: () => void };
+
+    debounced.cancel = () => {
+      if (timeoutId) {
+        clearTimeout(timeoutId);
+        timeoutId = null;
+      }
+    };
+
+    return debounced;
   }
 }
\ No newline at end of file
@@ -4,17 +4,42 @@
  * Routed to: analytics-specialist for temporal pattern analysis
  */
 
+import type { StudyResult } from '../types';
+
 export interface CardMovement {
   cardId: string;
   cardText: string;
   fromCategory: string | null; // null if initial placement
-  toCategory: string;
+  toCategory: string | null; // null if returned to the unsorted cards
   timestamp: number;
   movementIndex: number; // Order of movement within session
   sessionId: string;
   participantId: string;
 }
 
+export type CategoryEventType = 'create' | 'rename' | 'delete';
+
+export interface CategoryEvent {
+  type: CategoryEventType;
+  categoryName: string;
+  previousName?: string; // For renames
+  timestamp: number;
+  movementIndex: number; // Shares the ordering of card movements
+  sessionId: string;
+  participantId: string;
+}
+
+/**
+ * Journey data recorded during a session and stored with the participant's result
+ */
+export interface JourneyData {
+  participantId: string;
+  sessionId: string;
+  movements: CardMovement[];
+  categoryEvents: CategoryEvent[];
+  timestamp: number;
+}
+
 export interface ParticipantJourney {
   participantId: string;
   sessionId: string;
@@ -22,7 +47,8 @@ export interface ParticipantJourney {
   endTime: number;
   totalDuration: number;
   movements: CardMovement[];
-  finalState: { [cardId: string]: string }; // Final category for each card
+  categoryEvents: CategoryEvent[];
+  finalState: { [cardId: string]: string }; // Final category for each card still in one
   statistics: {
     totalMoves: number;
     uniqueCardsMovedCount: number;
@@ -84,6 +110,10 @@ export interface ConvergencePattern {
   movementTrajectory: string[]; // Categories the card moved through
 }
 
+export const UNSORTED_LABEL = 'Unsorted';
+
+const getTargetLabel = (movement: CardMovement): string => movement.toCategory ?? UNSORTED_LABEL;
+
 /**
  * Track a card movement event
  */
@@ -91,7 +121,7 @@ export function trackCardMovement(
   cardId: string,
   cardText: string,
   fromCategory: string | null,
-  toCategory: string,
+  toCategory: string | null,
   participantId: string,
   sessionId: string,
   movementIndex: number
@@ -111,22 +141,42 @@ export function trackCardMovement(
 /**
  * Analyze a participant's complete journey
  */
-export function analyzeParticipantJourney(movements: CardMovement[], participantId: string): ParticipantJourney {
+export function analyzeParticipantJourney(
+  movements: CardMovement[],
+  participantId: string,
+  categoryEvents: CategoryEvent[] = []
+): ParticipantJourney {
   if (movements.length === 0) {
     throw new Error('No movements provided for journey analysis');
   }
 
   const sessionId = movements[0].sessionId;
-  const sortedMovements = movements.sort((a, b) => a.movementIndex - b.movementIndex);
+  const sortedMovements = [...movements].sort((a, b) => a.movementIndex - b.movementIndex);
+  const sortedCategoryEvents = [...categoryEvents].sort((a, b) => a.movementIndex - b.movementIndex);
 
   const startTime = Math.min(...sortedMovements.map(m => m.timestamp));
   const endTime = Math.max(...sortedMovements.map(m => m.timestamp));
   const totalDuration = endTime - startTime;
 
-  // Calculate final state
+  // Calculate final state, replaying renames so cards end up under their category's last name
   const finalState: { [cardId: string]: string } = {};
-  sortedMovements.forEach(movement => {
-    finalState[movement.cardId] = movement.toCategory;
+  const events = [
+    ...sortedMovements.map(movement => ({ movementIndex: movement.movementIndex, movement })),
+    ...sortedCategoryEvents.map(categoryEvent => ({ movementIndex: categoryEvent.movementIndex, categoryEvent }))
+  ].sort((a, b) => a.movementIndex - b.movementIndex);
+  events.forEach(event => {
+    if ('movement' in event) {
+      if (event.movement.toCategory === null) {
+        delete finalState[event.movement.cardId];
+      } else {
+        finalState[event.movement.cardId] = event.movement.toCategory;
+      }
+    } else if (event.categoryEvent.type === 'rename') {
+      const { previousName, categoryName } = event.categoryEvent;
+      Object.keys(finalState).forEach(cardId => {
+        if (finalState[cardId] === previousName) finalState[cardId] = categoryName;
+      });
+    }
   });
 
   // Analyze movement patterns
@@ -145,7 +195,7 @@ export function analyzeParticipantJourney(movements: CardMovement[], participant
   // Count undo/redo events (cards moved back to previous categories)
   let undoRedoCount = 0;
   cardMovements.forEach(cardMoves => {
-    const categories = cardMoves.map(m => m.toCategory);
+    const categories = cardMoves.map(getTargetLabel);
     for (let i = 1; i < categories.length; i++) {
       if (categories.slice(0, i).includes(categories[i])) {
         undoRedoCount++;
@@ -170,6 +220,7 @@ export function analyzeParticipantJourney(movements: CardMovement[], participant
     endTime,
     totalDuration,
     movements: sortedMovements,
+    categoryEvents: sortedCategoryEvents,
     finalState,
     statistics: {
       totalMoves,
@@ -362,7 +413,7 @@ function analyzeMovementPatterns(journeys: ParticipantJourney[]): MovementPatter
     // Analyze patterns within each card's movements
     cardMovements.forEach((moves, cardId) => {
       if (moves.length >= 2) {
-        const trajectory = moves.map(m => m.toCategory).join(' → ');
+        const trajectory = moves.map(getTargetLabel).join(' → ');
         const pattern = `${moves.length} moves: ${trajectory}`;
 
         if (!patterns.has(pattern)) {
@@ -418,7 +469,7 @@ function analyzeConvergencePatterns(journeys: ParticipantJourney[]): Convergence
       const cardMoves = journey.movements.filter(m => m.cardId === cardId);
       if (cardMoves.length > 0) {
         cardText = cardMoves[0].cardText;
-        const trajectory = cardMoves.map(m => m.toCategory);
+        const trajectory = cardMoves.map(getTargetLabel);
         cardTrajectories.push(trajectory);
       }
     });
@@ -531,11 +582,23 @@ function analyzePhases(journeys: ParticipantJourney[]): StudyJourneyAnalysis['ph
   return result;
 }
 
+/**
+ * Journeys recorded with card sort results. Results from before journey
+ * tracking, imported results and sessions without any movements are skipped.
+ */
+export function getResultJourneys(results: StudyResult[]): ParticipantJourney[] {
+  return results.flatMap(result => {
+    if (result.studyType === 'tree-testing' || !result.journey || result.journey.movements.length === 0) return [];
+    return [analyzeParticipantJourney(result.journey.movements, result.participantId, result.journey.categoryEvents)];
+  });
+}
+
 /**
  * Create journey tracking system for real-time use during card sorting
  */
 export class JourneyTracker {
   private movements: CardMovement[] = [];
+  private categoryEvents: CategoryEvent[] = [];
   private sessionId: string;
   private participantId: string;
   private movementIndex = 0;
@@ -546,9 +609,20 @@ export class JourneyTracker {
   }
 
   /**
-   * Track a card movement
+   * Continue a journey saved with exportData, e.g. when a participant resumes a session
    */
-  trackMovement(cardId: string, cardText: string, fromCategory: string | null, toCategory: string): CardMovement {
+  static restore(data: JourneyData): JourneyTracker {
+    const tracker = new JourneyTracker(data.participantId, data.sessionId);
+    tracker.movements = [...data.movements];
+    tracker.categoryEvents = [...(data.categoryEvents || [])];
+    tracker.movementIndex = Math.max(-1, ...tracker.movements.map(m => m.movementIndex), ...tracker.categoryEvents.map(e => e.movementIndex)) + 1;
+    return tracker;
+  }
+
+  /**
+   * Track a card movement; pass null as toCategory when the card goes back to the unsorted cards
+   */
+  trackMovement(cardId: string, cardText: string, fromCategory: string | null, toCategory: string | null): CardMovement {
     const movement = trackCardMovement(
       cardId,
       cardText,
@@ -563,6 +637,24 @@ export class JourneyTracker {
     return movement;
   }
 
+  /**
+   * Track a participant creating, renaming or deleting a category
+   */
+  trackCategoryChange(type: CategoryEventType, categoryName: string, previousName?: string): CategoryEvent {
+    const categoryEvent: CategoryEvent = {
+      type,
+      categoryName,
+      ...(previousName !== undefined && { previousName }),
+      timestamp: Date.now(),
+      movementIndex: this.movementIndex++,
+      sessionId: this.sessionId,
+      participantId: this.participantId
+    };
+
+    this.categoryEvents.push(categoryEvent);
+    return categoryEvent;
+  }
+
   /**
    * Get current movements
    */
@@ -570,11 +662,18 @@ export class JourneyTracker {
     return [...this.movements];
   }
 
+  /**
+   * Get current category changes
+   */
+  getCategoryEvents(): CategoryEvent[] {
+    return [...this.categoryEvents];
+  }
+
   /**
    * Get complete journey analysis
    */
   getJourney(): ParticipantJourney {
-    return analyzeParticipantJourney(this.movements, this.participantId);
+    return analyzeParticipantJourney(this.movements, this.participantId, this.categoryEvents);
   }
 
   /**
@@ -582,6 +681,7 @@ export class JourneyTracker {
    */
   reset(): void {
     this.movements = [];
+    this.categoryEvents = [];
     this.movementIndex = 0;
     this.sessionId = `session_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
   }
@@ -589,17 +689,13 @@ export class JourneyTracker {
   /**
    * Export journey data for persistence
    */
-  exportData(): {
-    participantId: string;
-    sessionId: string;
-    movements: CardMovement[];
-    timestamp: number;
-  } {
+  exportData(): JourneyData {
     return {
       participantId: this.participantId,
       sessionId: this.sessionId,
-      movements: this.movements,
+      movements: [...this.movements],
+      categoryEvents: [...this.categoryEvents],
       timestamp: Date.now()
     };
   }
-}
\ No newline at end of file
+}
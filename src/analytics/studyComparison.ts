@@ -0,0 +1,265 @@
+/**
+ * Study Comparison Module
+ * Aligns shared cards across card sort studies and compares agreement, placements and similarity between them
+ * Routed to: analytics-specialist for cross-study comparison
+ */
+
+import { CardSortResult, SimilarityMetric, Study, StudyResult, StudyResultsIndex } from '../types';
+import { SimilarityAnalysis } from './index';
+import { performAgreementAnalysis } from './agreementScores';
+import { calculateTrend, type StudyComparison, type TrendAnalysis } from './cardMetadata';
+import { normalizeCardText } from './cardHistory';
+import { standardizeStudyResults } from '../utils/categoryStandardization';
+import { getResultsForStudy } from '../utils/resultUtils';
+import { getStudyAtVersion, getStudyVersions } from '../utils/studyVersions';
+
+export interface ComparisonInput {
+  study: Study;
+  results: StudyResult[];
+  version?: number; // Set when comparing versions of the same study
+}
+
+/**
+ * One card as it appears in each compared study
+ */
+export interface AlignedCard {
+  alignmentKey: string;
+  text: string;
+  cardIds: Record<string, number>; // comparison key -> card id in that study
+  matchedBy: 'key' | 'text';
+}
+
+export interface CardComparison {
+  alignmentKey: string;
+  text: string;
+  studies: StudyComparison[]; // In study order; deviation is from this card's mean agreement
+  agreementDelta: number; // Last study minus the baseline (first) study, in percentage points
+  placementShares: Record<string, Record<string, number>>; // comparison key -> category -> % of participants
+  placementShifted: boolean; // The consensus category differs from the baseline
+  trend: TrendAnalysis;
+}
+
+export interface StudyComparisonSummary {
+  key: string;
+  studyId: number;
+  version?: number;
+  studyName: string; // Includes the version when comparing versions
+  participantCount: number;
+  overallAgreementScore: number; // Across all of the study's cards
+  sharedCardAgreement: number; // Across the shared cards only
+  date: number;
+}
+
+export interface StudyComparisonReport {
+  metric: SimilarityMetric;
+  studies: StudyComparisonSummary[]; // Oldest first; the first is the baseline
+  sharedCards: AlignedCard[];
+  unsharedCards: Record<string, string[]>; // comparison key -> texts of cards not in every study
+  cards: CardComparison[];
+  similarityMatrices: Record<string, number[][]>; // comparison key -> matrix over sharedCards, in their order
+  similarityDelta: number[][]; // Last study minus baseline
+}
+
+const CARD_SORT_TYPES = ['card-sorting', 'open-card-sorting', 'reverse-card-sorting'];
+
+const average = (values: number[]): number =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+/**
+ * Identify a compared study, or one version of it
+ */
+export function getComparisonKey(input: Pick<ComparisonInput, 'study' | 'version'>): string {
+  return input.version === undefined ? String(input.study.id) : `${input.study.id}@v${input.version}`;
+}
+
+/**
+ * Card sort studies that have results, ready to compare. Studies with several
+ * versions are offered once per version that has results.
+ */
+export function getComparisonCandidates(studies: Study[], index: StudyResultsIndex): ComparisonInput[] {
+  return studies
+    .filter(study => CARD_SORT_TYPES.includes(study.type))
+    .flatMap(study => {
+      const versions = getStudyVersions(study, index);
+      if (versions.length === 1) {
+        return [{ study, results: getResultsForStudy(index, study.id, { attempts: 'latest' }) }];
+      }
+      return versions.map(({ version }) => ({
+        study: getStudyAtVersion(study, version),
+        results: getResultsForStudy(index, study.id, { attempts: 'latest', version }),
+        version
+      }));
+    })
+    .filter(candidate => candidate.results.length > 0);
+}
+
+/**
+ * Match cards between studies: by their stable card key where both have one,
+ * otherwise by normalized text. Returns only cards present in every study.
+ */
+export function alignStudyCards(inputs: Pick<ComparisonInput, 'study' | 'version'>[]): AlignedCard[] {
+  const aligned = new Map<string, AlignedCard>();
+
+  inputs.forEach(input => {
+    const studyKey = getComparisonKey(input);
+    input.study.cards.forEach(card => {
+      const textKey = `text:${normalizeCardText(card.text)}`;
+      // A keyed card joins the group holding its key, or the text group if an unkeyed copy got there first
+      const keyGroup = card.key ? aligned.get(`key:${card.key}`) : undefined;
+      const textGroup = aligned.get(textKey);
+      const group = keyGroup || (textGroup && !(studyKey in textGroup.cardIds) ? textGroup : undefined);
+
+      if (group) {
+        group.cardIds[studyKey] = card.id;
+        return;
+      }
+
+      const alignmentKey = card.key ? `key:${card.key}` : textKey;
+      const created: AlignedCard = { alignmentKey, text: card.text, cardIds: { [studyKey]: card.id }, matchedBy: card.key ? 'key' : 'text' };
+      aligned.set(alignmentKey, created);
+      if (card.key && !aligned.has(textKey)) aligned.set(textKey, created);
+    });
+  });
+
+  const unique = Array.from(new Set(aligned.values()));
+  return unique.filter(card => inputs.every(input => getComparisonKey(input) in card.cardIds));
+}
+
+function getStudyDate(study: Study, results: StudyResult[], version?: number): number {
+  // Only the current version's results are recorded when finalizing, so versions go by their own results
+  if (study.resultsFinalizedAt && version === undefined) return new Date(study.resultsFinalizedAt).getTime();
+  const completions = results.map(result => result.completionTime);
+  return completions.length > 0 ? Math.max(...completions) : new Date(study.created).getTime();
+}
+
+/**
+ * Compare two or more card sort studies on the cards they share. Studies are
+ * ordered by when their results came in; the earliest is the baseline.
+ */
+export function compareStudies(inputs: ComparisonInput[], metric: SimilarityMetric = 'co-occurrence'): StudyComparisonReport {
+  if (inputs.length < 2) {
+    throw new Error('Select at least two studies to compare');
+  }
+
+  const prepared = inputs
+    .map(({ study, results, version }) => {
+      const cardSortResults = standardizeStudyResults(
+        study,
+        results.filter(result => CARD_SORT_TYPES.includes(result.studyType)) as CardSortResult[]
+      );
+      return {
+        key: getComparisonKey({ study, version }),
+        study,
+        version,
+        name: version === undefined ? study.name : `${study.name} (v${version})`,
+        results: cardSortResults,
+        date: getStudyDate(study, cardSortResults, version),
+        agreement: performAgreementAnalysis(cardSortResults, study.settings.minParticipants)
+      };
+    })
+    .sort((a, b) => a.date - b.date);
+
+  const sharedCards = alignStudyCards(prepared);
+  const sharedIds = new Map(prepared.map(({ key }) => [key, new Set(sharedCards.map(card => card.cardIds[key]))]));
+
+  const cards = sharedCards.map((card): CardComparison => {
+    const perStudy = prepared.map(({ key, name, results, date, agreement }) => {
+      const cardAgreement = agreement.cardAgreements.find(entry => entry.cardId === String(card.cardIds[key]));
+      const participantCount = cardAgreement?.totalParticipants || 0;
+      const shares = Object.fromEntries(Object.entries(cardAgreement?.placementFrequency || {}).map(([category, count]) => [
+        category,
+        participantCount > 0 ? (count / participantCount) * 100 : 0
+      ]));
+      return {
+        comparison: {
+          studyId: key,
+          studyName: name,
+          agreementScore: cardAgreement?.agreementScore || 0,
+          primaryCategory: cardAgreement?.consensusCategory || '',
+          participantCount: participantCount || results.length,
+          date,
+          deviation: 0
+        },
+        shares
+      };
+    });
+
+    const meanAgreement = average(perStudy.map(entry => entry.comparison.agreementScore));
+    const studies = perStudy.map(entry => ({
+      ...entry.comparison,
+      deviation: Math.abs(entry.comparison.agreementScore - meanAgreement)
+    }));
+    const baseline = studies[0];
+    const latest = studies[studies.length - 1];
+
+    return {
+      alignmentKey: card.alignmentKey,
+      text: card.text,
+      studies,
+      agreementDelta: latest.agreementScore - baseline.agreementScore,
+      placementShares: Object.fromEntries(prepared.map(({ key }, index) => [key, perStudy[index].shares])),
+      // Category names are compared case-insensitively, as in the similarity labels
+      placementShifted: studies.some(entry =>
+        entry.primaryCategory.trim().toLowerCase() !== baseline.primaryCategory.trim().toLowerCase()
+      ),
+      trend: calculateTrend(studies.map(entry => ({ value: entry.agreementScore, date: entry.date })))
+    };
+  });
+
+  const similarityMatrices = Object.fromEntries(prepared.map(({ key, results }) => {
+    const studyCards = SimilarityAnalysis.getCards(results);
+    const matrix = SimilarityAnalysis.createSimilarityMatrix(results, metric);
+    const indexById = new Map(studyCards.map((studyCard, index) => [studyCard.id, index]));
+    const order = sharedCards.map(card => indexById.get(card.cardIds[key]));
+    // Cards nobody placed have no row in the study matrix
+    return [key, order.map(i => order.map(j => (i === undefined || j === undefined ? 0 : matrix[i][j])))];
+  }));
+
+  const baselineMatrix = similarityMatrices[prepared[0].key];
+  const latestMatrix = similarityMatrices[prepared[prepared.length - 1].key];
+
+  return {
+    metric,
+    studies: prepared.map(({ key, study, version, name, results, date, agreement }) => ({
+      key,
+      studyId: study.id,
+      version,
+      studyName: name,
+      participantCount: results.length,
+      overallAgreementScore: agreement.overallAgreementScore,
+      sharedCardAgreement: average(agreement.cardAgreements
+        .filter(entry => sharedIds.get(key)!.has(Number(entry.cardId)))
+        .map(entry => entry.agreementScore)),
+      date
+    })),
+    sharedCards,
+    unsharedCards: Object.fromEntries(prepared.map(({ key, study }) => [
+      key,
+      study.cards.filter(card => !sharedIds.get(key)!.has(card.id)).map(card => card.text)
+    ])),
+    cards,
+    similarityMatrices,
+    similarityDelta: baselineMatrix.map((row, i) => row.map((value, j) => latestMatrix[i][j] - value))
+  };
+}
+
+/**
+ * Flatten a comparison into diff-style rows: one per shared card, with each
+ * study's agreement and consensus category and the change from the baseline
+ */
+export function createComparisonDiffRows(report: StudyComparisonReport): Record<string, string | number>[] {
+  return report.cards.map(card => {
+    const row: Record<string, string | number> = {
+      change: card.agreementDelta > 0 ? '+' : card.agreementDelta < 0 ? '-' : '=',
+      card: card.text
+    };
+    card.studies.forEach(entry => {
+      row[`${entry.studyName} agreement %`] = Number(entry.agreementScore.toFixed(1));
+      row[`${entry.studyName} category`] = entry.primaryCategory;
+    });
+    row['agreement delta'] = Number(card.agreementDelta.toFixed(1));
+    row['category shifted'] = card.placementShifted ? 'yes' : 'no';
+    row.trend = card.trend.direction;
+    return row;
+  });
+}
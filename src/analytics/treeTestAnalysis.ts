@@ -0,0 +1,408 @@
+/**
+ * Tree Test Analysis Module
+ * Computes task success, directness, first-click, path and abandonment metrics for tree tests
+ * Routed to: analytics-specialist for navigation pattern analysis
+ */
+
+import {
+  Study,
+  TreeNode,
+  TreeTestTask,
+  TreeTestResult,
+  TaskResult,
+  TreeTestAnalytics,
+  PathAnalysis,
+  FailurePoint
+} from '../types';
+import { findNodeById, getTaskOutcome, normalizeTreeTestTasks } from '../utils/treeTestUtils';
+
+export interface FirstClickAnalysis {
+  nodeId: number;
+  nodeName: string;
+  count: number;
+  percentage: number;
+  isCorrect: boolean; // Node leads towards a correct answer
+}
+
+export interface PieTreeNode {
+  nodeId: number;
+  name: string;
+  visits: number; // Participants whose route passed through this node
+  selections: number; // Participants who nominated this node as their answer
+  continued: number; // Participants who went deeper from this node
+  abandoned: number; // Participants whose route ended here without nominating it
+  onCorrectPath: boolean; // Node is a correct answer or an ancestor of one
+  answerType: 'correct' | 'acceptable' | null;
+  children: PieTreeNode[];
+}
+
+export interface SearchComparison {
+  searchAttempts: number; // Attempts where the participant searched at least once
+  browseAttempts: number;
+  searchUsageRate: number; // 0-100 percentage
+  searchSuccessRate: number;
+  browseSuccessRate: number;
+  topQueries: { query: string; count: number }[];
+}
+
+export interface TaskAnalysis {
+  taskId: number;
+  taskText: string;
+  attempts: number;
+  successRate: number; // 0-100 percentage
+  partialSuccessRate: number;
+  failureRate: number;
+  gaveUpRate: number;
+  timedOutRate: number;
+  directSuccessRate: number;
+  directnessRate: number; // Attempts with no backtracking, whatever the outcome
+  firstClickCorrectRate: number;
+  averageClicks: number;
+  averageBacktracks: number;
+  averageTimeToFirstClick: number;
+  averageDuration: number;
+  firstClicks: FirstClickAnalysis[];
+  mostCommonPaths: PathAnalysis[];
+  failurePoints: FailurePoint[];
+  pieTree: PieTreeNode[];
+  search: SearchComparison;
+}
+
+export interface TreeTestAnalysis {
+  overall: TreeTestAnalytics;
+  firstClickCorrectRate: number;
+  gaveUpRate: number;
+  timedOutRate: number;
+  search: SearchComparison;
+  tasks: TaskAnalysis[];
+}
+
+/**
+ * Resolve a recorded breadcrumb path ("Home" > names) to tree nodes
+ */
+export function resolvePathNodes(treeStructure: TreeNode[], path: string[]): TreeNode[] {
+  const names = path[0] === 'Home' ? path.slice(1) : path;
+  const resolved: TreeNode[] = [];
+  let level = treeStructure;
+
+  for (const name of names) {
+    const node = level.find(n => n.name === name);
+    if (!node) break;
+    resolved.push(node);
+    level = node.children;
+  }
+
+  return resolved;
+}
+
+/**
+ * Get the nodes a participant visited, in order. Uses the navigation event log
+ * when present and falls back to the recorded breadcrumb for older results.
+ */
+export function getRouteNodes(treeStructure: TreeNode[], taskResult: TaskResult): TreeNode[] {
+  if (!taskResult.events) {
+    return resolvePathNodes(treeStructure, taskResult.path);
+  }
+
+  return taskResult.events
+    .map(event => event.nodeId !== null ? findNodeById(treeStructure, event.nodeId) : null)
+    .filter((node): node is TreeNode => node !== null);
+}
+
+/**
+ * Get the node where a participant was when the attempt ended (null for Home)
+ */
+function getFinalLocation(treeStructure: TreeNode[], taskResult: TaskResult): TreeNode | null {
+  if (taskResult.events) {
+    const moves = taskResult.events.filter(event => event.type !== 'search');
+    const lastEvent = moves[moves.length - 1];
+    return lastEvent && lastEvent.nodeId !== null ? findNodeById(treeStructure, lastEvent.nodeId) : null;
+  }
+  const nodes = resolvePathNodes(treeStructure, taskResult.path);
+  return nodes[nodes.length - 1] || null;
+}
+
+/**
+ * Check whether a result's navigation was free of backtracking
+ */
+function isDirectAttempt(taskResult: TaskResult): boolean {
+  return taskResult.backtracks !== undefined ? taskResult.backtracks === 0 : taskResult.directSuccess;
+}
+
+/**
+ * Collect the ids of every node on the way to a correct answer (inclusive)
+ */
+function getCorrectPathNodeIds(treeStructure: TreeNode[], task: TreeTestTask): Set<number> {
+  const correctIds = new Set<number>();
+
+  const visit = (nodes: TreeNode[], ancestors: number[]) => {
+    nodes.forEach(node => {
+      const chain = [...ancestors, node.id];
+      if (task.correctNodeIds.includes(node.id)) {
+        chain.forEach(id => correctIds.add(id));
+      }
+      visit(node.children, chain);
+    });
+  };
+
+  visit(treeStructure, []);
+  return correctIds;
+}
+
+/**
+ * Get the first node a participant clicked for a task
+ */
+export function getFirstClickNode(treeStructure: TreeNode[], taskResult: TaskResult): TreeNode | null {
+  return getRouteNodes(treeStructure, taskResult)[0] || null;
+}
+
+/**
+ * Calculate first-click distribution for a task
+ */
+export function calculateFirstClicks(
+  treeStructure: TreeNode[],
+  task: TreeTestTask,
+  taskResults: TaskResult[]
+): FirstClickAnalysis[] {
+  if (taskResults.length === 0) return [];
+
+  const correctPath = getCorrectPathNodeIds(treeStructure, task);
+  const counts = new Map<number, FirstClickAnalysis>();
+
+  taskResults.forEach(taskResult => {
+    const node = getFirstClickNode(treeStructure, taskResult);
+    if (!node) return;
+
+    if (!counts.has(node.id)) {
+      counts.set(node.id, {
+        nodeId: node.id,
+        nodeName: node.name,
+        count: 0,
+        percentage: 0,
+        isCorrect: correctPath.has(node.id)
+      });
+    }
+    counts.get(node.id)!.count++;
+  });
+
+  const firstClicks = Array.from(counts.values());
+  firstClicks.forEach(click => {
+    click.percentage = (click.count / taskResults.length) * 100;
+  });
+
+  return firstClicks.sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Group attempts by the route taken and rank the most common routes
+ */
+export function calculatePathAnalysis(taskResults: TaskResult[], limit: number = 5): PathAnalysis[] {
+  const paths = new Map<string, { path: string[]; durations: number[]; successes: number }>();
+
+  taskResults.forEach(taskResult => {
+    const key = taskResult.path.join(' > ');
+    if (!paths.has(key)) {
+      paths.set(key, { path: [...taskResult.path], durations: [], successes: 0 });
+    }
+    const entry = paths.get(key)!;
+    entry.durations.push(taskResult.duration);
+    if (getTaskOutcome(taskResult) === 'success') entry.successes++;
+  });
+
+  return Array.from(paths.values())
+    .map(entry => ({
+      path: entry.path,
+      frequency: entry.durations.length,
+      averageTime: entry.durations.reduce((sum, d) => sum + d, 0) / entry.durations.length,
+      successRate: (entry.successes / entry.durations.length) * 100
+    }))
+    .sort((a, b) => b.frequency - a.frequency)
+    .slice(0, limit);
+}
+
+/**
+ * Find nodes where participants most often ended a failed attempt
+ */
+export function calculateFailurePoints(treeStructure: TreeNode[], taskResults: TaskResult[]): FailurePoint[] {
+  const visits = new Map<number, number>();
+  const abandonments = new Map<number, { node: TreeNode; durations: number[] }>();
+
+  taskResults.forEach(taskResult => {
+    const visited = new Set(getRouteNodes(treeStructure, taskResult).map(node => node.id));
+    visited.forEach(id => visits.set(id, (visits.get(id) || 0) + 1));
+
+    const lastNode = getFinalLocation(treeStructure, taskResult);
+    if (getTaskOutcome(taskResult) !== 'failure' || !lastNode) return;
+
+    if (!abandonments.has(lastNode.id)) {
+      abandonments.set(lastNode.id, { node: lastNode, durations: [] });
+    }
+    abandonments.get(lastNode.id)!.durations.push(taskResult.duration);
+  });
+
+  return Array.from(abandonments.values())
+    .map(({ node, durations }) => ({
+      nodeId: node.id,
+      nodeName: node.name,
+      abandonmentRate: (durations.length / (visits.get(node.id) || durations.length)) * 100,
+      avgTimeSpent: durations.reduce((sum, d) => sum + d, 0) / durations.length
+    }))
+    .sort((a, b) => b.abandonmentRate - a.abandonmentRate);
+}
+
+/**
+ * Build the pie tree: how participants flowed through each node for a task
+ */
+export function buildPieTree(
+  treeStructure: TreeNode[],
+  task: TreeTestTask,
+  taskResults: TaskResult[]
+): PieTreeNode[] {
+  const correctPath = getCorrectPathNodeIds(treeStructure, task);
+  const visits = new Map<number, number>();
+  const selections = new Map<number, number>();
+  const endings = new Map<number, number>();
+
+  taskResults.forEach(taskResult => {
+    const visited = new Set(getRouteNodes(treeStructure, taskResult).map(node => node.id));
+    visited.forEach(id => visits.set(id, (visits.get(id) || 0) + 1));
+
+    if (taskResult.selectedNodeId !== undefined && !taskResult.gaveUp) {
+      selections.set(taskResult.selectedNodeId, (selections.get(taskResult.selectedNodeId) || 0) + 1);
+    }
+    const lastNode = getFinalLocation(treeStructure, taskResult);
+    if (lastNode) {
+      endings.set(lastNode.id, (endings.get(lastNode.id) || 0) + 1);
+    }
+  });
+
+  const build = (nodes: TreeNode[]): PieTreeNode[] => nodes.map(node => {
+    const children = build(node.children);
+    const nodeVisits = visits.get(node.id) || 0;
+    const nodeSelections = selections.get(node.id) || 0;
+
+    return {
+      nodeId: node.id,
+      name: node.name,
+      visits: nodeVisits,
+      selections: nodeSelections,
+      continued: children.reduce((sum, child) => sum + child.visits, 0),
+      abandoned: Math.max(0, (endings.get(node.id) || 0) - nodeSelections),
+      onCorrectPath: correctPath.has(node.id),
+      answerType: task.correctNodeIds.includes(node.id)
+        ? 'correct'
+        : task.acceptableNodeIds?.includes(node.id) ? 'acceptable' : null,
+      children
+    };
+  });
+
+  return build(treeStructure);
+}
+
+/**
+ * Compare success between participants who searched and those who only browsed
+ */
+export function compareSearchAndBrowse(taskResults: TaskResult[]): SearchComparison {
+  const usedSearch = (taskResult: TaskResult) =>
+    taskResult.usedSearch ?? (taskResult.events || []).some(event => event.type === 'search' || event.type === 'search-select');
+  const successRate = (group: TaskResult[]) => group.length > 0
+    ? (group.filter(tr => getTaskOutcome(tr) === 'success').length / group.length) * 100
+    : 0;
+
+  const searchResults = taskResults.filter(usedSearch);
+  const browseResults = taskResults.filter(tr => !usedSearch(tr));
+
+  const queryCounts = new Map<string, number>();
+  searchResults.forEach(taskResult => {
+    (taskResult.events || [])
+      .filter(event => event.type === 'search' && event.query)
+      .forEach(event => {
+        const query = event.query!.toLowerCase();
+        queryCounts.set(query, (queryCounts.get(query) || 0) + 1);
+      });
+  });
+
+  return {
+    searchAttempts: searchResults.length,
+    browseAttempts: browseResults.length,
+    searchUsageRate: taskResults.length > 0 ? (searchResults.length / taskResults.length) * 100 : 0,
+    searchSuccessRate: successRate(searchResults),
+    browseSuccessRate: successRate(browseResults),
+    topQueries: Array.from(queryCounts.entries())
+      .map(([query, count]) => ({ query, count }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, 10)
+  };
+}
+
+/**
+ * Analyze all attempts at a single task
+ */
+export function analyzeTask(treeStructure: TreeNode[], task: TreeTestTask, taskResults: TaskResult[]): TaskAnalysis {
+  const attempts = taskResults.length;
+  const rate = (count: number) => attempts > 0 ? (count / attempts) * 100 : 0;
+  const average = (values: number[]) => values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+
+  const outcomes = taskResults.map(getTaskOutcome);
+  const firstClicks = calculateFirstClicks(treeStructure, task, taskResults);
+
+  return {
+    taskId: task.id,
+    taskText: task.text,
+    attempts,
+    successRate: rate(outcomes.filter(o => o === 'success').length),
+    partialSuccessRate: rate(outcomes.filter(o => o === 'partial').length),
+    failureRate: rate(outcomes.filter(o => o === 'failure').length),
+    gaveUpRate: rate(taskResults.filter(tr => tr.gaveUp).length),
+    timedOutRate: rate(taskResults.filter(tr => tr.timedOut).length),
+    directSuccessRate: rate(taskResults.filter(tr => tr.directSuccess).length),
+    directnessRate: rate(taskResults.filter(isDirectAttempt).length),
+    firstClickCorrectRate: rate(firstClicks.filter(c => c.isCorrect).reduce((sum, c) => sum + c.count, 0)),
+    averageClicks: average(taskResults.map(tr => tr.clicks)),
+    averageBacktracks: average(taskResults.filter(tr => tr.backtracks !== undefined).map(tr => tr.backtracks!)),
+    averageTimeToFirstClick: average(
+      taskResults.filter(tr => tr.timeToFirstClick !== undefined).map(tr => tr.timeToFirstClick!)
+    ),
+    averageDuration: average(taskResults.map(tr => tr.duration)),
+    firstClicks,
+    mostCommonPaths: calculatePathAnalysis(taskResults),
+    failurePoints: calculateFailurePoints(treeStructure, taskResults),
+    pieTree: buildPieTree(treeStructure, task, taskResults),
+    search: compareSearchAndBrowse(taskResults)
+  };
+}
+
+/**
+ * Perform complete tree test analysis for a study
+ */
+export function analyzeTreeTest(study: Study, results: TreeTestResult[]): TreeTestAnalysis {
+  const treeStructure = study.treeStructure || [];
+  const tasks = normalizeTreeTestTasks(study.tasks);
+  const allTaskResults = results.flatMap(result => result.treeTestResults);
+
+  const taskAnalyses = tasks.map(task =>
+    analyzeTask(treeStructure, task, allTaskResults.filter(tr => tr.taskId === task.id))
+  );
+
+  const total = allTaskResults.length;
+  const rate = (count: number) => total > 0 ? (count / total) * 100 : 0;
+  const analyzedAttempts = taskAnalyses.reduce((sum, analysis) => sum + analysis.attempts, 0);
+  const firstClickCorrect = taskAnalyses.reduce((sum, analysis) =>
+    sum + (analysis.firstClickCorrectRate / 100) * analysis.attempts, 0);
+
+  return {
+    overall: {
+      taskSuccessRate: rate(allTaskResults.filter(tr => getTaskOutcome(tr) === 'success').length),
+      averageClicks: total > 0 ? allTaskResults.reduce((sum, tr) => sum + tr.clicks, 0) / total : 0,
+      averageDuration: total > 0 ? allTaskResults.reduce((sum, tr) => sum + tr.duration, 0) / total : 0,
+      directSuccessRate: rate(allTaskResults.filter(tr => tr.directSuccess).length),
+      mostCommonPaths: calculatePathAnalysis(allTaskResults),
+      failurePoints: calculateFailurePoints(treeStructure, allTaskResults)
+    },
+    firstClickCorrectRate: analyzedAttempts > 0 ? (firstClickCorrect / analyzedAttempts) * 100 : 0,
+    gaveUpRate: rate(allTaskResults.filter(tr => tr.gaveUp).length),
+    timedOutRate: rate(allTaskResults.filter(tr => tr.timedOut).length),
+    search: compareSearchAndBrowse(allTaskResults),
+    tasks: taskAnalyses
+  };
+}
@@ -0,0 +1,196 @@
+/**
+ * VUX-Sort CLI
+ * Headless analysis of exported results: similarity, agreement, cluster suggestions and tree test metrics
+ */
+
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { basename, join } from 'path';
+import Papa from 'papaparse';
+import { LinkageMethod, SimilarityMetric } from '../types';
+import { DEFAULT_MIN_PARTICIPANTS } from '../analytics/confidenceIntervals';
+import { loadAnalysisInput } from './input';
+import { buildAllReports, buildReport, Report, ReportName, ReportOptions, REPORT_NAMES } from './reports';
+
+export { loadAnalysisInput, parseResultsCSV } from './input';
+export type { AnalysisInput, InputOptions } from './input';
+export * from './reports';
+
+type OutputFormat = 'json' | 'csv';
+
+interface CliArguments {
+  command: ReportName | 'all';
+  inputFile: string;
+  format: OutputFormat;
+  out?: string;
+  studyId?: number;
+  version?: number;
+  minParticipants?: number;
+  allAttempts: boolean;
+  reportOptions: ReportOptions;
+}
+
+const METRICS: SimilarityMetric[] = ['co-occurrence', 'jaccard', 'weighted-co-occurrence', 'actual-agreement'];
+const LINKAGES: LinkageMethod[] = ['single', 'complete', 'average', 'ward'];
+
+export const USAGE = `Usage: vux-sort <command> <input-file> [options]
+
+Commands:
+  similarity   Card-by-card similarity matrix and ranked pairs
+  agreement    Per-card and per-category agreement scores with 95% CIs
+  clusters     Suggested category groups from a dendrogram cut
+  tree         Tree test success, directness, first-click and path metrics
+  all          Every report that applies to the input
+
+Input: a .vuxsort bundle, a JSON results export, or a CSV results export (ours or another tool's).
+
+Options:
+  --format <json|csv>     Output format (default: json)
+  --out <path>            JSON: file to write. CSV: directory for one file per table
+  --study <id>            Study to analyze when the bundle holds several
+  --version <n>           Study version to analyze (default: the current version)
+  --all-attempts          Include every attempt instead of each participant's latest
+  --min-participants <n>  Warn when fewer participants took part (default: the study's setting, else ${DEFAULT_MIN_PARTICIPANTS})
+  --metric <name>         ${METRICS.join(' | ')} (default: co-occurrence)
+  --linkage <method>      ${LINKAGES.join(' | ')} (default: average)
+  --groups <n>            Number of groups to cut the dendrogram into (default: 5)
+  --height <h>            Cut the dendrogram at this height instead of a group count
+  --help                  Show this message`;
+
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+function parseNumber(flag: string, value: string | undefined): number {
+  const parsed = Number(value);
+  if (value === undefined || value === '' || isNaN(parsed)) {
+    throw new CliUsageError(`${flag} expects a number`);
+  }
+  return parsed;
+}
+
+function parseChoice<T extends string>(flag: string, value: string | undefined, choices: T[]): T {
+  if (!value || !choices.includes(value as T)) {
+    throw new CliUsageError(`${flag} expects one of: ${choices.join(', ')}`);
+  }
+  return value as T;
+}
+
+export function parseArguments(argv: string[]): CliArguments {
+  const positional: string[] = [];
+  const parsed: Omit<CliArguments, 'command' | 'inputFile'> = { format: 'json', allAttempts: false, reportOptions: {} };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      positional.push(arg);
+      continue;
+    }
+
+    const [flag, inlineValue] = arg.split('=', 2);
+    const takeValue = () => inlineValue ?? argv[++i];
+
+    switch (flag) {
+      case '--format': parsed.format = parseChoice(flag, takeValue(), ['json', 'csv']); break;
+      case '--out': parsed.out = takeValue(); break;
+      case '--study': parsed.studyId = parseNumber(flag, takeValue()); break;
+      case '--version': parsed.version = parseNumber(flag, takeValue()); break;
+      case '--min-participants': parsed.minParticipants = parseNumber(flag, takeValue()); break;
+      case '--all-attempts': parsed.allAttempts = true; break;
+      case '--metric': parsed.reportOptions.metric = parseChoice(flag, takeValue(), METRICS); break;
+      case '--linkage': parsed.reportOptions.linkage = parseChoice(flag, takeValue(), LINKAGES); break;
+      case '--groups': parsed.reportOptions.groupCount = parseNumber(flag, takeValue()); break;
+      case '--height': parsed.reportOptions.height = parseNumber(flag, takeValue()); break;
+      default: throw new CliUsageError(`Unknown option ${flag}`);
+    }
+  }
+
+  const [command, inputFile, ...extra] = positional;
+  if (!command || !inputFile) throw new CliUsageError('Expected a command and an input file');
+  if (extra.length > 0) throw new CliUsageError(`Unexpected argument ${extra[0]}`);
+
+  return {
+    ...parsed,
+    command: parseChoice('Command', command, [...REPORT_NAMES, 'all']),
+    inputFile
+  };
+}
+
+async function writeCsvTables(reports: Report[], outDir: string): Promise<string[]> {
+  await mkdir(outDir, { recursive: true });
+  const written: string[] = [];
+  for (const report of reports) {
+    for (const [table, rows] of Object.entries(report.tables)) {
+      const filePath = join(outDir, `${report.name}-${table}.csv`);
+      await writeFile(filePath, Papa.unparse(rows));
+      written.push(filePath);
+    }
+  }
+  return written;
+}
+
+/**
+ * Run the CLI and resolve to a process exit code
+ */
+export async function runCli(argv: string[]): Promise<number> {
+  if (argv.length === 0 || argv.includes('--help') || argv.includes('-h')) {
+    console.log(USAGE);
+    return argv.length === 0 ? 1 : 0;
+  }
+
+  let args: CliArguments;
+  try {
+    args = parseArguments(argv);
+  } catch (error) {
+    if (!(error instanceof CliUsageError)) throw error;
+    console.error(`${error.message}\n\n${USAGE}`);
+    return 1;
+  }
+
+  try {
+    const text = await readFile(args.inputFile, 'utf-8');
+    const input = loadAnalysisInput(text, basename(args.inputFile), {
+      studyId: args.studyId,
+      version: args.version,
+      minParticipants: args.minParticipants,
+      attempts: args.allAttempts ? 'all' : 'latest'
+    });
+
+    const reports = args.command === 'all'
+      ? buildAllReports(input, args.reportOptions)
+      : [buildReport(args.command, input, args.reportOptions)];
+    if (reports.length === 0) {
+      throw new Error('The input has no results to analyze');
+    }
+
+    if (args.format === 'csv') {
+      if (args.out) {
+        const written = await writeCsvTables(reports, args.out);
+        written.forEach(filePath => console.error(`Wrote ${filePath}`));
+      } else {
+        // Without an output directory only each report's primary table is printed
+        console.log(reports.map(report => Papa.unparse(Object.values(report.tables)[0])).join('\n\n'));
+      }
+      return 0;
+    }
+
+    const document = {
+      study: { id: input.study.id, name: input.study.name, type: input.study.type },
+      generatedAt: new Date().toISOString(),
+      ...Object.fromEntries(reports.map(report => [report.name, report.json]))
+    };
+    const json = JSON.stringify(document, null, 2);
+    if (args.out) {
+      await writeFile(args.out, json);
+      console.error(`Wrote ${args.out}`);
+    } else {
+      console.log(json);
+    }
+    return 0;
+  } catch (error) {
+    console.error(`vux-sort: ${error instanceof Error ? error.message : String(error)}`);
+    return 1;
+  }
+}
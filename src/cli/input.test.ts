@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { loadAnalysisInput } from './input';
+
+const resultsExport = JSON.stringify([{
+  participantId: 'P1',
+  studyId: 3,
+  studyType: 'card-sorting',
+  startTime: 0,
+  completionTime: 1000,
+  totalDuration: 1000,
+  cardSortResults: [{ categoryId: 1, categoryName: 'Help', cards: [{ id: 1, text: 'Returns' }] }]
+}]);
+
+describe('loadAnalysisInput', () => {
+  it('gives results-only files the minimum participant count of a new study', () => {
+    const { study } = loadAnalysisInput(resultsExport, 'results.json');
+
+    expect(study.settings.minParticipants).toBe(10);
+  });
+
+  it('uses the minimum participant count it is given', () => {
+    const { study } = loadAnalysisInput(resultsExport, 'results.json', { minParticipants: 30 });
+
+    expect(study.settings.minParticipants).toBe(30);
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * VUX-Sort CLI - Input Loading
+ * Reads exported JSON (bundles, results exports, bare result arrays) and CSV results into analyzable form
+ */
+
+import Papa from 'papaparse';
+import { CardSortResult, CategoryResult, Study, StudyResult, StudyType, TaskResult, TreeTestResult, TreeTestTask } from '../types';
+import { parseBundle } from '../storage/bundle';
+import { migrateResult } from '../storage/migrations';
+import { normalizeTreeTestTasks } from '../utils/treeTestUtils';
+import { getResultsForStudy, indexResults, ResultQueryOptions } from '../utils/resultUtils';
+import { detectLegacyFormat, importLegacyResults, suggestColumnMapping } from '../utils/legacyImport';
+import { getStudyAtVersion, getStudyVersionNumber } from '../utils/studyVersions';
+import { DEFAULT_MIN_PARTICIPANTS } from '../analytics/confidenceIntervals';
+
+export interface InputOptions extends ResultQueryOptions {
+  studyId?: number; // Required when a bundle holds several studies
+  minParticipants?: number; // Replaces the study's own minimum for sample size warnings
+}
+
+export interface AnalysisInput {
+  study: Study;
+  cardSortResults: CardSortResult[];
+  treeTestResults: TreeTestResult[];
+}
+
+type CSVRow = Record<string, string>;
+
+const CARD_SORT_TYPES: StudyType[] = ['card-sorting', 'open-card-sorting', 'reverse-card-sorting'];
+
+const toBoolean = (value: string | undefined): boolean => value?.toLowerCase() === 'true';
+const toNumber = (value: string | undefined): number | undefined =>
+  value === undefined || value === '' || isNaN(Number(value)) ? undefined : Number(value);
+const toTimestamp = (value: string | undefined): number => {
+  if (!value) return 0;
+  const numeric = Number(value);
+  return isNaN(numeric) ? new Date(value).getTime() || 0 : numeric;
+};
+
+/**
+ * Stand-in study for inputs that only carry results, e.g. CSV exports
+ */
+function createPlaceholderStudy(id: number, name: string, type: StudyType, tasks: TreeTestTask[] = []): Study {
+  const now = new Date().toISOString();
+  return {
+    id,
+    name,
+    type,
+    cards: [],
+    categories: [],
+    participants: 0,
+    created: now,
+    updated: now,
+    settings: {},
+    ...(type === 'tree-testing' && { treeStructure: [], tasks })
+  };
+}
+
+/**
+ * Rebuild results from the long-format CSV written by the app's CSV export
+ * (one row per placed card, or per tree test task)
+ */
+export function parseResultsCSV(csv: string): { studyName: string; results: StudyResult[]; tasks: TreeTestTask[] } {
+  const { data, errors } = Papa.parse<CSVRow>(csv, { header: true, skipEmptyLines: true });
+  if (errors.length > 0 && data.length === 0) {
+    throw new Error(`Could not parse CSV: ${errors.map(e => e.message).join(', ')}`);
+  }
+
+  const byParticipant = new Map<string, CSVRow[]>();
+  data.forEach(row => {
+    if (!row.participantId) return;
+    if (!byParticipant.has(row.participantId)) byParticipant.set(row.participantId, []);
+    byParticipant.get(row.participantId)!.push(row);
+  });
+
+  const tasks = new Map<number, TreeTestTask>();
+  const results = Array.from(byParticipant.entries()).map(([participantId, rows]): StudyResult => {
+    const first = rows[0];
+    const base = {
+      participantId,
+      studyId: toNumber(first.studyId) ?? 0,
+      studyVersion: toNumber(first.studyVersion),
+      startTime: toTimestamp(first.startTime),
+      completionTime: toTimestamp(first.completionTime),
+      totalDuration: toNumber(first.duration) ?? 0
+    };
+
+    if (first.studyType === 'tree-testing') {
+      const treeTestResults: TaskResult[] = rows.map(row => {
+        const taskId = toNumber(row.taskId) ?? 0;
+        if (!tasks.has(taskId)) tasks.set(taskId, { id: taskId, text: row.task || `Task ${taskId}`, correctNodeIds: [] });
+        const outcome = row.outcome as TaskResult['outcome'];
+        return {
+          taskId,
+          task: row.task || '',
+          path: row.path ? row.path.split(' > ') : [],
+          success: toBoolean(row.success),
+          ...(outcome && { outcome }),
+          clicks: toNumber(row.clicks) ?? 0,
+          duration: toNumber(row.taskDuration) ?? 0,
+          finalDestination: row.finalDestination || '',
+          selectedNodeId: toNumber(row.selectedNodeId),
+          gaveUp: toBoolean(row.gaveUp),
+          timedOut: toBoolean(row.timedOut),
+          usedSearch: toBoolean(row.usedSearch),
+          backtracks: toNumber(row.backtracks),
+          timeToFirstClick: toNumber(row.timeToFirstClick),
+          directSuccess: toBoolean(row.directSuccess)
+        };
+      });
+      return { ...base, studyType: 'tree-testing', treeTestResults };
+    }
+
+    const categories = new Map<string, CategoryResult>();
+    rows.forEach(row => {
+      const name = row.categoryName || 'Uncategorized';
+      if (!categories.has(name)) {
+        categories.set(name, {
+          categoryId: toNumber(row.categoryId) ?? categories.size + 1,
+          categoryName: name,
+          cards: [],
+          isCustomCategory: toBoolean(row.isCustomCategory)
+        });
+      }
+      categories.get(name)!.cards.push({ id: toNumber(row.cardId) ?? 0, text: row.cardText || '' });
+    });
+
+    const studyType = CARD_SORT_TYPES.includes(first.studyType as StudyType)
+      ? (first.studyType as CardSortResult['studyType'])
+      : 'card-sorting';
+    return { ...base, studyType, cardSortResults: Array.from(categories.values()) };
+  });
+
+  return {
+    studyName: data[0]?.studyName || 'Imported CSV',
+    results,
+    tasks: Array.from(tasks.values())
+  };
+}
+
+function selectResults(study: Study, allResults: StudyResult[], options: InputOptions): AnalysisInput {
+  // Results-only inputs carry no settings; warn about small samples as a new study in the app would
+  const minParticipants = options.minParticipants ?? study.settings.minParticipants ?? DEFAULT_MIN_PARTICIPANTS;
+  // Like the analytics screen, each participant counts once unless all attempts are requested
+  const results = getResultsForStudy(indexResults(allResults), study.id, {
+    attempts: options.attempts || 'latest',
+    version: options.version
+  });
+  return {
+    study: { ...study, settings: { ...study.settings, minParticipants } },
+    cardSortResults: results.filter(result => CARD_SORT_TYPES.includes(result.studyType)) as CardSortResult[],
+    treeTestResults: results.filter(result => result.studyType === 'tree-testing') as TreeTestResult[]
+  };
+}
+
+/**
+ * Load an input file. JSON may be a .vuxsort bundle, a results export or a
+ * bare array of results; bundles with several studies need a study id. CSV
+ * may be our own export or another tool's long-format or matrix export.
+ */
+export function loadAnalysisInput(text: string, fileName: string, options: InputOptions = {}): AnalysisInput {
+  const { studyId } = options;
+  if (fileName.toLowerCase().endsWith('.csv')) {
+    const headers = Papa.parse<string[]>(text, { preview: 1 }).data[0] || [];
+    if (!headers.includes('participantId') || !(headers.includes('cardText') || headers.includes('taskId'))) {
+      // Not one of our exports; read it as another tool's CSV using the columns its headers suggest
+      const rows = Papa.parse<CSVRow>(text, { header: true, skipEmptyLines: true }).data;
+      const format = detectLegacyFormat(headers);
+      const { study, results } = importLegacyResults(rows, format, suggestColumnMapping(format, headers), { studyName: fileName });
+      return selectResults(study, results, options);
+    }
+
+    const { studyName, results, tasks } = parseResultsCSV(text);
+    const type = results[0]?.studyType || 'card-sorting';
+    const id = studyId ?? results[0]?.studyId ?? 0;
+    return selectResults(createPlaceholderStudy(id, studyName, type, tasks), results, options);
+  }
+
+  const parsed = JSON.parse(text);
+  if (Array.isArray(parsed)) {
+    const results = parsed.map(result => migrateResult(result, 0));
+    const type = results[0]?.studyType || 'card-sorting';
+    const id = studyId ?? results[0]?.studyId ?? 0;
+    return selectResults(createPlaceholderStudy(id, fileName, type), results, options);
+  }
+
+  const bundle = parseBundle(text);
+  const study = studyId !== undefined
+    ? bundle.studies.find(candidate => candidate.id === studyId)
+    : bundle.studies.length === 1 ? bundle.studies[0] : undefined;
+
+  if (!study) {
+    const available = bundle.studies.map(candidate => `${candidate.id} (${candidate.name})`).join(', ');
+    throw new Error(studyId !== undefined
+      ? `Study ${studyId} is not in this file. Available: ${available}`
+      : `This file holds several studies; choose one with --study. Available: ${available}`);
+  }
+
+  // As in the analytics screen, a versioned study is analyzed at its current version unless one is chosen
+  const version = options.version ?? (study.versionHistory?.length ? getStudyVersionNumber(study) : undefined);
+  const versioned = version === undefined ? study : getStudyAtVersion(study, version);
+  return selectResults({ ...versioned, tasks: normalizeTreeTestTasks(versioned.tasks) }, bundle.results, { ...options, version });
+}
@@ -0,0 +1,184 @@
+/**
+ * VUX-Sort CLI - Reports
+ * Runs the analytics modules headlessly and shapes their output as JSON documents and CSV tables
+ */
+
+import { CardSortResult, LinkageMethod, SimilarityMetric } from '../types';
+import { SimilarityAnalysis } from '../analytics';
+import { performAgreementAnalysis } from '../analytics/agreementScores';
+import { suggestCategoryStructure } from '../analytics/clusterSuggestions';
+import { analyzeTreeTest } from '../analytics/treeTestAnalysis';
+import { standardizeStudyResults } from '../utils/categoryStandardization';
+import { AnalysisInput } from './input';
+
+export type ReportName = 'similarity' | 'agreement' | 'clusters' | 'tree';
+
+export const REPORT_NAMES: ReportName[] = ['similarity', 'agreement', 'clusters', 'tree'];
+
+export interface ReportOptions {
+  metric?: SimilarityMetric;
+  linkage?: LinkageMethod;
+  groupCount?: number;
+  height?: number;
+}
+
+export interface Report {
+  name: ReportName;
+  json: unknown;
+  tables: Record<string, Record<string, unknown>[]>; // First table is the primary one
+}
+
+const round = (value: number, digits: number = 4): number => Number(value.toFixed(digits));
+
+function requireCardSortResults(input: AnalysisInput, report: ReportName): CardSortResult[] {
+  if (input.cardSortResults.length === 0) {
+    throw new Error(`The ${report} report needs card sort results, but none were found`);
+  }
+  // Apply the study's confirmed category name mappings, as the app does
+  return standardizeStudyResults(input.study, input.cardSortResults);
+}
+
+export function buildSimilarityReport(input: AnalysisInput, options: ReportOptions = {}): Report {
+  const results = requireCardSortResults(input, 'similarity');
+  const metric = options.metric || 'co-occurrence';
+  const cards = SimilarityAnalysis.getCards(results);
+  const matrix = SimilarityAnalysis.createSimilarityMatrix(results, metric);
+  const pairs = SimilarityAnalysis.calculateCardSimilarity(results, metric);
+
+  return {
+    name: 'similarity',
+    json: { metric, participants: results.length, cards, matrix, pairs },
+    tables: {
+      matrix: cards.map((card, i) => ({
+        card: card.text,
+        ...Object.fromEntries(cards.map((other, j) => [other.text, round(matrix[i][j])]))
+      })),
+      pairs: pairs.map(pair => ({
+        card1: pair.cardName1,
+        card2: pair.cardName2,
+        coOccurrence: pair.coOccurrence,
+        similarity: round(pair.similarity),
+        ciLower: pair.confidenceInterval ? round(pair.confidenceInterval.lower) : '',
+        ciUpper: pair.confidenceInterval ? round(pair.confidenceInterval.upper) : ''
+      }))
+    }
+  };
+}
+
+export function buildAgreementReport(input: AnalysisInput): Report {
+  const results = requireCardSortResults(input, 'agreement');
+  const analysis = performAgreementAnalysis(results, input.study.settings.minParticipants);
+
+  return {
+    name: 'agreement',
+    json: {
+      participants: results.length,
+      overallAgreementScore: analysis.overallAgreementScore,
+      sampleSize: analysis.sampleSize,
+      cards: analysis.cardAgreements,
+      categories: analysis.categoryAgreements
+    },
+    tables: {
+      cards: analysis.cardAgreements.map(card => ({
+        cardId: card.cardId,
+        cardText: card.cardText,
+        agreementScore: round(card.agreementScore, 2),
+        ciLower: round(card.confidenceInterval.lower, 2),
+        ciUpper: round(card.confidenceInterval.upper, 2),
+        consensusCategory: card.consensusCategory,
+        uniquePlacements: card.uniquePlacements,
+        participants: card.totalParticipants
+      })),
+      categories: analysis.categoryAgreements.map(category => ({
+        categoryName: category.categoryName,
+        agreementScore: round(category.agreementScore, 2),
+        cardCount: category.cardCount,
+        usageFrequency: category.usageFrequency,
+        usagePercentage: round(category.usagePercentage, 2),
+        usageCiLower: round(category.usageConfidenceInterval.lower, 2),
+        usageCiUpper: round(category.usageConfidenceInterval.upper, 2),
+        consensusCards: category.consensusCards.join(' | ')
+      }))
+    }
+  };
+}
+
+export function buildClusterReport(input: AnalysisInput, options: ReportOptions = {}): Report {
+  const results = requireCardSortResults(input, 'clusters');
+  const cut = options.height !== undefined ? { height: options.height } : { groupCount: options.groupCount ?? 5 };
+  const groups = suggestCategoryStructure(results, { metric: options.metric, linkage: options.linkage, ...cut });
+
+  return {
+    name: 'clusters',
+    json: { metric: options.metric || 'co-occurrence', linkage: options.linkage || 'average', ...cut, groups },
+    tables: {
+      groups: groups.flatMap(group => group.cards.map(card => ({
+        groupId: group.id,
+        groupName: group.name,
+        cardId: card.id,
+        cardText: card.text,
+        height: round(group.height),
+        nameSupport: round(group.nameSupport, 2),
+        alternativeNames: group.alternativeNames.join(' | ')
+      })))
+    }
+  };
+}
+
+export function buildTreeTestReport(input: AnalysisInput): Report {
+  if (input.treeTestResults.length === 0) {
+    throw new Error('The tree report needs tree test results, but none were found');
+  }
+  const analysis = analyzeTreeTest(input.study, input.treeTestResults);
+
+  return {
+    name: 'tree',
+    json: { participants: input.treeTestResults.length, ...analysis },
+    tables: {
+      tasks: analysis.tasks.map(task => ({
+        taskId: task.taskId,
+        task: task.taskText,
+        attempts: task.attempts,
+        successRate: round(task.successRate, 2),
+        partialSuccessRate: round(task.partialSuccessRate, 2),
+        failureRate: round(task.failureRate, 2),
+        directSuccessRate: round(task.directSuccessRate, 2),
+        directnessRate: round(task.directnessRate, 2),
+        firstClickCorrectRate: round(task.firstClickCorrectRate, 2),
+        gaveUpRate: round(task.gaveUpRate, 2),
+        timedOutRate: round(task.timedOutRate, 2),
+        searchUsageRate: round(task.search.searchUsageRate, 2),
+        averageClicks: round(task.averageClicks, 2),
+        averageBacktracks: round(task.averageBacktracks, 2),
+        averageTimeToFirstClick: Math.round(task.averageTimeToFirstClick),
+        averageDuration: Math.round(task.averageDuration)
+      })),
+      paths: analysis.tasks.flatMap(task => task.mostCommonPaths.map(path => ({
+        taskId: task.taskId,
+        path: path.path.join(' > '),
+        frequency: path.frequency,
+        successRate: round(path.successRate, 2),
+        averageTime: Math.round(path.averageTime)
+      })))
+    }
+  };
+}
+
+export function buildReport(name: ReportName, input: AnalysisInput, options: ReportOptions = {}): Report {
+  switch (name) {
+    case 'similarity': return buildSimilarityReport(input, options);
+    case 'agreement': return buildAgreementReport(input);
+    case 'clusters': return buildClusterReport(input, options);
+    case 'tree': return buildTreeTestReport(input);
+  }
+}
+
+/**
+ * Every report that applies to the input's result types
+ */
+export function buildAllReports(input: AnalysisInput, options: ReportOptions = {}): Report[] {
+  const names = REPORT_NAMES.filter(name =>
+    name === 'tree' ? input.treeTestResults.length > 0 : input.cardSortResults.length > 0
+  );
+  return names.map(name => buildReport(name, input, options));
+}
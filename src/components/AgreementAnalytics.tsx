@@ -12,14 +12,16 @@ import {
   type StudyAgreementAnalysis,
   type HeatmapData
 } from '../analytics/agreementScores';
-import { BarChart, Activity, TrendingUp, Users, Layers, Eye, EyeOff } from 'lucide-react';
+import { standardizeStudyResults } from '../utils/categoryStandardization';
+import { BarChart, Activity, TrendingUp, Users, Layers, Eye, EyeOff, AlertTriangle } from 'lucide-react';
+import { formatInterval } from '../analytics/confidenceIntervals';
 
 interface AgreementAnalyticsProps {
   results: StudyResult[];
   study: Study;
 }
 
-export const AgreementAnalytics: React.FC<AgreementAnalyticsProps> = ({ results }) => {
+export const AgreementAnalytics: React.FC<AgreementAnalyticsProps> = ({ results: rawResults, study }) => {
   const [analysis, setAnalysis] = useState<StudyAgreementAnalysis | null>(null);
   const [heatmapData, setHeatmapData] = useState<HeatmapData | null>(null);
   const [loading, setLoading] = useState(true);
@@ -28,16 +30,18 @@ export const AgreementAnalytics: React.FC<AgreementAnalyticsProps> = ({ results
   const [sortBy, setSortBy] = useState<'agreement' | 'alphabetical'>('agreement');
   const [showDetails, setShowDetails] = useState<{ [key: string]: boolean }>({});
 
+  const results = useMemo(() => standardizeStudyResults(study, rawResults), [study, rawResults]);
+
   // Memoized analysis calculation
   const analysisData = useMemo(() => {
     try {
       if (results.length === 0) return null;
-      return performAgreementAnalysis(results);
+      return performAgreementAnalysis(results, study.settings.minParticipants);
     } catch (err) {
       console.error('Agreement analysis failed:', err);
       return null;
     }
-  }, [results]);
+  }, [results, study.settings.minParticipants]);
 
   useEffect(() => {
     const calculateAnalysis = async () => {
@@ -147,6 +151,13 @@ export const AgreementAnalytics: React.FC<AgreementAnalyticsProps> = ({ results
         </div>
       </div>
 
+      {analysis.sampleSize.isTooSmall && (
+        <div className="flex items-start space-x-3 bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+          <AlertTriangle className="w-5 h-5 text-yellow-600 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-yellow-800">{analysis.sampleSize.message}</p>
+        </div>
+      )}
+
       {/* Navigation Tabs */}
       <div className="bg-white rounded-lg shadow-sm border border-gray-200">
         <div className="border-b border-gray-200">
@@ -285,6 +296,9 @@ export const AgreementAnalytics: React.FC<AgreementAnalyticsProps> = ({ results
                       <div className="flex items-center space-x-4">
                         <div className="text-right">
                           <div className="font-bold text-lg">{formatScore(card.agreementScore)}</div>
+                          <div className="text-xs text-gray-500" title="95% Wilson confidence interval">
+                            95% CI {formatInterval(card.confidenceInterval)}
+                          </div>
                           <div className="text-xs text-gray-500">{card.uniquePlacements} categories used</div>
                         </div>
                         <button
@@ -345,7 +359,8 @@ export const AgreementAnalytics: React.FC<AgreementAnalyticsProps> = ({ results
                         <div className="flex-1">
                           <div className="font-medium text-gray-900">{category.categoryName}</div>
                           <div className="text-sm text-gray-600">
-                            Used by {category.usageFrequency} participants ({formatScore(category.usagePercentage)})
+                            Used by {category.usageFrequency} participants ({formatScore(category.usagePercentage)},
+                            95% CI {formatInterval(category.usageConfidenceInterval)})
                           </div>
                         </div>
                       </div>
@@ -415,6 +430,27 @@ export const AgreementAnalytics: React.FC<AgreementAnalyticsProps> = ({ results
                   Score range: {heatmapData.minScore.toFixed(1)}% - {heatmapData.maxScore.toFixed(1)}%
                 </div>
 
+                <div className="mt-4">
+                  <h4 className="font-medium text-gray-900 mb-2">Strongest Pairs</h4>
+                  <div className="space-y-1">
+                    {heatmapData.cardPairs
+                      .filter(pair => pair.cardA < pair.cardB)
+                      .sort((a, b) => b.score - a.score)
+                      .slice(0, 10)
+                      .map(pair => (
+                        <div key={`${pair.cardA}-${pair.cardB}`} className="flex justify-between text-sm">
+                          <span className="text-gray-700">{pair.cardAText} + {pair.cardBText}</span>
+                          <span className="font-medium">
+                            {formatScore(pair.score)}
+                            <span className="text-xs text-gray-500 font-normal ml-2">
+                              95% CI {formatInterval(pair.confidenceInterval)}
+                            </span>
+                          </span>
+                        </div>
+                      ))}
+                  </div>
+                </div>
+
                 {/* Placeholder for heatmap visualization */}
                 <div className="mt-4 h-64 bg-white border-2 border-dashed border-gray-300 rounded-lg flex items-center justify-center">
                   <div className="text-center">
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { Upload, X, AlertCircle, Copy, GitMerge } from 'lucide-react';
+import { Study } from '../types';
+import { StudyBundle, CollisionResolution, findBundleCollisions } from '../storage/bundle';
+
+interface BundleImportDialogProps {
+  bundle: StudyBundle;
+  existingStudies: Study[];
+  onConfirm: (resolutions: Record<number, CollisionResolution>) => void;
+  onClose: () => void;
+}
+
+const BundleImportDialog: React.FC<BundleImportDialogProps> = ({ bundle, existingStudies, onConfirm, onClose }) => {
+  const collisions = findBundleCollisions(bundle, existingStudies);
+  const [resolutions, setResolutions] = useState<Record<number, CollisionResolution>>(
+    () => Object.fromEntries(collisions.map(id => [id, 'merge' as const]))
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Import Studies</h2>
+            <p className="text-sm text-gray-600 mt-1">
+              {bundle.manifest.studies.length} stud{bundle.manifest.studies.length !== 1 ? 'ies' : 'y'} •
+              exported {new Date(bundle.manifest.exportedAt).toLocaleString()}
+              {bundle.manifest.assets.length > 0 && ` • ${bundle.manifest.assets.length} images`}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4">
+          {collisions.length > 0 && (
+            <div className="flex items-start space-x-3 bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+              <AlertCircle className="w-5 h-5 text-yellow-600 flex-shrink-0 mt-0.5" />
+              <p className="text-sm text-yellow-800">
+                {collisions.length} of these studies already exist here. Merge adds the new results and invites to your copy;
+                Import as copy keeps both side by side.
+              </p>
+            </div>
+          )}
+
+          {bundle.studies.map(study => {
+            const info = bundle.manifest.studies.find(entry => entry.id === study.id);
+            const hasCollision = collisions.includes(study.id);
+
+            return (
+              <div key={study.id} className="border border-gray-200 rounded-lg p-4">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <h4 className="font-medium text-gray-900 truncate">{study.name}</h4>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {study.cards.length} cards • {info?.invites ?? study.invites?.length ?? 0} invites •{' '}
+                      {info?.results ?? bundle.results.filter(result => result.studyId === study.id).length} results
+                    </p>
+                  </div>
+                  {hasCollision ? (
+                    <div className="flex space-x-2 flex-shrink-0">
+                      {([
+                        { value: 'merge', label: 'Merge', icon: GitMerge },
+                        { value: 'clone', label: 'Import as copy', icon: Copy }
+                      ] as const).map(option => {
+                        const Icon = option.icon;
+                        const selected = resolutions[study.id] === option.value;
+                        return (
+                          <button
+                            key={option.value}
+                            onClick={() => setResolutions(prev => ({ ...prev, [study.id]: option.value }))}
+                            className={`flex items-center px-3 py-1 text-sm rounded border ${
+                              selected ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-200 text-gray-600 hover:border-gray-300'
+                            }`}
+                          >
+                            <Icon className="w-4 h-4 mr-1" />
+                            {option.label}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  ) : (
+                    <span className="text-xs text-green-700 bg-green-50 px-2 py-1 rounded flex-shrink-0">New</span>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end space-x-3 p-6 border-t bg-gray-50">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(resolutions)}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 flex items-center space-x-2"
+          >
+            <Upload className="w-4 h-4" />
+            <span>Import</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BundleImportDialog;
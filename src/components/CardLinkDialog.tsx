@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { X, Link2, CheckCircle } from 'lucide-react';
+import { Study } from '../types';
+import { CardLinkConfirmations, CardMatch } from '../analytics/cardHistory';
+
+interface CardLinkDialogProps {
+  study: Study;
+  matches: CardMatch[];
+  onConfirm: (confirmations: CardLinkConfirmations) => void;
+  onClose: () => void;
+}
+
+const NEW_CARD = '__new__';
+
+const CardLinkDialog: React.FC<CardLinkDialogProps> = ({ study, matches, onConfirm, onClose }) => {
+  const withCandidates = matches.filter(match => match.candidates.length > 0);
+  const newCards = matches.length - withCandidates.length;
+  const trackedCards = study.cards.length - matches.length;
+
+  const [confirmations, setConfirmations] = useState<CardLinkConfirmations>(
+    () => Object.fromEntries(withCandidates.map(match => [match.card.id, match.candidates[0].cardId]))
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Finalize Results</h2>
+            <p className="text-sm text-gray-600 mt-1">
+              Add this study's card placements and agreement scores to the cross-study card history
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div className="flex items-start space-x-3 bg-gray-50 border border-gray-200 rounded-lg p-4">
+            <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0 mt-0.5" />
+            <p className="text-sm text-gray-700">
+              {trackedCards > 0 && `${trackedCards} card${trackedCards !== 1 ? 's are' : ' is'} already linked to the history. `}
+              {newCards > 0 && `${newCards} card${newCards !== 1 ? 's' : ''} will start a new history. `}
+              {withCandidates.length > 0
+                ? `Confirm whether the ${withCandidates.length} card${withCandidates.length !== 1 ? 's' : ''} below match cards from earlier studies.`
+                : 'No cards need confirming.'}
+            </p>
+          </div>
+
+          {withCandidates.map(({ card, candidates }) => (
+            <div key={card.id} className="border border-gray-200 rounded-lg p-4">
+              <div className="flex items-center justify-between gap-4">
+                <div className="flex items-center min-w-0">
+                  <Link2 className="w-4 h-4 text-gray-400 mr-2 flex-shrink-0" />
+                  <span className="font-medium text-gray-900 truncate">{card.text}</span>
+                </div>
+                <select
+                  value={confirmations[card.id] ?? NEW_CARD}
+                  onChange={e => {
+                    const value = e.target.value;
+                    setConfirmations(prev => ({ ...prev, [card.id]: value === NEW_CARD ? null : value }));
+                  }}
+                  className="w-72 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {candidates.map(candidate => (
+                    <option key={candidate.cardId} value={candidate.cardId}>
+                      Same as "{candidate.cardText}" ({candidate.crossStudyHistory.map(entry => entry.studyName).join(', ') || 'no studies yet'})
+                    </option>
+                  ))}
+                  <option value={NEW_CARD}>A different card</option>
+                </select>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-end space-x-3 p-6 border-t bg-gray-50">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(confirmations)}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 flex items-center space-x-2"
+          >
+            <CheckCircle className="w-4 h-4" />
+            <span>Finalize</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CardLinkDialog;
@@ -0,0 +1,206 @@
+import React, { useMemo, useState } from 'react';
+import { Check, Save, X, Merge } from 'lucide-react';
+import { CardSortResult } from '../types';
+import { getCategoryNameUsage, proposeCategoryMerges, standardizeCategoryName } from '../utils/categoryStandardization';
+
+interface CategoryStandardizationProps {
+  results: CardSortResult[]; // Raw, unstandardized results
+  mappings?: Record<string, string>;
+  onSave: (mappings: Record<string, string>) => void;
+}
+
+const THRESHOLDS = [
+  { value: 0.9, label: 'Strict' },
+  { value: 0.75, label: 'Balanced' },
+  { value: 0.6, label: 'Loose' }
+];
+
+const CategoryStandardization: React.FC<CategoryStandardizationProps> = ({ results, mappings = {}, onSave }) => {
+  const [draft, setDraft] = useState<Record<string, string>>(mappings);
+  const [threshold, setThreshold] = useState(0.75);
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set());
+  const [proposalNames, setProposalNames] = useState<Record<string, string>>({});
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+
+  const usage = useMemo(() => getCategoryNameUsage(results), [results]);
+  const proposals = useMemo(() => proposeCategoryMerges(results, threshold), [results, threshold]);
+
+  // Hide proposals the researcher dismissed or already resolved into one name
+  const openProposals = proposals.filter(proposal => {
+    if (dismissed.has(proposal.standardName)) return false;
+    const targets = new Set(proposal.names.map(entry => standardizeCategoryName(entry.name, draft)));
+    return targets.size > 1;
+  });
+
+  const standardNames = Array.from(new Set(usage.map(entry => standardizeCategoryName(entry.name, draft)))).sort();
+  const mappedCount = usage.filter(entry => draft[entry.name] && draft[entry.name] !== entry.name).length;
+  const hasChanges = JSON.stringify(draft) !== JSON.stringify(mappings);
+
+  const handleSave = () => {
+    onSave(Object.fromEntries(Object.entries(draft).map(([name, standardName]) => [name, standardName.trim()])));
+  };
+
+  const setMapping = (name: string, standardName: string) => {
+    setDraft(prev => {
+      const updated = { ...prev };
+      if (!standardName.trim() || standardName.trim() === name) {
+        delete updated[name];
+      } else {
+        updated[name] = standardName;
+      }
+      return updated;
+    });
+  };
+
+  const acceptProposal = (proposalKey: string, names: string[]) => {
+    const target = (proposalNames[proposalKey] ?? proposalKey).trim();
+    if (!target) return;
+    names
+      .filter(name => !excluded.has(`${proposalKey}::${name}`))
+      .forEach(name => setMapping(name, target));
+  };
+
+  const toggleExcluded = (key: string) => {
+    setExcluded(prev => {
+      const updated = new Set(prev);
+      if (updated.has(key)) {
+        updated.delete(key);
+      } else {
+        updated.add(key);
+      }
+      return updated;
+    });
+  };
+
+  if (usage.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-64 bg-gray-50 rounded-lg border">
+        <p className="text-gray-500">No participant categories to standardize yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-sm border p-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Standardize Category Names</h3>
+            <p className="text-sm text-gray-600">
+              {usage.length} distinct names • {mappedCount} mapped to {standardNames.length} standardized categories.
+              Saved mappings are used by frequencies, agreement scores and exports.
+            </p>
+          </div>
+          <div className="flex items-center space-x-2">
+            <select
+              value={threshold}
+              onChange={(e) => setThreshold(parseFloat(e.target.value))}
+              className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              title="How similar names must be to be proposed as a merge"
+            >
+              {THRESHOLDS.map(option => (
+                <option key={option.value} value={option.value}>{option.label} matching</option>
+              ))}
+            </select>
+            <button
+              onClick={handleSave}
+              disabled={!hasChanges}
+              className="flex items-center px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+            >
+              <Save className="w-4 h-4 mr-2" />
+              Save Mappings
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {openProposals.length > 0 && (
+        <div className="bg-white rounded-lg shadow-sm border p-6">
+          <h4 className="font-medium text-gray-900 mb-4">Proposed Merges ({openProposals.length})</h4>
+          <div className="space-y-3">
+            {openProposals.map(proposal => (
+              <div key={proposal.standardName} className="border border-gray-200 rounded-lg p-3">
+                <div className="flex flex-col sm:flex-row sm:items-center gap-2 mb-2">
+                  <input
+                    type="text"
+                    value={proposalNames[proposal.standardName] ?? proposal.standardName}
+                    onChange={(e) => setProposalNames(prev => ({ ...prev, [proposal.standardName]: e.target.value }))}
+                    className="flex-1 px-2 py-1 text-sm font-medium border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <span className="text-xs text-gray-500">{Math.round(proposal.similarity * 100)}% similar</span>
+                  <button
+                    onClick={() => acceptProposal(proposal.standardName, proposal.names.map(entry => entry.name))}
+                    className="flex items-center px-3 py-1 text-sm bg-green-600 text-white rounded hover:bg-green-700"
+                  >
+                    <Merge className="w-4 h-4 mr-1" />
+                    Merge
+                  </button>
+                  <button
+                    onClick={() => setDismissed(prev => new Set(prev).add(proposal.standardName))}
+                    className="flex items-center px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
+                  >
+                    <X className="w-4 h-4 mr-1" />
+                    Dismiss
+                  </button>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {proposal.names.map(entry => {
+                    const key = `${proposal.standardName}::${entry.name}`;
+                    const included = !excluded.has(key);
+                    return (
+                      <button
+                        key={entry.name}
+                        onClick={() => toggleExcluded(key)}
+                        className={`flex items-center px-2 py-0.5 rounded text-xs border ${
+                          included ? 'bg-blue-50 border-blue-200 text-blue-800' : 'bg-white border-gray-200 text-gray-400 line-through'
+                        }`}
+                        title={included ? 'Leave this name out of the merge' : 'Include this name in the merge'}
+                      >
+                        {included && <Check className="w-3 h-3 mr-1" />}
+                        {entry.name} ({entry.count})
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-sm border p-6">
+        <h4 className="font-medium text-gray-900 mb-4">All Category Names</h4>
+        <datalist id="standard-category-names">
+          {standardNames.map(name => <option key={name} value={name} />)}
+        </datalist>
+        <div className="divide-y divide-gray-100">
+          {usage.map(entry => (
+            <div key={entry.name} className="flex items-center gap-3 py-2 text-sm">
+              <span className="w-1/3 truncate text-gray-900" title={entry.name}>{entry.name}</span>
+              <span className="w-24 text-gray-500">{entry.count} participant{entry.count !== 1 ? 's' : ''}</span>
+              <input
+                type="text"
+                list="standard-category-names"
+                value={draft[entry.name] ?? ''}
+                placeholder={entry.name}
+                onChange={(e) => setMapping(entry.name, e.target.value)}
+                className="flex-1 px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              {draft[entry.name] && (
+                <button
+                  onClick={() => setMapping(entry.name, '')}
+                  className="text-gray-400 hover:text-gray-600"
+                  title="Keep the original name"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CategoryStandardization;
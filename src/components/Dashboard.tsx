@@ -1,11 +1,20 @@
-import React from 'react';
-import { Plus, Users, BarChart3, Play, Edit, Trash2, Copy, Mail } from 'lucide-react';
-import { Study, CardSortResult } from '../types';
+import React, { useRef, useState } from 'react';
+import { Plus, Users, BarChart3, Play, Edit, Trash2, Copy, Mail, Package, Upload, AlertCircle, CheckCircle, GitCompare, History, Pause, Rocket, Lock, RotateCcw } from 'lucide-react';
+import { Study, StudyResult, StudyResultsIndex, StudyStatus } from '../types';
 import { formatDuration } from '../utils';
+import { getResultsForStudy, indexResults } from '../utils/resultUtils';
+import { LegacyImportResult } from '../utils/legacyImport';
+import { getStudyVersions } from '../utils/studyVersions';
+import { STUDY_STATUS_LABELS, getCloseReasonLabel, getStudyStatus } from '../utils/studyLifecycle';
+import { exportStudyBundle, importBundle, parseBundle, BUNDLE_EXTENSION, StudyBundle, CollisionResolution } from '../storage/bundle';
+import { TaggingSystem } from '../analytics/cardMetadata';
+import BundleImportDialog from './BundleImportDialog';
+import LegacyImportDialog from './LegacyImportDialog';
 
 interface DashboardProps {
   studies: Study[];
-  results: Record<string, CardSortResult[]>;
+  results: StudyResultsIndex;
+  taggingSystem?: TaggingSystem; // Card history travels with exported bundles
   onCreateStudy: () => void;
   onEditStudy: (study: Study) => void;
   onDeleteStudy: (studyId: number) => void;
@@ -13,24 +22,101 @@ interface DashboardProps {
   onStartParticipant: (study: Study) => void;
   onDuplicateStudy: (study: Study) => void;
   onManageParticipants: (study: Study) => void;
+  onImport?: (studies: Study[], results: StudyResultsIndex, taggingSystem?: TaggingSystem) => void;
+  onCompareStudies?: () => void;
+  onChangeStudyStatus?: (study: Study, status: StudyStatus) => void;
 }
 
+const STATUS_BADGE_STYLES: Record<StudyStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  live: 'bg-green-100 text-green-800',
+  paused: 'bg-yellow-100 text-yellow-800',
+  closed: 'bg-red-100 text-red-800'
+};
+
 const Dashboard: React.FC<DashboardProps> = ({
   studies,
   results,
+  taggingSystem,
   onCreateStudy,
   onEditStudy,
   onDeleteStudy,
   onViewAnalytics,
   onStartParticipant,
   onDuplicateStudy,
-  onManageParticipants
+  onManageParticipants,
+  onImport,
+  onCompareStudies,
+  onChangeStudyStatus
 }) => {
-  const getStudyResults = (studyId: number): CardSortResult[] => {
-    return Object.values(results).flat().filter(result => result.studyId === studyId);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pendingBundle, setPendingBundle] = useState<StudyBundle | null>(null);
+  const [pendingCSV, setPendingCSV] = useState<File | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [expandedHistoryId, setExpandedHistoryId] = useState<number | null>(null);
+
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    // CSV exports from other tools need their columns mapped first
+    if (file.name.toLowerCase().endsWith('.csv')) {
+      setPendingCSV(file);
+      setMessage(null);
+      return;
+    }
+
+    try {
+      setPendingBundle(parseBundle(await file.text()));
+      setMessage(null);
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to read the file' });
+    }
+  };
+
+  const handleConfirmImport = (resolutions: Record<number, CollisionResolution>) => {
+    if (!pendingBundle || !onImport) return;
+    const imported = importBundle({ studies, results, taggingSystem }, pendingBundle, resolutions);
+    onImport(imported.studies, imported.results, imported.taggingSystem);
+    setPendingBundle(null);
+    setMessage({
+      type: 'success',
+      text: `Imported ${imported.added} new, merged ${imported.merged} and copied ${imported.cloned} stud${
+        imported.added + imported.merged + imported.cloned !== 1 ? 'ies' : 'y'
+      }`
+    });
+  };
+
+  const handleConfirmLegacyImport = (imported: LegacyImportResult) => {
+    if (!onImport) return;
+    onImport([...studies, imported.study], { ...results, ...indexResults(imported.results) });
+    setPendingCSV(null);
+    setMessage({
+      type: 'success',
+      text: `Imported ${imported.results.length} participant${imported.results.length !== 1 ? 's' : ''} into "${imported.study.name}"`
+    });
+  };
+
+  const handleChangeStatus = (study: Study, status: StudyStatus) => {
+    if (!onChangeStudyStatus) return;
+    if (status === 'closed' && !window.confirm(`Close "${study.name}"? Participants will no longer be able to start it.`)) {
+      return;
+    }
+    try {
+      onChangeStudyStatus(study, status);
+      setMessage(null);
+    } catch (error) {
+      // Launching checks the study first and explains what is missing
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to change the study status' });
+    }
+  };
+
+  const getStudyResults = (studyId: number): StudyResult[] => {
+    return getResultsForStudy(results, studyId, { attempts: 'latest' });
   };
 
-  const getAverageDuration = (studyResults: CardSortResult[]): string => {
+  const getAverageDuration = (studyResults: StudyResult[]): string => {
     if (studyResults.length === 0) return 'No data';
     const avgDuration = studyResults.reduce((sum, result) => sum + result.totalDuration, 0) / studyResults.length;
     return formatDuration(avgDuration);
@@ -45,18 +131,93 @@ const Dashboard: React.FC<DashboardProps> = ({
               <h1 className="text-2xl font-bold text-gray-900">VUX Sort Dashboard</h1>
               <p className="text-sm text-gray-600 mt-1">Manage your card sorting studies</p>
             </div>
-            <button
-              onClick={onCreateStudy}
-              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 flex items-center space-x-2"
-            >
-              <Plus className="w-4 h-4" />
-              <span>Create Study</span>
-            </button>
+            <div className="flex items-center space-x-2">
+              {onCompareStudies && (studies.length > 1 || studies.some(study => study.versionHistory?.length)) && (
+                <button
+                  onClick={onCompareStudies}
+                  className="bg-white text-gray-700 border border-gray-300 px-4 py-2 rounded-lg hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 flex items-center space-x-2"
+                  title="Compare agreement and placements across card sort studies"
+                >
+                  <GitCompare className="w-4 h-4" />
+                  <span>Compare Studies</span>
+                </button>
+              )}
+              {studies.length > 0 && (
+                <button
+                  onClick={() => exportStudyBundle(studies, results, taggingSystem)}
+                  className="bg-white text-gray-700 border border-gray-300 px-4 py-2 rounded-lg hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 flex items-center space-x-2"
+                  title="Download every study with its invites, results and images"
+                >
+                  <Package className="w-4 h-4" />
+                  <span>Export All</span>
+                </button>
+              )}
+              {onImport && (
+                <>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept={`.${BUNDLE_EXTENSION},.json,application/json,.csv,text/csv`}
+                    onChange={handleImportFile}
+                    className="hidden"
+                  />
+                  <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="bg-white text-gray-700 border border-gray-300 px-4 py-2 rounded-lg hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 flex items-center space-x-2"
+                    title={`Import a .${BUNDLE_EXTENSION} bundle, a JSON results export or a CSV of results from another tool`}
+                  >
+                    <Upload className="w-4 h-4" />
+                    <span>Import</span>
+                  </button>
+                </>
+              )}
+              <button
+                onClick={onCreateStudy}
+                className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 flex items-center space-x-2"
+              >
+                <Plus className="w-4 h-4" />
+                <span>Create Study</span>
+              </button>
+            </div>
           </div>
         </div>
       </div>
 
+      {pendingBundle && (
+        <BundleImportDialog
+          bundle={pendingBundle}
+          existingStudies={studies}
+          onConfirm={handleConfirmImport}
+          onClose={() => setPendingBundle(null)}
+        />
+      )}
+
+      {pendingCSV && (
+        <LegacyImportDialog
+          file={pendingCSV}
+          onImport={handleConfirmLegacyImport}
+          onClose={() => setPendingCSV(null)}
+        />
+      )}
+
       <div className="max-w-7xl mx-auto px-4 sm:px-6 py-8">
+        {message && (
+          <div className={`mb-6 border rounded-lg p-4 flex items-center space-x-2 ${
+            message.type === 'success' ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'
+          }`}>
+            {message.type === 'success'
+              ? <CheckCircle className="w-5 h-5 text-green-500" />
+              : <AlertCircle className="w-5 h-5 text-red-500" />}
+            <span className={message.type === 'success' ? 'text-green-700' : 'text-red-700'}>{message.text}</span>
+            <button
+              onClick={() => setMessage(null)}
+              className={`ml-auto ${message.type === 'success' ? 'text-green-500 hover:text-green-700' : 'text-red-500 hover:text-red-700'}`}
+            >
+              ×
+            </button>
+          </div>
+        )}
+
         {studies.length === 0 ? (
           <div className="text-center py-12">
             <div className="bg-white rounded-lg shadow-sm border p-8">
@@ -80,13 +241,23 @@ const Dashboard: React.FC<DashboardProps> = ({
               const studyResults = getStudyResults(study.id);
               const participantCount = studyResults.length;
               const averageDuration = getAverageDuration(studyResults);
+              const versions = getStudyVersions(study, results);
+              const status = getStudyStatus(study);
               
               return (
                 <div key={study.id} className="bg-white rounded-lg shadow-sm border hover:shadow-md transition-shadow">
                   <div className="p-6">
                     <div className="flex items-start justify-between mb-4">
                       <div className="flex-1 min-w-0">
-                        <h3 className="text-lg font-semibold text-gray-900 truncate">{study.name}</h3>
+                        <div className="flex items-center space-x-2">
+                          <h3 className="text-lg font-semibold text-gray-900 truncate">{study.name}</h3>
+                          <span
+                            className={`px-2 py-0.5 rounded-full text-xs font-medium flex-shrink-0 ${STATUS_BADGE_STYLES[status]}`}
+                            title={status === 'closed' ? getCloseReasonLabel(study) : undefined}
+                          >
+                            {STUDY_STATUS_LABELS[status]}
+                          </span>
+                        </div>
                         {study.description && (
                           <p className="text-sm text-gray-600 mt-1 line-clamp-2">{study.description}</p>
                         )}
@@ -109,7 +280,9 @@ const Dashboard: React.FC<DashboardProps> = ({
                           <Users className="w-4 h-4 mr-1" />
                           Participants:
                         </span>
-                        <span className="font-medium">{participantCount}</span>
+                        <span className="font-medium">
+                          {participantCount}{study.settings.maxParticipants ? ` / ${study.settings.maxParticipants}` : ''}
+                        </span>
                       </div>
                       
                       <div className="flex items-center justify-between text-sm">
@@ -121,20 +294,78 @@ const Dashboard: React.FC<DashboardProps> = ({
                         <span className="text-gray-600">Created:</span>
                         <span className="font-medium">{new Date(study.created).toLocaleDateString()}</span>
                       </div>
+
+                      {status === 'closed' ? (
+                        <div className="flex items-center justify-between text-sm">
+                          <span className="text-gray-600">Closed:</span>
+                          <span className="font-medium" title={getCloseReasonLabel(study)}>
+                            {study.statusChangedAt ? new Date(study.statusChangedAt).toLocaleDateString() : 'Yes'}
+                          </span>
+                        </div>
+                      ) : study.settings.closeDate && (
+                        <div className="flex items-center justify-between text-sm">
+                          <span className="text-gray-600">Closes:</span>
+                          <span className="font-medium">{new Date(study.settings.closeDate).toLocaleString()}</span>
+                        </div>
+                      )}
+
+                      {versions.length > 1 && (
+                        <div className="text-sm">
+                          <div className="flex items-center justify-between">
+                            <span className="text-gray-600">Version:</span>
+                            <button
+                              onClick={() => setExpandedHistoryId(expandedHistoryId === study.id ? null : study.id)}
+                              className="font-medium text-blue-600 hover:text-blue-800 flex items-center space-x-1"
+                              title="Show version history"
+                            >
+                              <History className="w-3 h-3" />
+                              <span>v{versions[versions.length - 1].version} of {versions.length}</span>
+                            </button>
+                          </div>
+                          {expandedHistoryId === study.id && (
+                            <ol className="mt-2 space-y-1 border-l-2 border-gray-200 pl-3">
+                              {[...versions].reverse().map(version => (
+                                <li key={version.version} className="flex items-center justify-between text-xs text-gray-600">
+                                  <span>
+                                    <span className="font-medium text-gray-900">v{version.version}</span>
+                                    {version.current && ' (current)'} • {new Date(version.createdAt).toLocaleDateString()}
+                                    {version.retiredAt && ` – ${new Date(version.retiredAt).toLocaleDateString()}`}
+                                  </span>
+                                  <span>
+                                    {version.type === 'tree-testing' ? `${version.tasks?.length || 0} tasks` : `${version.cards.length} cards`} •{' '}
+                                    {version.resultCount} result{version.resultCount !== 1 ? 's' : ''}
+                                  </span>
+                                </li>
+                              ))}
+                            </ol>
+                          )}
+                        </div>
+                      )}
                     </div>
                   </div>
                   
                   <div className="border-t border-gray-200 px-6 py-4">
                     <div className="flex items-center justify-between space-x-2">
                       <div className="flex space-x-2">
-                        <button
-                          onClick={() => onStartParticipant(study)}
-                          className="bg-green-600 text-white px-3 py-1.5 rounded text-sm hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 flex items-center space-x-1"
-                          title="Start participant session"
-                        >
-                          <Play className="w-3 h-3" />
-                          <span>Start</span>
-                        </button>
+                        {status === 'live' ? (
+                          <button
+                            onClick={() => onStartParticipant(study)}
+                            className="bg-green-600 text-white px-3 py-1.5 rounded text-sm hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 flex items-center space-x-1"
+                            title="Start participant session"
+                          >
+                            <Play className="w-3 h-3" />
+                            <span>Start</span>
+                          </button>
+                        ) : onChangeStudyStatus && (
+                          <button
+                            onClick={() => handleChangeStatus(study, 'live')}
+                            className="bg-green-600 text-white px-3 py-1.5 rounded text-sm hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 flex items-center space-x-1"
+                            title={status === 'draft' ? 'Open the study to participants' : 'Accept participants again'}
+                          >
+                            {status === 'draft' ? <Rocket className="w-3 h-3" /> : <RotateCcw className="w-3 h-3" />}
+                            <span>{status === 'draft' ? 'Launch' : status === 'paused' ? 'Resume' : 'Reopen'}</span>
+                          </button>
+                        )}
                         
                         <button
                           onClick={() => onViewAnalytics(study)}
@@ -147,6 +378,26 @@ const Dashboard: React.FC<DashboardProps> = ({
                       </div>
                       
                       <div className="flex space-x-1">
+                        {onChangeStudyStatus && status === 'live' && (
+                          <button
+                            onClick={() => handleChangeStatus(study, 'paused')}
+                            className="text-yellow-600 hover:text-yellow-800 p-1.5 rounded hover:bg-yellow-50"
+                            title="Pause study"
+                          >
+                            <Pause className="w-4 h-4" />
+                          </button>
+                        )}
+
+                        {onChangeStudyStatus && (status === 'live' || status === 'paused') && (
+                          <button
+                            onClick={() => handleChangeStatus(study, 'closed')}
+                            className="text-gray-600 hover:text-gray-800 p-1.5 rounded hover:bg-gray-50"
+                            title="Close study"
+                          >
+                            <Lock className="w-4 h-4" />
+                          </button>
+                        )}
+
                         <button
                           onClick={() => onDuplicateStudy(study)}
                           className="text-blue-600 hover:text-blue-800 p-1.5 rounded hover:bg-blue-50"
@@ -155,6 +406,14 @@ const Dashboard: React.FC<DashboardProps> = ({
                           <Copy className="w-4 h-4" />
                         </button>
                         
+                        <button
+                          onClick={() => exportStudyBundle([study], results, taggingSystem)}
+                          className="text-gray-600 hover:text-gray-800 p-1.5 rounded hover:bg-gray-50"
+                          title="Export study bundle"
+                        >
+                          <Package className="w-4 h-4" />
+                        </button>
+
                         <button
                           onClick={() => onManageParticipants(study)}
                           className="text-purple-600 hover:text-purple-800 p-1.5 rounded hover:bg-purple-50"
@@ -1,10 +1,12 @@
 import React, { useEffect, useRef, useState } from 'react';
 import * as d3 from 'd3';
-import { SimilarityAnalysis, HierarchicalClustering, PerformanceOptimizer } from '../analytics';
-import { CardSortResult, ClusterNode } from '../types';
+import { SimilarityAnalysis, HierarchicalClustering, PerformanceOptimizer, SIMILARITY_METRIC_LABELS, LINKAGE_METHOD_LABELS } from '../analytics';
+import { CardSortResult, SimilarityMetric, LinkageMethod, ClusterNode } from '../types';
 
 interface DendrogramProps {
   results: CardSortResult[];
+  metric?: SimilarityMetric;
+  linkage?: LinkageMethod;
   width?: number;
   height?: number;
   responsive?: boolean;
@@ -12,6 +14,8 @@ interface DendrogramProps {
 
 const Dendrogram: React.FC<DendrogramProps> = ({ 
   results, 
+  metric = 'co-occurrence',
+  linkage = 'average',
   width = 800, 
   height = 600,
   responsive = true
@@ -56,22 +60,13 @@ const Dendrogram: React.FC<DendrogramProps> = ({
     const currentHeight = responsive ? dimensions.height : height;
 
     // Get card names for clustering
-    const cardNames: string[] = [];
-    if (results.length > 0) {
-      results[0].cardSortResults.forEach(category => {
-        category.cards.forEach(card => {
-          if (!cardNames.includes(card.text)) {
-            cardNames.push(card.text);
-          }
-        });
-      });
-    }
+    const cardNames = SimilarityAnalysis.getCards(results).map(card => card.text);
 
     if (cardNames.length === 0) return;
 
     // Calculate similarity matrix and perform clustering
-    const similarityMatrix = SimilarityAnalysis.createSimilarityMatrix(results);
-    const clusterRoot = HierarchicalClustering.cluster(similarityMatrix, cardNames);
+    const similarityMatrix = SimilarityAnalysis.createSimilarityMatrix(results, metric);
+    const clusterRoot = HierarchicalClustering.cluster(similarityMatrix, cardNames, { linkage });
 
     // Set up dimensions with sufficient space for labels
     const margin = isMobile 
@@ -250,7 +245,7 @@ const Dendrogram: React.FC<DendrogramProps> = ({
       .style('fill', '#4b5563')
       .text(isMobile ? 'Dist.' : 'Distance'); // Shorter text for mobile
 
-  }, [results, dimensions.width, dimensions.height, isMobile, orientation]);
+  }, [results, metric, linkage, dimensions.width, dimensions.height, isMobile, orientation]);
 
   if (results.length === 0) {
     return (
@@ -263,7 +258,12 @@ const Dendrogram: React.FC<DendrogramProps> = ({
   return (
     <div ref={containerRef} className="bg-white p-2 sm:p-4 rounded-lg shadow border">
       <div className="flex items-center justify-between mb-4">
-        <h3 className="text-lg font-semibold text-gray-900">Hierarchical Clustering</h3>
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Hierarchical Clustering</h3>
+          <p className="text-xs text-gray-500">
+            Similarity: {SIMILARITY_METRIC_LABELS[metric]} • Linkage: {LINKAGE_METHOD_LABELS[linkage]}
+          </p>
+        </div>
         {!isMobile && (
           <div className="flex space-x-2">
             <button
@@ -1,26 +1,74 @@
 import React, { useState } from 'react';
-import { Download, ArrowLeft, Users, Clock, Target, TreePine } from 'lucide-react';
-import { Study, StudyResult, CardSortResult, TreeTestResult } from '../types';
+import { Download, ArrowLeft, Users, Clock, Target, TreePine, AlertTriangle, History } from 'lucide-react';
+import { Study, StudyResultsIndex, CardSortResult, TreeTestResult, SimilarityMetric, LinkageMethod } from '../types';
 import SimilarityMatrix from './SimilarityMatrix';
 import Dendrogram from './Dendrogram';
+import PieTree from './PieTree';
+import SuggestedStructure from './SuggestedStructure';
+import CategoryStandardization from './CategoryStandardization';
 import ExportDialog from './ExportDialog';
-import { CategoryAnalysis } from '../analytics';
+import CardLinkDialog from './CardLinkDialog';
+import { Phase1AEnhancedAnalytics } from './Phase1AEnhancedAnalytics';
+import { CategoryAnalysis, SIMILARITY_METRIC_LABELS, LINKAGE_METHOD_LABELS } from '../analytics';
+import { analyzeTreeTest } from '../analytics/treeTestAnalysis';
+import { checkSampleSize } from '../analytics/confidenceIntervals';
 import { formatDuration } from '../utils';
+import { standardizeStudyResults } from '../utils/categoryStandardization';
+import { countRetakes, getResultsForStudy } from '../utils/resultUtils';
+import { getStudyAtVersion, getStudyVersionNumber, getStudyVersions } from '../utils/studyVersions';
+import { TaggingSystem } from '../analytics/cardMetadata';
+import { CardLinkConfirmations, findCardMatches } from '../analytics/cardHistory';
 
 interface EnhancedAnalyticsProps {
   study: Study;
-  results: StudyResult[];
+  results: StudyResultsIndex;
   onBack: () => void;
+  onCreateStudyDraft?: (draft: Study) => void;
+  onUpdateStudy?: (study: Study) => void;
+  taggingSystem?: TaggingSystem;
+  onTaggingSystemChange?: (system: TaggingSystem) => void;
+  onFinalizeResults?: (study: Study, confirmations: CardLinkConfirmations) => void;
 }
 
-const EnhancedAnalytics: React.FC<EnhancedAnalyticsProps> = ({ study, results, onBack }) => {
-  const [activeTab, setActiveTab] = useState<'overview' | 'similarity' | 'dendrogram' | 'categories' | 'tree-analytics'>('overview');
+const EnhancedAnalytics: React.FC<EnhancedAnalyticsProps> = ({
+  study: currentStudy,
+  results: resultIndex,
+  onBack,
+  onCreateStudyDraft,
+  onUpdateStudy,
+  taggingSystem,
+  onTaggingSystemChange,
+  onFinalizeResults
+}) => {
+  const [activeTab, setActiveTab] = useState<'overview' | 'similarity' | 'dendrogram' | 'categories' | 'standardize' | 'insights' | 'tree-analytics'>('overview');
   const [showExportDialog, setShowExportDialog] = useState(false);
+  const [showFinalizeDialog, setShowFinalizeDialog] = useState(false);
+  const [similarityMetric, setSimilarityMetric] = useState<SimilarityMetric>('co-occurrence');
+  const [linkage, setLinkage] = useState<LinkageMethod>('average');
+  const [includeRetakes, setIncludeRetakes] = useState(false);
+  // Results of different versions saw different content, so a versioned study opens on its current version
+  const [selectedVersion, setSelectedVersion] = useState<number | 'all'>(() =>
+    currentStudy.versionHistory?.length ? getStudyVersionNumber(currentStudy) : 'all'
+  );
+
+  const versions = getStudyVersions(currentStudy, resultIndex);
+  const study = selectedVersion === 'all' ? currentStudy : getStudyAtVersion(currentStudy, selectedVersion);
+  const isCurrentVersion = selectedVersion === 'all' ? versions.length === 1 : selectedVersion === getStudyVersionNumber(currentStudy);
+
+  // By default each participant counts once, with their latest attempt
+  const results = getResultsForStudy(resultIndex, study.id, {
+    attempts: includeRetakes ? 'all' : 'latest',
+    version: selectedVersion === 'all' ? undefined : selectedVersion
+  });
+  const retakeCount = countRetakes(resultIndex, study.id);
 
   // Filter results by type
-  const cardSortResults = results.filter(r => 
+  const rawCardSortResults = results.filter(r => 
     ['card-sorting', 'open-card-sorting', 'reverse-card-sorting'].includes(r.studyType)
   ) as CardSortResult[];
+  // Participant-created category names are merged using the study's saved mappings
+  const cardSortResults = standardizeStudyResults(study, rawCardSortResults);
+  const canStandardize = study.type === 'open-card-sorting' || Boolean(study.settings.allowCustomCategories);
   
   const treeTestResults = results.filter(r => r.studyType === 'tree-testing') as TreeTestResult[];
 
@@ -31,21 +79,11 @@ const EnhancedAnalytics: React.FC<EnhancedAnalyticsProps> = ({ study, results, o
     : 0;
 
   const completionRate = results.length > 0 ? 100 : 0;
+  const sampleSize = checkSampleSize(results.length, study.settings.minParticipants);
 
   // Tree testing analytics
-  const treeAnalytics = treeTestResults.length > 0 ? {
-    taskSuccessRate: treeTestResults.reduce((sum, result) => 
-      sum + result.treeTestResults.reduce((taskSum, task) => taskSum + (task.success ? 1 : 0), 0)
-    , 0) / treeTestResults.reduce((sum, result) => sum + result.treeTestResults.length, 0) * 100,
-    
-    averageClicks: treeTestResults.reduce((sum, result) => 
-      sum + result.treeTestResults.reduce((taskSum, task) => taskSum + task.clicks, 0)
-    , 0) / treeTestResults.reduce((sum, result) => sum + result.treeTestResults.length, 0),
-    
-    directSuccessRate: treeTestResults.reduce((sum, result) => 
-      sum + result.treeTestResults.reduce((taskSum, task) => taskSum + (task.directSuccess ? 1 : 0), 0)
-    , 0) / treeTestResults.reduce((sum, result) => sum + result.treeTestResults.length, 0) * 100
-  } : null;
+  const treeTestAnalysis = treeTestResults.length > 0 ? analyzeTreeTest(study, treeTestResults) : null;
+  const treeAnalytics = treeTestAnalysis?.overall || null;
 
   const handleExportClick = () => {
     setShowExportDialog(true);
@@ -61,6 +99,24 @@ const EnhancedAnalytics: React.FC<EnhancedAnalyticsProps> = ({ study, results, o
     }
   };
 
+  const versionSelect = versions.length > 1 && (
+    <label className="flex items-center space-x-2 text-sm text-gray-700" title="Results are analyzed against the cards and settings of the version they were collected under">
+      <span>Version</span>
+      <select
+        value={selectedVersion}
+        onChange={(e) => setSelectedVersion(e.target.value === 'all' ? 'all' : Number(e.target.value))}
+        className="px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        {versions.map(version => (
+          <option key={version.version} value={version.version}>
+            v{version.version}{version.current ? ' (current)' : ''} • {version.resultCount} result{version.resultCount !== 1 ? 's' : ''}
+          </option>
+        ))}
+        <option value="all">All versions</option>
+      </select>
+    </label>
+  );
+
   if (results.length === 0) {
     return (
       <div className="min-h-screen bg-gray-50">
@@ -80,6 +136,7 @@ const EnhancedAnalytics: React.FC<EnhancedAnalyticsProps> = ({ study, results, o
                   <p className="text-sm text-gray-600">{getStudyTypeLabel(study.type)} Results</p>
                 </div>
               </div>
+              {versionSelect}
             </div>
           </div>
         </div>
@@ -117,7 +174,31 @@ const EnhancedAnalytics: React.FC<EnhancedAnalyticsProps> = ({ study, results, o
                 <p className="text-sm text-gray-600">{getStudyTypeLabel(study.type)} Results</p>
               </div>
             </div>
-            <div className="flex space-x-2">
+            <div className="flex items-center space-x-4">
+              {versionSelect}
+              {retakeCount > 0 && (
+                <label className="flex items-center space-x-2 text-sm text-gray-700" title="Retakes by the same participant are left out unless included">
+                  <input
+                    type="checkbox"
+                    checked={includeRetakes}
+                    onChange={(e) => setIncludeRetakes(e.target.checked)}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span>Include retakes ({retakeCount})</span>
+                </label>
+              )}
+              {onFinalizeResults && taggingSystem && cardSortResults.length > 0 && isCurrentVersion && (
+                <button
+                  onClick={() => setShowFinalizeDialog(true)}
+                  className="bg-white text-gray-700 border border-gray-300 px-4 py-2 rounded-lg hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 flex items-center space-x-2"
+                  title={study.resultsFinalizedAt
+                    ? `Recorded in the card history on ${new Date(study.resultsFinalizedAt).toLocaleDateString()}`
+                    : 'Record these results in the cross-study card history'}
+                >
+                  <History className="w-4 h-4" />
+                  <span>{study.resultsFinalizedAt ? 'Update Card History' : 'Finalize Results'}</span>
+                </button>
+              )}
               <button
                 onClick={handleExportClick}
                 className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 flex items-center space-x-2"
@@ -131,6 +212,13 @@ const EnhancedAnalytics: React.FC<EnhancedAnalyticsProps> = ({ study, results, o
       </div>
 
       <div className="max-w-7xl mx-auto px-4 sm:px-6 py-8">
+        {sampleSize.isTooSmall && (
+          <div className="flex items-start space-x-3 bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6">
+            <AlertTriangle className="w-5 h-5 text-yellow-600 flex-shrink-0 mt-0.5" />
+            <p className="text-sm text-yellow-800">{sampleSize.message}</p>
+          </div>
+        )}
+
         {/* Summary Stats */}
         <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
           <div className="bg-white rounded-lg shadow-sm border p-6">
@@ -232,6 +320,30 @@ const EnhancedAnalytics: React.FC<EnhancedAnalyticsProps> = ({ study, results, o
                 >
                   Category Analysis
                 </button>
+
+                {canStandardize && onUpdateStudy && (
+                  <button
+                    onClick={() => setActiveTab('standardize')}
+                    className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                      activeTab === 'standardize'
+                        ? 'border-blue-500 text-blue-600'
+                        : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                    }`}
+                  >
+                    Standardize Categories
+                  </button>
+                )}
+
+                <button
+                  onClick={() => setActiveTab('insights')}
+                  className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                    activeTab === 'insights'
+                      ? 'border-blue-500 text-blue-600'
+                      : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                  }`}
+                >
+                  Agreement & Card History
+                </button>
               </>
             )}
 
@@ -289,6 +401,14 @@ const EnhancedAnalytics: React.FC<EnhancedAnalyticsProps> = ({ study, results, o
                       <dt className="text-gray-600">Last Updated:</dt>
                       <dd className="font-medium">{new Date(study.updated).toLocaleDateString()}</dd>
                     </div>
+                    {versions.length > 1 && (
+                      <div className="flex justify-between">
+                        <dt className="text-gray-600">Version:</dt>
+                        <dd className="font-medium">
+                          {selectedVersion === 'all' ? `All ${versions.length} versions` : `v${selectedVersion} of ${versions.length}`}
+                        </dd>
+                      </div>
+                    )}
                   </dl>
                 </div>
                 <div>
@@ -337,15 +457,49 @@ const EnhancedAnalytics: React.FC<EnhancedAnalyticsProps> = ({ study, results, o
           </div>
         )}
 
+        {(activeTab === 'similarity' || activeTab === 'dendrogram') && cardSortResults.length > 0 && (
+          <div className="flex items-center justify-end mb-4">
+            <label htmlFor="similarity-metric" className="text-sm text-gray-700 mr-2">Similarity metric</label>
+            <select
+              id="similarity-metric"
+              value={similarityMetric}
+              onChange={(e) => setSimilarityMetric(e.target.value as SimilarityMetric)}
+              className="px-3 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {(Object.keys(SIMILARITY_METRIC_LABELS) as SimilarityMetric[]).map(metric => (
+                <option key={metric} value={metric}>{SIMILARITY_METRIC_LABELS[metric]}</option>
+              ))}
+            </select>
+            <label htmlFor="linkage-method" className="text-sm text-gray-700 ml-4 mr-2">Linkage</label>
+            <select
+              id="linkage-method"
+              value={linkage}
+              onChange={(e) => setLinkage(e.target.value as LinkageMethod)}
+              className="px-3 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {(Object.keys(LINKAGE_METHOD_LABELS) as LinkageMethod[]).map(method => (
+                <option key={method} value={method}>{LINKAGE_METHOD_LABELS[method]}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
         {activeTab === 'similarity' && cardSortResults.length > 0 && (
           <div className="space-y-8">
-            <SimilarityMatrix results={cardSortResults} />
+            <SimilarityMatrix results={cardSortResults} metric={similarityMetric} linkage={linkage} />
           </div>
         )}
 
         {activeTab === 'dendrogram' && cardSortResults.length > 0 && (
           <div className="space-y-8">
-            <Dendrogram results={cardSortResults} />
+            <Dendrogram results={cardSortResults} metric={similarityMetric} linkage={linkage} />
+            <SuggestedStructure
+              study={study}
+              results={cardSortResults}
+              metric={similarityMetric}
+              linkage={linkage}
+              onCreateDraft={onCreateStudyDraft}
+            />
           </div>
         )}
 
@@ -383,83 +537,197 @@ const EnhancedAnalytics: React.FC<EnhancedAnalyticsProps> = ({ study, results, o
           </div>
         )}
 
+        {activeTab === 'standardize' && canStandardize && onUpdateStudy && (
+          <CategoryStandardization
+            results={rawCardSortResults}
+            mappings={currentStudy.categoryMappings}
+            onSave={(categoryMappings) => onUpdateStudy({ ...currentStudy, categoryMappings, updated: new Date().toISOString() })}
+          />
+        )}
+
+        {activeTab === 'insights' && cardSortResults.length > 0 && (
+          <Phase1AEnhancedAnalytics
+            results={rawCardSortResults}
+            study={study}
+            taggingSystem={taggingSystem}
+            onTaggingSystemChange={onTaggingSystemChange}
+          />
+        )}
+
         {activeTab === 'tree-analytics' && treeTestResults.length > 0 && (
           <div className="space-y-8">
             <div className="bg-white rounded-lg shadow-sm border p-6">
               <h3 className="text-lg font-semibold text-gray-900 mb-6">Tree Testing Results</h3>
               
-              {treeAnalytics && (
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+              {treeTestAnalysis && (
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
                   <div className="bg-green-50 border border-green-200 rounded-lg p-4">
-                    <div className="text-2xl font-bold text-green-900">{treeAnalytics.taskSuccessRate.toFixed(1)}%</div>
+                    <div className="text-2xl font-bold text-green-900">{treeTestAnalysis.overall.taskSuccessRate.toFixed(1)}%</div>
                     <div className="text-sm text-green-700">Overall Success Rate</div>
                   </div>
                   <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
-                    <div className="text-2xl font-bold text-blue-900">{treeAnalytics.averageClicks.toFixed(1)}</div>
+                    <div className="text-2xl font-bold text-blue-900">{treeTestAnalysis.overall.averageClicks.toFixed(1)}</div>
                     <div className="text-sm text-blue-700">Average Clicks per Task</div>
                   </div>
                   <div className="bg-purple-50 border border-purple-200 rounded-lg p-4">
-                    <div className="text-2xl font-bold text-purple-900">{treeAnalytics.directSuccessRate.toFixed(1)}%</div>
+                    <div className="text-2xl font-bold text-purple-900">{treeTestAnalysis.overall.directSuccessRate.toFixed(1)}%</div>
                     <div className="text-sm text-purple-700">Direct Success Rate</div>
                   </div>
+                  <div className="bg-orange-50 border border-orange-200 rounded-lg p-4">
+                    <div className="text-2xl font-bold text-orange-900">{treeTestAnalysis.firstClickCorrectRate.toFixed(1)}%</div>
+                    <div className="text-sm text-orange-700">First Click Correct</div>
+                  </div>
+                </div>
+              )}
+
+              {treeTestAnalysis && treeTestAnalysis.search.searchAttempts > 0 && (
+                <div className="border border-gray-200 rounded-lg p-4 mb-8">
+                  <h4 className="font-medium text-gray-900 mb-3">Search vs. Browse</h4>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+                    <div>
+                      <div className="text-lg font-semibold text-gray-900">{treeTestAnalysis.search.searchUsageRate.toFixed(1)}%</div>
+                      <div className="text-xs text-gray-600">of attempts used search</div>
+                    </div>
+                    <div>
+                      <div className="text-lg font-semibold text-gray-900">
+                        {treeTestAnalysis.search.searchSuccessRate.toFixed(1)}% / {treeTestAnalysis.search.browseSuccessRate.toFixed(1)}%
+                      </div>
+                      <div className="text-xs text-gray-600">
+                        Success when searching ({treeTestAnalysis.search.searchAttempts}) / browsing ({treeTestAnalysis.search.browseAttempts})
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-xs text-gray-600 mb-1">Top queries</div>
+                      <div className="flex flex-wrap gap-1">
+                        {treeTestAnalysis.search.topQueries.map(query => (
+                          <span key={query.query} className="bg-gray-100 px-2 py-0.5 rounded text-xs">
+                            {query.query} ({query.count})
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
                 </div>
               )}
 
               <div className="space-y-6">
-                {study.tasks?.map((task, taskIndex) => {
-                  const taskResults = treeTestResults.flatMap(result => 
-                    result.treeTestResults.filter(tr => tr.taskId === taskIndex)
-                  );
-                  
-                  if (taskResults.length === 0) return null;
-                  
-                  const successCount = taskResults.filter(tr => tr.success).length;
-                  const directSuccessCount = taskResults.filter(tr => tr.directSuccess).length;
-                  const avgClicks = taskResults.reduce((sum, tr) => sum + tr.clicks, 0) / taskResults.length;
-                  const avgDuration = taskResults.reduce((sum, tr) => sum + tr.duration, 0) / taskResults.length;
+                {treeTestAnalysis?.tasks.map((task, taskIndex) => {
+                  if (task.attempts === 0) return null;
                   
                   return (
-                    <div key={taskIndex} className="border border-gray-200 rounded-lg p-4">
-                      <h4 className="font-medium text-gray-900 mb-3">Task {taskIndex + 1}: {task}</h4>
+                    <div key={task.taskId} className="border border-gray-200 rounded-lg p-4">
+                      <h4 className="font-medium text-gray-900 mb-3">Task {taskIndex + 1}: {task.taskText}</h4>
                       
-                      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+                      <div className="grid grid-cols-2 md:grid-cols-6 gap-4 mb-4">
                         <div className="text-center">
                           <div className="text-lg font-semibold text-green-600">
-                            {((successCount / taskResults.length) * 100).toFixed(1)}%
+                            {task.successRate.toFixed(1)}%
                           </div>
                           <div className="text-xs text-gray-600">Success Rate</div>
                         </div>
+                        <div className="text-center">
+                          <div className="text-lg font-semibold text-yellow-600">
+                            {task.partialSuccessRate.toFixed(1)}%
+                          </div>
+                          <div className="text-xs text-gray-600">Partial Success</div>
+                        </div>
                         <div className="text-center">
                           <div className="text-lg font-semibold text-blue-600">
-                            {((directSuccessCount / taskResults.length) * 100).toFixed(1)}%
+                            {task.directSuccessRate.toFixed(1)}%
                           </div>
                           <div className="text-xs text-gray-600">Direct Success</div>
                         </div>
+                        <div className="text-center">
+                          <div className="text-lg font-semibold text-indigo-600">
+                            {task.firstClickCorrectRate.toFixed(1)}%
+                          </div>
+                          <div className="text-xs text-gray-600">First Click Correct</div>
+                        </div>
                         <div className="text-center">
                           <div className="text-lg font-semibold text-purple-600">
-                            {avgClicks.toFixed(1)}
+                            {task.averageClicks.toFixed(1)}
                           </div>
                           <div className="text-xs text-gray-600">Avg. Clicks</div>
                         </div>
                         <div className="text-center">
                           <div className="text-lg font-semibold text-orange-600">
-                            {formatDuration(avgDuration)}
+                            {formatDuration(task.averageDuration)}
                           </div>
                           <div className="text-xs text-gray-600">Avg. Time</div>
                         </div>
                       </div>
                       
-                      <div className="w-full bg-gray-200 rounded-full h-2">
+                      <div className="w-full bg-gray-200 rounded-full h-2 flex overflow-hidden mb-2">
+                        <div
+                          className="bg-green-600 h-2"
+                          style={{ width: `${task.successRate}%` }}
+                        ></div>
                         <div
-                          className="bg-green-600 h-2 rounded-full"
-                          style={{ width: `${(successCount / taskResults.length) * 100}%` }}
+                          className="bg-yellow-400 h-2"
+                          style={{ width: `${task.partialSuccessRate}%` }}
                         ></div>
                       </div>
+
+                      <div className="flex flex-wrap gap-x-6 gap-y-1 text-xs text-gray-600 mb-4">
+                        <span>Directness: <strong>{task.directnessRate.toFixed(1)}%</strong></span>
+                        <span>Avg. backtracks: <strong>{task.averageBacktracks.toFixed(1)}</strong></span>
+                        <span>Time to first click: <strong>{formatDuration(task.averageTimeToFirstClick)}</strong></span>
+                        <span>Gave up: <strong>{task.gaveUpRate.toFixed(1)}%</strong></span>
+                        <span>Timed out: <strong>{task.timedOutRate.toFixed(1)}%</strong></span>
+                        {task.search.searchAttempts > 0 && (
+                          <span>
+                            Searched: <strong>{task.search.searchUsageRate.toFixed(1)}%</strong>
+                            {' '}(success {task.search.searchSuccessRate.toFixed(0)}% vs {task.search.browseSuccessRate.toFixed(0)}% browsing)
+                          </span>
+                        )}
+                      </div>
+
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+                        <div>
+                          <h5 className="font-medium text-gray-700 mb-2">First Clicks</h5>
+                          <ul className="space-y-1">
+                            {task.firstClicks.slice(0, 5).map(click => (
+                              <li key={click.nodeId} className="flex justify-between">
+                                <span className={click.isCorrect ? 'text-green-700' : 'text-gray-700'}>{click.nodeName}</span>
+                                <span className="text-gray-500">{click.percentage.toFixed(0)}%</span>
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                        <div>
+                          <h5 className="font-medium text-gray-700 mb-2">Most Common Paths</h5>
+                          <ul className="space-y-1">
+                            {task.mostCommonPaths.map(path => (
+                              <li key={path.path.join('>')} className="flex justify-between">
+                                <span className="truncate mr-2" title={path.path.join(' > ')}>{path.path.join(' > ')}</span>
+                                <span className="text-gray-500 flex-shrink-0">{path.frequency}×</span>
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                        <div>
+                          <h5 className="font-medium text-gray-700 mb-2">Failure Points</h5>
+                          {task.failurePoints.length > 0 ? (
+                            <ul className="space-y-1">
+                              {task.failurePoints.slice(0, 5).map(point => (
+                                <li key={point.nodeId} className="flex justify-between">
+                                  <span className="text-red-700">{point.nodeName}</span>
+                                  <span className="text-gray-500">{point.abandonmentRate.toFixed(0)}%</span>
+                                </li>
+                              ))}
+                            </ul>
+                          ) : (
+                            <p className="text-gray-500">No failed attempts</p>
+                          )}
+                        </div>
+                      </div>
                     </div>
                   );
                 })}
               </div>
             </div>
+
+            <PieTree study={study} results={treeTestResults} />
           </div>
         )}
       </div>
@@ -469,7 +737,20 @@ const EnhancedAnalytics: React.FC<EnhancedAnalyticsProps> = ({ study, results, o
         onClose={() => setShowExportDialog(false)}
         study={study}
         results={results}
+        similarityMetric={similarityMetric}
       />
+
+      {showFinalizeDialog && taggingSystem && onFinalizeResults && (
+        <CardLinkDialog
+          study={currentStudy}
+          matches={findCardMatches(taggingSystem, currentStudy)}
+          onConfirm={(confirmations) => {
+            onFinalizeResults(currentStudy, confirmations);
+            setShowFinalizeDialog(false);
+          }}
+          onClose={() => setShowFinalizeDialog(false)}
+        />
+      )}
     </div>
   );
 };
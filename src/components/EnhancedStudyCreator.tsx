@@ -1,15 +1,25 @@
 import React, { useState } from 'react';
-import { Plus, Trash2, Save, X, Upload, FolderTree, Shuffle, Target } from 'lucide-react';
-import { Study, Card, Category, StudySettings, StudyType, TreeNode, BulkUploadData } from '../types';
+import { Plus, Trash2, Save, X, Upload, FolderTree, Shuffle, Target, CheckCircle, History, Play } from 'lucide-react';
+import { Study, Card, Category, StudySettings, StudyType, TreeNode, TreeTestTask, BulkUploadData } from '../types';
 import BulkUpload from './BulkUpload';
+import { DEFAULT_MIN_PARTICIPANTS } from '../analytics/confidenceIntervals';
+import { getStudyStatus, transitionStudy, validateStudyContent, validateStudyForLaunch } from '../utils/studyLifecycle';
+import { createTreeTestTask, flattenTree, hasTaskAnswers, normalizeTreeTestTasks, pruneTaskAnswers } from '../utils/treeTestUtils';
 
 interface EnhancedStudyCreatorProps {
   study?: Study;
+  isVersionLocked?: boolean; // Participants have completed the study's current version
   onSave: (study: Study) => void;
   onCancel: () => void;
 }
 
-const EnhancedStudyCreator: React.FC<EnhancedStudyCreatorProps> = ({ study, onSave, onCancel }) => {
+// datetime-local inputs take local time without a zone
+const toLocalDateTimeInput = (iso: string): string => {
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const EnhancedStudyCreator: React.FC<EnhancedStudyCreatorProps> = ({ study, isVersionLocked, onSave, onCancel }) => {
   const [studyName, setStudyName] = useState(study?.name || '');
   const [studyDescription, setStudyDescription] = useState(study?.description || '');
   const [studyType, setStudyType] = useState<StudyType>(study?.type || 'card-sorting');
@@ -18,11 +28,11 @@ const EnhancedStudyCreator: React.FC<EnhancedStudyCreatorProps> = ({ study, onSa
     study?.categories || []
   );
   const [treeStructure, setTreeStructure] = useState<TreeNode[]>(study?.treeStructure || []);
-  const [tasks, setTasks] = useState<string[]>(study?.tasks || []);
+  const [tasks, setTasks] = useState<TreeTestTask[]>(normalizeTreeTestTasks(study?.tasks));
   
   const [settings, setSettings] = useState<StudySettings>(study?.settings || {
     maxParticipants: 50,
-    minParticipants: 10,
+    minParticipants: DEFAULT_MIN_PARTICIPANTS,
     sortType: 'closed',
     allowCustomCategories: false,
     shuffleCards: true,
@@ -35,7 +45,7 @@ const EnhancedStudyCreator: React.FC<EnhancedStudyCreatorProps> = ({ study, onSa
     allowBacktracking: true,
     showSearchFunctionality: false,
     maxDepth: 5,
-    timeLimit: 300,
+    timeLimit: undefined,
     showProgress: true,
     allowPause: true,
     theme: 'default'
@@ -45,6 +55,7 @@ const EnhancedStudyCreator: React.FC<EnhancedStudyCreatorProps> = ({ study, onSa
   const [newCategoryName, setNewCategoryName] = useState('');
   const [newTask, setNewTask] = useState('');
   const [showBulkUpload, setShowBulkUpload] = useState(false);
+  const [answerPickerTaskId, setAnswerPickerTaskId] = useState<number | null>(null);
 
   const studyTypeOptions = [
     { value: 'card-sorting', label: 'Closed Card Sorting', description: 'Participants sort cards into predefined categories' },
@@ -92,17 +103,29 @@ const EnhancedStudyCreator: React.FC<EnhancedStudyCreatorProps> = ({ study, onSa
 
   const addTask = () => {
     if (newTask.trim()) {
-      setTasks([...tasks, newTask.trim()]);
+      setTasks([...tasks, createTreeTestTask(newTask.trim(), tasks)]);
       setNewTask('');
     }
   };
 
-  const removeTask = (index: number) => {
-    setTasks(tasks.filter((_, i) => i !== index));
+  const removeTask = (taskId: number) => {
+    setTasks(tasks.filter(task => task.id !== taskId));
+  };
+
+  const updateTask = (taskId: number, text: string) => {
+    setTasks(tasks.map(task => task.id === taskId ? { ...task, text } : task));
   };
 
-  const updateTask = (index: number, value: string) => {
-    setTasks(tasks.map((task, i) => i === index ? value : task));
+  // Mark a node as a correct or acceptable answer for a task, or clear it
+  const setTaskAnswer = (taskId: number, nodeId: number, answer: 'correct' | 'acceptable' | null) => {
+    setTasks(tasks.map(task => {
+      if (task.id !== taskId) return task;
+      const correctNodeIds = task.correctNodeIds.filter(id => id !== nodeId);
+      const acceptableNodeIds = (task.acceptableNodeIds || []).filter(id => id !== nodeId);
+      if (answer === 'correct') correctNodeIds.push(nodeId);
+      if (answer === 'acceptable') acceptableNodeIds.push(nodeId);
+      return { ...task, correctNodeIds, acceptableNodeIds };
+    }));
   };
 
   const handleBulkImport = (data: BulkUploadData) => {
@@ -116,57 +139,45 @@ const EnhancedStudyCreator: React.FC<EnhancedStudyCreatorProps> = ({ study, onSa
       setTreeStructure(data.treeStructure);
     }
     if (data.tasks) {
-      setTasks(prev => [...prev, ...data.tasks!]);
+      setTasks(prev => data.tasks!.reduce((all, text) => [...all, createTreeTestTask(text, all)], prev));
     }
     setShowBulkUpload(false);
   };
 
-  const handleSave = () => {
+  const buildStudy = (): Study => ({
+    ...study,
+    id: study?.id || Date.now(),
+    name: studyName.trim(),
+    description: studyDescription.trim(),
+    type: studyType,
+    cards,
+    categories: categories.filter(cat => cat.name.trim()),
+    treeStructure: studyType === 'tree-testing' ? treeStructure : undefined,
+    tasks: studyType === 'tree-testing' ? tasks.map(task => pruneTaskAnswers(task, treeStructure)) : undefined,
+    participants: study?.participants || 0,
+    status: study?.status ?? 'draft',
+    created: study?.created || new Date().toISOString(),
+    updated: new Date().toISOString(),
+    settings
+  });
+
+  // Drafts can be saved half-built; a study participants can reach must stay complete
+  const handleSave = (launch: boolean = false) => {
     if (!studyName.trim()) {
       alert('Please enter a study name');
       return;
     }
 
-    // Validation based on study type
-    if (studyType === 'tree-testing') {
-      if (treeStructure.length === 0) {
-        alert('Please add a tree structure for tree testing');
-        return;
-      }
-      if (tasks.length === 0) {
-        alert('Please add at least one task for tree testing');
-        return;
-      }
-    } else {
-      if (cards.length === 0) {
-        alert('Please add at least one card');
-        return;
-      }
-      
-      if (studyType === 'card-sorting' || studyType === 'reverse-card-sorting') {
-        if (categories.length === 0 || categories.some(cat => !cat.name.trim())) {
-          alert('Please add at least one category with a name');
-          return;
-        }
-      }
+    const newStudy = buildStudy();
+    const problems = launch
+      ? validateStudyForLaunch(newStudy)
+      : getStudyStatus(newStudy) === 'draft' ? [] : validateStudyContent(newStudy);
+    if (problems.length > 0) {
+      alert(`Please fix the following before saving:\n\n${problems.map(problem => `• ${problem}`).join('\n')}`);
+      return;
     }
 
-    const newStudy: Study = {
-      id: study?.id || Date.now(),
-      name: studyName.trim(),
-      description: studyDescription.trim(),
-      type: studyType,
-      cards,
-      categories: categories.filter(cat => cat.name.trim()),
-      treeStructure: studyType === 'tree-testing' ? treeStructure : undefined,
-      tasks: studyType === 'tree-testing' ? tasks : undefined,
-      participants: study?.participants || 0,
-      created: study?.created || new Date().toISOString(),
-      updated: new Date().toISOString(),
-      settings
-    };
-
-    onSave(newStudy);
+    onSave(launch ? transitionStudy(newStudy, 'live') : newStudy);
   };
 
   const handleKeyPress = (e: React.KeyboardEvent, action: () => void) => {
@@ -177,6 +188,7 @@ const EnhancedStudyCreator: React.FC<EnhancedStudyCreatorProps> = ({ study, onSa
 
   const isCardSorting = ['card-sorting', 'open-card-sorting', 'reverse-card-sorting'].includes(studyType);
   const isTreeTesting = studyType === 'tree-testing';
+  const isDraft = !study || getStudyStatus(study) === 'draft';
 
   return (
     <>
@@ -187,6 +199,13 @@ const EnhancedStudyCreator: React.FC<EnhancedStudyCreatorProps> = ({ study, onSa
               <h2 className="text-xl font-semibold text-gray-900">
                 {study ? 'Edit Study' : 'Create New Study'}
               </h2>
+              {study && isVersionLocked && (
+                <p className="text-sm text-gray-600 mt-1 flex items-center">
+                  <History className="w-4 h-4 mr-1 flex-shrink-0" />
+                  Participants have completed version {study.version ?? 1}. Changes to cards, categories, tasks or settings
+                  will be saved as version {(study.version ?? 1) + 1}, and existing results stay with version {study.version ?? 1}.
+                </p>
+              )}
             </div>
             
             <div className="p-6 space-y-6">
@@ -383,23 +402,85 @@ const EnhancedStudyCreator: React.FC<EnhancedStudyCreatorProps> = ({ study, onSa
                       </button>
                     </div>
                     
-                    <div className="space-y-2 max-h-64 overflow-y-auto">
-                      {tasks.map((task, index) => (
-                        <div key={index} className="bg-blue-50 border border-blue-200 rounded-lg p-3 flex items-center justify-between">
-                          <input
-                            type="text"
-                            value={task}
-                            onChange={(e) => updateTask(index, e.target.value)}
-                            className="flex-1 px-2 py-1 border border-gray-300 rounded text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-transparent mr-2"
-                            placeholder="Task description"
-                          />
-                          <button
-                            onClick={() => removeTask(index)}
-                            className="text-red-500 hover:text-red-700 p-1"
-                            title="Remove task"
-                          >
-                            <Trash2 className="w-4 h-4" />
-                          </button>
+                    <div className="space-y-2 max-h-96 overflow-y-auto">
+                      {tasks.map(task => (
+                        <div key={task.id} className="bg-blue-50 border border-blue-200 rounded-lg p-3">
+                          <div className="flex items-center justify-between">
+                            <input
+                              type="text"
+                              value={task.text}
+                              onChange={(e) => updateTask(task.id, e.target.value)}
+                              className="flex-1 px-2 py-1 border border-gray-300 rounded text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-transparent mr-2"
+                              placeholder="Task description"
+                            />
+                            <button
+                              onClick={() => setAnswerPickerTaskId(answerPickerTaskId === task.id ? null : task.id)}
+                              className={`px-2 py-1 text-xs rounded mr-2 flex items-center space-x-1 ${
+                                hasTaskAnswers(task)
+                                  ? 'bg-green-100 text-green-800 hover:bg-green-200'
+                                  : 'bg-yellow-100 text-yellow-800 hover:bg-yellow-200'
+                              }`}
+                              title="Choose the correct answers in the tree"
+                            >
+                              <CheckCircle className="w-3 h-3" />
+                              <span>
+                                {hasTaskAnswers(task)
+                                  ? `${task.correctNodeIds.length} correct, ${task.acceptableNodeIds?.length || 0} acceptable`
+                                  : 'Set answers'}
+                              </span>
+                            </button>
+                            <button
+                              onClick={() => removeTask(task.id)}
+                              className="text-red-500 hover:text-red-700 p-1"
+                              title="Remove task"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </div>
+
+                          {answerPickerTaskId === task.id && (
+                            <div className="mt-3 bg-white border border-gray-200 rounded p-2 max-h-64 overflow-y-auto">
+                              {treeStructure.length === 0 ? (
+                                <p className="text-xs text-gray-500">Upload a tree structure to choose answers.</p>
+                              ) : (
+                                flattenTree(treeStructure).map(({ node, depth }) => {
+                                  const isCorrect = task.correctNodeIds.includes(node.id);
+                                  const isAcceptable = task.acceptableNodeIds?.includes(node.id) || false;
+                                  return (
+                                    <div
+                                      key={node.id}
+                                      className="flex items-center justify-between py-1 text-sm"
+                                      style={{ paddingLeft: `${depth * 16}px` }}
+                                    >
+                                      <span className={isCorrect ? 'font-medium text-green-700' : isAcceptable ? 'text-yellow-700' : 'text-gray-700'}>
+                                        {node.name}
+                                      </span>
+                                      <div className="flex items-center space-x-3 text-xs">
+                                        <label className="flex items-center">
+                                          <input
+                                            type="checkbox"
+                                            checked={isCorrect}
+                                            onChange={(e) => setTaskAnswer(task.id, node.id, e.target.checked ? 'correct' : null)}
+                                            className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+                                          />
+                                          <span className="ml-1 text-gray-600">Correct</span>
+                                        </label>
+                                        <label className="flex items-center">
+                                          <input
+                                            type="checkbox"
+                                            checked={isAcceptable}
+                                            onChange={(e) => setTaskAnswer(task.id, node.id, e.target.checked ? 'acceptable' : null)}
+                                            className="rounded border-gray-300 text-yellow-600 focus:ring-yellow-500"
+                                          />
+                                          <span className="ml-1 text-gray-600">Acceptable</span>
+                                        </label>
+                                      </div>
+                                    </div>
+                                  );
+                                })
+                              )}
+                            </div>
+                          )}
                         </div>
                       ))}
                     </div>
@@ -422,6 +503,7 @@ const EnhancedStudyCreator: React.FC<EnhancedStudyCreatorProps> = ({ study, onSa
                       className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                       min="1"
                     />
+                    <p className="text-xs text-gray-500 mt-1">The study closes once this many participants have completed it</p>
                   </div>
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -430,11 +512,26 @@ const EnhancedStudyCreator: React.FC<EnhancedStudyCreatorProps> = ({ study, onSa
                     <input
                       type="number"
                       value={settings.minParticipants}
-                      onChange={(e) => setSettings({...settings, minParticipants: parseInt(e.target.value) || 10})}
+                      onChange={(e) => setSettings({...settings, minParticipants: parseInt(e.target.value) || DEFAULT_MIN_PARTICIPANTS})}
                       className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                       min="1"
                     />
                   </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Close Date
+                    </label>
+                    <input
+                      type="datetime-local"
+                      value={settings.closeDate ? toLocalDateTimeInput(settings.closeDate) : ''}
+                      onChange={(e) => setSettings({
+                        ...settings,
+                        closeDate: e.target.value ? new Date(e.target.value).toISOString() : undefined
+                      })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">Optional; the study stops accepting participants at this time</p>
+                  </div>
                 </div>
 
                 {/* Card Sorting Specific Settings */}
@@ -503,14 +600,28 @@ const EnhancedStudyCreator: React.FC<EnhancedStudyCreatorProps> = ({ study, onSa
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                       <div>
                         <label className="block text-sm font-medium text-gray-700 mb-2">
-                          Time Limit (seconds)
+                          Time Limit per Task (seconds)
                         </label>
                         <input
                           type="number"
-                          value={settings.timeLimit}
-                          onChange={(e) => setSettings({...settings, timeLimit: parseInt(e.target.value) || 300})}
+                          value={settings.timeLimit ?? ''}
+                          onChange={(e) => setSettings({...settings, timeLimit: parseInt(e.target.value) || undefined})}
                           className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                           min="30"
+                          placeholder="No limit"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          Total Time Limit (seconds)
+                        </label>
+                        <input
+                          type="number"
+                          value={settings.studyTimeLimit ?? ''}
+                          onChange={(e) => setSettings({...settings, studyTimeLimit: parseInt(e.target.value) || undefined})}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          min="60"
+                          placeholder="No limit"
                         />
                       </div>
                       <div>
@@ -547,6 +658,16 @@ const EnhancedStudyCreator: React.FC<EnhancedStudyCreatorProps> = ({ study, onSa
                         />
                         <span className="ml-2 text-sm text-gray-700">Allow participants to go back</span>
                       </label>
+
+                      <label className="flex items-center">
+                        <input
+                          type="checkbox"
+                          checked={settings.showSearchFunctionality}
+                          onChange={(e) => setSettings({...settings, showSearchFunctionality: e.target.checked})}
+                          className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        />
+                        <span className="ml-2 text-sm text-gray-700">Let participants search the tree</span>
+                      </label>
                     </div>
                   </div>
                 )}
@@ -587,13 +708,33 @@ const EnhancedStudyCreator: React.FC<EnhancedStudyCreatorProps> = ({ study, onSa
                 <X className="w-4 h-4" />
                 <span>Cancel</span>
               </button>
-              <button
-                onClick={handleSave}
-                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 flex items-center space-x-1"
-              >
-                <Save className="w-4 h-4" />
-                <span>Save Study</span>
-              </button>
+              {isDraft ? (
+                <>
+                  <button
+                    onClick={() => handleSave()}
+                    className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 flex items-center space-x-1"
+                  >
+                    <Save className="w-4 h-4" />
+                    <span>Save Draft</span>
+                  </button>
+                  <button
+                    onClick={() => handleSave(true)}
+                    className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 flex items-center space-x-1"
+                    title="Save and open the study to participants"
+                  >
+                    <Play className="w-4 h-4" />
+                    <span>Save &amp; Launch</span>
+                  </button>
+                </>
+              ) : (
+                <button
+                  onClick={() => handleSave()}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 flex items-center space-x-1"
+                >
+                  <Save className="w-4 h-4" />
+                  <span>Save Study</span>
+                </button>
+              )}
             </div>
           </div>
         </div>
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { Download, X, FileText, Table, FileSpreadsheet, File, CheckCircle, AlertCircle } from 'lucide-react';
-import { StudyResult, Study } from '../types';
+import { StudyResult, Study, SimilarityMetric } from '../types';
+import { SIMILARITY_METRIC_LABELS } from '../analytics';
 import { exportResults, ExportFormat } from '../utils/exportUtils';
 
 interface ExportDialogProps {
@@ -8,9 +9,10 @@ interface ExportDialogProps {
   onClose: () => void;
   study: Study;
   results: StudyResult[];
+  similarityMetric?: SimilarityMetric;
 }
 
-const ExportDialog: React.FC<ExportDialogProps> = ({ isOpen, onClose, study, results }) => {
+const ExportDialog: React.FC<ExportDialogProps> = ({ isOpen, onClose, study, results, similarityMetric = 'co-occurrence' }) => {
   const [selectedFormat, setSelectedFormat] = useState<ExportFormat>('csv');
   const [exportOptions, setExportOptions] = useState({
     includeMetadata: true,
@@ -65,7 +67,7 @@ const ExportDialog: React.FC<ExportDialogProps> = ({ isOpen, onClose, study, res
     setErrorMessage('');
 
     try {
-      await exportResults(results, study, selectedFormat, exportOptions);
+      await exportResults(results, study, selectedFormat, { ...exportOptions, similarityMetric });
       setExportStatus('success');
       setTimeout(() => {
         setExportStatus('idle');
@@ -182,16 +184,22 @@ const ExportDialog: React.FC<ExportDialogProps> = ({ isOpen, onClose, study, res
                   checked={exportOptions.includeAgreementScores}
                   onChange={(e) => setExportOptions(prev => ({ ...prev, includeAgreementScores: e.target.checked }))}
                   className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                  disabled
                 />
                 <div>
-                  <span className="text-sm font-medium text-gray-400">Include Agreement Scores</span>
-                  <p className="text-xs text-gray-500">Per card/category agreement analysis (coming soon)</p>
+                  <span className="text-sm font-medium text-gray-900">Include Agreement Scores</span>
+                  <p className="text-xs text-gray-600">Per card agreement with 95% confidence intervals (Excel and PDF)</p>
                 </div>
               </label>
             </div>
           </div>
 
+          {study.type !== 'tree-testing' && (
+            <p className="text-xs text-gray-600">
+              Card similarity is exported using the <strong>{SIMILARITY_METRIC_LABELS[similarityMetric]}</strong> metric
+              selected in analytics.
+            </p>
+          )}
+
           {/* Export Status */}
           {exportStatus === 'success' && (
             <div className="flex items-center space-x-2 p-3 bg-green-50 border border-green-200 rounded-lg">
@@ -0,0 +1,299 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Upload, X, AlertCircle, CheckCircle, FileText } from 'lucide-react';
+import { StudyType } from '../types';
+import { parseCSVFile } from '../utils';
+import {
+  LegacyColumnMapping,
+  LegacyFormat,
+  LegacyImportResult,
+  LEGACY_FORMATS,
+  detectLegacyFormat,
+  importLegacyResults,
+  suggestColumnMapping,
+  validateColumnMapping
+} from '../utils/legacyImport';
+
+interface LegacyImportDialogProps {
+  file: File;
+  onImport: (imported: LegacyImportResult) => void;
+  onClose: () => void;
+}
+
+const NOT_MAPPED = '__none__';
+
+const LegacyImportDialog: React.FC<LegacyImportDialogProps> = ({ file, onImport, onClose }) => {
+  const [rows, setRows] = useState<Record<string, string>[]>([]);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [format, setFormat] = useState<LegacyFormat>('card-sort-long');
+  const [mapping, setMapping] = useState<LegacyColumnMapping>({});
+  const [studyName, setStudyName] = useState(file.name.replace(/\.csv$/i, ''));
+  const [cardSortType, setCardSortType] = useState<StudyType>('open-card-sorting');
+
+  useEffect(() => {
+    parseCSVFile(file)
+      .then(data => {
+        const columns = data.length > 0 ? Object.keys(data[0]) : [];
+        const detected = detectLegacyFormat(columns);
+        setRows(data);
+        setHeaders(columns);
+        setFormat(detected);
+        setMapping(suggestColumnMapping(detected, columns));
+        if (data.length === 0) setParseError('No data found in CSV file');
+      })
+      .catch(error => setParseError(`Failed to parse CSV file: ${error instanceof Error ? error.message : 'Unknown error'}`));
+  }, [file]);
+
+  const handleFormatChange = (next: LegacyFormat) => {
+    setFormat(next);
+    setMapping(suggestColumnMapping(next, headers));
+  };
+
+  const mappingErrors = validateColumnMapping(format, mapping);
+
+  const preview = useMemo(() => {
+    if (rows.length === 0 || mappingErrors.length > 0) return null;
+    try {
+      return importLegacyResults(rows, format, mapping, {
+        studyName: studyName.trim() || file.name,
+        studyType: format === 'tree-test-long' ? 'tree-testing' : cardSortType
+      });
+    } catch (error) {
+      return error instanceof Error ? error : new Error('Failed to read the data');
+    }
+  }, [rows, format, mapping, studyName, cardSortType, file.name, mappingErrors.length]);
+
+  const previewResult = preview instanceof Error ? null : preview;
+  const mappedColumns = new Set([
+    ...LEGACY_FORMATS[format].fields.map(field => mapping[field.key]).filter((column): column is string => column !== undefined),
+    ...(format === 'card-sort-matrix' ? mapping.participantColumns || [] : [])
+  ]);
+
+  const toggleParticipantColumn = (column: string) => {
+    setMapping(prev => {
+      const current = prev.participantColumns || [];
+      return {
+        ...prev,
+        participantColumns: current.includes(column) ? current.filter(c => c !== column) : [...current, column]
+      };
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Import Results from CSV</h2>
+            <p className="text-sm text-gray-600 mt-1 flex items-center">
+              <FileText className="w-4 h-4 mr-1" />
+              {file.name}{rows.length > 0 && ` • ${rows.length} rows`}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 p-2 rounded-lg hover:bg-gray-100"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {parseError ? (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-center space-x-2">
+              <AlertCircle className="w-5 h-5 text-red-600" />
+              <p className="text-sm text-red-800">{parseError}</p>
+            </div>
+          ) : headers.length > 0 && (
+            <>
+              {/* Format */}
+              <div>
+                <h3 className="text-sm font-medium text-gray-900 mb-2">File layout</h3>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                  {(Object.keys(LEGACY_FORMATS) as LegacyFormat[]).map(key => (
+                    <button
+                      key={key}
+                      onClick={() => handleFormatChange(key)}
+                      className={`text-left p-3 rounded-lg border ${
+                        format === key ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:border-gray-300'
+                      }`}
+                    >
+                      <div className="text-sm font-medium text-gray-900">{LEGACY_FORMATS[key].label}</div>
+                      <div className="text-xs text-gray-600 mt-1">{LEGACY_FORMATS[key].description}</div>
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Column mapping */}
+              <div>
+                <h3 className="text-sm font-medium text-gray-900 mb-2">Columns</h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  {LEGACY_FORMATS[format].fields.map(field => (
+                    <label key={field.key} className="flex items-center justify-between space-x-3 text-sm">
+                      <span className="text-gray-700">
+                        {field.label}{field.required && <span className="text-red-500"> *</span>}
+                      </span>
+                      <select
+                        value={mapping[field.key] ?? NOT_MAPPED}
+                        onChange={e => {
+                          const value = e.target.value;
+                          setMapping(prev => ({ ...prev, [field.key]: value === NOT_MAPPED ? undefined : value }));
+                        }}
+                        className="w-56 px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        <option value={NOT_MAPPED}>{field.required ? 'Choose a column' : 'Not in this file'}</option>
+                        {headers.map(header => (
+                          <option key={header} value={header}>{header || '(unnamed column)'}</option>
+                        ))}
+                      </select>
+                    </label>
+                  ))}
+                </div>
+
+                {format === 'card-sort-matrix' && (
+                  <div className="mt-4">
+                    <p className="text-sm text-gray-700 mb-2">
+                      Participant columns ({mapping.participantColumns?.length || 0} of {headers.length - 1})
+                    </p>
+                    <div className="flex flex-wrap gap-2 max-h-32 overflow-y-auto">
+                      {headers.filter(header => header !== mapping.card).map(header => (
+                        <label key={header} className="flex items-center space-x-1 text-xs bg-gray-50 border rounded px-2 py-1">
+                          <input
+                            type="checkbox"
+                            checked={mapping.participantColumns?.includes(header) || false}
+                            onChange={() => toggleParticipantColumn(header)}
+                          />
+                          <span>{header || '(unnamed column)'}</span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              {/* Study details */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <label className="text-sm">
+                  <span className="block text-gray-700 mb-1">Study name</span>
+                  <input
+                    type="text"
+                    value={studyName}
+                    onChange={e => setStudyName(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </label>
+                {format !== 'tree-test-long' && (
+                  <label className="text-sm">
+                    <span className="block text-gray-700 mb-1">Sort type</span>
+                    <select
+                      value={cardSortType}
+                      onChange={e => setCardSortType(e.target.value as StudyType)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="open-card-sorting">Open (participants named the categories)</option>
+                      <option value="card-sorting">Closed (categories were predefined)</option>
+                    </select>
+                  </label>
+                )}
+              </div>
+
+              {/* Raw rows with the mapped columns highlighted */}
+              <div>
+                <h3 className="text-sm font-medium text-gray-900 mb-2">First rows</h3>
+                <div className="overflow-x-auto border rounded-lg">
+                  <table className="min-w-full text-xs">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        {headers.map(header => (
+                          <th
+                            key={header}
+                            className={`px-2 py-1 text-left font-medium whitespace-nowrap ${
+                              mappedColumns.has(header) ? 'text-blue-700 bg-blue-50' : 'text-gray-400'
+                            }`}
+                          >
+                            {header || '(unnamed)'}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {rows.slice(0, 5).map((row, index) => (
+                        <tr key={index} className="border-t">
+                          {headers.map(header => (
+                            <td
+                              key={header}
+                              className={`px-2 py-1 whitespace-nowrap ${mappedColumns.has(header) ? 'text-gray-900' : 'text-gray-400'}`}
+                            >
+                              {row[header]}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+
+              {/* Outcome */}
+              {mappingErrors.length > 0 ? (
+                <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+                  <ul className="space-y-1 text-sm text-yellow-800">
+                    {mappingErrors.map((error, index) => <li key={index}>• {error}</li>)}
+                  </ul>
+                </div>
+              ) : preview instanceof Error ? (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-center space-x-2">
+                  <AlertCircle className="w-5 h-5 text-red-600" />
+                  <p className="text-sm text-red-800">{preview.message}</p>
+                </div>
+              ) : previewResult && (
+                <div className="bg-green-50 border border-green-200 rounded-lg p-4">
+                  <div className="flex items-center space-x-2 mb-2">
+                    <CheckCircle className="w-5 h-5 text-green-600" />
+                    <h3 className="font-medium text-green-900">Ready to import</h3>
+                  </div>
+                  <p className="text-sm text-green-800">
+                    {previewResult.results.length} participants •{' '}
+                    {previewResult.study.type === 'tree-testing'
+                      ? `${previewResult.study.tasks?.length || 0} tasks`
+                      : `${previewResult.study.cards.length} cards • ${
+                          new Set(previewResult.results.flatMap(result =>
+                            'cardSortResults' in result ? result.cardSortResults.map(category => category.categoryName) : []
+                          )).size
+                        } category names`}
+                  </p>
+                  {previewResult.warnings.length > 0 && (
+                    <ul className="mt-2 space-y-1 text-xs text-yellow-800">
+                      {previewResult.warnings.slice(0, 5).map((warning, index) => <li key={index}>• {warning}</li>)}
+                      {previewResult.warnings.length > 5 && <li>• and {previewResult.warnings.length - 5} more</li>}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="border-t border-gray-200 p-6 flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => previewResult && onImport(previewResult)}
+            disabled={!previewResult || previewResult.results.length === 0}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
+          >
+            <Upload className="w-4 h-4" />
+            <span>Import Results</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LegacyImportDialog;
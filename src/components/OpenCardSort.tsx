@@ -1,20 +1,48 @@
 import React, { useState } from 'react';
-import { CheckCircle, Plus, Edit2, Trash2 } from 'lucide-react';
-import { Study, Card, Category, CardSortResult } from '../types';
+import { CheckCircle, Plus, Edit2, Trash2, Combine } from 'lucide-react';
+import { Study, Category, CardSortResult, CardSortProgress } from '../types';
+import { UNSORTED_TARGET_LABEL } from '../utils/sortInteraction';
+import useSortEngine from '../hooks/useSortEngine';
+import useSortInteraction from '../hooks/useSortInteraction';
+import SortInteractionLayer from './SortInteractionLayer';
+import SortHistoryControls from './SortHistoryControls';
 
 interface OpenCardSortProps {
   study: Study;
   participantId: string;
   participantStartTime: number;
   onComplete: (result: CardSortResult) => void;
+  progress?: CardSortProgress; // Checkpoint to resume from
+  onProgress?: (progress: CardSortProgress) => void;
 }
 
 const OpenCardSort: React.FC<OpenCardSortProps> = ({
   study,
   participantId,
   participantStartTime,
-  onComplete
+  onComplete,
+  progress,
+  onProgress
 }) => {
+  const engine = useSortEngine({ study, participantId, progress, onProgress });
+  const { unsortedCards, categories } = engine.state;
+  const [newCategoryName, setNewCategoryName] = useState('');
+  const [editingCategoryId, setEditingCategoryId] = useState<number | null>(null);
+  const [editingCategoryName, setEditingCategoryName] = useState('');
+  const [mergingCategoryId, setMergingCategoryId] = useState<number | null>(null);
+
+  const interaction = useSortInteraction({
+    targets: [
+      { id: 'unsorted', label: UNSORTED_TARGET_LABEL },
+      ...categories.map(cat => ({ id: cat.id, label: `Category: ${cat.name}` }))
+    ],
+    getCardTarget: card => engine.getCardTarget(card.id),
+    onMove: (card, to) => engine.moveCard(card.id, to)
+  });
+  const heldCardId = interaction.heldCard?.id;
+  const draggedCardId = interaction.dragPreview?.card.id;
+  const isActiveTarget = (id: number | 'unsorted') => heldCardId !== undefined && interaction.activeTargetId === id;
+
   if (!study || !study.cards || study.cards.length === 0) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -26,74 +54,26 @@ const OpenCardSort: React.FC<OpenCardSortProps> = ({
     );
   }
 
-  const [unsortedCards, setUnsortedCards] = useState<Card[]>([...study.cards]);
-  const [categories, setCategories] = useState<Category[]>(
-    study.settings.sortType === 'hybrid' 
-      ? study.categories.map(cat => ({ ...cat, cards: [], isUserCreated: false }))
-      : []
-  );
-  const [draggedCard, setDraggedCard] = useState<Card | null>(null);
-  const [newCategoryName, setNewCategoryName] = useState('');
-  const [editingCategoryId, setEditingCategoryId] = useState<number | null>(null);
-  const [editingCategoryName, setEditingCategoryName] = useState('');
-
-  const handleDragStart = (_e: React.DragEvent, card: Card) => {
-    setDraggedCard(card);
-  };
-
-  const handleDragOver = (e: React.DragEvent) => {
-    e.preventDefault();
-  };
-
-  const handleDrop = (e: React.DragEvent, categoryId: number) => {
-    e.preventDefault();
-    if (draggedCard) {
-      // Remove card from unsorted cards
-      setUnsortedCards(prev => prev.filter(card => card.id !== draggedCard.id));
-      
-      // Remove card from any existing category
-      setCategories(prev => prev.map(cat => ({
-        ...cat,
-        cards: cat.cards.filter(card => card.id !== draggedCard.id)
-      })));
-      
-      // Add card to target category
-      setCategories(prev => prev.map(cat => 
-        cat.id === categoryId 
-          ? { ...cat, cards: [...cat.cards, draggedCard] }
-          : cat
-      ));
-      
-      setDraggedCard(null);
-    }
-  };
-
   const addCategory = () => {
     if (newCategoryName.trim()) {
-      const maxCategories = study.settings.maxCustomCategories || 10;
-      if (categories.length >= maxCategories) {
-        alert(`You can create a maximum of ${maxCategories} categories.`);
+      const error = engine.dispatch({ type: 'createCategory', name: newCategoryName });
+      if (error) {
+        alert(error);
         return;
       }
-
-      const newCategory: Category = {
-        id: Date.now() + Math.random(),
-        name: newCategoryName.trim(),
-        cards: [],
-        isUserCreated: true
-      };
-      setCategories([...categories, newCategory]);
       setNewCategoryName('');
     }
   };
 
+  // Its cards go back to the unsorted cards
   const deleteCategory = (categoryId: number) => {
-    const category = categories.find(cat => cat.id === categoryId);
-    if (category && category.isUserCreated) {
-      // Move cards back to unsorted
-      setUnsortedCards(prev => [...prev, ...category.cards]);
-      setCategories(prev => prev.filter(cat => cat.id !== categoryId));
-    }
+    engine.dispatch({ type: 'deleteCategory', categoryId });
+  };
+
+  const mergeCategory = (sourceId: number, targetId: number) => {
+    const error = engine.dispatch({ type: 'merge', sourceId, targetId });
+    if (error) alert(error);
+    setMergingCategoryId(null);
   };
 
   const startEditingCategory = (category: Category) => {
@@ -105,11 +85,11 @@ const OpenCardSort: React.FC<OpenCardSortProps> = ({
 
   const saveEditingCategory = () => {
     if (editingCategoryName.trim() && editingCategoryId) {
-      setCategories(prev => prev.map(cat =>
-        cat.id === editingCategoryId
-          ? { ...cat, name: editingCategoryName.trim() }
-          : cat
-      ));
+      const error = engine.dispatch({ type: 'renameCategory', categoryId: editingCategoryId, name: editingCategoryName });
+      if (error) {
+        alert(error);
+        return;
+      }
       setEditingCategoryId(null);
       setEditingCategoryName('');
     }
@@ -121,19 +101,6 @@ const OpenCardSort: React.FC<OpenCardSortProps> = ({
   };
 
   const submitStudy = () => {
-    if (categories.length === 0) {
-      alert('Please create at least one category to organize your cards.');
-      return;
-    }
-
-    const minCards = study.settings.minCardsPerCategory || 1;
-    const categoriesWithTooFewCards = categories.filter(cat => cat.cards.length < minCards);
-    
-    if (categoriesWithTooFewCards.length > 0) {
-      alert(`Each category must have at least ${minCards} card${minCards > 1 ? 's' : ''}. Please redistribute cards.`);
-      return;
-    }
-
     const results: CardSortResult = {
       participantId,
       studyId: study.id,
@@ -154,17 +121,18 @@ const OpenCardSort: React.FC<OpenCardSortProps> = ({
           categoryName: cat.name,
           cards: cat.cards.map(card => ({ id: card.id, text: card.text })),
           isCustomCategory: true
-        }))
+        })),
+      journey: engine.journeyTracker.exportData()
     };
     
     onComplete(results);
   };
 
-  const isComplete = unsortedCards.length === 0;
-  const allowUncategorized = study.settings.allowUncategorized;
+  const isComplete = engine.completionProblems.length === 0;
   
   return (
     <div className="min-h-screen bg-gray-50">
+      <SortInteractionLayer interaction={interaction} />
       <div className="bg-white border-b border-gray-200 px-4 sm:px-6 py-4">
         <div className="max-w-6xl mx-auto">
           <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between space-y-2 sm:space-y-0">
@@ -197,6 +165,9 @@ const OpenCardSort: React.FC<OpenCardSortProps> = ({
             <p className="text-sm text-purple-700">
               💡 <strong>Tip:</strong> Think about how you would naturally group these items. There are no wrong answers!
             </p>
+            <p className="text-sm text-purple-700">
+              ⌨️ <strong>Keyboard or touch:</strong> Select a card, then select the category it belongs in. With the keyboard, press Space to pick a card up, the arrow keys to choose a category and Space again to drop it.
+            </p>
           </div>
         </div>
 
@@ -224,30 +195,35 @@ const OpenCardSort: React.FC<OpenCardSortProps> = ({
           </div>
           {study.settings.maxCustomCategories && (
             <p className="text-xs text-gray-500 mt-2">
-              You can create up to {study.settings.maxCustomCategories} categories 
+              You can create up to {engine.rules.maxCustomCategories} categories 
               ({categories.filter(cat => cat.isUserCreated).length} created)
             </p>
           )}
         </div>
         
-        {unsortedCards.length > 0 && (
-          <div className="bg-white p-4 sm:p-6 rounded-xl shadow-sm border border-gray-100">
-            <div className="flex items-center justify-between mb-4">
-              <h3 className="font-semibold text-gray-900">Cards to Sort</h3>
-              <span className="bg-purple-100 text-purple-800 px-3 py-1 rounded-full text-sm font-medium">
-                {unsortedCards.length} remaining
-              </span>
-            </div>
+        <div
+          {...interaction.getTargetProps('unsorted')}
+          className={`bg-white p-4 sm:p-6 rounded-xl shadow-sm border transition-all duration-200 ${
+            isActiveTarget('unsorted') ? 'border-purple-400 ring-2 ring-purple-300' : 'border-gray-100'
+          }`}
+          role="region"
+          aria-label={UNSORTED_TARGET_LABEL}
+        >
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="font-semibold text-gray-900">Cards to Sort</h3>
+            <span className="bg-purple-100 text-purple-800 px-3 py-1 rounded-full text-sm font-medium">
+              {unsortedCards.length} remaining
+            </span>
+          </div>
+          {unsortedCards.length > 0 ? (
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-3">
               {unsortedCards.map(card => (
                 <div
                   key={card.id}
-                  draggable
-                  onDragStart={(e) => handleDragStart(e, card)}
-                  className="p-3 sm:p-4 bg-gradient-to-br from-purple-50 to-purple-100 border border-purple-200 rounded-lg cursor-move hover:from-purple-100 hover:to-purple-200 hover:shadow-md transition-all duration-200 font-medium text-purple-900 text-sm sm:text-base select-none"
-                  role="button"
-                  tabIndex={0}
-                  aria-label={`Drag card: ${card.text}`}
+                  {...interaction.getCardProps(card)}
+                  className={`p-3 sm:p-4 bg-gradient-to-br from-purple-50 to-purple-100 border border-purple-200 rounded-lg cursor-move hover:from-purple-100 hover:to-purple-200 hover:shadow-md transition-all duration-200 font-medium text-purple-900 text-sm sm:text-base select-none touch-none focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-500 ${
+                    heldCardId === card.id ? 'ring-2 ring-purple-500 ring-offset-2' : ''
+                  } ${draggedCardId === card.id ? 'opacity-40' : ''}`}
                 >
                   <div className="flex items-center">
                     <div className="w-2 h-2 bg-purple-400 rounded-full mr-2 flex-shrink-0"></div>
@@ -259,16 +235,23 @@ const OpenCardSort: React.FC<OpenCardSortProps> = ({
                 </div>
               ))}
             </div>
-          </div>
-        )}
+          ) : (
+            <div className="flex items-center justify-center h-16 text-gray-400 text-sm italic border-2 border-dashed border-gray-200 rounded-lg">
+              All cards sorted. Move a card back here to set it aside.
+            </div>
+          )}
+        </div>
         
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
           {categories.map(category => (
             <div
               key={category.id}
-              className="bg-white p-4 border-2 border-dashed border-gray-200 rounded-xl min-h-40 hover:border-gray-300 hover:bg-gray-50 transition-all duration-200"
-              onDragOver={handleDragOver}
-              onDrop={(e) => handleDrop(e, category.id)}
+              {...interaction.getTargetProps(category.id)}
+              className={`bg-white p-4 border-2 border-dashed rounded-xl min-h-40 transition-all duration-200 ${
+                isActiveTarget(category.id)
+                  ? 'border-purple-400 bg-purple-50 ring-2 ring-purple-300'
+                  : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'
+              }`}
               role="region"
               aria-label={`Category: ${category.name}`}
             >
@@ -305,6 +288,15 @@ const OpenCardSort: React.FC<OpenCardSortProps> = ({
                         >
                           <Edit2 className="w-3 h-3" />
                         </button>
+                        {categories.length > 1 && (
+                          <button
+                            onClick={() => setMergingCategoryId(mergingCategoryId === category.id ? null : category.id)}
+                            className="p-1 text-gray-500 hover:text-gray-700"
+                            title="Merge into another category"
+                          >
+                            <Combine className="w-3 h-3" />
+                          </button>
+                        )}
                         <button
                           onClick={() => deleteCategory(category.id)}
                           className="p-1 text-red-500 hover:text-red-700"
@@ -318,6 +310,24 @@ const OpenCardSort: React.FC<OpenCardSortProps> = ({
                 )}
               </div>
 
+              {mergingCategoryId === category.id && (
+                <select
+                  value=""
+                  onChange={(e) => mergeCategory(category.id, Number(e.target.value))}
+                  onBlur={() => setMergingCategoryId(null)}
+                  className="w-full mb-4 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-purple-500"
+                  aria-label={`Merge ${category.name} into`}
+                  autoFocus
+                >
+                  <option value="" disabled>Merge into…</option>
+                  {categories
+                    .filter(other => other.id !== category.id)
+                    .map(other => (
+                      <option key={other.id} value={other.id}>{other.name}</option>
+                    ))}
+                </select>
+              )}
+
               {category.cards.length > 0 && (
                 <div className="text-xs text-gray-600 text-center mb-2">
                   {category.cards.length} card{category.cards.length !== 1 ? 's' : ''}
@@ -326,11 +336,12 @@ const OpenCardSort: React.FC<OpenCardSortProps> = ({
 
               <div className="space-y-2 min-h-16">
                 {category.cards.map((card) => (
-                  <div 
-                    key={card.id} 
-                    className="p-2 sm:p-3 bg-green-50 border border-green-200 rounded-lg text-sm font-medium text-green-900 hover:bg-green-100 transition-colors duration-150"
-                    draggable
-                    onDragStart={(e) => handleDragStart(e, card)}
+                  <div
+                    key={card.id}
+                    {...interaction.getCardProps(card)}
+                    className={`p-2 sm:p-3 bg-green-50 border border-green-200 rounded-lg text-sm font-medium text-green-900 hover:bg-green-100 transition-colors duration-150 cursor-move select-none touch-none focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-500 ${
+                      heldCardId === card.id ? 'ring-2 ring-purple-500 ring-offset-2' : ''
+                    } ${draggedCardId === card.id ? 'opacity-40' : ''}`}
                   >
                     <div className="flex items-center">
                       <div className="w-2 h-2 bg-green-400 rounded-full mr-2 flex-shrink-0"></div>
@@ -357,7 +368,7 @@ const OpenCardSort: React.FC<OpenCardSortProps> = ({
               <Plus className="w-12 h-12 text-gray-400 mx-auto mb-4" />
               <h3 className="text-lg font-medium text-gray-900 mb-2">Create Your First Category</h3>
               <p className="text-gray-600">
-                Start by creating a category above, then drag cards into it.
+                Start by creating a category above, then move cards into it.
               </p>
             </div>
           )}
@@ -376,26 +387,26 @@ const OpenCardSort: React.FC<OpenCardSortProps> = ({
             </div>
           </div>
           
+          <SortHistoryControls
+            canUndo={engine.state.past.length > 0}
+            canRedo={engine.state.future.length > 0}
+            onUndo={() => engine.dispatch({ type: 'undo' })}
+            onRedo={() => engine.dispatch({ type: 'redo' })}
+          />
+
           <button 
             onClick={submitStudy}
-            disabled={!isComplete && !allowUncategorized}
+            disabled={!isComplete}
             className={`px-6 py-3 rounded-xl font-semibold flex items-center space-x-2 transition-all duration-200 shadow-sm ${
-              (isComplete || allowUncategorized) && categories.length > 0
+              isComplete
                 ? 'bg-gradient-to-r from-green-600 to-green-700 text-white hover:from-green-700 hover:to-green-800 focus:ring-2 focus:ring-green-500 focus:ring-offset-2 shadow-lg' 
                 : 'bg-gray-200 text-gray-500 cursor-not-allowed'
             }`}
-            aria-label={
-              isComplete 
-                ? 'Complete the study' 
-                : `Sort ${unsortedCards.length} more cards to continue`
-            }
+            aria-label={isComplete ? 'Complete the study' : `${engine.completionProblems.join('. ')} to continue`}
           >
             <CheckCircle className="w-5 h-5" />
             <span className="text-sm sm:text-base">
-              {isComplete || allowUncategorized
-                ? 'Complete Study' 
-                : `Sort ${unsortedCards.length} more card${unsortedCards.length !== 1 ? 's' : ''}`
-              }
+              {isComplete ? 'Complete Study' : engine.completionProblems[0]}
             </span>
           </button>
         </div>
@@ -1,20 +1,44 @@
-import React, { useState } from 'react';
+import React from 'react';
 import { CheckCircle } from 'lucide-react';
-import { Study, Card, Category, CardSortResult } from '../types';
+import { Study, CardSortResult, CardSortProgress } from '../types';
+import { UNSORTED_TARGET_LABEL } from '../utils/sortInteraction';
+import useSortEngine from '../hooks/useSortEngine';
+import useSortInteraction from '../hooks/useSortInteraction';
+import SortInteractionLayer from './SortInteractionLayer';
+import SortHistoryControls from './SortHistoryControls';
 
 interface ParticipantCardSortProps {
   study: Study;
   participantId: string;
   participantStartTime: number;
   onComplete: (result: CardSortResult) => void;
+  progress?: CardSortProgress; // Checkpoint to resume from
+  onProgress?: (progress: CardSortProgress) => void;
 }
 
 const ParticipantCardSort: React.FC<ParticipantCardSortProps> = ({
   study,
   participantId,
   participantStartTime,
-  onComplete
+  onComplete,
+  progress,
+  onProgress
 }) => {
+  const engine = useSortEngine({ study, participantId, progress, onProgress });
+  const { unsortedCards, categories } = engine.state;
+
+  const interaction = useSortInteraction({
+    targets: [
+      { id: 'unsorted', label: UNSORTED_TARGET_LABEL },
+      ...categories.map(cat => ({ id: cat.id, label: `Category: ${cat.name}` }))
+    ],
+    getCardTarget: card => engine.getCardTarget(card.id),
+    onMove: (card, to) => engine.moveCard(card.id, to)
+  });
+  const heldCardId = interaction.heldCard?.id;
+  const draggedCardId = interaction.dragPreview?.card.id;
+  const isActiveTarget = (id: number | 'unsorted') => heldCardId !== undefined && interaction.activeTargetId === id;
+
   if (!study || !study.cards || study.cards.length === 0) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -37,43 +61,6 @@ const ParticipantCardSort: React.FC<ParticipantCardSortProps> = ({
     );
   }
   
-  const [unsortedCards, setUnsortedCards] = useState<Card[]>([...study.cards]);
-  const [categories, setCategories] = useState<Category[]>(
-    study.categories.map(cat => ({ ...cat, cards: [] }))
-  );
-  const [draggedCard, setDraggedCard] = useState<Card | null>(null);
-
-  const handleDragStart = (_e: React.DragEvent, card: Card) => {
-    setDraggedCard(card);
-  };
-
-  const handleDragOver = (e: React.DragEvent) => {
-    e.preventDefault();
-  };
-
-  const handleDrop = (e: React.DragEvent, categoryId: number) => {
-    e.preventDefault();
-    if (draggedCard) {
-      // Remove card from unsorted cards
-      setUnsortedCards(prev => prev.filter(card => card.id !== draggedCard.id));
-      
-      // Remove card from any existing category
-      setCategories(prev => prev.map(cat => ({
-        ...cat,
-        cards: cat.cards.filter(card => card.id !== draggedCard.id)
-      })));
-      
-      // Add card to target category
-      setCategories(prev => prev.map(cat => 
-        cat.id === categoryId 
-          ? { ...cat, cards: [...cat.cards, draggedCard] }
-          : cat
-      ));
-      
-      setDraggedCard(null);
-    }
-  };
-
   const submitStudy = () => {
     const results: CardSortResult = {
       participantId,
@@ -86,16 +73,18 @@ const ParticipantCardSort: React.FC<ParticipantCardSortProps> = ({
         categoryId: cat.id,
         categoryName: cat.name,
         cards: cat.cards.map(card => ({ id: card.id, text: card.text }))
-      }))
+      })),
+      journey: engine.journeyTracker.exportData()
     };
     
     onComplete(results);
   };
 
-  const isComplete = unsortedCards.length === 0;
+  const isComplete = engine.completionProblems.length === 0;
   
   return (
     <div className="min-h-screen bg-gray-50">
+      <SortInteractionLayer interaction={interaction} />
       <div className="bg-white border-b border-gray-200 px-4 sm:px-6 py-4">
         <div className="max-w-6xl mx-auto">
           <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between space-y-2 sm:space-y-0">
@@ -120,30 +109,38 @@ const ParticipantCardSort: React.FC<ParticipantCardSortProps> = ({
             <p className="text-sm sm:text-base leading-relaxed">
               Drag the cards below into the categories where you think they belong.
             </p>
+            <p className="text-sm text-blue-700">
+              ⌨️ <strong>Keyboard or touch:</strong> Select a card, then select the category it belongs in. With the keyboard, press Space to pick a card up, the arrow keys to choose a category and Space again to drop it.
+            </p>
             <p className="text-sm text-blue-700">
               💡 <strong>Tip:</strong> You can move cards between categories until you're satisfied with your groupings.
             </p>
           </div>
         </div>
         
-        {unsortedCards.length > 0 && (
-          <div className="bg-white p-4 sm:p-6 rounded-xl shadow-sm border border-gray-100">
-            <div className="flex items-center justify-between mb-4">
-              <h3 className="font-semibold text-gray-900">Cards to Sort</h3>
-              <span className="bg-blue-100 text-blue-800 px-3 py-1 rounded-full text-sm font-medium">
-                {unsortedCards.length} remaining
-              </span>
-            </div>
+        <div
+          {...interaction.getTargetProps('unsorted')}
+          className={`bg-white p-4 sm:p-6 rounded-xl shadow-sm border transition-all duration-200 ${
+            isActiveTarget('unsorted') ? 'border-blue-400 ring-2 ring-blue-300' : 'border-gray-100'
+          }`}
+          role="region"
+          aria-label={UNSORTED_TARGET_LABEL}
+        >
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="font-semibold text-gray-900">Cards to Sort</h3>
+            <span className="bg-blue-100 text-blue-800 px-3 py-1 rounded-full text-sm font-medium">
+              {unsortedCards.length} remaining
+            </span>
+          </div>
+          {unsortedCards.length > 0 ? (
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-3">
               {unsortedCards.map(card => (
                 <div
                   key={card.id}
-                  draggable
-                  onDragStart={(e) => handleDragStart(e, card)}
-                  className="p-3 sm:p-4 bg-gradient-to-br from-blue-50 to-blue-100 border border-blue-200 rounded-lg cursor-move hover:from-blue-100 hover:to-blue-200 hover:shadow-md transition-all duration-200 font-medium text-blue-900 text-sm sm:text-base select-none"
-                  role="button"
-                  tabIndex={0}
-                  aria-label={`Drag card: ${card.text}`}
+                  {...interaction.getCardProps(card)}
+                  className={`p-3 sm:p-4 bg-gradient-to-br from-blue-50 to-blue-100 border border-blue-200 rounded-lg cursor-move hover:from-blue-100 hover:to-blue-200 hover:shadow-md transition-all duration-200 font-medium text-blue-900 text-sm sm:text-base select-none touch-none focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 ${
+                    heldCardId === card.id ? 'ring-2 ring-blue-500 ring-offset-2' : ''
+                  } ${draggedCardId === card.id ? 'opacity-40' : ''}`}
                 >
                   <div className="flex items-center">
                     <div className="w-2 h-2 bg-blue-400 rounded-full mr-2 flex-shrink-0"></div>
@@ -152,16 +149,23 @@ const ParticipantCardSort: React.FC<ParticipantCardSortProps> = ({
                 </div>
               ))}
             </div>
-          </div>
-        )}
+          ) : (
+            <div className="flex items-center justify-center h-16 text-gray-400 text-sm italic border-2 border-dashed border-gray-200 rounded-lg">
+              All cards sorted. Move a card back here to set it aside.
+            </div>
+          )}
+        </div>
         
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
           {categories.map(category => (
             <div
               key={category.id}
-              className="bg-white p-4 border-2 border-dashed border-gray-200 rounded-xl min-h-40 hover:border-gray-300 hover:bg-gray-50 transition-all duration-200"
-              onDragOver={handleDragOver}
-              onDrop={(e) => handleDrop(e, category.id)}
+              {...interaction.getTargetProps(category.id)}
+              className={`bg-white p-4 border-2 border-dashed rounded-xl min-h-40 transition-all duration-200 ${
+                isActiveTarget(category.id)
+                  ? 'border-blue-400 bg-blue-50 ring-2 ring-blue-300'
+                  : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'
+              }`}
               role="region"
               aria-label={`Category: ${category.name}`}
             >
@@ -175,11 +179,12 @@ const ParticipantCardSort: React.FC<ParticipantCardSortProps> = ({
               </h4>
               <div className="space-y-2 min-h-16">
                 {category.cards.map((card) => (
-                  <div 
-                    key={card.id} 
-                    className="p-2 sm:p-3 bg-green-50 border border-green-200 rounded-lg text-sm font-medium text-green-900 hover:bg-green-100 transition-colors duration-150"
-                    draggable
-                    onDragStart={(e) => handleDragStart(e, card)}
+                  <div
+                    key={card.id}
+                    {...interaction.getCardProps(card)}
+                    className={`p-2 sm:p-3 bg-green-50 border border-green-200 rounded-lg text-sm font-medium text-green-900 hover:bg-green-100 transition-colors duration-150 cursor-move select-none touch-none focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 ${
+                      heldCardId === card.id ? 'ring-2 ring-blue-500 ring-offset-2' : ''
+                    } ${draggedCardId === card.id ? 'opacity-40' : ''}`}
                   >
                     <div className="flex items-center">
                       <div className="w-2 h-2 bg-green-400 rounded-full mr-2 flex-shrink-0"></div>
@@ -213,6 +218,13 @@ const ParticipantCardSort: React.FC<ParticipantCardSortProps> = ({
             </div>
           </div>
           
+          <SortHistoryControls
+            canUndo={engine.state.past.length > 0}
+            canRedo={engine.state.future.length > 0}
+            onUndo={() => engine.dispatch({ type: 'undo' })}
+            onRedo={() => engine.dispatch({ type: 'redo' })}
+          />
+
           <button 
             onClick={submitStudy}
             disabled={!isComplete}
@@ -221,11 +233,11 @@ const ParticipantCardSort: React.FC<ParticipantCardSortProps> = ({
                 ? 'bg-gradient-to-r from-green-600 to-green-700 text-white hover:from-green-700 hover:to-green-800 focus:ring-2 focus:ring-green-500 focus:ring-offset-2 shadow-lg' 
                 : 'bg-gray-200 text-gray-500 cursor-not-allowed'
             }`}
-            aria-label={isComplete ? 'Complete the study' : `Sort ${unsortedCards.length} more cards to continue`}
+            aria-label={isComplete ? 'Complete the study' : `${engine.completionProblems.join('. ')} to continue`}
           >
             <CheckCircle className="w-5 h-5" />
             <span className="text-sm sm:text-base">
-              {isComplete ? 'Complete Study' : `Sort ${unsortedCards.length} more card${unsortedCards.length !== 1 ? 's' : ''}`}
+              {isComplete ? 'Complete Study' : engine.completionProblems[0]}
             </span>
           </button>
         </div>
@@ -1,19 +1,27 @@
 import React, { useState, useEffect } from 'react';
 import { Users, Key, AlertCircle, CheckCircle, ExternalLink } from 'lucide-react';
-import { Study, ParticipantInvite, ParticipantSession } from '../types';
+import { Study, ParticipantInvite, ParticipantSession, SessionCheckpoint } from '../types';
 import { findParticipantByCode, isInviteExpired, isValidInviteCode } from '../utils/participantUtils';
+import { getEntryRefusal } from '../utils/studyLifecycle';
+import { canResumeCheckpoint } from '../utils/sessionUtils';
 import DemographicsForm from './DemographicsForm';
 
 interface ParticipantEntryProps {
   studies: Study[];
+  studyId?: number; // From the participant link; codes for other studies are refused
   inviteCode?: string; // From URL parameter
+  checkpoints?: Record<string, SessionCheckpoint>; // Sessions in progress, by invite code
   onStartStudy: (study: Study, session: ParticipantSession) => void;
+  onResumeStudy?: (study: Study, checkpoint: SessionCheckpoint) => void;
 }
 
 const ParticipantEntry: React.FC<ParticipantEntryProps> = ({
   studies,
+  studyId,
   inviteCode: urlInviteCode,
-  onStartStudy
+  checkpoints = {},
+  onStartStudy,
+  onResumeStudy
 }) => {
   const [inviteCode, setInviteCode] = useState(urlInviteCode || '');
   const [currentStudy, setCurrentStudy] = useState<Study | null>(null);
@@ -49,7 +57,7 @@ const ParticipantEntry: React.FC<ParticipantEntryProps> = ({
     let foundStudy: Study | null = null;
     let foundInvite: ParticipantInvite | null = null;
 
-    for (const study of studies) {
+    for (const study of studies.filter(s => studyId === undefined || s.id === studyId)) {
       if (study.invites) {
         const invite = findParticipantByCode(study.invites, inviteCode.toUpperCase());
         if (invite) {
@@ -66,6 +74,22 @@ const ParticipantEntry: React.FC<ParticipantEntryProps> = ({
       return;
     }
 
+    // Participants who already started pick up where they left off, even if the study has been paused or closed since
+    const checkpoint = checkpoints[foundInvite.inviteCode];
+    if (checkpoint && onResumeStudy && foundInvite.status !== 'completed' && canResumeCheckpoint(checkpoint, foundStudy)) {
+      setIsLoading(false);
+      onResumeStudy(foundStudy, checkpoint);
+      return;
+    }
+
+    // Only live studies accept participants
+    const refusal = getEntryRefusal(foundStudy);
+    if (refusal) {
+      setError(refusal);
+      setIsLoading(false);
+      return;
+    }
+
     // Check if invite is expired
     const expirationDays = foundStudy.participantConfig?.expirationDays || 30;
     if (isInviteExpired(foundInvite, expirationDays)) {
@@ -90,40 +114,45 @@ const ParticipantEntry: React.FC<ParticipantEntryProps> = ({
       setShowDemographics(true);
     } else {
       // Start study directly
-      startStudy({}, {});
+      startStudy(foundStudy, foundInvite, {}, {});
     }
 
     setIsLoading(false);
   };
 
-  const startStudy = (demographics: Record<string, any>, participantInfo: { name?: string; email?: string }) => {
-    if (!currentStudy || !currentInvite) return;
-
+  // Takes the study and invite directly, since state set while submitting the code is not visible yet
+  const startStudy = (
+    study: Study,
+    invite: ParticipantInvite,
+    demographics: Record<string, any>,
+    participantInfo: { name?: string; email?: string }
+  ) => {
     const session: ParticipantSession = {
-      participantId: `${currentInvite.id}_${Date.now()}`,
-      studyId: currentStudy.id,
+      participantId: `${invite.id}_${Date.now()}`,
+      studyId: study.id,
       startTime: Date.now(),
       isComplete: false,
-      studyType: currentStudy.type,
-      inviteCode: currentInvite.inviteCode,
+      studyType: study.type,
+      inviteCode: invite.inviteCode,
       demographics,
-      participantName: participantInfo.name || currentInvite.firstName,
-      participantEmail: participantInfo.email || currentInvite.email
+      participantName: participantInfo.name || invite.firstName,
+      participantEmail: participantInfo.email || invite.email
     };
 
-    // Note: In a real app, you'd update invite status to 'started' in the backend
-    // For now, we'll pass the session and let the parent handle it
+    // The app marks the invite as started and checkpoints the session from here
 
-    onStartStudy(currentStudy, session);
+    onStartStudy(study, session);
   };
 
   const handleDemographicsSubmit = (demographics: Record<string, any>, participantInfo: { name?: string; email?: string }) => {
-    startStudy(demographics, participantInfo);
+    if (!currentStudy || !currentInvite) return;
+    startStudy(currentStudy, currentInvite, demographics, participantInfo);
   };
 
   const handleDemographicsSkip = () => {
-    if (currentStudy?.participantConfig?.allowAnonymous !== false) {
-      startStudy({}, {});
+    if (!currentStudy || !currentInvite) return;
+    if (currentStudy.participantConfig?.allowAnonymous !== false) {
+      startStudy(currentStudy, currentInvite, {}, {});
     }
   };
 
@@ -237,7 +266,7 @@ const ParticipantEntry: React.FC<ParticipantEntryProps> = ({
                 </div>
                 
                 <button
-                  onClick={() => startStudy({}, {})}
+                  onClick={() => startStudy(currentStudy, currentInvite, {}, {})}
                   className="w-full mt-4 bg-green-600 text-white py-3 px-6 rounded-lg hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 flex items-center justify-center space-x-2"
                 >
                   <ExternalLink className="w-5 h-5" />
@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
 import { Users, Mail, Download, Upload, Link2, UserPlus, AlertCircle, CheckCircle, Clock, XCircle } from 'lucide-react';
-import { Study, ParticipantInvite, DemographicField } from '../types';
+import { Study, StudyResultsIndex, ParticipantInvite, DemographicField } from '../types';
 import { 
   generateParticipantCSVTemplate, 
   parseParticipantCSV, 
@@ -8,14 +8,16 @@ import {
   generateParticipantLink,
   calculateParticipantStats
 } from '../utils/participantUtils';
+import { getParticipantResults, getResultsForStudy } from '../utils/resultUtils';
 
 interface ParticipantManagerProps {
   study: Study;
+  results: StudyResultsIndex;
   onUpdateStudy: (study: Study) => void;
   onBack: () => void;
 }
 
-const ParticipantManager: React.FC<ParticipantManagerProps> = ({ study, onUpdateStudy, onBack }) => {
+const ParticipantManager: React.FC<ParticipantManagerProps> = ({ study, results, onUpdateStudy, onBack }) => {
   const [activeTab, setActiveTab] = useState<'overview' | 'invite' | 'bulk-upload' | 'demographics'>('overview');
   const [bulkCSVText, setBulkCSVText] = useState('');
   const [uploadError, setUploadError] = useState<string | null>(null);
@@ -35,6 +37,7 @@ const ParticipantManager: React.FC<ParticipantManagerProps> = ({ study, onUpdate
   };
 
   const stats = calculateParticipantStats(invites);
+  const studyResults = getResultsForStudy(results, study.id);
 
   const handleDownloadTemplate = () => {
     const template = generateParticipantCSVTemplate(participantConfig.demographicFields);
@@ -133,7 +136,9 @@ const ParticipantManager: React.FC<ParticipantManagerProps> = ({ study, onUpdate
               </button>
               <div>
                 <h1 className="text-xl font-semibold text-gray-900">Participant Management</h1>
-                <p className="text-sm text-gray-600">{study.name}</p>
+                <p className="text-sm text-gray-600">
+                  {study.name} • {studyResults.length} result{studyResults.length !== 1 ? 's' : ''} collected
+                </p>
               </div>
             </div>
           </div>
@@ -258,6 +263,7 @@ const ParticipantManager: React.FC<ParticipantManagerProps> = ({ study, onUpdate
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Invited</th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Completed</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Attempts</th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
                   </tr>
                 </thead>
@@ -286,6 +292,9 @@ const ParticipantManager: React.FC<ParticipantManagerProps> = ({ study, onUpdate
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                         {invite.completedAt ? new Date(invite.completedAt).toLocaleDateString() : '-'}
                       </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {getParticipantResults(results, study.id, invite.inviteCode).length}
+                      </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                         <button
                           onClick={() => handleCopyLink(invite.inviteCode)}
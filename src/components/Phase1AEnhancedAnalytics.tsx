@@ -19,18 +19,29 @@ import {
 
 // Import analytics modules
 import { performAgreementAnalysis } from '../analytics/agreementScores';
-import { analyzeStudyJourneys, type ParticipantJourney } from '../analytics/journeyTracking';
+import { analyzeStudyJourneys, getResultJourneys, type ParticipantJourney } from '../analytics/journeyTracking';
 import {
+  addTag,
+  cloneTaggingSystem,
+  createCardTag,
   createTaggingSystem,
+  performCrossStudyAnalysis,
+  searchCards,
+  tagCard,
   type TaggingSystem,
+  type TagCategory,
   type CardSearchCriteria
 } from '../analytics/cardMetadata';
+import { getStudyCardHistory } from '../analytics/cardHistory';
 import { exportResults, type ExportFormat, type ExportOptions } from '../utils/exportUtils';
+import { standardizeStudyResults } from '../utils/categoryStandardization';
 
 interface Phase1AEnhancedAnalyticsProps {
   results: StudyResult[];
   study: Study;
-  participantJourneys?: ParticipantJourney[];
+  participantJourneys?: ParticipantJourney[]; // Defaults to the journeys recorded with the results
+  taggingSystem?: TaggingSystem; // Persisted card history; a blank system is used when absent
+  onTaggingSystemChange?: (system: TaggingSystem) => void;
 }
 
 type AnalyticsTab = 'overview' | 'agreement' | 'journey' | 'metadata' | 'export';
@@ -38,12 +49,16 @@ type AnalyticsTab = 'overview' | 'agreement' | 'journey' | 'metadata' | 'export'
 export const Phase1AEnhancedAnalytics: React.FC<Phase1AEnhancedAnalyticsProps> = ({
   results,
   study,
-  participantJourneys = []
+  participantJourneys: providedJourneys,
+  taggingSystem: providedTaggingSystem,
+  onTaggingSystemChange
 }) => {
   const [activeTab, setActiveTab] = useState<AnalyticsTab>('overview');
   const [loading, setLoading] = useState(false);
-  const [taggingSystem] = useState<TaggingSystem>(() => createTaggingSystem());
-  const [, setSearchCriteria] = useState<CardSearchCriteria>({});
+  const [localTaggingSystem, setLocalTaggingSystem] = useState<TaggingSystem>(() => createTaggingSystem());
+  const taggingSystem = providedTaggingSystem || localTaggingSystem;
+  const [searchCriteria, setSearchCriteria] = useState<CardSearchCriteria>({});
+  const [tagInputs, setTagInputs] = useState<Record<string, string>>({});
   const [exportOptions, setExportOptions] = useState<ExportOptions>({
     includeMetadata: true,
     includeDemographics: true,
@@ -55,12 +70,26 @@ export const Phase1AEnhancedAnalytics: React.FC<Phase1AEnhancedAnalyticsProps> =
   const agreementAnalysis = useMemo(() => {
     try {
       if (results.length === 0) return null;
-      return performAgreementAnalysis(results);
+      return performAgreementAnalysis(standardizeStudyResults(study, results), study.settings.minParticipants);
     } catch (error) {
       console.error('Agreement analysis failed:', error);
       return null;
     }
-  }, [results]);
+  }, [results, study]);
+
+  const participantJourneys = useMemo(() => {
+    try {
+      return providedJourneys || getResultJourneys(results);
+    } catch (error) {
+      console.error('Loading participant journeys failed:', error);
+      return [];
+    }
+  }, [providedJourneys, results]);
+
+  // Card ids are recorded as strings in movements; show their text instead
+  const journeyCardTexts = useMemo<Record<string, string>>(() => Object.fromEntries(
+    participantJourneys.flatMap(journey => journey.movements.map(move => [move.cardId, move.cardText]))
+  ), [participantJourneys]);
 
   const journeyAnalysis = useMemo(() => {
     try {
@@ -72,6 +101,30 @@ export const Phase1AEnhancedAnalytics: React.FC<Phase1AEnhancedAnalyticsProps> =
     }
   }, [participantJourneys]);
 
+  // History of this study's cards, narrowed by the search filters
+  const studyCardHistory = useMemo(() => {
+    const matching = new Set(searchCards(taggingSystem, searchCriteria).map(metadata => metadata.cardId));
+    return getStudyCardHistory(taggingSystem, study).filter(metadata => matching.has(metadata.cardId));
+  }, [taggingSystem, study, searchCriteria]);
+
+  const handleAddTag = (cardId: string, cardText: string) => {
+    const tagName = (tagInputs[cardId] || '').toLowerCase().trim();
+    if (!tagName) return;
+
+    const next = cloneTaggingSystem(taggingSystem);
+    if (!Array.from(next.tags.values()).some(tag => tag.name === tagName)) {
+      addTag(next, createCardTag(tagName, 'custom', 'researcher'));
+    }
+    tagCard(next, cardId, cardText, [tagName]);
+
+    if (onTaggingSystemChange) {
+      onTaggingSystemChange(next);
+    } else {
+      setLocalTaggingSystem(next);
+    }
+    setTagInputs(prev => ({ ...prev, [cardId]: '' }));
+  };
+
   const handleExport = async (format: ExportFormat) => {
     setLoading(true);
     try {
@@ -317,6 +370,57 @@ export const Phase1AEnhancedAnalytics: React.FC<Phase1AEnhancedAnalyticsProps> =
                           <div className="text-xs text-gray-600 mt-1">{pattern.description}</div>
                         </div>
                       ))}
+                      {journeyAnalysis.patterns.commonMovementPatterns.length === 0 && (
+                        <p className="text-sm text-gray-600">No card followed the same path for more than one participant.</p>
+                      )}
+                    </div>
+                  </div>
+
+                  {journeyAnalysis.patterns.problematicCards.length > 0 && (
+                    <div className="bg-gray-50 rounded-lg p-6">
+                      <h3 className="text-lg font-semibold text-gray-900 mb-1">Problematic Cards</h3>
+                      <p className="text-sm text-gray-600 mb-4">Cards participants moved more than twice, most often first</p>
+                      <div className="flex flex-wrap gap-2">
+                        {journeyAnalysis.patterns.problematicCards.map(cardId => (
+                          <span key={cardId} className="px-3 py-1 bg-red-100 text-red-800 rounded-full text-sm">
+                            {journeyCardTexts[cardId] || cardId}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  <div className="bg-gray-50 rounded-lg p-6">
+                    <h3 className="text-lg font-semibold text-gray-900 mb-4">Participants</h3>
+                    <div className="overflow-x-auto">
+                      <table className="min-w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-gray-600 border-b">
+                            <th className="py-2 pr-4 font-medium">Participant</th>
+                            <th className="py-2 pr-4 font-medium">Moves</th>
+                            <th className="py-2 pr-4 font-medium">Cards Moved</th>
+                            <th className="py-2 pr-4 font-medium">Hesitations</th>
+                            <th className="py-2 pr-4 font-medium">Returned to Unsorted</th>
+                            <th className="py-2 pr-4 font-medium">Category Changes</th>
+                            <th className="py-2 font-medium">Sorting Time</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {participantJourneys.map(journey => (
+                            <tr key={journey.sessionId} className="border-b last:border-b-0 bg-white">
+                              <td className="py-2 px-2 text-gray-900">{journey.participantId}</td>
+                              <td className="py-2 pr-4 text-gray-700">{journey.statistics.totalMoves}</td>
+                              <td className="py-2 pr-4 text-gray-700">{journey.statistics.uniqueCardsMovedCount}</td>
+                              <td className="py-2 pr-4 text-gray-700">{journey.statistics.hesitationEvents}</td>
+                              <td className="py-2 pr-4 text-gray-700">
+                                {journey.movements.filter(move => move.toCategory === null).length}
+                              </td>
+                              <td className="py-2 pr-4 text-gray-700">{journey.categoryEvents.length}</td>
+                              <td className="py-2 text-gray-700">{(journey.totalDuration / 1000 / 60).toFixed(1)}m</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
                     </div>
                   </div>
                 </>
@@ -325,8 +429,8 @@ export const Phase1AEnhancedAnalytics: React.FC<Phase1AEnhancedAnalyticsProps> =
                   <Clock className="w-12 h-12 text-gray-400 mx-auto mb-4" />
                   <h3 className="text-lg font-medium text-gray-900">No Journey Data Available</h3>
                   <p className="text-gray-600 mt-2">
-                    Journey tracking data is not available for this study.
-                    Enable journey tracking in future card sorting sessions to see participant movement patterns.
+                    None of these results include recorded card movements.
+                    Results collected before journey tracking, and imported results, have no journey to show.
                   </p>
                 </div>
               )}
@@ -351,12 +455,12 @@ export const Phase1AEnhancedAnalytics: React.FC<Phase1AEnhancedAnalyticsProps> =
                     type="text"
                     placeholder="Search by text..."
                     className="border border-gray-300 rounded-md px-3 py-2 text-sm"
-                    onChange={(e) => setSearchCriteria(prev => ({ ...prev, textSearch: e.target.value }))}
+                    onChange={(e) => setSearchCriteria(prev => ({ ...prev, textSearch: e.target.value.trim() || undefined }))}
                   />
                   <select
                     className="border border-gray-300 rounded-md px-3 py-2 text-sm"
                     onChange={(e) => {
-                      const category = e.target.value as any;
+                      const category = e.target.value as TagCategory | '';
                       setSearchCriteria(prev => ({
                         ...prev,
                         tagCategories: category ? [category] : undefined
@@ -368,6 +472,7 @@ export const Phase1AEnhancedAnalytics: React.FC<Phase1AEnhancedAnalyticsProps> =
                     <option value="domain">Domain</option>
                     <option value="complexity">Complexity</option>
                     <option value="behavior">Behavior</option>
+                    <option value="custom">Custom</option>
                   </select>
                   <button className="flex items-center justify-center space-x-2 bg-gray-600 text-white px-4 py-2 rounded-lg hover:bg-gray-700 transition-colors">
                     <Filter className="w-4 h-4" />
@@ -376,16 +481,76 @@ export const Phase1AEnhancedAnalytics: React.FC<Phase1AEnhancedAnalyticsProps> =
                 </div>
               </div>
 
-              <div className="bg-white border border-gray-200 rounded-lg p-6">
-                <div className="text-center py-12">
-                  <Tag className="w-12 h-12 text-gray-400 mx-auto mb-4" />
-                  <h3 className="text-lg font-medium text-gray-900">Metadata System Ready</h3>
-                  <p className="text-gray-600 mt-2">
-                    The card metadata and tagging system is implemented and ready for use.
-                    Tags can be created and applied to cards for cross-study analysis.
-                  </p>
+              {studyCardHistory.length > 0 ? (
+                <div className="space-y-4">
+                  {studyCardHistory.map(metadata => {
+                    const crossStudy = performCrossStudyAnalysis(taggingSystem, metadata.cardId);
+                    return (
+                      <div key={metadata.cardId} className="bg-white border border-gray-200 rounded-lg p-4">
+                        <div className="flex items-start justify-between gap-4">
+                          <div>
+                            <h4 className="font-medium text-gray-900">{metadata.cardText}</h4>
+                            <p className="text-xs text-gray-500 mt-1">
+                              {metadata.analytics.totalStudies} stud{metadata.analytics.totalStudies !== 1 ? 'ies' : 'y'} •{' '}
+                              {metadata.analytics.totalParticipants} participants •{' '}
+                              {metadata.analytics.averageAgreementScore.toFixed(1)}% average agreement
+                              {crossStudy && ` • ${crossStudy.insights.evolutionPattern}`}
+                            </p>
+                          </div>
+                          <div className="flex flex-wrap gap-1 justify-end">
+                            {metadata.tags.map(tag => (
+                              <span key={tag.id} className="bg-indigo-100 text-indigo-800 px-2 py-0.5 rounded text-xs">
+                                {tag.name}
+                              </span>
+                            ))}
+                          </div>
+                        </div>
+
+                        <div className="mt-3 space-y-1">
+                          {metadata.crossStudyHistory.map(entry => (
+                            <div key={entry.studyId} className="flex justify-between text-xs text-gray-600">
+                              <span className={entry.studyId === String(study.id) ? 'font-medium text-gray-900' : ''}>
+                                {entry.studyName}
+                              </span>
+                              <span>
+                                {entry.averageAgreementScore.toFixed(0)}% in "{entry.mostCommonCategory}" • {entry.participantCount} participants
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+
+                        <div className="mt-3 flex items-center space-x-2">
+                          <input
+                            type="text"
+                            placeholder="Add a tag..."
+                            value={tagInputs[metadata.cardId] || ''}
+                            onChange={(e) => setTagInputs(prev => ({ ...prev, [metadata.cardId]: e.target.value }))}
+                            onKeyDown={(e) => e.key === 'Enter' && handleAddTag(metadata.cardId, metadata.cardText)}
+                            className="border border-gray-300 rounded-md px-2 py-1 text-xs"
+                          />
+                          <button
+                            onClick={() => handleAddTag(metadata.cardId, metadata.cardText)}
+                            className="text-xs text-indigo-600 hover:text-indigo-800"
+                          >
+                            Add
+                          </button>
+                        </div>
+                      </div>
+                    );
+                  })}
                 </div>
-              </div>
+              ) : (
+                <div className="bg-white border border-gray-200 rounded-lg p-6">
+                  <div className="text-center py-12">
+                    <Tag className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+                    <h3 className="text-lg font-medium text-gray-900">No Card History Yet</h3>
+                    <p className="text-gray-600 mt-2">
+                      Finalize this study's results to add its cards to the cross-study history.
+                      Cards that appear in several studies can then be compared and tagged here.
+                    </p>
+                  </div>
+                </div>
+              )}
             </div>
           )}
 
@@ -0,0 +1,248 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import * as d3 from 'd3';
+import { PerformanceOptimizer } from '../analytics';
+import { analyzeTreeTest, type PieTreeNode } from '../analytics/treeTestAnalysis';
+import { Study, TreeTestResult } from '../types';
+
+interface PieTreeProps {
+  study: Study;
+  results: TreeTestResult[];
+  width?: number;
+  height?: number;
+  responsive?: boolean;
+}
+
+interface PieSlice {
+  label: string;
+  value: number;
+  color: string;
+}
+
+const SLICE_COLORS = {
+  continued: '#3b82f6',
+  correct: '#16a34a',
+  acceptable: '#eab308',
+  incorrect: '#dc2626',
+  abandoned: '#9ca3af'
+};
+
+const PieTree: React.FC<PieTreeProps> = ({
+  study,
+  results,
+  width = 800,
+  height = 600,
+  responsive = true
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [dimensions, setDimensions] = useState({ width, height });
+  const [isMobile, setIsMobile] = useState(false);
+  const [selectedTaskId, setSelectedTaskId] = useState<number | null>(null);
+
+  const analysis = useMemo(() => analyzeTreeTest(study, results), [study, results]);
+  const taskAnalysis = analysis.tasks.find(t => t.taskId === selectedTaskId) || analysis.tasks[0];
+
+  // Handle responsive sizing
+  useEffect(() => {
+    if (!responsive) return;
+
+    const handleResize = PerformanceOptimizer.throttle(() => {
+      if (containerRef.current) {
+        const containerWidth = containerRef.current.clientWidth;
+        const containerHeight = Math.min(containerWidth * 0.75, 600);
+        const mobile = window.innerWidth < 768;
+
+        setDimensions({
+          width: Math.max(containerWidth, 400),
+          height: Math.max(containerHeight, 300)
+        });
+        setIsMobile(mobile);
+      }
+    }, 250);
+
+    handleResize();
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, [responsive]);
+
+  useEffect(() => {
+    if (!svgRef.current || !taskAnalysis) return;
+
+    const svg = d3.select(svgRef.current);
+    svg.selectAll("*").remove(); // Clear previous render
+
+    const currentWidth = responsive ? dimensions.width : width;
+    const currentHeight = responsive ? dimensions.height : height;
+
+    // Only draw branches someone visited, plus the route to the correct answer
+    const prune = (nodes: PieTreeNode[]): PieTreeNode[] => nodes
+      .filter(node => node.visits > 0 || node.onCorrectPath)
+      .map(node => ({ ...node, children: prune(node.children) }));
+
+    const rootData: PieTreeNode = {
+      nodeId: -1,
+      name: 'Home',
+      visits: taskAnalysis.attempts,
+      selections: 0,
+      continued: taskAnalysis.pieTree.reduce((sum, node) => sum + node.visits, 0),
+      abandoned: 0,
+      onCorrectPath: true,
+      answerType: null,
+      children: prune(taskAnalysis.pieTree)
+    };
+
+    const margin = isMobile
+      ? { top: 40, right: 100, bottom: 20, left: 40 }
+      : { top: 50, right: 160, bottom: 30, left: 60 };
+
+    const innerWidth = currentWidth - margin.left - margin.right;
+    const innerHeight = currentHeight - margin.top - margin.bottom;
+
+    const root = d3.hierarchy(rootData);
+    d3.tree<PieTreeNode>().size([innerHeight, innerWidth])(root);
+
+    const g = svg.append('g')
+      .attr('transform', `translate(${margin.left}, ${margin.top})`);
+
+    const maxVisits = Math.max(1, ...root.descendants().map(d => d.data.visits));
+    const radiusScale = d3.scaleSqrt()
+      .domain([0, maxVisits])
+      .range([isMobile ? 3 : 4, isMobile ? 14 : 20]);
+
+    // Draw links, highlighting the route to the correct answer
+    const linkGenerator = d3.linkHorizontal<d3.HierarchyPointLink<PieTreeNode>, d3.HierarchyPointNode<PieTreeNode>>()
+      .x(d => d.y)
+      .y(d => d.x);
+
+    g.selectAll('.link')
+      .data(root.links() as d3.HierarchyPointLink<PieTreeNode>[])
+      .enter().append('path')
+      .attr('class', 'link')
+      .attr('d', linkGenerator)
+      .style('fill', 'none')
+      .style('stroke', d => d.target.data.onCorrectPath ? SLICE_COLORS.correct : '#d1d5db')
+      .style('stroke-width', d => 1 + (d.target.data.visits / maxVisits) * 6)
+      .style('opacity', 0.7);
+
+    const nodes = g.selectAll('.node')
+      .data(root.descendants())
+      .enter().append('g')
+      .attr('class', 'node')
+      .attr('transform', d => `translate(${d.y}, ${d.x})`);
+
+    const pie = d3.pie<PieSlice>().value(d => d.value).sort(null);
+
+    nodes.each(function(d) {
+      const node = d.data;
+      const radius = radiusScale(node.visits);
+      const group = d3.select(this);
+      const selectionColor = node.answerType === 'correct'
+        ? SLICE_COLORS.correct
+        : node.answerType === 'acceptable' ? SLICE_COLORS.acceptable : SLICE_COLORS.incorrect;
+
+      const slices: PieSlice[] = [
+        { label: 'Continued', value: node.continued, color: SLICE_COLORS.continued },
+        { label: 'Selected', value: node.selections, color: selectionColor },
+        { label: 'Abandoned', value: node.abandoned, color: SLICE_COLORS.abandoned }
+      ].filter(slice => slice.value > 0);
+
+      if (slices.length === 0) {
+        group.append('circle')
+          .attr('r', radius)
+          .style('fill', '#fff')
+          .style('stroke', node.onCorrectPath ? SLICE_COLORS.correct : '#9ca3af')
+          .style('stroke-dasharray', '2,2');
+        return;
+      }
+
+      const arc = d3.arc<d3.PieArcDatum<PieSlice>>().innerRadius(0).outerRadius(radius);
+
+      group.selectAll('path')
+        .data(pie(slices))
+        .enter().append('path')
+        .attr('d', arc)
+        .style('fill', s => s.data.color)
+        .style('stroke', '#fff')
+        .style('stroke-width', 1)
+        .append('title')
+        .text(s => `${node.name} - ${s.data.label}: ${s.data.value}`);
+    });
+
+    nodes.append('text')
+      .attr('dx', d => radiusScale(d.data.visits) + 4)
+      .attr('dy', 4)
+      .style('font-size', isMobile ? '10px' : '12px')
+      .style('font-weight', d => d.data.answerType === 'correct' ? '700' : '500')
+      .style('fill', '#1f2937')
+      .text(d => {
+        const maxLength = isMobile ? 10 : 18;
+        const name = d.data.name.length > maxLength ? d.data.name.substring(0, maxLength) + '...' : d.data.name;
+        return `${name} (${d.data.visits})`;
+      });
+
+    // Add title
+    svg.append('text')
+      .attr('x', currentWidth / 2)
+      .attr('y', 20)
+      .style('text-anchor', 'middle')
+      .style('font-size', isMobile ? '14px' : '16px')
+      .style('font-weight', 'bold')
+      .style('fill', '#1f2937')
+      .text('Participant Flow (Pie Tree)');
+
+  }, [taskAnalysis, dimensions.width, dimensions.height, isMobile, responsive, width, height]);
+
+  if (results.length === 0 || analysis.tasks.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-64 bg-gray-50 rounded-lg border">
+        <p className="text-gray-500">No tree testing data available for pie tree analysis</p>
+      </div>
+    );
+  }
+
+  return (
+    <div ref={containerRef} className="bg-white p-2 sm:p-4 rounded-lg shadow border">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">Pie Tree</h3>
+        <select
+          value={taskAnalysis?.taskId ?? ''}
+          onChange={(e) => setSelectedTaskId(Number(e.target.value))}
+          className="px-3 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 max-w-xs"
+        >
+          {analysis.tasks.map((task, index) => (
+            <option key={task.taskId} value={task.taskId}>
+              Task {index + 1}: {task.taskText}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="overflow-hidden">
+        <svg
+          ref={svgRef}
+          width={responsive ? dimensions.width : width}
+          height={responsive ? dimensions.height : height}
+          className="w-full"
+          style={{ maxWidth: '100%', height: 'auto' }}
+          viewBox={`0 0 ${responsive ? dimensions.width : width} ${responsive ? dimensions.height : height}`}
+        />
+      </div>
+
+      <div className="mt-2 sm:mt-4 text-xs sm:text-sm text-gray-600">
+        <p className="mb-2">
+          <strong>How to read:</strong> Each pie shows what participants did at that node. Node size reflects how many
+          participants passed through it; green branches lead to the correct answer.
+        </p>
+        <div className="flex flex-wrap gap-4">
+          <span className="flex items-center"><span className="w-3 h-3 rounded-full mr-1" style={{ backgroundColor: SLICE_COLORS.continued }} />Continued deeper</span>
+          <span className="flex items-center"><span className="w-3 h-3 rounded-full mr-1" style={{ backgroundColor: SLICE_COLORS.correct }} />Selected (correct)</span>
+          <span className="flex items-center"><span className="w-3 h-3 rounded-full mr-1" style={{ backgroundColor: SLICE_COLORS.acceptable }} />Selected (acceptable)</span>
+          <span className="flex items-center"><span className="w-3 h-3 rounded-full mr-1" style={{ backgroundColor: SLICE_COLORS.incorrect }} />Selected (incorrect)</span>
+          <span className="flex items-center"><span className="w-3 h-3 rounded-full mr-1" style={{ backgroundColor: SLICE_COLORS.abandoned }} />Ended here</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PieTree;
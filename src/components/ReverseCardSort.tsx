@@ -1,33 +1,42 @@
 import React, { useState } from 'react';
 import { CheckCircle, Eye, EyeOff } from 'lucide-react';
-import { Study, Card, Category, CardSortResult } from '../types';
+import { Study, CardSortResult, CardSortProgress } from '../types';
+import useSortEngine from '../hooks/useSortEngine';
+import useSortInteraction from '../hooks/useSortInteraction';
+import SortInteractionLayer from './SortInteractionLayer';
+import SortHistoryControls from './SortHistoryControls';
 
 interface ReverseCardSortProps {
   study: Study;
   participantId: string;
   participantStartTime: number;
   onComplete: (result: CardSortResult) => void;
+  progress?: CardSortProgress; // Checkpoint to resume from
+  onProgress?: (progress: CardSortProgress) => void;
 }
 
 const ReverseCardSort: React.FC<ReverseCardSortProps> = ({
   study,
   participantId,
   participantStartTime,
-  onComplete
+  onComplete,
+  progress,
+  onProgress
 }) => {
-  // In reverse card sorting, we start with cards already in categories
-  const [categories, setCategories] = useState<Category[]>(() => {
-    // Distribute cards evenly across categories initially
-    const categoriesWithCards: Category[] = study.categories.map(cat => ({ ...cat, cards: [] }));
-    study.cards.forEach((card, index) => {
-      const categoryIndex = index % study.categories.length;
-      categoriesWithCards[categoryIndex].cards.push(card);
-    });
-    return categoriesWithCards;
-  });
-  const [draggedCard, setDraggedCard] = useState<Card | null>(null);
+  // In reverse card sorting, cards start out dealt across the categories
+  const engine = useSortEngine({ study, participantId, progress, onProgress });
+  const { categories } = engine.state;
   const [showInitialGrouping, setShowInitialGrouping] = useState(true);
 
+  // There is no unsorted pile here, so every target is a category
+  const interaction = useSortInteraction({
+    targets: categories.map(cat => ({ id: cat.id, label: `Category: ${cat.name}` })),
+    getCardTarget: card => engine.getCardTarget(card.id),
+    onMove: (card, to) => engine.moveCard(card.id, to)
+  });
+  const heldCardId = interaction.heldCard?.id;
+  const draggedCardId = interaction.dragPreview?.card.id;
+
   if (!study || !study.cards || study.cards.length === 0) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -50,34 +59,6 @@ const ReverseCardSort: React.FC<ReverseCardSortProps> = ({
     );
   }
 
-  const handleDragStart = (_e: React.DragEvent, card: Card) => {
-    setDraggedCard(card);
-  };
-
-  const handleDragOver = (e: React.DragEvent) => {
-    e.preventDefault();
-  };
-
-  const handleDrop = (e: React.DragEvent, categoryId: number) => {
-    e.preventDefault();
-    if (draggedCard) {
-      // Remove card from its current category
-      setCategories(prev => prev.map(cat => ({
-        ...cat,
-        cards: cat.cards.filter(card => card.id !== draggedCard.id)
-      })));
-      
-      // Add card to target category
-      setCategories(prev => prev.map(cat => 
-        cat.id === categoryId 
-          ? { ...cat, cards: [...cat.cards, draggedCard] }
-          : cat
-      ));
-      
-      setDraggedCard(null);
-    }
-  };
-
   const submitStudy = () => {
     const results: CardSortResult = {
       participantId,
@@ -90,7 +71,8 @@ const ReverseCardSort: React.FC<ReverseCardSortProps> = ({
         categoryId: cat.id,
         categoryName: cat.name,
         cards: cat.cards.map(card => ({ id: card.id, text: card.text }))
-      }))
+      })),
+      journey: engine.journeyTracker.exportData()
     };
     
     onComplete(results);
@@ -100,6 +82,7 @@ const ReverseCardSort: React.FC<ReverseCardSortProps> = ({
   
   return (
     <div className="min-h-screen bg-gray-50">
+      <SortInteractionLayer interaction={interaction} />
       <div className="bg-white border-b border-gray-200 px-4 sm:px-6 py-4">
         <div className="max-w-6xl mx-auto">
           <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between space-y-2 sm:space-y-0">
@@ -151,9 +134,12 @@ const ReverseCardSort: React.FC<ReverseCardSortProps> = ({
           {categories.map(category => (
             <div
               key={category.id}
-              className="bg-white p-4 border-2 border-solid border-gray-200 rounded-xl min-h-40 hover:border-gray-300 hover:shadow-sm transition-all duration-200"
-              onDragOver={handleDragOver}
-              onDrop={(e) => handleDrop(e, category.id)}
+              {...interaction.getTargetProps(category.id)}
+              className={`bg-white p-4 border-2 border-solid rounded-xl min-h-40 transition-all duration-200 ${
+                heldCardId !== undefined && interaction.activeTargetId === category.id
+                  ? 'border-orange-400 bg-orange-50 ring-2 ring-orange-300'
+                  : 'border-gray-200 hover:border-gray-300 hover:shadow-sm'
+              }`}
               role="region"
               aria-label={`Category: ${category.name}`}
             >
@@ -176,14 +162,12 @@ const ReverseCardSort: React.FC<ReverseCardSortProps> = ({
 
               <div className="space-y-2 min-h-16">
                 {category.cards.map((card) => (
-                  <div 
-                    key={card.id} 
-                    className="p-2 sm:p-3 bg-gradient-to-br from-orange-50 to-orange-100 border border-orange-200 rounded-lg text-sm font-medium text-orange-900 hover:from-orange-100 hover:to-orange-200 hover:shadow-md transition-all duration-200 cursor-move"
-                    draggable
-                    onDragStart={(e) => handleDragStart(e, card)}
-                    role="button"
-                    tabIndex={0}
-                    aria-label={`Move card: ${card.text}`}
+                  <div
+                    key={card.id}
+                    {...interaction.getCardProps(card)}
+                    className={`p-2 sm:p-3 bg-gradient-to-br from-orange-50 to-orange-100 border border-orange-200 rounded-lg text-sm font-medium text-orange-900 hover:from-orange-100 hover:to-orange-200 hover:shadow-md transition-all duration-200 cursor-move select-none touch-none focus:outline-none focus-visible:ring-2 focus-visible:ring-orange-500 ${
+                      heldCardId === card.id ? 'ring-2 ring-orange-500 ring-offset-2' : ''
+                    } ${draggedCardId === card.id ? 'opacity-40' : ''}`}
                   >
                     <div className="flex items-center">
                       <div className="w-2 h-2 bg-orange-400 rounded-full mr-2 flex-shrink-0"></div>
@@ -219,6 +203,13 @@ const ReverseCardSort: React.FC<ReverseCardSortProps> = ({
             </div>
           </div>
           
+          <SortHistoryControls
+            canUndo={engine.state.past.length > 0}
+            canRedo={engine.state.future.length > 0}
+            onUndo={() => engine.dispatch({ type: 'undo' })}
+            onRedo={() => engine.dispatch({ type: 'redo' })}
+          />
+
           <button 
             onClick={submitStudy}
             className="px-6 py-3 rounded-xl font-semibold flex items-center space-x-2 transition-all duration-200 shadow-sm bg-gradient-to-r from-green-600 to-green-700 text-white hover:from-green-700 hover:to-green-800 focus:ring-2 focus:ring-green-500 focus:ring-offset-2 shadow-lg"
@@ -236,7 +227,7 @@ const ReverseCardSort: React.FC<ReverseCardSortProps> = ({
             Your job is to review and reorganize them based on what makes sense to you.
           </p>
           <p className="text-xs text-gray-500 mt-2">
-            Drag cards between categories to reorganize them. You can toggle category labels on/off to focus on the content.
+            Drag cards between categories to reorganize them, or select a card and then the category it belongs in. With the keyboard, press Space to pick a card up, the arrow keys to choose a category and Space again to drop it. You can toggle category labels on/off to focus on the content.
           </p>
         </div>
       </div>
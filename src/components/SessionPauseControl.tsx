@@ -0,0 +1,51 @@
+import React from 'react';
+import { Pause, Play } from 'lucide-react';
+
+interface SessionPauseControlProps {
+  paused: boolean;
+  canResumeLater: boolean; // Invited participants can also leave and come back with their link
+  onPause: () => void;
+  onResume: () => void;
+}
+
+const SessionPauseControl: React.FC<SessionPauseControlProps> = ({ paused, canResumeLater, onPause, onResume }) => {
+  if (!paused) {
+    return (
+      <button
+        onClick={onPause}
+        className="fixed bottom-4 left-4 z-40 px-4 py-2 bg-white border border-gray-300 rounded-lg shadow-sm text-sm text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 flex items-center space-x-2"
+      >
+        <Pause className="w-4 h-4" />
+        <span>Pause</span>
+      </button>
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-gray-50 flex items-center justify-center px-4">
+      <div className="bg-white rounded-lg shadow-sm border p-8 max-w-md w-full text-center">
+        <div className="w-16 h-16 bg-blue-100 rounded-full flex items-center justify-center mx-auto mb-4">
+          <Pause className="w-8 h-8 text-blue-600" />
+        </div>
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">Study Paused</h2>
+        <p className="text-gray-600">
+          Take your time. The time you spend paused doesn't count towards the study.
+        </p>
+        {canResumeLater && (
+          <p className="text-sm text-gray-500 mt-2">
+            Your progress is saved, so you can also close this page and come back later with the same invite link.
+          </p>
+        )}
+        <button
+          onClick={onResume}
+          className="w-full mt-6 bg-blue-600 text-white py-3 px-6 rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 flex items-center justify-center space-x-2"
+        >
+          <Play className="w-5 h-5" />
+          <span>Resume</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SessionPauseControl;
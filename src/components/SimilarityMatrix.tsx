@@ -1,10 +1,13 @@
 import React, { useEffect, useRef, useState } from 'react';
 import * as d3 from 'd3';
-import { SimilarityAnalysis, PerformanceOptimizer } from '../analytics';
-import { CardSortResult } from '../types';
+import { SimilarityAnalysis, HierarchicalClustering, PerformanceOptimizer, SIMILARITY_METRIC_LABELS, SIMILARITY_METRIC_DESCRIPTIONS } from '../analytics';
+import { CardSortResult, SimilarityMetric, LinkageMethod } from '../types';
 
 interface SimilarityMatrixProps {
   results: CardSortResult[];
+  metric?: SimilarityMetric;
+  linkage?: LinkageMethod;
+  clusterOrder?: boolean; // Order cards like the dendrogram instead of as listed
   width?: number;
   height?: number;
   responsive?: boolean;
@@ -12,6 +15,9 @@ interface SimilarityMatrixProps {
 
 const SimilarityMatrix: React.FC<SimilarityMatrixProps> = ({ 
   results, 
+  metric = 'co-occurrence',
+  linkage = 'average',
+  clusterOrder = true,
   width = 600, 
   height = 600,
   responsive = true
@@ -54,21 +60,17 @@ const SimilarityMatrix: React.FC<SimilarityMatrixProps> = ({
     const currentHeight = responsive ? dimensions.height : height;
 
     // Get card names for labels
-    const cardNames: string[] = [];
-    if (results.length > 0) {
-      results[0].cardSortResults.forEach(category => {
-        category.cards.forEach(card => {
-          if (!cardNames.includes(card.text)) {
-            cardNames.push(card.text);
-          }
-        });
-      });
-    }
+    const listedNames = SimilarityAnalysis.getCards(results).map(card => card.text);
 
-    if (cardNames.length === 0) return;
+    if (listedNames.length === 0) return;
 
-    // Calculate similarity matrix
-    const similarityMatrix = SimilarityAnalysis.createSimilarityMatrix(results);
+    // Calculate similarity matrix, reordered to follow the dendrogram's leaves
+    const listedMatrix = SimilarityAnalysis.createSimilarityMatrix(results, metric);
+    const order = clusterOrder
+      ? HierarchicalClustering.getLeafOrder(HierarchicalClustering.cluster(listedMatrix, listedNames, { linkage }))
+      : listedNames.map((_name, i) => i);
+    const cardNames = order.map(i => listedNames[i]);
+    const similarityMatrix = order.map(i => order.map(j => listedMatrix[i][j]));
     const n = cardNames.length;
 
     // Set up dimensions with better spacing
@@ -218,19 +220,10 @@ const SimilarityMatrix: React.FC<SimilarityMatrixProps> = ({
       .style('fill', '#374151')
       .text(isMobile ? 'Similarity (0-1)' : 'Similarity Score (0 = Never, 1 = Always)'); // Shorter text for mobile
 
-  }, [results, dimensions.width, dimensions.height, isMobile]);
+  }, [results, metric, linkage, clusterOrder, dimensions.width, dimensions.height, isMobile]);
 
   // Get card names for the info panel
-  const cardNames: string[] = [];
-  if (results.length > 0) {
-    results[0].cardSortResults.forEach(category => {
-      category.cards.forEach(card => {
-        if (!cardNames.includes(card.text)) {
-          cardNames.push(card.text);
-        }
-      });
-    });
-  }
+  const cardNames = SimilarityAnalysis.getCards(results).map(card => card.text);
 
   if (results.length === 0) {
     return (
@@ -256,11 +249,11 @@ const SimilarityMatrix: React.FC<SimilarityMatrixProps> = ({
         <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
           <div>
             <p className="font-semibold text-gray-900 mb-1">How to read:</p>
-            <p>Darker blue indicates higher similarity. Numbers show the percentage of participants who grouped these cards together.</p>
+            <p>Darker blue indicates higher similarity. {SIMILARITY_METRIC_DESCRIPTIONS[metric]}</p>
           </div>
           <div>
             <p className="font-semibold text-gray-900 mb-1">Study data:</p>
-            <p><strong>{results.length}</strong> participants • <strong>{cardNames.length}</strong> cards analyzed</p>
+            <p><strong>{results.length}</strong> participants • <strong>{cardNames.length}</strong> cards analyzed • {SIMILARITY_METRIC_LABELS[metric]}</p>
           </div>
         </div>
         {isMobile && <p className="text-xs text-blue-600 mt-2 border-t border-gray-200 pt-2"><strong>Mobile view:</strong> Labels may be abbreviated. Tap and zoom for better visibility.</p>}
@@ -0,0 +1,28 @@
+import React from 'react';
+import { Undo2, Redo2 } from 'lucide-react';
+
+interface SortHistoryControlsProps {
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+const SortHistoryControls: React.FC<SortHistoryControlsProps> = ({ canUndo, canRedo, onUndo, onRedo }) => {
+  const buttonClass = 'px-3 py-2 bg-white border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-1';
+
+  return (
+    <div className="flex items-center space-x-2">
+      <button onClick={onUndo} disabled={!canUndo} className={buttonClass} title="Undo your last change">
+        <Undo2 className="w-4 h-4" />
+        <span>Undo</span>
+      </button>
+      <button onClick={onRedo} disabled={!canRedo} className={buttonClass} title="Redo the change you undid">
+        <Redo2 className="w-4 h-4" />
+        <span>Redo</span>
+      </button>
+    </div>
+  );
+};
+
+export default SortHistoryControls;
@@ -0,0 +1,32 @@
+import React from 'react';
+import { SortInteraction } from '../hooks/useSortInteraction';
+import { KEYBOARD_INSTRUCTIONS } from '../utils/sortInteraction';
+
+interface SortInteractionLayerProps {
+  interaction: SortInteraction;
+}
+
+// Screen reader instructions and announcements for a sort, plus the card that follows a pointer drag
+const SortInteractionLayer: React.FC<SortInteractionLayerProps> = ({ interaction }) => {
+  const { announcement, instructionsId, dragPreview } = interaction;
+
+  return (
+    <>
+      <p id={instructionsId} className="sr-only">{KEYBOARD_INSTRUCTIONS}</p>
+      <div aria-live="assertive" aria-atomic="true" className="sr-only">
+        {announcement}
+      </div>
+      {dragPreview && (
+        <div
+          aria-hidden="true"
+          className="fixed z-50 pointer-events-none max-w-xs p-3 bg-white border-2 border-blue-400 rounded-lg shadow-xl text-sm font-medium text-gray-900 -translate-x-1/2 -translate-y-1/2 rotate-2"
+          style={{ left: dragPreview.x, top: dragPreview.y }}
+        >
+          {dragPreview.card.text}
+        </div>
+      )}
+    </>
+  );
+};
+
+export default SortInteractionLayer;
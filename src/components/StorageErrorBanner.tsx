@@ -0,0 +1,49 @@
+import React from 'react';
+import { AlertCircle, X } from 'lucide-react';
+import { StorageError } from '../storage';
+
+interface StorageErrorBannerProps {
+  error: StorageError;
+  onDismiss: () => void;
+}
+
+const getGuidance = (error: StorageError): string => {
+  switch (error.kind) {
+    case 'quota-exceeded':
+      return 'Browser storage is full, so your latest changes were not saved. Export and delete studies you no longer need, or use smaller card images, and your changes will save again.';
+    case 'unavailable':
+      return 'Browser storage is unavailable (private browsing can block it). Changes made now will be lost when this tab is closed.';
+    case 'incompatible':
+      return 'This data was saved by a newer version of VUX Sort. Update the app to open it; nothing will be saved until then.';
+    case 'not-imported':
+      return 'Data saved by an earlier version of VUX Sort was not imported because this browser already has saved data. The older data has been left as it was.';
+    default:
+      return 'Your latest changes may not have been saved.';
+  }
+};
+
+const StorageErrorBanner: React.FC<StorageErrorBannerProps> = ({ error, onDismiss }) => {
+  return (
+    <div
+      role="alert"
+      className="fixed top-4 left-1/2 -translate-x-1/2 z-50 w-full max-w-2xl px-4"
+    >
+      <div className="flex items-start space-x-3 bg-red-50 border border-red-200 rounded-lg shadow-lg p-4">
+        <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+        <div className="flex-1">
+          <p className="text-sm font-medium text-red-800">{getGuidance(error)}</p>
+          <p className="text-xs text-red-600 mt-1">{error.message}</p>
+        </div>
+        <button
+          onClick={onDismiss}
+          className="text-red-400 hover:text-red-600"
+          title="Dismiss"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default StorageErrorBanner;
@@ -0,0 +1,320 @@
+import React, { useMemo, useState } from 'react';
+import { GitCompare, Download, AlertCircle, ArrowUp, ArrowDown, Minus } from 'lucide-react';
+import * as Papa from 'papaparse';
+import { SimilarityMetric, Study, StudyResultsIndex } from '../types';
+import { SIMILARITY_METRIC_LABELS } from '../analytics';
+import {
+  compareStudies,
+  createComparisonDiffRows,
+  getComparisonCandidates,
+  getComparisonKey,
+  StudyComparisonReport
+} from '../analytics/studyComparison';
+import { downloadBlob } from '../utils';
+
+interface StudyComparisonViewProps {
+  studies: Study[];
+  results: StudyResultsIndex;
+  onBack: () => void;
+}
+
+const formatDelta = (delta: number) => `${delta > 0 ? '+' : ''}${delta.toFixed(1)}`;
+
+const heatColor = (value: number) => `rgba(37, 99, 235, ${Math.min(Math.max(value, 0), 1)})`;
+
+const deltaColor = (delta: number) =>
+  delta >= 0 ? `rgba(22, 163, 74, ${Math.min(delta, 1)})` : `rgba(220, 38, 38, ${Math.min(-delta, 1)})`;
+
+const MatrixTable: React.FC<{ title: string; labels: string[]; matrix: number[][]; color: (value: number) => string; signed?: boolean }> = ({
+  title,
+  labels,
+  matrix,
+  color,
+  signed
+}) => (
+  <div className="bg-white rounded-lg border border-gray-200 p-4 overflow-x-auto">
+    <h4 className="text-sm font-medium text-gray-900 mb-3">{title}</h4>
+    <table className="text-xs">
+      <thead>
+        <tr>
+          <th />
+          {labels.map((label, index) => (
+            <th key={index} className="px-1 font-normal text-gray-500" title={label}>{index + 1}</th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {matrix.map((row, i) => (
+          <tr key={i}>
+            <th className="pr-2 text-left font-normal text-gray-700 whitespace-nowrap max-w-[10rem] truncate" title={labels[i]}>
+              {i + 1}. {labels[i]}
+            </th>
+            {row.map((value, j) => (
+              <td
+                key={j}
+                className="w-8 h-8 text-center border border-white"
+                style={{ backgroundColor: color(value) }}
+                title={`${labels[i]} / ${labels[j]}: ${signed ? formatDelta(value * 100) : (value * 100).toFixed(0)}%`}
+              >
+                <span className={Math.abs(value) > 0.5 ? 'text-white' : 'text-gray-800'}>
+                  {signed && value > 0 ? '+' : ''}{Math.round(value * 100)}
+                </span>
+              </td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+const StudyComparisonView: React.FC<StudyComparisonViewProps> = ({ studies, results, onBack }) => {
+  const candidates = useMemo(() => getComparisonCandidates(studies, results), [studies, results]);
+  const [selectedKeys, setSelectedKeys] = useState<string[]>(() => candidates.slice(0, 2).map(getComparisonKey));
+  const [metric, setMetric] = useState<SimilarityMetric>('co-occurrence');
+  const [showChangedOnly, setShowChangedOnly] = useState(false);
+
+  const report = useMemo<StudyComparisonReport | null>(() => {
+    const selected = candidates.filter(candidate => selectedKeys.includes(getComparisonKey(candidate)));
+    if (selected.length < 2) return null;
+    return compareStudies(selected, metric);
+  }, [candidates, selectedKeys, metric]);
+
+  const toggleCandidate = (key: string) => {
+    setSelectedKeys(prev => (prev.includes(key) ? prev.filter(selected => selected !== key) : [...prev, key]));
+  };
+
+  const exportFileName = () => `study-comparison-${report!.studies.map(study => study.studyName).join('-vs-')}`
+    .replace(/[^a-z0-9-]+/gi, '-')
+    .toLowerCase();
+
+  const handleExportCSV = () => {
+    if (!report) return;
+    const csv = Papa.unparse(createComparisonDiffRows(report));
+    downloadBlob(new Blob([csv], { type: 'text/csv' }), `${exportFileName()}.csv`);
+  };
+
+  const handleExportJSON = () => {
+    if (!report) return;
+    downloadBlob(new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' }), `${exportFileName()}.json`);
+  };
+
+  const visibleCards = report
+    ? report.cards.filter(card => !showChangedOnly || card.placementShifted || Math.abs(card.agreementDelta) >= 10)
+    : [];
+  const labels = report ? report.sharedCards.map(card => card.text) : [];
+  const baseline = report?.studies[0];
+  const latest = report?.studies[report.studies.length - 1];
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200 px-4 sm:px-6 py-4">
+        <div className="max-w-7xl mx-auto">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={onBack}
+                className="p-2 hover:bg-gray-100 rounded-lg"
+              >
+                ←
+              </button>
+              <div>
+                <h1 className="text-xl font-semibold text-gray-900">Compare Studies</h1>
+                <p className="text-sm text-gray-600">
+                  Agreement and placement changes on the cards the selected studies share
+                </p>
+              </div>
+            </div>
+            {report && (
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={handleExportCSV}
+                  className="px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 flex items-center space-x-2"
+                >
+                  <Download className="w-4 h-4" />
+                  <span>Diff CSV</span>
+                </button>
+                <button
+                  onClick={handleExportJSON}
+                  className="px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 flex items-center space-x-2"
+                >
+                  <Download className="w-4 h-4" />
+                  <span>JSON</span>
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 py-6 space-y-6">
+        {/* Study picker */}
+        <div className="bg-white rounded-lg border border-gray-200 p-4">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-sm font-medium text-gray-900">Studies</h3>
+            <div className="flex items-center">
+              <label htmlFor="comparison-metric" className="text-sm text-gray-700 mr-2">Similarity metric</label>
+              <select
+                id="comparison-metric"
+                value={metric}
+                onChange={(e) => setMetric(e.target.value as SimilarityMetric)}
+                className="px-3 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {(Object.keys(SIMILARITY_METRIC_LABELS) as SimilarityMetric[]).map(option => (
+                  <option key={option} value={option}>{SIMILARITY_METRIC_LABELS[option]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          {candidates.length < 2 ? (
+            <p className="text-sm text-gray-600">At least two card sort studies, or two versions of one, with results are needed for a comparison.</p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {candidates.map(candidate => {
+                const key = getComparisonKey(candidate);
+                return (
+                  <label
+                    key={key}
+                    className={`flex items-center space-x-2 text-sm border rounded-lg px-3 py-2 cursor-pointer ${
+                      selectedKeys.includes(key) ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:border-gray-300'
+                    }`}
+                  >
+                    <input type="checkbox" checked={selectedKeys.includes(key)} onChange={() => toggleCandidate(key)} />
+                    <span>{candidate.study.name}</span>
+                    {candidate.version !== undefined && <span className="text-blue-700 font-medium">v{candidate.version}</span>}
+                    <span className="text-gray-500">({candidate.results.length})</span>
+                  </label>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        {candidates.length >= 2 && !report && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 flex items-center space-x-2">
+            <AlertCircle className="w-5 h-5 text-yellow-600" />
+            <p className="text-sm text-yellow-800">Select at least two studies to compare.</p>
+          </div>
+        )}
+
+        {report && baseline && latest && (
+          <>
+            {/* Summary */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {report.studies.map((study, index) => (
+                <div key={study.key} className="bg-white rounded-lg border border-gray-200 p-4">
+                  <div className="text-xs text-gray-500">{index === 0 ? 'Baseline' : `Study ${index + 1}`}</div>
+                  <div className="font-medium text-gray-900">{study.studyName}</div>
+                  <div className="text-sm text-gray-600 mt-1">
+                    {study.participantCount} participants • {new Date(study.date).toLocaleDateString()}
+                  </div>
+                  <div className="text-sm text-gray-600">
+                    Shared card agreement: <strong>{study.sharedCardAgreement.toFixed(1)}%</strong>
+                    {index > 0 && (
+                      <span className={study.sharedCardAgreement >= baseline.sharedCardAgreement ? 'text-green-600 ml-1' : 'text-red-600 ml-1'}>
+                        ({formatDelta(study.sharedCardAgreement - baseline.sharedCardAgreement)})
+                      </span>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="text-sm text-gray-600 flex items-center space-x-2">
+              <GitCompare className="w-4 h-4" />
+              <span>
+                {report.sharedCards.length} shared card{report.sharedCards.length !== 1 ? 's' : ''} •{' '}
+                {report.cards.filter(card => card.placementShifted).length} changed category •{' '}
+                {report.studies.map(study => `${report.unsharedCards[study.key].length} only in ${study.studyName}`).join(' • ')}
+              </span>
+            </div>
+
+            {report.sharedCards.length === 0 ? (
+              <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 flex items-center space-x-2">
+                <AlertCircle className="w-5 h-5 text-yellow-600" />
+                <p className="text-sm text-yellow-800">
+                  The selected studies have no cards in common. Cards are matched by their card history link or by their text.
+                </p>
+              </div>
+            ) : (
+              <>
+                {/* Per-card deltas */}
+                <div className="bg-white rounded-lg border border-gray-200 overflow-x-auto">
+                  <div className="flex items-center justify-between p-4 border-b">
+                    <h3 className="text-sm font-medium text-gray-900">Card changes</h3>
+                    <label className="flex items-center space-x-2 text-sm text-gray-700">
+                      <input type="checkbox" checked={showChangedOnly} onChange={e => setShowChangedOnly(e.target.checked)} />
+                      <span>Only cards that moved or changed by 10+ points</span>
+                    </label>
+                  </div>
+                  <table className="min-w-full text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-2 text-left font-medium text-gray-700">Card</th>
+                        {report.studies.map(study => (
+                          <th key={study.key} className="px-4 py-2 text-left font-medium text-gray-700">{study.studyName}</th>
+                        ))}
+                        <th className="px-4 py-2 text-right font-medium text-gray-700">Δ Agreement</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {visibleCards.map(card => (
+                        <tr key={card.alignmentKey} className={`border-t ${card.placementShifted ? 'bg-yellow-50' : ''}`}>
+                          <td className="px-4 py-2 font-medium text-gray-900">{card.text}</td>
+                          {card.studies.map((entry, index) => (
+                            <td key={entry.studyId} className="px-4 py-2">
+                              <div className={index > 0 && entry.primaryCategory.trim().toLowerCase() !== card.studies[0].primaryCategory.trim().toLowerCase() ? 'text-yellow-800 font-medium' : 'text-gray-900'}>
+                                {entry.primaryCategory || '—'}
+                              </div>
+                              <div className="text-xs text-gray-500">{entry.agreementScore.toFixed(1)}% agreement</div>
+                            </td>
+                          ))}
+                          <td className={`px-4 py-2 text-right font-medium ${
+                            card.agreementDelta > 0 ? 'text-green-600' : card.agreementDelta < 0 ? 'text-red-600' : 'text-gray-500'
+                          }`}>
+                            <span className="inline-flex items-center space-x-1">
+                              {card.agreementDelta > 0 ? <ArrowUp className="w-3 h-3" /> : card.agreementDelta < 0 ? <ArrowDown className="w-3 h-3" /> : <Minus className="w-3 h-3" />}
+                              <span>{formatDelta(card.agreementDelta)}</span>
+                            </span>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                {/* Similarity matrices */}
+                <div>
+                  <h3 className="text-sm font-medium text-gray-900 mb-3">
+                    Similarity on shared cards • {SIMILARITY_METRIC_LABELS[report.metric]}
+                  </h3>
+                  <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+                    {report.studies.map(study => (
+                      <MatrixTable
+                        key={study.key}
+                        title={study.studyName}
+                        labels={labels}
+                        matrix={report.similarityMatrices[study.key]}
+                        color={heatColor}
+                      />
+                    ))}
+                    <MatrixTable
+                      title={`Change: ${latest.studyName} vs ${baseline.studyName}`}
+                      labels={labels}
+                      matrix={report.similarityDelta}
+                      color={deltaColor}
+                      signed
+                    />
+                  </div>
+                </div>
+              </>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StudyComparisonView;
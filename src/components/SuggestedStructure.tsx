@@ -0,0 +1,138 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { FolderTree, Layers } from 'lucide-react';
+import { CardSortResult, LinkageMethod, SimilarityMetric, Study } from '../types';
+import { SimilarityAnalysis } from '../analytics';
+import { suggestCategoryStructure, createStudyDraftFromGroups, type DraftStudyType } from '../analytics/clusterSuggestions';
+
+interface SuggestedStructureProps {
+  study: Study;
+  results: CardSortResult[];
+  metric?: SimilarityMetric;
+  linkage?: LinkageMethod;
+  onCreateDraft?: (draft: Study) => void;
+}
+
+const SuggestedStructure: React.FC<SuggestedStructureProps> = ({
+  study,
+  results,
+  metric = 'co-occurrence',
+  linkage = 'average',
+  onCreateDraft
+}) => {
+  const cardCount = useMemo(() => SimilarityAnalysis.getCards(results).length, [results]);
+  const [cutMode, setCutMode] = useState<'count' | 'height'>('count');
+  const [groupCount, setGroupCount] = useState(Math.min(5, Math.max(1, cardCount)));
+  const [height, setHeight] = useState(0.5);
+  const [groupNames, setGroupNames] = useState<Record<number, string>>({});
+
+  const groups = useMemo(() => suggestCategoryStructure(results, {
+    metric,
+    linkage,
+    ...(cutMode === 'count' ? { groupCount } : { height })
+  }), [results, metric, linkage, cutMode, groupCount, height]);
+
+  // Renames only apply to the current cut
+  useEffect(() => {
+    setGroupNames({});
+  }, [groups]);
+
+  const namedGroups = groups.map(group => ({
+    ...group,
+    name: groupNames[group.id]?.trim() || group.name
+  }));
+
+  const handleCreateDraft = (type: DraftStudyType) => {
+    if (!onCreateDraft) return;
+    onCreateDraft(createStudyDraftFromGroups(study, namedGroups, type));
+  };
+
+  if (cardCount === 0) return null;
+
+  return (
+    <div className="bg-white p-2 sm:p-4 rounded-lg shadow border">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Suggested Structure</h3>
+          <p className="text-xs text-gray-500">
+            Groups from cutting the dendrogram, named after the labels participants used most for those cards
+          </p>
+        </div>
+        <div className="flex items-center space-x-2 text-sm">
+          <select
+            value={cutMode}
+            onChange={(e) => setCutMode(e.target.value as 'count' | 'height')}
+            className="px-3 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="count">Number of groups</option>
+            <option value="height">Cut height</option>
+          </select>
+          {cutMode === 'count' ? (
+            <input
+              type="number"
+              min={1}
+              max={cardCount}
+              value={groupCount}
+              onChange={(e) => setGroupCount(Math.min(cardCount, Math.max(1, parseInt(e.target.value) || 1)))}
+              className="w-20 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          ) : (
+            <input
+              type="number"
+              min={0}
+              step={0.05}
+              value={height}
+              onChange={(e) => setHeight(Math.max(0, parseFloat(e.target.value) || 0))}
+              className="w-20 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+        {namedGroups.map(group => (
+          <div key={group.id} className="border border-gray-200 rounded-lg p-3">
+            <input
+              type="text"
+              value={groupNames[group.id] ?? group.name}
+              onChange={(e) => setGroupNames(prev => ({ ...prev, [group.id]: e.target.value }))}
+              className="w-full font-medium text-gray-900 px-2 py-1 border border-transparent hover:border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <p className="text-xs text-gray-500 px-2 mb-2">
+              {group.cards.length} card{group.cards.length !== 1 ? 's' : ''}
+              {group.nameSupport > 0 && ` • name used for ${group.nameSupport.toFixed(0)}% of placements`}
+              {group.alternativeNames.length > 0 && ` • also: ${group.alternativeNames.join(', ')}`}
+            </p>
+            <div className="flex flex-wrap gap-1 px-2">
+              {group.cards.map(card => (
+                <span key={card.id} className="bg-gray-100 px-2 py-0.5 rounded text-xs text-gray-700">
+                  {card.text}
+                </span>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {onCreateDraft && (
+        <div className="flex flex-wrap justify-end gap-2 mt-4">
+          <button
+            onClick={() => handleCreateDraft('card-sorting')}
+            className="flex items-center px-3 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700"
+          >
+            <Layers className="w-4 h-4 mr-2" />
+            Create closed sort draft
+          </button>
+          <button
+            onClick={() => handleCreateDraft('tree-testing')}
+            className="flex items-center px-3 py-2 text-sm bg-green-600 text-white rounded-md hover:bg-green-700"
+          >
+            <FolderTree className="w-4 h-4 mr-2" />
+            Create tree test draft
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SuggestedStructure;
@@ -1,51 +1,127 @@
-import React, { useState, useEffect } from 'react';
-import { ChevronRight, ChevronDown, Home, CheckCircle, ArrowLeft, Clock, Target } from 'lucide-react';
-import { Study, TreeNode, TreeTestResult, TaskResult } from '../types';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { ChevronRight, ChevronDown, Home, CheckCircle, ArrowLeft, Clock, Target, Search } from 'lucide-react';
+import { Study, TreeNode, TreeTestResult, TaskResult, NavigationEvent, TreeTestProgress } from '../types';
+import {
+  evaluateTaskAnswer,
+  findNodeById,
+  buildParentMap,
+  createNavigationEvent,
+  searchTree,
+  summarizeNavigation
+} from '../utils/treeTestUtils';
+import { formatDuration } from '../utils';
+import { PerformanceOptimizer } from '../analytics';
 
 interface TreeTestProps {
   study: Study;
   participantId: string;
   participantStartTime: number;
   onComplete: (result: TreeTestResult) => void;
+  progress?: TreeTestProgress; // Checkpoint to resume from
+  onProgress?: (progress: TreeTestProgress) => void;
+  paused?: boolean;
+  pausedDuration?: number; // ms of finished pauses, which don't count against time limits
 }
 
 const TreeTest: React.FC<TreeTestProps> = ({
   study,
   participantId,
   participantStartTime,
-  onComplete
+  onComplete,
+  progress,
+  onProgress,
+  paused = false,
+  pausedDuration = 0
 }) => {
-  const [currentTaskIndex, setCurrentTaskIndex] = useState(0);
-  const [expandedNodes, setExpandedNodes] = useState<Set<number>>(new Set());
-  const [currentPath, setCurrentPath] = useState<string[]>(['Home']);
-  const [clickCount, setClickCount] = useState(0);
-  const [taskStartTime, setTaskStartTime] = useState(Date.now());
-  const [completedTasks, setCompletedTasks] = useState<TaskResult[]>([]);
-  const [selectedNodeId, setSelectedNodeId] = useState<number | null>(null);
+  const resumedTask = progress?.currentTask; // The task in progress when the checkpoint was saved
+  const [currentTaskIndex, setCurrentTaskIndex] = useState(progress?.currentTaskIndex ?? 0);
+  const [expandedNodes, setExpandedNodes] = useState<Set<number>>(() => new Set(resumedTask?.expandedNodeIds));
+  const [currentPath, setCurrentPath] = useState<string[]>(resumedTask?.currentPath ?? ['Home']);
+  const [currentNodeId, setCurrentNodeId] = useState<number | null>(resumedTask?.currentNodeId ?? null);
+  const [navigationEvents, setNavigationEvents] = useState<NavigationEvent[]>(resumedTask?.navigationEvents ?? []);
+  const [taskStartTime, setTaskStartTime] = useState(resumedTask?.startTime ?? Date.now());
+  const [taskPauseOffset, setTaskPauseOffset] = useState(resumedTask?.pauseOffset ?? pausedDuration); // Paused time before the current task began
+  const [completedTasks, setCompletedTasks] = useState<TaskResult[]>(progress?.completedTasks || []);
+  const [selectedNodeId, setSelectedNodeId] = useState<number | null>(resumedTask?.selectedNodeId ?? null);
+  const [now, setNow] = useState(Date.now());
+  const [searchQuery, setSearchQuery] = useState('');
+  const timedOutTaskRef = useRef<number | null>(null);
+  const lastSearchRef = useRef(resumedTask?.navigationEvents.filter(event => event.type === 'search').pop()?.query ?? '');
+  const preparedTaskRef = useRef<number | null>(resumedTask ? currentTaskIndex : null); // Task the tree state is set up for
 
   const tasks = study.tasks || [];
   const currentTask = tasks[currentTaskIndex];
-  const treeStructure = study.treeStructure || [];
+  const treeStructure = useMemo(() => study.treeStructure || [], [study.treeStructure]);
+  const parentMap = useMemo(() => buildParentMap(treeStructure), [treeStructure]);
+  const clickCount = navigationEvents.filter(event => event.type !== 'search').length;
+  const searchEnabled = Boolean(study.settings.showSearchFunctionality);
+  const searchResults = useMemo(() => searchTree(treeStructure, searchQuery), [treeStructure, searchQuery]);
+
+  // Record a query once the participant pauses typing
+  const recordSearch = useMemo(() => PerformanceOptimizer.debounce((query: string) => {
+    const trimmed = query.trim();
+    if (trimmed && trimmed !== lastSearchRef.current) {
+      lastSearchRef.current = trimmed;
+      setNavigationEvents(prev => [...prev, createNavigationEvent('search', null, trimmed)]);
+    }
+  }, 800), []);
+
+  // Remaining time in ms, or null when no limit applies
+  const taskTimeLimit = study.settings.timeLimit ? study.settings.timeLimit * 1000 : null;
+  const studyTimeLimit = study.settings.studyTimeLimit ? study.settings.studyTimeLimit * 1000 : null;
+  const taskPausedFor = pausedDuration - taskPauseOffset;
+  const taskTimeRemaining = taskTimeLimit !== null ? taskTimeLimit - (now - taskStartTime - taskPausedFor) : null;
+  const studyTimeRemaining = studyTimeLimit !== null ? studyTimeLimit - (now - participantStartTime - pausedDuration) : null;
 
   useEffect(() => {
-    // Reset for new task
-    if (currentTask) {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    // Reset for new task; a resumed task keeps its checkpointed state
+    if (currentTask && preparedTaskRef.current !== currentTaskIndex) {
+      preparedTaskRef.current = currentTaskIndex;
       setExpandedNodes(new Set([treeStructure[0]?.id].filter(Boolean)));
       setCurrentPath(['Home']);
-      setClickCount(0);
+      setCurrentNodeId(null);
+      setNavigationEvents([]);
       setTaskStartTime(Date.now());
+      setNow(Date.now());
       setSelectedNodeId(null);
+      setSearchQuery('');
+      recordSearch.cancel();
+      lastSearchRef.current = '';
     }
-  }, [currentTaskIndex, treeStructure]);
+  }, [currentTask, currentTaskIndex, treeStructure, recordSearch]);
 
-  const findNodeById = (nodes: TreeNode[], id: number): TreeNode | null => {
-    for (const node of nodes) {
-      if (node.id === id) return node;
-      const found = findNodeById(node.children, id);
-      if (found) return found;
-    }
-    return null;
-  };
+  // Checkpoint finished tasks and the one under way so the participant can pick up where they left off
+  useEffect(() => {
+    onProgress?.({
+      currentTaskIndex,
+      completedTasks,
+      currentTask: {
+        startTime: taskStartTime,
+        pauseOffset: taskPauseOffset,
+        navigationEvents,
+        expandedNodeIds: Array.from(expandedNodes),
+        currentNodeId,
+        currentPath,
+        selectedNodeId
+      }
+    });
+  }, [
+    currentTaskIndex,
+    completedTasks,
+    taskStartTime,
+    taskPauseOffset,
+    navigationEvents,
+    expandedNodes,
+    currentNodeId,
+    currentPath,
+    selectedNodeId,
+    onProgress
+  ]);
 
   const buildPathToNode = (nodes: TreeNode[], targetId: number, path: string[] = []): string[] | null => {
     for (const node of nodes) {
@@ -58,8 +134,19 @@ const TreeTest: React.FC<TreeTestProps> = ({
     return null;
   };
 
+  const moveTo = (nodeId: number | null) => {
+    setCurrentNodeId(nodeId);
+    const pathToNode = nodeId !== null ? buildPathToNode(treeStructure, nodeId) : [];
+    if (pathToNode) {
+      setCurrentPath(['Home', ...pathToNode]);
+    }
+  };
+
   const handleNodeClick = (node: TreeNode) => {
-    setClickCount(prev => prev + 1);
+    const eventType = node.children.length === 0
+      ? 'select'
+      : expandedNodes.has(node.id) ? 'collapse' : 'expand';
+    setNavigationEvents(prev => [...prev, createNavigationEvent(eventType, node)]);
     setSelectedNodeId(node.id);
 
     if (node.children.length > 0) {
@@ -75,36 +162,59 @@ const TreeTest: React.FC<TreeTestProps> = ({
       });
     }
 
-    // Update current path
-    const pathToNode = buildPathToNode(treeStructure, node.id);
-    if (pathToNode) {
-      setCurrentPath(['Home', ...pathToNode]);
-    }
+    // Update current location
+    moveTo(node.id);
   };
 
-  const handleTaskComplete = (success: boolean, gaveUp: boolean = false) => {
-    const taskDuration = Date.now() - taskStartTime;
-    const selectedNode = selectedNodeId ? findNodeById(treeStructure, selectedNodeId) : null;
+  const handleTaskComplete = (ending: 'answered' | 'gave-up' | 'timed-out' = 'answered', finishStudy: boolean = false) => {
+    const taskDuration = Date.now() - taskStartTime - taskPausedFor;
+    // A query still waiting out the search debounce belongs to this task
+    recordSearch.cancel();
+    const pendingQuery = searchQuery.trim();
+    const events = pendingQuery && pendingQuery !== lastSearchRef.current
+      ? [...navigationEvents, createNavigationEvent('search', null, pendingQuery)]
+      : navigationEvents;
+    const gaveUp = ending === 'gave-up';
+    const timedOut = ending === 'timed-out';
+    const answered = ending === 'answered';
+    const selectedNode = answered && selectedNodeId !== null ? findNodeById(treeStructure, selectedNodeId) : null;
+
+    // Score the selected node against the task's answers; tasks without
+    // answers fall back to the participant's own report
+    const outcome = evaluateTaskAnswer(currentTask, answered ? selectedNodeId : null);
+    const success = outcome ? outcome === 'success' : answered;
     
-    // Check if this was a direct success (no backtracking)
-    const directSuccess = success && clickCount <= currentPath.length;
+    // Directness and timing come from the recorded navigation log
+    const navigation = summarizeNavigation(events, taskStartTime, treeStructure);
+    const directSuccess = success && navigation.isDirect;
 
     const taskResult: TaskResult = {
-      taskId: currentTaskIndex,
-      task: currentTask,
-      path: [...currentPath],
+      taskId: currentTask.id,
+      task: currentTask.text,
+      path: navigation.route,
+      events: [...events],
       success,
+      outcome: outcome ?? undefined,
       clicks: clickCount,
       duration: taskDuration,
       finalDestination: selectedNode?.name || currentPath[currentPath.length - 1],
+      selectedNodeId: selectedNode?.id,
       gaveUp,
+      timedOut,
+      usedSearch: navigation.usedSearch,
+      backtracks: navigation.backtracks,
+      timeToFirstClick: navigation.timeToFirstClick ?? undefined,
       directSuccess
     };
 
     const newCompletedTasks = [...completedTasks, taskResult];
     setCompletedTasks(newCompletedTasks);
 
-    if (currentTaskIndex < tasks.length - 1) {
+    if (currentTaskIndex < tasks.length - 1 && !finishStudy) {
+      // Restart the clock in the same update so the next task never sees the old start time
+      setTaskStartTime(Date.now());
+      setTaskPauseOffset(pausedDuration);
+      setNow(Date.now());
       setCurrentTaskIndex(prev => prev + 1);
     } else {
       // All tasks completed
@@ -122,14 +232,71 @@ const TreeTest: React.FC<TreeTestProps> = ({
     }
   };
 
+  // The time limit check runs as the clock ticks, so it completes the task through the latest handler
+  const handleTaskCompleteRef = useRef(handleTaskComplete);
+  useEffect(() => {
+    handleTaskCompleteRef.current = handleTaskComplete;
+  });
+
+  // Close the task automatically once a time limit runs out
+  useEffect(() => {
+    if (paused || timedOutTaskRef.current === currentTaskIndex) return;
+
+    const studyExpired = studyTimeRemaining !== null && studyTimeRemaining <= 0;
+    const taskExpired = taskTimeRemaining !== null && taskTimeRemaining <= 0;
+    if (studyExpired || taskExpired) {
+      timedOutTaskRef.current = currentTaskIndex;
+      handleTaskCompleteRef.current('timed-out', studyExpired);
+    }
+  }, [taskTimeRemaining, studyTimeRemaining, currentTaskIndex, paused]);
+
   const goBack = () => {
-    if (currentPath.length > 1) {
-      setClickCount(prev => prev + 1);
-      setCurrentPath(prev => prev.slice(0, -1));
+    if (currentNodeId !== null) {
+      const parentId = parentMap.get(currentNodeId) ?? null;
+      const parentNode = parentId !== null ? findNodeById(treeStructure, parentId) : null;
+      setNavigationEvents(prev => [...prev, createNavigationEvent('back', parentNode)]);
+      moveTo(parentId);
       setSelectedNodeId(null);
     }
   };
 
+  const handleSearchChange = (query: string) => {
+    setSearchQuery(query);
+    recordSearch(query);
+  };
+
+  const handleSearchResultClick = (node: TreeNode) => {
+    setNavigationEvents(prev => [...prev, createNavigationEvent('search-select', node, searchQuery.trim())]);
+    setSelectedNodeId(node.id);
+
+    // Reveal the result in the tree by expanding its ancestors
+    setExpandedNodes(prev => {
+      const newSet = new Set(prev);
+      let parentId = parentMap.get(node.id) ?? null;
+      while (parentId !== null) {
+        newSet.add(parentId);
+        parentId = parentMap.get(parentId) ?? null;
+      }
+      return newSet;
+    });
+
+    moveTo(node.id);
+  };
+
+  const renderLabel = (name: string) => {
+    const query = searchQuery.trim().toLowerCase();
+    const matchIndex = query ? name.toLowerCase().indexOf(query) : -1;
+    if (matchIndex === -1) return name;
+
+    return (
+      <>
+        {name.slice(0, matchIndex)}
+        <mark className="bg-yellow-200 rounded px-0.5">{name.slice(matchIndex, matchIndex + query.length)}</mark>
+        {name.slice(matchIndex + query.length)}
+      </>
+    );
+  };
+
   const renderTree = (nodes: TreeNode[], level: number = 0) => {
     return nodes.map(node => (
       <div key={node.id} className={`ml-${level * 4}`}>
@@ -154,7 +321,7 @@ const TreeTest: React.FC<TreeTestProps> = ({
             ) : (
               <div className="w-4 h-4 flex-shrink-0" />
             )}
-            <span className="text-gray-900 font-medium">{node.name}</span>
+            <span className="text-gray-900 font-medium">{searchEnabled ? renderLabel(node.name) : node.name}</span>
           </div>
           {node.children.length === 0 && (
             <Target className="w-4 h-4 text-blue-500" />
@@ -216,7 +383,7 @@ const TreeTest: React.FC<TreeTestProps> = ({
 
               <div className="bg-gradient-to-r from-blue-50 to-indigo-50 border border-blue-200 rounded-lg p-4 mb-6">
                 <h3 className="font-semibold text-blue-900 mb-2">Your Task</h3>
-                <p className="text-blue-800">{currentTask}</p>
+                <p className="text-blue-800">{currentTask.text}</p>
               </div>
 
               <div className="space-y-3 mb-6">
@@ -231,12 +398,26 @@ const TreeTest: React.FC<TreeTestProps> = ({
                 <div className="flex items-center justify-between text-sm">
                   <span className="text-gray-600 flex items-center">
                     <Clock className="w-4 h-4 mr-1" />
-                    Time:
+                    {taskTimeRemaining !== null ? 'Time left:' : 'Time:'}
                   </span>
-                  <span className="font-medium">
-                    {Math.floor((Date.now() - taskStartTime) / 1000)}s
+                  <span className={`font-medium ${taskTimeRemaining !== null && taskTimeRemaining <= 10000 ? 'text-red-600' : ''}`}>
+                    {taskTimeRemaining !== null
+                      ? Math.max(0, Math.ceil(taskTimeRemaining / 1000))
+                      : Math.floor((now - taskStartTime) / 1000)}s
                   </span>
                 </div>
+
+                {studyTimeRemaining !== null && (
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-gray-600 flex items-center">
+                      <Clock className="w-4 h-4 mr-1" />
+                      Study time left:
+                    </span>
+                    <span className={`font-medium ${studyTimeRemaining <= 30000 ? 'text-red-600' : ''}`}>
+                      {formatDuration(Math.max(0, studyTimeRemaining))}
+                    </span>
+                  </div>
+                )}
               </div>
 
               {/* Breadcrumb */}
@@ -259,21 +440,22 @@ const TreeTest: React.FC<TreeTestProps> = ({
 
               <div className="space-y-2">
                 <button
-                  onClick={() => handleTaskComplete(true)}
-                  className="w-full bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 flex items-center justify-center space-x-2"
+                  onClick={() => handleTaskComplete('answered')}
+                  disabled={selectedNodeId === null}
+                  className="w-full bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 flex items-center justify-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                   <CheckCircle className="w-4 h-4" />
                   <span>Found It!</span>
                 </button>
 
                 <button
-                  onClick={() => handleTaskComplete(false, true)}
+                  onClick={() => handleTaskComplete('gave-up')}
                   className="w-full bg-gray-600 text-white px-4 py-2 rounded-lg hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2"
                 >
                   Can't Find It
                 </button>
 
-                {study.settings.allowBacktracking && currentPath.length > 1 && (
+                {study.settings.allowBacktracking && currentNodeId !== null && (
                   <button
                     onClick={goBack}
                     className="w-full bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 flex items-center justify-center space-x-2"
@@ -286,7 +468,7 @@ const TreeTest: React.FC<TreeTestProps> = ({
 
               {study.settings.timeLimit && (
                 <div className="mt-4 text-xs text-gray-500 text-center">
-                  Time limit: {study.settings.timeLimit} seconds
+                  Each task closes automatically after {study.settings.timeLimit} seconds
                 </div>
               )}
             </div>
@@ -299,6 +481,42 @@ const TreeTest: React.FC<TreeTestProps> = ({
                 <Home className="w-5 h-5 mr-2 text-blue-600" />
                 Website Structure
               </h3>
+
+              {searchEnabled && (
+                <div className="mb-4">
+                  <div className="relative">
+                    <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+                    <input
+                      type="search"
+                      value={searchQuery}
+                      onChange={(e) => handleSearchChange(e.target.value)}
+                      className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      placeholder="Search the site..."
+                      aria-label="Search the site structure"
+                    />
+                  </div>
+                  {searchQuery.trim() && (
+                    <div className="mt-2 border rounded-lg divide-y max-h-48 overflow-y-auto">
+                      {searchResults.length > 0 ? (
+                        searchResults.map(node => (
+                          <button
+                            key={node.id}
+                            onClick={() => handleSearchResultClick(node)}
+                            className="w-full text-left px-3 py-2 text-sm hover:bg-gray-50"
+                          >
+                            <div className="font-medium text-gray-900">{renderLabel(node.name)}</div>
+                            <div className="text-xs text-gray-500">
+                              {['Home', ...(buildPathToNode(treeStructure, node.id) || [])].slice(0, -1).join(' › ')}
+                            </div>
+                          </button>
+                        ))
+                      ) : (
+                        <div className="px-3 py-2 text-sm text-gray-500">No matching pages</div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
               
               <div className="border rounded-lg p-4 max-h-96 overflow-y-auto">
                 {treeStructure.length > 0 ? (
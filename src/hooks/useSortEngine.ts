@@ -0,0 +1,82 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { CardSortProgress, Study } from '../types';
+import { JourneyTracker } from '../analytics/journeyTracking';
+import { getCardSortProgress } from '../utils/sessionUtils';
+import {
+  SortAction,
+  SortRules,
+  SortState,
+  createSortState,
+  getCardCategory,
+  getCompletionProblems,
+  getMoveAction,
+  getSortRules,
+  sortReducer,
+  trackSortEvents
+} from '../utils/sortEngine';
+import { SortTargetId } from '../utils/sortInteraction';
+
+interface SortEngineOptions {
+  study: Study;
+  participantId: string;
+  progress?: CardSortProgress; // Checkpoint to resume from
+  onProgress?: (progress: CardSortProgress) => void;
+}
+
+export interface SortEngine {
+  state: SortState;
+  rules: SortRules;
+  journeyTracker: JourneyTracker;
+  completionProblems: string[];
+  dispatch: (action: SortAction) => string | null; // Why the action was refused, if it was
+  moveCard: (cardId: number, to: SortTargetId) => string | null;
+  getCardTarget: (cardId: number) => SortTargetId;
+}
+
+/**
+ * A participant's sort, run through the sort engine: every change is
+ * recorded in their journey and checkpointed so they can resume
+ */
+const useSortEngine = ({ study, participantId, progress, onProgress }: SortEngineOptions): SortEngine => {
+  const [rules] = useState(() => getSortRules(study));
+  const [state, setState] = useState(() => createSortState(study, progress));
+  const [journeyTracker] = useState(() =>
+    progress?.journey ? JourneyTracker.restore(progress.journey) : new JourneyTracker(participantId)
+  );
+  // Tracking the journey is a side effect, so actions are reduced here rather than in useReducer
+  const latest = useRef(state);
+
+  // Checkpoint every change so the participant can pick up where they left off
+  useEffect(() => {
+    onProgress?.(getCardSortProgress(state.unsortedCards, state.categories, journeyTracker.exportData()));
+  }, [state, journeyTracker, onProgress]);
+
+  const dispatch = useCallback((action: SortAction): string | null => {
+    const { state: next, events, error } = sortReducer(latest.current, action, rules);
+    if (error) return error;
+
+    trackSortEvents(journeyTracker, events);
+    latest.current = next;
+    setState(next);
+    return null;
+  }, [rules, journeyTracker]);
+
+  const moveCard = useCallback(
+    (cardId: number, to: SortTargetId) => dispatch(getMoveAction(latest.current, cardId, to)),
+    [dispatch]
+  );
+
+  const getCardTarget = (cardId: number): SortTargetId => getCardCategory(state, cardId)?.id ?? 'unsorted';
+
+  return {
+    state,
+    rules,
+    journeyTracker,
+    completionProblems: getCompletionProblems(state, rules),
+    dispatch,
+    moveCard,
+    getCardTarget
+  };
+};
+
+export default useSortEngine;
@@ -0,0 +1,90 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { Card } from '../types';
+import { SortTargetId } from '../utils/sortInteraction';
+import useSortInteraction from './useSortInteraction';
+
+const card: Card = { id: 1, text: 'Invoices' };
+
+const targets = [
+  { id: 'unsorted' as const, label: 'Cards to sort' },
+  { id: 2, label: 'Category: Billing' }
+];
+
+const clickEvent = () => ({
+  target: document.createElement('div'),
+  stopPropagation: vi.fn()
+}) as unknown as React.MouseEvent<HTMLElement>;
+
+const pointerEvent = (x: number, y: number) => ({
+  button: 0,
+  isPrimary: true,
+  pointerId: 1,
+  clientX: x,
+  clientY: y,
+  currentTarget: { setPointerCapture: vi.fn() }
+}) as unknown as React.PointerEvent<HTMLElement>;
+
+// Every point in these tests lies over the Billing category
+const billingElement = document.createElement('div');
+billingElement.dataset.sortTarget = '2';
+
+const renderSortInteraction = () => {
+  const onMove = vi.fn<[Card, SortTargetId], string | null>(() => null);
+  const { result } = renderHook(() => useSortInteraction({
+    targets,
+    getCardTarget: () => 'unsorted',
+    onMove
+  }));
+  return { result, onMove };
+};
+
+describe('useSortInteraction', () => {
+  beforeEach(() => {
+    document.elementFromPoint = vi.fn(() => billingElement);
+  });
+
+  it('moves a card by selecting it and then a category', () => {
+    const { result, onMove } = renderSortInteraction();
+
+    act(() => result.current.getCardProps(card).onClick!(clickEvent()));
+    expect(result.current.heldCard).toBe(card);
+
+    act(() => result.current.getTargetProps(2).onClick(clickEvent()));
+    expect(onMove).toHaveBeenCalledWith(card, 2);
+    expect(result.current.heldCard).toBeNull();
+    expect(result.current.announcement).toBe('Invoices moved to Category: Billing.');
+  });
+
+  it('starts a drag only once the pointer passes the threshold', () => {
+    const { result, onMove } = renderSortInteraction();
+
+    act(() => result.current.getCardProps(card).onPointerDown!(pointerEvent(100, 100)));
+    act(() => result.current.getCardProps(card).onPointerMove!(pointerEvent(103, 103)));
+    expect(result.current.heldCard).toBeNull();
+    expect(result.current.dragPreview).toBeNull();
+
+    act(() => result.current.getCardProps(card).onPointerMove!(pointerEvent(120, 100)));
+    expect(result.current.heldCard).toBe(card);
+    expect(result.current.dragPreview).toEqual({ card, x: 120, y: 100 });
+    expect(result.current.activeTargetId).toBe(2);
+
+    act(() => result.current.getCardProps(card).onPointerUp!(pointerEvent(120, 100)));
+    expect(onMove).toHaveBeenCalledWith(card, 2);
+    expect(result.current.heldCard).toBeNull();
+  });
+
+  it('puts the card back without moving it when the pointer is cancelled', () => {
+    const { result, onMove } = renderSortInteraction();
+
+    act(() => result.current.getCardProps(card).onPointerDown!(pointerEvent(100, 100)));
+    act(() => result.current.getCardProps(card).onPointerMove!(pointerEvent(120, 100)));
+    act(() => result.current.getCardProps(card).onPointerCancel!(pointerEvent(120, 100)));
+
+    expect(onMove).not.toHaveBeenCalled();
+    expect(result.current.heldCard).toBeNull();
+    expect(result.current.announcement).toBe('Invoices put back where it was.');
+  });
+});
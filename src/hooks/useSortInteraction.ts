@@ -0,0 +1,247 @@
+import React, { useEffect, useId, useRef, useState } from 'react';
+import { Card } from '../types';
+import {
+  SortPoint,
+  SortTarget,
+  SortTargetId,
+  describeCancel,
+  describeDrop,
+  describePickUp,
+  describeTarget,
+  formatSortTargetId,
+  getEdgeScroll,
+  getNextTargetIndex,
+  hasPassedDragThreshold,
+  parseSortTargetId
+} from '../utils/sortInteraction';
+
+interface SortInteractionOptions {
+  targets: SortTarget[]; // In the order arrow keys step through them
+  getCardTarget: (card: Card) => SortTargetId;
+  onMove: (card: Card, to: SortTargetId) => string | null | void; // Returns why the move was refused, if it was
+}
+
+interface PointerDrag {
+  card: Card;
+  pointerId: number;
+  start: SortPoint;
+  active: boolean; // Set once the pointer has moved far enough to count as a drag
+}
+
+export interface SortDragPreview {
+  card: Card;
+  x: number;
+  y: number;
+}
+
+export interface SortCardProps extends React.HTMLAttributes<HTMLElement> {
+  ref: React.RefCallback<HTMLElement>;
+}
+
+export interface SortTargetProps {
+  'data-sort-target': string;
+  onClick: (e: React.MouseEvent<HTMLElement>) => void;
+}
+
+export interface SortInteraction {
+  heldCard: Card | null; // Picked up by keyboard or tap, or being dragged
+  activeTargetId: SortTargetId | null; // Where the held card would drop
+  dragPreview: SortDragPreview | null;
+  announcement: string;
+  instructionsId: string;
+  getCardProps: (card: Card) => SortCardProps;
+  getTargetProps: (id: SortTargetId) => SortTargetProps;
+}
+
+const getTargetAtPoint = ({ x, y }: SortPoint): SortTargetId | null => {
+  const element = document.elementFromPoint(x, y)?.closest<HTMLElement>('[data-sort-target]');
+  return parseSortTargetId(element?.dataset.sortTarget);
+};
+
+/**
+ * Moving cards between the unsorted pile and categories by pointer drag
+ * (mouse, pen or touch), by keyboard, or by selecting a card and then a
+ * category, with every step announced for screen readers
+ */
+const useSortInteraction = ({ targets, getCardTarget, onMove }: SortInteractionOptions): SortInteraction => {
+  const instructionsId = useId();
+  const [heldCard, setHeldCard] = useState<Card | null>(null);
+  const [activeTargetId, setActiveTargetId] = useState<SortTargetId | null>(null);
+  const [dragPreview, setDragPreview] = useState<SortDragPreview | null>(null);
+  const [announcement, setAnnouncement] = useState('');
+  const pointerDrag = useRef<PointerDrag | null>(null);
+  const suppressClick = useRef(false);
+  const cardElements = useRef(new Map<number, HTMLElement>());
+  const focusAfterDrop = useRef<number | null>(null);
+
+  // A moved card re-mounts in its new place, so keep keyboard focus on it
+  useEffect(() => {
+    if (focusAfterDrop.current === null) return;
+    cardElements.current.get(focusAfterDrop.current)?.focus();
+    focusAfterDrop.current = null;
+  });
+
+  const findTarget = (id: SortTargetId | null) => targets.find(target => target.id === id);
+
+  // Screen readers skip a live region whose text hasn't changed, so repeats get a trailing space
+  const announce = (message: string) =>
+    setAnnouncement(previous => (previous === message ? `${message}\u00a0` : message));
+
+  const release = () => {
+    setHeldCard(null);
+    setActiveTargetId(null);
+    setDragPreview(null);
+  };
+
+  const pickUp = (card: Card) => {
+    const current = getCardTarget(card);
+    setHeldCard(card);
+    setActiveTargetId(current);
+    announce(describePickUp(card.text, findTarget(current)));
+  };
+
+  const drop = (card: Card, to: SortTargetId) => {
+    const from = getCardTarget(card);
+    const target = findTarget(to);
+    const wanted = target !== undefined && to !== from;
+    const refusal = wanted ? onMove(card, to) : null;
+    const moved = wanted && !refusal;
+    announce(refusal || describeDrop(card.text, moved ? target : findTarget(from), moved));
+    focusAfterDrop.current = card.id;
+    release();
+  };
+
+  const cancel = (card: Card) => {
+    announce(describeCancel(card.text));
+    focusAfterDrop.current = card.id;
+    release();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLElement>, card: Card) => {
+    const isActivation = e.key === ' ' || e.key === 'Enter';
+
+    if (heldCard?.id !== card.id) {
+      if (isActivation) {
+        e.preventDefault();
+        pickUp(card);
+      }
+      return;
+    }
+
+    if (isActivation) {
+      e.preventDefault();
+      drop(card, activeTargetId ?? getCardTarget(card));
+      return;
+    }
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      cancel(card);
+      return;
+    }
+
+    const index = Math.max(0, targets.findIndex(target => target.id === activeTargetId));
+    const next = getNextTargetIndex(e.key, index, targets.length);
+    if (next === null) return;
+    e.preventDefault();
+    setActiveTargetId(targets[next].id);
+    announce(describeTarget(card.text, targets[next], next, targets.length));
+  };
+
+  const handleClick = (e: React.MouseEvent<HTMLElement>, card: Card) => {
+    if (suppressClick.current) {
+      suppressClick.current = false;
+      e.stopPropagation();
+      return;
+    }
+    // With another card held, let the click through to this card's category to drop it there
+    if (heldCard && heldCard.id !== card.id) return;
+
+    e.stopPropagation();
+    if (heldCard) {
+      cancel(card);
+    } else {
+      pickUp(card);
+    }
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLElement>, card: Card) => {
+    suppressClick.current = false;
+    if (e.button !== 0 || !e.isPrimary) return;
+    pointerDrag.current = { card, pointerId: e.pointerId, start: { x: e.clientX, y: e.clientY }, active: false };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLElement>) => {
+    const drag = pointerDrag.current;
+    if (!drag || drag.pointerId !== e.pointerId) return;
+
+    const point = { x: e.clientX, y: e.clientY };
+    if (!drag.active) {
+      if (!hasPassedDragThreshold(drag.start, point)) return;
+      drag.active = true;
+      pickUp(drag.card);
+    }
+
+    setDragPreview({ card: drag.card, ...point });
+    setActiveTargetId(getTargetAtPoint(point));
+    const scroll = getEdgeScroll(point.y, window.innerHeight);
+    if (scroll !== 0) window.scrollBy(0, scroll);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLElement>) => {
+    const drag = pointerDrag.current;
+    if (!drag || drag.pointerId !== e.pointerId) return;
+    pointerDrag.current = null;
+    // A tap rather than a drag; the click that follows picks the card up
+    if (!drag.active) return;
+
+    suppressClick.current = true;
+    const to = getTargetAtPoint({ x: e.clientX, y: e.clientY });
+    if (to === null) {
+      cancel(drag.card);
+    } else {
+      drop(drag.card, to);
+    }
+  };
+
+  const handlePointerCancel = (e: React.PointerEvent<HTMLElement>) => {
+    const drag = pointerDrag.current;
+    if (!drag || drag.pointerId !== e.pointerId) return;
+    pointerDrag.current = null;
+    if (drag.active) cancel(drag.card);
+  };
+
+  const getCardProps = (card: Card): SortCardProps => ({
+    ref: element => {
+      if (element) {
+        cardElements.current.set(card.id, element);
+      } else {
+        cardElements.current.delete(card.id);
+      }
+    },
+    role: 'button',
+    tabIndex: 0,
+    'aria-pressed': heldCard?.id === card.id,
+    'aria-describedby': instructionsId,
+    'aria-label': `${card.text}, in ${findTarget(getCardTarget(card))?.label ?? 'no category'}`,
+    onKeyDown: e => handleKeyDown(e, card),
+    onClick: e => handleClick(e, card),
+    onPointerDown: e => handlePointerDown(e, card),
+    onPointerMove: handlePointerMove,
+    onPointerUp: handlePointerUp,
+    onPointerCancel: handlePointerCancel
+  });
+
+  const getTargetProps = (id: SortTargetId): SortTargetProps => ({
+    'data-sort-target': formatSortTargetId(id),
+    onClick: e => {
+      // Buttons and fields inside a category do their own thing
+      if (!heldCard || (e.target as HTMLElement).closest('button, input')) return;
+      drop(heldCard, id);
+    }
+  });
+
+  return { heldCard, activeTargetId, dragPreview, announcement, instructionsId, getCardProps, getTargetProps };
+};
+
+export default useSortInteraction;
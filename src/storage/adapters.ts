@@ -0,0 +1,206 @@
+/**
+ * VUX-Sort Storage - Adapters
+ * IndexedDB (default) and localStorage (fallback) implementations of StorageAdapter
+ */
+
+import { StorageAdapter, StorageError, StoreName, STORE_NAMES } from './types';
+
+const DB_NAME = 'vux-sort';
+const DB_VERSION = 3; // 2: tags and cardMetadata stores, 3: sessions store
+const LOCAL_STORAGE_PREFIX = 'vux-sort:';
+
+/**
+ * Detect the browser's "storage full" errors, which differ by engine
+ */
+export function isQuotaExceededError(error: unknown): boolean {
+  if (!(error instanceof DOMException)) return false;
+  return (
+    error.name === 'QuotaExceededError' ||
+    error.name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+    error.code === 22 ||
+    error.code === 1014
+  );
+}
+
+/**
+ * Wrap any storage failure in a StorageError the UI can explain
+ */
+export function toStorageError(error: unknown, action: string): StorageError {
+  if (error instanceof StorageError) return error;
+  if (isQuotaExceededError(error)) {
+    return new StorageError(`Storage is full while trying to ${action}`, 'quota-exceeded', error);
+  }
+  if (error instanceof DOMException && (error.name === 'SecurityError' || error.name === 'InvalidStateError')) {
+    return new StorageError(`Storage is unavailable while trying to ${action}`, 'unavailable', error);
+  }
+  const detail = error instanceof Error ? error.message : String(error);
+  return new StorageError(`Failed to ${action}: ${detail}`, 'failed', error);
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionToPromise(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    // Quota errors abort the transaction rather than failing a request
+    transaction.onabort = () => reject(transaction.error || new DOMException('Transaction aborted', 'AbortError'));
+  });
+}
+
+export class IndexedDBAdapter implements StorageAdapter {
+  public readonly name = 'indexeddb';
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(private readonly dbName: string = DB_NAME) {}
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new StorageError('IndexedDB is not available in this browser', 'unavailable'));
+          return;
+        }
+
+        const request = indexedDB.open(this.dbName, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          STORE_NAMES.forEach(store => {
+            if (!db.objectStoreNames.contains(store)) {
+              db.createObjectStore(store);
+            }
+          });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+        request.onblocked = () => reject(new StorageError('Storage is blocked by another open tab', 'unavailable'));
+      }).catch(error => {
+        // Allow a later call to try again
+        this.dbPromise = null;
+        throw toStorageError(error, 'open the database');
+      });
+    }
+    return this.dbPromise;
+  }
+
+  async getAll<T>(store: StoreName): Promise<Record<string, T>> {
+    try {
+      const db = await this.open();
+      const objectStore = db.transaction(store, 'readonly').objectStore(store);
+      const [keys, values] = await Promise.all([
+        requestToPromise(objectStore.getAllKeys()),
+        requestToPromise(objectStore.getAll())
+      ]);
+      return Object.fromEntries(keys.map((key, index) => [String(key), values[index] as T]));
+    } catch (error) {
+      throw toStorageError(error, `load ${store}`);
+    }
+  }
+
+  async get<T>(store: StoreName, key: string): Promise<T | undefined> {
+    try {
+      const db = await this.open();
+      return await requestToPromise(db.transaction(store, 'readonly').objectStore(store).get(key)) as T | undefined;
+    } catch (error) {
+      throw toStorageError(error, `load ${store}`);
+    }
+  }
+
+  async put<T>(store: StoreName, key: string, value: T): Promise<void> {
+    try {
+      const db = await this.open();
+      const transaction = db.transaction(store, 'readwrite');
+      transaction.objectStore(store).put(value, key);
+      await transactionToPromise(transaction);
+    } catch (error) {
+      throw toStorageError(error, `save ${store}`);
+    }
+  }
+
+  async replaceAll<T>(store: StoreName, entries: Record<string, T>): Promise<void> {
+    try {
+      const db = await this.open();
+      const transaction = db.transaction(store, 'readwrite');
+      const objectStore = transaction.objectStore(store);
+      objectStore.clear();
+      Object.entries(entries).forEach(([key, value]) => objectStore.put(value, key));
+      await transactionToPromise(transaction);
+    } catch (error) {
+      throw toStorageError(error, `save ${store}`);
+    }
+  }
+
+  async remove(store: StoreName, key: string): Promise<void> {
+    try {
+      const db = await this.open();
+      const transaction = db.transaction(store, 'readwrite');
+      transaction.objectStore(store).delete(key);
+      await transactionToPromise(transaction);
+    } catch (error) {
+      throw toStorageError(error, `delete from ${store}`);
+    }
+  }
+}
+
+/**
+ * Keeps each store as one JSON object in localStorage. Used where IndexedDB
+ * is missing; limited to the browser's ~5MB localStorage quota.
+ */
+export class LocalStorageAdapter implements StorageAdapter {
+  public readonly name = 'localstorage';
+
+  private read<T>(store: StoreName): Record<string, T> {
+    if (typeof localStorage === 'undefined') {
+      throw new StorageError('localStorage is not available', 'unavailable');
+    }
+    const item = localStorage.getItem(LOCAL_STORAGE_PREFIX + store);
+    return item ? JSON.parse(item) : {};
+  }
+
+  private write<T>(store: StoreName, entries: Record<string, T>): void {
+    localStorage.setItem(LOCAL_STORAGE_PREFIX + store, JSON.stringify(entries));
+  }
+
+  async getAll<T>(store: StoreName): Promise<Record<string, T>> {
+    try {
+      return this.read<T>(store);
+    } catch (error) {
+      throw toStorageError(error, `load ${store}`);
+    }
+  }
+
+  async get<T>(store: StoreName, key: string): Promise<T | undefined> {
+    return (await this.getAll<T>(store))[key];
+  }
+
+  async put<T>(store: StoreName, key: string, value: T): Promise<void> {
+    try {
+      this.write(store, { ...this.read<T>(store), [key]: value });
+    } catch (error) {
+      throw toStorageError(error, `save ${store}`);
+    }
+  }
+
+  async replaceAll<T>(store: StoreName, entries: Record<string, T>): Promise<void> {
+    try {
+      this.write(store, entries);
+    } catch (error) {
+      throw toStorageError(error, `save ${store}`);
+    }
+  }
+
+  async remove(store: StoreName, key: string): Promise<void> {
+    try {
+      const entries = this.read(store);
+      delete entries[key];
+      this.write(store, entries);
+    } catch (error) {
+      throw toStorageError(error, `delete from ${store}`);
+    }
+  }
+}
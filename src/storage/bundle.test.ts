@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { createTestStudy } from '../__fixtures__/studies';
+import {
+  addCardMetadata,
+  addTag,
+  createCardMetadata,
+  createTaggingSystem,
+  updateCardAnalytics,
+  CardTag,
+  TaggingSystem
+} from '../analytics/cardMetadata';
+import { createBundle, importBundle, parseBundle } from './bundle';
+
+const study = createTestStudy({
+  cards: [
+    { id: 1, text: 'Change password', key: 'card_password' },
+    { id: 2, text: 'Billing history' }
+  ]
+});
+
+const securityTag: CardTag = {
+  id: 'tag_1',
+  name: 'security',
+  category: 'content-type',
+  created: 0,
+  createdBy: 'researcher'
+};
+
+const recordStudy = (system: TaggingSystem, cardKey: string, studyId: number, agreementScore: number, dateCompleted: number) =>
+  updateCardAnalytics(system, cardKey, {
+    studyId: String(studyId),
+    studyName: `Study ${studyId}`,
+    studyType: 'card-sorting',
+    participantCount: 10,
+    agreementScore,
+    primaryCategory: 'Account',
+    categoryFrequency: { Account: 10 },
+    dateCompleted
+  });
+
+// Card history as the exporting machine has it: one tagged card, finalized in study 1
+const createExportingSystem = (): TaggingSystem => {
+  const system = createTaggingSystem();
+  addTag(system, securityTag);
+  addCardMetadata(system, createCardMetadata('card_password', 'Change password', [securityTag]));
+  addCardMetadata(system, createCardMetadata('card_unrelated', 'Unrelated card'));
+  recordStudy(system, 'card_password', 1, 80, 1000);
+  return system;
+};
+
+const exportBundle = () => parseBundle(createBundle([study], {}, createExportingSystem()));
+
+describe('study bundles', () => {
+  it('carry the tags and history of the linked cards they use only', () => {
+    const { cardHistory } = exportBundle();
+
+    expect(cardHistory.tags.map(tag => tag.id)).toEqual(['tag_1']);
+    expect(cardHistory.cards.map(card => card.cardId)).toEqual(['card_password']);
+    expect(cardHistory.cards[0].crossStudyHistory).toHaveLength(1);
+  });
+
+  it('read bundles without card history as empty', () => {
+    const bundle = parseBundle(createBundle([study], {}));
+
+    expect(bundle.cardHistory).toEqual({ tags: [], cards: [] });
+  });
+
+  it('add card history to a machine that has none', () => {
+    const { taggingSystem } = importBundle({ studies: [], results: {} }, exportBundle());
+
+    const card = taggingSystem.cardMetadata.get('card_password')!;
+    expect(card.tags.map(tag => tag.name)).toEqual(['security']);
+    expect(card.crossStudyHistory.map(entry => entry.studyId)).toEqual(['1']);
+    expect(card.analytics.averageAgreementScore).toBe(80);
+    expect(taggingSystem.tags.get('tag_1')).toEqual(securityTag);
+  });
+
+  it('merge history into a card the machine already tracks', () => {
+    const local = createTaggingSystem();
+    addCardMetadata(local, createCardMetadata('card_password', 'Change password'));
+    recordStudy(local, 'card_password', 5, 60, 500);
+
+    const { taggingSystem } = importBundle({ studies: [], results: {}, taggingSystem: local }, exportBundle());
+
+    const card = taggingSystem.cardMetadata.get('card_password')!;
+    expect(card.crossStudyHistory.map(entry => entry.studyId)).toEqual(['5', '1']);
+    expect(card.analytics.averageAgreementScore).toBe(70);
+    // The local system is left as it was
+    expect(local.cardMetadata.get('card_password')!.crossStudyHistory).toHaveLength(1);
+  });
+
+  it('move the history of a cloned study to the id of the clone', () => {
+    const local = createTaggingSystem();
+
+    const { studies, taggingSystem } = importBundle(
+      { studies: [study], results: {}, taggingSystem: local },
+      exportBundle(),
+      { [study.id]: 'clone' }
+    );
+
+    const clone = studies[1];
+    const entries = taggingSystem.cardMetadata.get('card_password')!.crossStudyHistory;
+    expect(entries.map(entry => entry.studyId)).toEqual([String(clone.id)]);
+    expect(entries[0].studyName).toBe(clone.name);
+  });
+
+  it('reuse a local tag with the same name and give a clashing tag id a new one', () => {
+    const local = createTaggingSystem();
+    const billing = { ...securityTag, id: 'tag_2', name: 'billing' };
+    addTag(local, { ...securityTag, id: 'tag_local' });
+    addTag(local, billing);
+
+    const bundle = exportBundle();
+    bundle.cardHistory.tags.push({ ...securityTag, id: 'tag_2', name: 'navigation' });
+    const { taggingSystem } = importBundle({ studies: [], results: {}, taggingSystem: local }, bundle);
+
+    expect(taggingSystem.cardMetadata.get('card_password')!.tags.map(tag => tag.id)).toEqual(['tag_local']);
+    expect(taggingSystem.tags.get('tag_2')).toEqual(billing);
+    const navigation = Array.from(taggingSystem.tags.values()).find(tag => tag.name === 'navigation');
+    expect(navigation?.id).not.toBe('tag_2');
+  });
+});
@@ -0,0 +1,379 @@
+/**
+ * VUX-Sort Storage - Study Bundles
+ * Single-file .vuxsort format for moving studies, invites, results, images and card history between machines
+ */
+
+import { Card, Study, StudyResult, StudyResultsIndex, StudyType } from '../types';
+import { downloadBlob } from '../utils';
+import { generateInviteCode } from '../utils/participantUtils';
+import { getResultsForStudy, indexResults } from '../utils/resultUtils';
+import { getStudyVersionNumber } from '../utils/studyVersions';
+import {
+  addCardMetadata,
+  addTag,
+  cloneTaggingSystem,
+  createCardMetadata,
+  createTaggingSystem,
+  updateCardAnalytics,
+  CardMetadata,
+  CardTag,
+  SerializedTaggingSystem,
+  TaggingSystem
+} from '../analytics/cardMetadata';
+import { CURRENT_SCHEMA_VERSION, migrateResult, migrateStudy, parseResultsExport } from './migrations';
+import { StorageError } from './types';
+
+export const BUNDLE_FORMAT = 'vux-sort-bundle';
+export const BUNDLE_EXTENSION = 'vuxsort';
+
+const ASSET_PREFIX = 'asset:';
+
+export interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  studies: { id: number; name: string; type: StudyType; invites: number; results: number }[];
+  assets: { id: string; fileName: string; mimeType: string; fileSize: number }[];
+}
+
+/** On-disk layout: card images are stored once in `assets` and referenced by id */
+interface BundleFile {
+  manifest: BundleManifest;
+  studies: Study[];
+  results: StudyResult[];
+  assets: Record<string, string>;
+  cardHistory?: SerializedTaggingSystem; // Tags and cross-study history of the studies' linked cards
+}
+
+/** A parsed bundle with images restored onto its cards */
+export interface StudyBundle {
+  manifest: BundleManifest;
+  studies: Study[];
+  results: StudyResult[];
+  cardHistory: SerializedTaggingSystem;
+}
+
+export type CollisionResolution = 'merge' | 'clone';
+
+export interface BundleImportResult {
+  studies: Study[];
+  results: StudyResultsIndex;
+  taggingSystem: TaggingSystem;
+  added: number;
+  merged: number;
+  cloned: number;
+}
+
+// FNV-1a; identical images share one asset
+function hashAsset(data: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < data.length; i++) {
+    hash ^= data.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0') + data.length.toString(16);
+}
+
+function mapCards(study: Study, mapCard: (card: Card) => Card): Study {
+  const mapContent = <T extends Pick<Study, 'cards' | 'categories'>>(content: T): T => ({
+    ...content,
+    cards: content.cards.map(mapCard),
+    categories: content.categories.map(category => ({ ...category, cards: category.cards.map(mapCard) }))
+  });
+
+  return {
+    ...mapContent(study),
+    // Earlier versions usually share images with the current one, so they map to the same assets
+    ...(study.versionHistory && { versionHistory: study.versionHistory.map(mapContent) })
+  };
+}
+
+/**
+ * Card history for every linked card the studies use, in any version, with the tags on those cards
+ */
+function collectCardHistory(studies: Study[], system: TaggingSystem): SerializedTaggingSystem {
+  const keys = new Set(studies
+    .flatMap(study => [study.cards, ...(study.versionHistory || []).map(version => version.cards)])
+    .flat()
+    .map(card => card.key)
+    .filter((key): key is string => Boolean(key)));
+  const cards = Array.from(keys)
+    .map(key => system.cardMetadata.get(key))
+    .filter((metadata): metadata is CardMetadata => metadata !== undefined);
+  const tags = new Map(cards.flatMap(metadata => metadata.tags).map(tag => [tag.id, system.tags.get(tag.id) || tag]));
+
+  return { tags: Array.from(tags.values()), cards };
+}
+
+/**
+ * Package studies with their invites, results, images and card history
+ */
+export function createBundle(studies: Study[], results: StudyResultsIndex, taggingSystem?: TaggingSystem): string {
+  const assets: Record<string, string> = {};
+  const assetInfo = new Map<string, BundleManifest['assets'][number]>();
+
+  const bundledStudies = studies.map(study => mapCards(study, card => {
+    if (!card.image?.data || card.image.data.startsWith(ASSET_PREFIX)) return card;
+    const id = hashAsset(card.image.data);
+    assets[id] = card.image.data;
+    assetInfo.set(id, { id, fileName: card.image.fileName, mimeType: card.image.mimeType, fileSize: card.image.fileSize });
+    return { ...card, image: { ...card.image, data: `${ASSET_PREFIX}${id}` } };
+  }));
+
+  const bundledResults = studies.flatMap(study => getResultsForStudy(results, study.id));
+
+  const file: BundleFile = {
+    manifest: {
+      format: BUNDLE_FORMAT,
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      exportedAt: new Date().toISOString(),
+      studies: studies.map(study => ({
+        id: study.id,
+        name: study.name,
+        type: study.type,
+        invites: study.invites?.length || 0,
+        results: getResultsForStudy(results, study.id).length
+      })),
+      assets: Array.from(assetInfo.values())
+    },
+    studies: bundledStudies,
+    results: bundledResults,
+    assets,
+    ...(taggingSystem && { cardHistory: collectCardHistory(studies, taggingSystem) })
+  };
+
+  return JSON.stringify(file);
+}
+
+/**
+ * Download studies as a .vuxsort bundle
+ */
+export function exportStudyBundle(studies: Study[], results: StudyResultsIndex, taggingSystem?: TaggingSystem): void {
+  const name = studies.length === 1 ? studies[0].name.replace(/\s+/g, '_') : 'vux-sort_studies';
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const blob = new Blob([createBundle(studies, results, taggingSystem)], { type: 'application/json;charset=utf-8;' });
+  downloadBlob(blob, `${name}_${timestamp}.${BUNDLE_EXTENSION}`);
+}
+
+/**
+ * Read a .vuxsort bundle, or a JSON results export, and upgrade it to the current schema
+ */
+export function parseBundle(text: string): StudyBundle {
+  let raw: Partial<BundleFile>;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new StorageError('File is not valid JSON', 'failed');
+  }
+
+  if (raw.manifest?.format !== BUNDLE_FORMAT) {
+    // Fall back to the single-study JSON export from the analytics screen
+    const { study, results } = parseResultsExport(text);
+    return {
+      manifest: {
+        format: BUNDLE_FORMAT,
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        exportedAt: new Date().toISOString(),
+        studies: [{ id: study.id, name: study.name, type: study.type, invites: study.invites?.length || 0, results: results.length }],
+        assets: []
+      },
+      studies: [study],
+      results,
+      cardHistory: { tags: [], cards: [] }
+    };
+  }
+
+  const { manifest } = raw;
+  const assets = raw.assets || {};
+  const studies = (raw.studies || []).map(study => mapCards(migrateStudy(study, manifest.schemaVersion), card => {
+    if (!card.image?.data.startsWith(ASSET_PREFIX)) return card;
+    const data = assets[card.image.data.slice(ASSET_PREFIX.length)];
+    if (!data) {
+      const withoutImage = { ...card };
+      delete withoutImage.image;
+      return withoutImage;
+    }
+    return { ...card, image: { ...card.image, data } };
+  }));
+
+  return {
+    manifest,
+    studies,
+    results: (raw.results || []).map(result => migrateResult(result, manifest.schemaVersion)),
+    cardHistory: {
+      tags: raw.cardHistory?.tags || [],
+      cards: raw.cardHistory?.cards || []
+    }
+  };
+}
+
+/**
+ * Ids of bundled studies that already exist locally
+ */
+export function findBundleCollisions(bundle: StudyBundle, existingStudies: Study[]): number[] {
+  const existingIds = new Set(existingStudies.map(study => study.id));
+  return bundle.studies.filter(study => existingIds.has(study.id)).map(study => study.id);
+}
+
+function resultKey(result: StudyResult): string {
+  return `${result.participantId}:${result.completionTime}`;
+}
+
+function mergeStudy(existing: Study, incoming: Study, resultCount: number): Study {
+  // A later version carries the earlier ones in its history; otherwise the most recent edit wins
+  const versionDelta = getStudyVersionNumber(incoming) - getStudyVersionNumber(existing);
+  const base = versionDelta !== 0
+    ? (versionDelta > 0 ? incoming : existing)
+    : (new Date(incoming.updated) > new Date(existing.updated) ? incoming : existing);
+  const invites = new Map((existing.invites || []).map(invite => [invite.id, invite]));
+  (incoming.invites || []).forEach(invite => {
+    const current = invites.get(invite.id);
+    // A completion recorded on either machine wins
+    if (!current || (invite.status === 'completed' && current.status !== 'completed')) {
+      invites.set(invite.id, invite);
+    }
+  });
+
+  return {
+    ...base,
+    invites: Array.from(invites.values()),
+    participants: Math.max(existing.participants, incoming.participants, resultCount)
+  };
+}
+
+function cloneStudy(study: Study, results: StudyResult[], takenIds: Set<number>): { study: Study; results: StudyResult[] } {
+  let id = Date.now();
+  while (takenIds.has(id)) id++;
+  takenIds.add(id);
+
+  // Invite codes must stay unique across studies, so the copy gets fresh ones
+  const codes = new Map<string, string>();
+  const invites = study.invites?.map(invite => {
+    const inviteCode = generateInviteCode();
+    codes.set(invite.inviteCode, inviteCode);
+    return { ...invite, id: `${invite.id}_copy_${id}`, studyId: id, inviteCode };
+  });
+
+  return {
+    study: { ...study, id, name: `${study.name} (Imported)`, invites, updated: new Date().toISOString() },
+    results: results.map(result => ({
+      ...result,
+      studyId: id,
+      ...(result.inviteCode && { inviteCode: codes.get(result.inviteCode) || result.inviteCode })
+    }))
+  };
+}
+
+/**
+ * Merge bundled card history into a copy of the local tagging system. Cards
+ * are matched by key; tags by name, with a fresh id when only the id is
+ * taken; history entries of cloned studies move to the clone's id.
+ */
+function mergeCardHistory(
+  system: TaggingSystem,
+  incoming: SerializedTaggingSystem,
+  clonedStudies: Map<string, Study>
+): TaggingSystem {
+  const merged = cloneTaggingSystem(system);
+  const tagIds = new Map<string, string>();
+
+  const resolveTag = (tag: CardTag): CardTag => {
+    const mappedId = tagIds.get(tag.id);
+    if (mappedId) return merged.tags.get(mappedId)!;
+
+    const sameName = Array.from(merged.tags.values()).find(local => local.name === tag.name && local.category === tag.category);
+    const resolved = sameName || { ...tag, id: merged.tags.has(tag.id) ? `${tag.id}_${Date.now().toString(36)}` : tag.id };
+    if (!sameName) addTag(merged, resolved);
+    tagIds.set(tag.id, resolved.id);
+    return resolved;
+  };
+
+  incoming.tags.forEach(resolveTag);
+
+  incoming.cards.forEach(card => {
+    const local = merged.cardMetadata.get(card.cardId);
+    const tags = card.tags.map(resolveTag);
+    const metadata = local
+      ? {
+        ...local,
+        tags: [...local.tags, ...tags.filter(tag => !local.tags.some(localTag => localTag.id === tag.id))],
+        properties: { ...card.properties, ...local.properties }
+      }
+      : { ...createCardMetadata(card.cardId, card.cardText, tags, card.properties), created: card.created };
+    addCardMetadata(merged, metadata);
+
+    // Replaying entries recalculates the card's analytics; the newer entry for a study wins
+    [...card.crossStudyHistory]
+      .sort((a, b) => a.dateCompleted - b.dateCompleted)
+      .forEach(entry => {
+        const clone = clonedStudies.get(entry.studyId);
+        const studyId = clone ? String(clone.id) : entry.studyId;
+        const current = metadata.crossStudyHistory.find(existingEntry => existingEntry.studyId === studyId);
+        if (current && current.dateCompleted >= entry.dateCompleted) return;
+
+        updateCardAnalytics(merged, card.cardId, {
+          studyId,
+          studyName: clone ? clone.name : entry.studyName,
+          studyType: entry.studyType,
+          participantCount: entry.participantCount,
+          agreementScore: entry.averageAgreementScore,
+          primaryCategory: entry.mostCommonCategory,
+          categoryFrequency: entry.categoryFrequency,
+          dateCompleted: entry.dateCompleted
+        });
+      });
+  });
+
+  return merged;
+}
+
+/**
+ * Add a bundle's studies, results and card history to the local data. Studies
+ * whose id already exists are merged into the local copy or imported as a clone.
+ */
+export function importBundle(
+  existing: { studies: Study[]; results: StudyResultsIndex; taggingSystem?: TaggingSystem },
+  bundle: StudyBundle,
+  resolutions: Record<number, CollisionResolution> = {}
+): BundleImportResult {
+  const studies = [...existing.studies];
+  const results = { ...existing.results };
+  const takenIds = new Set(studies.map(study => study.id));
+  const clonedStudies = new Map<string, Study>(); // Bundled study id -> its clone
+  const summary = { added: 0, merged: 0, cloned: 0 };
+
+  bundle.studies.forEach(incoming => {
+    const incomingResults = bundle.results.filter(result => result.studyId === incoming.id);
+    const existingIndex = studies.findIndex(study => study.id === incoming.id);
+
+    if (existingIndex === -1) {
+      studies.push(incoming);
+      takenIds.add(incoming.id);
+      results[String(incoming.id)] = indexResults(incomingResults)[String(incoming.id)] || {};
+      summary.added++;
+      return;
+    }
+
+    if ((resolutions[incoming.id] || 'clone') === 'clone') {
+      const clone = cloneStudy(incoming, incomingResults, takenIds);
+      studies.push(clone.study);
+      clonedStudies.set(String(incoming.id), clone.study);
+      results[String(clone.study.id)] = indexResults(clone.results)[String(clone.study.id)] || {};
+      summary.cloned++;
+      return;
+    }
+
+    const localResults = getResultsForStudy(existing.results, incoming.id);
+    const seen = new Set(localResults.map(resultKey));
+    const combined = [...localResults, ...incomingResults.filter(result => !seen.has(resultKey(result)))];
+
+    studies[existingIndex] = mergeStudy(studies[existingIndex], incoming, combined.length);
+    results[String(incoming.id)] = indexResults(combined)[String(incoming.id)] || {};
+    summary.merged++;
+  });
+
+  const taggingSystem = mergeCardHistory(existing.taggingSystem || createTaggingSystem(), bundle.cardHistory, clonedStudies);
+
+  return { studies, results, taggingSystem, ...summary };
+}
+
@@ -0,0 +1,86 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it } from 'vitest';
+import { Study } from '../types';
+import { getLegacyImportWarning, importLegacyLocalStorage } from './index';
+import { LocalStorageAdapter } from './adapters';
+import { createResultRepository, createSessionRepository, createStudyRepository, createTaggingRepository } from './repositories';
+import { Repositories } from './types';
+
+const LEGACY_STUDIES_KEY = 'vux-sort-studies';
+const LEGACY_RESULTS_KEY = 'vux-sort-results';
+
+const legacyStudy = { id: '1700000000001', name: 'Account settings', type: 'card-sorting', cards: [], categories: [] };
+const legacyResult = {
+  participantId: 'P001',
+  studyId: '1700000000001',
+  startTime: 0,
+  completionTime: 1000,
+  totalDuration: 1000,
+  cardSortResults: []
+};
+
+const createRepositories = (adapter = new LocalStorageAdapter()): Repositories => ({
+  studies: createStudyRepository(adapter),
+  results: createResultRepository(adapter),
+  tagging: createTaggingRepository(adapter),
+  sessions: createSessionRepository(adapter)
+});
+
+describe('importLegacyLocalStorage', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    localStorage.setItem(LEGACY_STUDIES_KEY, JSON.stringify([legacyStudy]));
+    localStorage.setItem(LEGACY_RESULTS_KEY, JSON.stringify({ P001: [legacyResult] }));
+  });
+
+  it('imports and clears the old keys into empty repositories', async () => {
+    const repositories = createRepositories();
+
+    const outcome = await importLegacyLocalStorage(repositories);
+
+    expect(outcome).toEqual({ imported: ['studies', 'results'], skipped: [] });
+    expect(getLegacyImportWarning(outcome)).toBeNull();
+    expect((await repositories.studies.getAll()).map(study => study.id)).toEqual([1700000000001]);
+    expect(Object.keys(await repositories.results.getAll())).toEqual(['1700000000001']);
+    expect(localStorage.getItem(LEGACY_STUDIES_KEY)).toBeNull();
+    expect(localStorage.getItem(LEGACY_RESULTS_KEY)).toBeNull();
+  });
+
+  it('keeps and reports old data it would have overwritten', async () => {
+    const repositories = createRepositories();
+    await repositories.studies.save({ ...legacyStudy, id: 2, name: 'Newer study' } as unknown as Study);
+
+    const outcome = await importLegacyLocalStorage(repositories);
+
+    expect(outcome).toEqual({ imported: ['results'], skipped: ['studies'] });
+    expect(getLegacyImportWarning(outcome)?.kind).toBe('not-imported');
+    expect((await repositories.studies.getAll()).map(study => study.name)).toEqual(['Newer study']);
+    expect(localStorage.getItem(LEGACY_STUDIES_KEY)).not.toBeNull();
+    expect(localStorage.getItem(LEGACY_RESULTS_KEY)).toBeNull();
+  });
+
+  it('keeps the old keys when writing fails', async () => {
+    const adapter = new LocalStorageAdapter();
+    adapter.replaceAll = () => Promise.reject(new Error('Disk full'));
+
+    await expect(importLegacyLocalStorage(createRepositories(adapter))).rejects.toThrow('Disk full');
+    expect(localStorage.getItem(LEGACY_STUDIES_KEY)).not.toBeNull();
+    expect(localStorage.getItem(LEGACY_RESULTS_KEY)).not.toBeNull();
+  });
+});
+
+describe('result repository', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('rewrites results stored by participant so per-study saves replace them', async () => {
+    const adapter = new LocalStorageAdapter();
+    // Stored before records were wrapped in a versioned envelope
+    await adapter.put('results', 'P001', [legacyResult]);
+    const repository = createResultRepository(adapter);
+
+    expect(Object.keys(await repository.getAll())).toEqual(['1700000000001']);
+    await repository.deleteForStudy(1700000000001);
+
+    expect(await repository.getAll()).toEqual({});
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * VUX-Sort Storage - Main Export Module
+ * Picks the persistence backend and hands out repositories for it
+ */
+
+import { Study, StudyResult } from '../types';
+import { loadFromLocalStorage, clearLocalStorage } from '../utils';
+import { indexResults } from '../utils/resultUtils';
+import { IndexedDBAdapter, LocalStorageAdapter, toStorageError } from './adapters';
+import { createResultRepository, createSessionRepository, createStudyRepository, createTaggingRepository } from './repositories';
+import { migrateResult, migrateStudy } from './migrations';
+import { Repositories, StorageAdapter, StorageError } from './types';
+
+export { IndexedDBAdapter, LocalStorageAdapter, isQuotaExceededError, toStorageError } from './adapters';
+export { createStudyRepository, createResultRepository, createTaggingRepository, createSessionRepository } from './repositories';
+export {
+  CURRENT_SCHEMA_VERSION,
+  MIGRATIONS,
+  migrateStudy,
+  migrateResult,
+  createEnvelope,
+  isVersionedEnvelope,
+  readEnvelope,
+  parseResultsExport
+} from './migrations';
+export type { VersionedEnvelope, ResultsExport, Migration } from './migrations';
+export {
+  BUNDLE_FORMAT,
+  BUNDLE_EXTENSION,
+  createBundle,
+  exportStudyBundle,
+  parseBundle,
+  findBundleCollisions,
+  importBundle
+} from './bundle';
+export type { BundleManifest, StudyBundle, CollisionResolution, BundleImportResult } from './bundle';
+export { StorageError, STORE_NAMES } from './types';
+export type {
+  StorageAdapter,
+  StorageErrorKind,
+  StoreName,
+  StudyRepository,
+  ResultRepository,
+  TaggingRepository,
+  SessionRepository,
+  Repositories
+} from './types';
+
+// Keys used before the repository layer existed
+const LEGACY_STUDIES_KEY = 'vux-sort-studies';
+const LEGACY_RESULTS_KEY = 'vux-sort-results';
+
+let activeAdapter: StorageAdapter | null = null;
+let activeRepositories: Repositories | null = null;
+
+/**
+ * IndexedDB where the browser has it, localStorage otherwise
+ */
+export function createDefaultAdapter(): StorageAdapter {
+  return typeof indexedDB !== 'undefined' ? new IndexedDBAdapter() : new LocalStorageAdapter();
+}
+
+export function getStorageAdapter(): StorageAdapter {
+  if (!activeAdapter) {
+    activeAdapter = createDefaultAdapter();
+  }
+  return activeAdapter;
+}
+
+/**
+ * Swap the persistence backend, e.g. for a local HTTP server. Call before the app loads data.
+ */
+export function setStorageAdapter(adapter: StorageAdapter): void {
+  activeAdapter = adapter;
+  activeRepositories = null;
+}
+
+export function getRepositories(): Repositories {
+  if (!activeRepositories) {
+    const adapter = getStorageAdapter();
+    activeRepositories = {
+      studies: createStudyRepository(adapter),
+      results: createResultRepository(adapter),
+      tagging: createTaggingRepository(adapter),
+      sessions: createSessionRepository(adapter)
+    };
+  }
+  return activeRepositories;
+}
+
+export interface LegacyStorageImport {
+  imported: Array<'studies' | 'results'>;
+  skipped: Array<'studies' | 'results'>; // Left under the old keys because the repositories already hold data
+}
+
+/**
+ * Move studies and results saved under the old localStorage keys into the
+ * active repositories, upgrading them from the unversioned schema. Runs once:
+ * each old key is removed only after its contents were written.
+ */
+export async function importLegacyLocalStorage(repositories: Repositories = getRepositories()): Promise<LegacyStorageImport> {
+  const outcome: LegacyStorageImport = { imported: [], skipped: [] };
+  if (typeof localStorage === 'undefined') return outcome;
+
+  const legacyStudies = loadFromLocalStorage<Study[] | null>(LEGACY_STUDIES_KEY, null);
+  const legacyResults = loadFromLocalStorage<Record<string, StudyResult[]> | null>(LEGACY_RESULTS_KEY, null);
+  if (!legacyStudies && !legacyResults) return outcome;
+
+  try {
+    const [existingStudies, existingResults] = await Promise.all([
+      repositories.studies.getAll(),
+      repositories.results.getAll()
+    ]);
+
+    // Never overwrite data that already lives in the repositories
+    if (legacyStudies) {
+      if (existingStudies.length === 0) {
+        await repositories.studies.saveAll(legacyStudies.map(study => migrateStudy(study, 0)));
+        clearLocalStorage(LEGACY_STUDIES_KEY);
+        outcome.imported.push('studies');
+      } else {
+        outcome.skipped.push('studies');
+      }
+    }
+    if (legacyResults) {
+      if (Object.keys(existingResults).length === 0) {
+        await repositories.results.saveAll(indexResults(
+          Object.values(legacyResults).flat().map(result => migrateResult(result, 0))
+        ));
+        clearLocalStorage(LEGACY_RESULTS_KEY);
+        outcome.imported.push('results');
+      } else {
+        outcome.skipped.push('results');
+      }
+    }
+  } catch (error) {
+    throw toStorageError(error, 'import data saved by an earlier version');
+  }
+
+  return outcome;
+}
+
+/**
+ * Tell the user about legacy data that was left in place rather than imported
+ */
+export function getLegacyImportWarning({ skipped }: LegacyStorageImport): StorageError | null {
+  if (skipped.length === 0) return null;
+  return new StorageError(`Skipped importing ${skipped.join(' and ')} saved by an earlier version`, 'not-imported');
+}
@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import { CURRENT_SCHEMA_VERSION, createEnvelope, migrateResult, migrateStudy, parseResultsExport } from './migrations';
+import v0 from './__fixtures__/migrations/v0.json';
+import v1 from './__fixtures__/migrations/v1.json';
+import v2 from './__fixtures__/migrations/v2.json';
+import v3 from './__fixtures__/migrations/v3.json';
+import legacyExport from './__fixtures__/migrations/legacy-export.json';
+
+// Each fixture is saved at the version its step upgrades from; later steps run too but leave these fields alone
+const upgradeStudy = (study: object, fromVersion: number) => migrateStudy(study, fromVersion) as unknown as Record<string, unknown>;
+const upgradeResult = (result: object, fromVersion: number) => migrateResult(result, fromVersion) as unknown as Record<string, unknown>;
+
+describe('schema migrations', () => {
+  describe('v0 → v1', () => {
+    it('structures string tree test tasks and fills in missing study fields', () => {
+      const study = upgradeStudy(v0.study, 0);
+
+      expect(study.tasks).toEqual([
+        { id: 0, text: 'Find the returns policy', correctNodeIds: [], acceptableNodeIds: [] },
+        { id: 1, text: 'Find store opening hours', correctNodeIds: [], acceptableNodeIds: [] }
+      ]);
+      expect(study.cards).toEqual([]);
+      expect(study.categories).toEqual([]);
+      expect(study.participants).toBe(0);
+      expect(study.settings).toEqual({});
+      expect(study.updated).toBe(v0.study.created);
+    });
+
+    it('infers the study type of results saved without one', () => {
+      expect(upgradeResult(v0.cardSortResult, 0).studyType).toBe('card-sorting');
+      expect(upgradeResult(v0.treeTestResult, 0).studyType).toBe('tree-testing');
+    });
+  });
+
+  describe('v1 → v2', () => {
+    it('turns study, card and category ids into numbers', () => {
+      const study = upgradeStudy(v1.study, 1);
+
+      expect(study.id).toBe(1700000000001);
+      expect(study.cards).toEqual([
+        { id: 3, text: 'Change password' },
+        { id: 4, text: 'Billing history' }
+      ]);
+      expect(study.categories).toEqual([
+        { id: 1, name: 'Account', cards: [{ id: 3, text: 'Change password' }] }
+      ]);
+    });
+
+    it('turns the ids a result refers to into numbers', () => {
+      const result = upgradeResult(v1.result, 1);
+
+      expect(result.studyId).toBe(1700000000001);
+      expect(result.cardSortResults).toEqual([
+        { categoryId: 1, categoryName: 'Account', cards: [{ id: 3, text: 'Change password' }] }
+      ]);
+    });
+  });
+
+  describe('v2 → v3', () => {
+    it('numbers results saved before retakes as the first attempt', () => {
+      expect(upgradeResult(v2.result, 2).attempt).toBe(1);
+    });
+
+    it('keeps the attempt number of a retaken result', () => {
+      expect(upgradeResult(v2.retakenResult, 2).attempt).toBe(2);
+    });
+  });
+
+  describe('v3 → v4', () => {
+    it('keeps existing studies open to participants', () => {
+      expect(upgradeStudy(v3.study, 3).status).toBe('live');
+    });
+
+    it('keeps a status the study already has', () => {
+      expect(upgradeStudy(v3.pausedStudy, 3).status).toBe('paused');
+    });
+
+    it('leaves results unchanged', () => {
+      expect(upgradeResult(v3.result, 3)).toEqual(v3.result);
+    });
+  });
+
+  it('refuses data from a newer schema version', () => {
+    expect(() => migrateStudy(v3.study, CURRENT_SCHEMA_VERSION + 1)).toThrow(/schema version/);
+  });
+
+  describe('results exports', () => {
+    it('upgrades an export from before versioning through every step', () => {
+      const { study, results } = parseResultsExport(JSON.stringify(legacyExport));
+
+      expect(study).toMatchObject({
+        id: 1700000000001,
+        cards: [
+          { id: 3, text: 'Change password' },
+          { id: 4, text: 'Billing history' }
+        ],
+        categories: [
+          { id: 1, name: 'Account', cards: [] },
+          { id: 2, name: 'Payments', cards: [] }
+        ],
+        participants: 0,
+        settings: {},
+        status: 'live'
+      });
+      expect(results).toHaveLength(1);
+      expect(results[0]).toMatchObject({
+        studyId: 1700000000001,
+        studyType: 'card-sorting',
+        attempt: 1,
+        cardSortResults: [
+          { categoryId: 1, categoryName: 'Account', cards: [{ id: 3, text: 'Change password' }] },
+          { categoryId: 2, categoryName: 'Payments', cards: [{ id: 4, text: 'Billing history' }] }
+        ]
+      });
+    });
+
+    it('reads a current export without changing it', () => {
+      const current = parseResultsExport(JSON.stringify(legacyExport));
+      const reread = parseResultsExport(JSON.stringify(createEnvelope(current)));
+
+      expect(reread).toEqual(current);
+    });
+
+    it('rejects a file that is not a results export', () => {
+      expect(() => parseResultsExport(JSON.stringify({ results: [] }))).toThrow('File is not a VUX Sort results export');
+    });
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * VUX-Sort Storage - Schema Migrations
+ * Versioned envelope for persisted records and exports, and the pipeline that upgrades older data on load
+ */
+
+import { Study, StudyResult } from '../types';
+import { normalizeTreeTestTasks } from '../utils/treeTestUtils';
+import { StorageError } from './types';
+
+/** Bump when the shape of a stored study or result changes, and add a migration below */
+export const CURRENT_SCHEMA_VERSION = 4;
+
+export interface VersionedEnvelope<T> {
+  schemaVersion: number;
+  savedAt: string;
+  data: T;
+}
+
+export interface ResultsExport {
+  study: Study;
+  results: StudyResult[];
+}
+
+// Stored data from older versions does not match the current types, so each step checks what it reads
+type LegacyRecord = Record<string, unknown>;
+
+export interface Migration {
+  version: number; // Schema version this step upgrades data to
+  description: string;
+  study: (study: LegacyRecord) => LegacyRecord;
+  result: (result: LegacyRecord) => LegacyRecord;
+}
+
+const toNumericId = (value: unknown): unknown =>
+  typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value)) ? Number(value) : value;
+
+const withNumericId = (record: LegacyRecord): LegacyRecord => ({ ...record, id: toNumericId(record.id) });
+
+const isRecord = (value: unknown): value is LegacyRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asRecords = (value: unknown): LegacyRecord[] => (Array.isArray(value) ? value.filter(isRecord) : []);
+
+/**
+ * Ordered upgrade steps. Data saved before versioning existed is version 0.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Structure tree test tasks, fill in missing study fields and result study types',
+    study: study => ({
+      ...study,
+      cards: Array.isArray(study.cards) ? study.cards : [],
+      categories: Array.isArray(study.categories) ? study.categories : [],
+      participants: study.participants || 0,
+      settings: isRecord(study.settings) ? study.settings : {},
+      created: study.created || study.updated || new Date(0).toISOString(),
+      updated: study.updated || study.created || new Date(0).toISOString(),
+      ...(Array.isArray(study.tasks) && { tasks: normalizeTreeTestTasks(study.tasks) })
+    }),
+    // The original App stored card sort results without a study type
+    result: result => ({
+      ...result,
+      studyType: result.studyType || ('treeTestResults' in result ? 'tree-testing' : 'card-sorting')
+    })
+  },
+  {
+    version: 2,
+    description: 'Store study, card, category and task ids as numbers',
+    study: study => ({
+      ...study,
+      id: toNumericId(study.id),
+      cards: asRecords(study.cards).map(withNumericId),
+      categories: asRecords(study.categories).map(category => ({
+        ...withNumericId(category),
+        cards: asRecords(category.cards).map(withNumericId)
+      })),
+      ...(Array.isArray(study.tasks) && { tasks: asRecords(study.tasks).map(withNumericId) })
+    }),
+    result: result => ({
+      ...result,
+      studyId: toNumericId(result.studyId),
+      ...(Array.isArray(result.cardSortResults) && {
+        cardSortResults: asRecords(result.cardSortResults).map(category => ({
+          ...category,
+          categoryId: toNumericId(category.categoryId),
+          cards: asRecords(category.cards).map(withNumericId)
+        }))
+      }),
+      ...(Array.isArray(result.treeTestResults) && {
+        treeTestResults: asRecords(result.treeTestResults).map(task => ({ ...task, taskId: toNumericId(task.taskId) }))
+      })
+    })
+  },
+  {
+    version: 3,
+    // The results store itself is regrouped by study in the result repository
+    description: 'Number result attempts now that results are grouped by study and participant',
+    study: study => study,
+    result: result => ({ ...result, attempt: result.attempt ?? 1 })
+  },
+  {
+    version: 4,
+    // Studies could always be run before, so existing ones stay open to participants
+    description: 'Give studies a lifecycle status',
+    study: study => ({ ...study, status: study.status || 'live' }),
+    result: result => result
+  }
+];
+
+function pendingMigrations(fromVersion: number): Migration[] {
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new StorageError(
+      `Data uses schema version ${fromVersion}, but this version of VUX Sort only understands up to ${CURRENT_SCHEMA_VERSION}`,
+      'incompatible'
+    );
+  }
+  return MIGRATIONS.filter(migration => migration.version > fromVersion);
+}
+
+/**
+ * Upgrade a study saved under an older schema version
+ */
+export function migrateStudy(study: object, fromVersion: number): Study {
+  return pendingMigrations(fromVersion).reduce(
+    (current, migration) => migration.study(current),
+    study as LegacyRecord
+  ) as unknown as Study;
+}
+
+/**
+ * Upgrade a result saved under an older schema version
+ */
+export function migrateResult(result: object, fromVersion: number): StudyResult {
+  return pendingMigrations(fromVersion).reduce(
+    (current, migration) => migration.result(current),
+    result as LegacyRecord
+  ) as unknown as StudyResult;
+}
+
+export function createEnvelope<T>(data: T): VersionedEnvelope<T> {
+  return {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    savedAt: new Date().toISOString(),
+    data
+  };
+}
+
+export function isVersionedEnvelope(value: unknown): value is VersionedEnvelope<unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as VersionedEnvelope<unknown>).schemaVersion === 'number' &&
+    'data' in value
+  );
+}
+
+/**
+ * Split a stored value into its data and schema version; unwrapped values predate versioning
+ */
+export function readEnvelope<T>(value: unknown): { schemaVersion: number; data: T } {
+  if (isVersionedEnvelope(value)) {
+    return { schemaVersion: value.schemaVersion, data: value.data as T };
+  }
+  return { schemaVersion: 0, data: value as T };
+}
+
+/**
+ * Read a JSON results export (versioned or from before versioning) and upgrade it
+ */
+export function parseResultsExport(json: string): ResultsExport {
+  const { schemaVersion, data } = readEnvelope<{ study?: LegacyRecord; results?: LegacyRecord[] }>(JSON.parse(json));
+  if (!data || !data.study) {
+    throw new StorageError('File is not a VUX Sort results export', 'failed');
+  }
+
+  return {
+    study: migrateStudy(data.study, schemaVersion),
+    results: (data.results || []).map(result => migrateResult(result, schemaVersion))
+  };
+}
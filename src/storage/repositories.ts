@@ -0,0 +1,167 @@
+/**
+ * VUX-Sort Storage - Repositories
+ * Study, result and card history persistence on top of any StorageAdapter
+ */
+
+import { SessionCheckpoint, Study, StudyResult, StudyResultsIndex } from '../types';
+import { indexResults } from '../utils/resultUtils';
+import { CardMetadata, CardTag, restoreTaggingSystem, serializeTaggingSystem } from '../analytics/cardMetadata';
+import { ResultRepository, SessionRepository, StorageAdapter, StudyRepository, TaggingRepository } from './types';
+import { createEnvelope, migrateResult, migrateStudy, readEnvelope, VersionedEnvelope } from './migrations';
+
+// Schema version from which the results store is keyed by study instead of participant
+const RESULTS_BY_STUDY_VERSION = 3;
+
+// Records are stored in a versioned envelope and upgraded as they are read
+function readStudy(value: unknown): Study {
+  const { schemaVersion, data } = readEnvelope<Study>(value);
+  return migrateStudy(data, schemaVersion);
+}
+
+function readResults(value: unknown): StudyResult[] {
+  const { schemaVersion, data } = readEnvelope<StudyResult[]>(value);
+  return data.map(result => migrateResult(result, schemaVersion));
+}
+
+function readStudyResults(participants: Record<string, StudyResult[]>, schemaVersion: number): Record<string, StudyResult[]> {
+  return Object.fromEntries(Object.entries(participants).map(([participantKey, attempts]) => [
+    participantKey,
+    attempts.map(result => migrateResult(result, schemaVersion))
+  ]));
+}
+
+function mergeResultIndexes(target: StudyResultsIndex, source: StudyResultsIndex): StudyResultsIndex {
+  const merged = { ...target };
+  Object.entries(source).forEach(([studyId, participants]) => {
+    merged[studyId] = { ...participants, ...merged[studyId] };
+  });
+  return merged;
+}
+
+export function createStudyRepository(adapter: StorageAdapter): StudyRepository {
+  return {
+    async getAll() {
+      const entries = await adapter.getAll<VersionedEnvelope<Study>>('studies');
+      // Keys sort as strings; keep creation order like the old array did
+      return Object.values(entries).map(readStudy).sort((a, b) => a.id - b.id);
+    },
+
+    async get(id) {
+      const value = await adapter.get<VersionedEnvelope<Study>>('studies', String(id));
+      return value ? readStudy(value) : null;
+    },
+
+    save(study) {
+      return adapter.put('studies', String(study.id), createEnvelope(study));
+    },
+
+    saveAll(studies) {
+      return adapter.replaceAll('studies', Object.fromEntries(studies.map(study => [String(study.id), createEnvelope(study)])));
+    },
+
+    delete(id) {
+      return adapter.remove('studies', String(id));
+    }
+  };
+}
+
+function writeResultIndex(adapter: StorageAdapter, index: StudyResultsIndex): Promise<void> {
+  return adapter.replaceAll('results', Object.fromEntries(
+    Object.entries(index).map(([studyId, participants]) => [studyId, createEnvelope(participants)])
+  ));
+}
+
+export function createResultRepository(adapter: StorageAdapter): ResultRepository {
+  return {
+    async getAll() {
+      const entries = await adapter.getAll('results');
+      const index: StudyResultsIndex = {};
+      const ungrouped: StudyResult[] = [];
+
+      Object.entries(entries).forEach(([key, value]) => {
+        const { schemaVersion, data } = readEnvelope<unknown>(value);
+        if (schemaVersion < RESULTS_BY_STUDY_VERSION) {
+          // Older stores keyed results by participant id; regroup them by study below
+          ungrouped.push(...readResults(value));
+        } else {
+          index[key] = readStudyResults(data as Record<string, StudyResult[]>, schemaVersion);
+        }
+      });
+
+      if (ungrouped.length === 0) return index;
+
+      // Rewrite the store by study once, so saving a study's results replaces everything it had
+      const regrouped = mergeResultIndexes(index, indexResults(ungrouped));
+      await writeResultIndex(adapter, regrouped);
+      return regrouped;
+    },
+
+    async getForStudy(studyId) {
+      const value = await adapter.get('results', String(studyId));
+      if (!value) return {};
+      const { schemaVersion, data } = readEnvelope<Record<string, StudyResult[]>>(value);
+      return readStudyResults(data, schemaVersion);
+    },
+
+    saveForStudy(studyId, participants) {
+      return adapter.put('results', String(studyId), createEnvelope(participants));
+    },
+
+    saveAll(index) {
+      return writeResultIndex(adapter, index);
+    },
+
+    deleteForStudy(studyId) {
+      return adapter.remove('results', String(studyId));
+    }
+  };
+}
+
+export function createTaggingRepository(adapter: StorageAdapter): TaggingRepository {
+  return {
+    async load() {
+      const [tags, cards] = await Promise.all([
+        adapter.getAll<VersionedEnvelope<CardTag>>('tags'),
+        adapter.getAll<VersionedEnvelope<CardMetadata>>('cardMetadata')
+      ]);
+      return restoreTaggingSystem({
+        tags: Object.values(tags).map(value => readEnvelope<CardTag>(value).data),
+        cards: Object.values(cards).map(value => readEnvelope<CardMetadata>(value).data)
+      });
+    },
+
+    async save(system) {
+      const { tags, cards } = serializeTaggingSystem(system);
+      await Promise.all([
+        adapter.replaceAll('tags', Object.fromEntries(tags.map(tag => [tag.id, createEnvelope(tag)]))),
+        adapter.replaceAll('cardMetadata', Object.fromEntries(cards.map(metadata => [metadata.cardId, createEnvelope(metadata)])))
+      ]);
+    }
+  };
+}
+
+export function createSessionRepository(adapter: StorageAdapter): SessionRepository {
+  return {
+    async getAll() {
+      const entries = await adapter.getAll<VersionedEnvelope<SessionCheckpoint>>('sessions');
+      return Object.fromEntries(Object.entries(entries).map(([inviteCode, value]) => [
+        inviteCode,
+        readEnvelope<SessionCheckpoint>(value).data
+      ]));
+    },
+
+    save(inviteCode, checkpoint) {
+      return adapter.put('sessions', inviteCode, createEnvelope(checkpoint));
+    },
+
+    saveAll(checkpoints) {
+      return adapter.replaceAll('sessions', Object.fromEntries(
+        Object.entries(checkpoints).map(([inviteCode, checkpoint]) => [inviteCode, createEnvelope(checkpoint)])
+      ));
+    },
+
+    delete(inviteCode) {
+      return adapter.remove('sessions', inviteCode);
+    }
+  };
+}
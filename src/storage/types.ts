@@ -0,0 +1,76 @@
+/**
+ * VUX-Sort Storage - Type Definitions
+ * Adapter and repository contracts for persisting studies, results and card history
+ */
+
+import { SessionCheckpoint, Study, StudyResult, StudyResultsIndex } from '../types';
+import { TaggingSystem } from '../analytics/cardMetadata';
+
+/** Named collections kept by every storage adapter */
+export type StoreName = 'studies' | 'results' | 'tags' | 'cardMetadata' | 'sessions';
+
+export const STORE_NAMES: StoreName[] = ['studies', 'results', 'tags', 'cardMetadata', 'sessions'];
+
+/**
+ * Key/value persistence backend. IndexedDB and localStorage ship with the
+ * app; a local HTTP backend only needs to implement these methods.
+ */
+export interface StorageAdapter {
+  readonly name: string;
+  getAll<T>(store: StoreName): Promise<Record<string, T>>;
+  get<T>(store: StoreName, key: string): Promise<T | undefined>;
+  put<T>(store: StoreName, key: string, value: T): Promise<void>;
+  replaceAll<T>(store: StoreName, entries: Record<string, T>): Promise<void>;
+  remove(store: StoreName, key: string): Promise<void>;
+}
+
+export interface StudyRepository {
+  getAll(): Promise<Study[]>;
+  get(id: number): Promise<Study | null>;
+  save(study: Study): Promise<void>;
+  saveAll(studies: Study[]): Promise<void>;
+  delete(id: number): Promise<void>;
+}
+
+export interface ResultRepository {
+  getAll(): Promise<StudyResultsIndex>;
+  getForStudy(studyId: number): Promise<Record<string, StudyResult[]>>;
+  saveForStudy(studyId: number, participants: Record<string, StudyResult[]>): Promise<void>;
+  saveAll(index: StudyResultsIndex): Promise<void>;
+  deleteForStudy(studyId: number): Promise<void>;
+}
+
+/** Tags and cross-study card history, shared by all studies */
+export interface TaggingRepository {
+  load(): Promise<TaggingSystem>;
+  save(system: TaggingSystem): Promise<void>;
+}
+
+/** In-progress participant sessions, keyed by invite code */
+export interface SessionRepository {
+  getAll(): Promise<Record<string, SessionCheckpoint>>;
+  save(inviteCode: string, checkpoint: SessionCheckpoint): Promise<void>;
+  saveAll(checkpoints: Record<string, SessionCheckpoint>): Promise<void>;
+  delete(inviteCode: string): Promise<void>;
+}
+
+export interface Repositories {
+  studies: StudyRepository;
+  results: ResultRepository;
+  tagging: TaggingRepository;
+  sessions: SessionRepository;
+}
+
+export type StorageErrorKind = 'quota-exceeded' | 'unavailable' | 'incompatible' | 'not-imported' | 'failed';
+
+export class StorageError extends Error {
+  public readonly kind: StorageErrorKind;
+  public readonly originalError: unknown;
+
+  constructor(message: string, kind: StorageErrorKind, originalError?: unknown) {
+    super(message);
+    this.name = 'StorageError';
+    this.kind = kind;
+    this.originalError = originalError;
+  }
+}
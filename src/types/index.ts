@@ -1,5 +1,7 @@
 // Core types for VUX Sort - Information Architecture Evaluation Platform
 
+import type { JourneyData } from '../analytics/journeyTracking';
+
 // Study Types
 export type StudyType = 'card-sorting' | 'open-card-sorting' | 'tree-testing' | 'reverse-card-sorting';
 export type SortType = 'open' | 'closed' | 'hybrid';
@@ -7,6 +9,7 @@ export type SortType = 'open' | 'closed' | 'hybrid';
 export interface Card {
   id: number;
   text: string;
+  key?: string; // Stable identity shared by the same card across studies, see cardHistory
   // Rich content support
   image?: {
     data: string; // Base64 encoded image data
@@ -54,6 +57,26 @@ export interface TreeNode {
   isExpanded?: boolean;
 }
 
+// Tree Testing Tasks
+export interface TreeTestTask {
+  id: number;
+  text: string;
+  correctNodeIds: number[];
+  acceptableNodeIds?: number[]; // Acceptable but indirect destinations, scored as partial success
+}
+
+export type TaskOutcome = 'success' | 'partial' | 'failure';
+
+export type NavigationEventType = 'expand' | 'collapse' | 'back' | 'select' | 'search' | 'search-select';
+
+export interface NavigationEvent {
+  type: NavigationEventType;
+  nodeId: number | null; // null when navigating back to Home or searching
+  nodeName: string;
+  query?: string; // For search and search-select events
+  timestamp: number;
+}
+
 // Participant Management
 export interface ParticipantInvite {
   id: string;
@@ -93,6 +116,11 @@ export interface DemographicField {
   };
 }
 
+// Draft studies are being built; only live studies accept participants
+export type StudyStatus = 'draft' | 'live' | 'paused' | 'closed';
+
+export type StudyCloseReason = 'manual' | 'max-participants' | 'close-date';
+
 export interface Study {
   id: number;
   name: string;
@@ -101,17 +129,41 @@ export interface Study {
   cards: Card[];
   categories: Category[];
   treeStructure?: TreeNode[];
-  tasks?: string[]; // For tree testing tasks
+  tasks?: TreeTestTask[]; // For tree testing tasks
   participants: number;
   participantConfig?: StudyParticipantConfig;
   invites?: ParticipantInvite[];
   created: string;
   updated: string;
   settings: StudySettings;
+  categoryMappings?: Record<string, string>; // Open sorts: participant category name -> standardized name
+  resultsFinalizedAt?: string; // When the results were last recorded in the cross-study card history
+  status?: StudyStatus; // Absent on studies from before lifecycles, which were live; see studyLifecycle
+  statusChangedAt?: string;
+  closedReason?: StudyCloseReason;
+  version?: number; // Current version, 1 when absent; see studyVersions
+  versionHistory?: StudyVersion[]; // Earlier versions, oldest first
+}
+
+/**
+ * What a study's participants saw at one version. Results collected under a
+ * version are only analyzed against that version's content.
+ */
+export interface StudyVersion {
+  version: number;
+  createdAt: string; // When this version went into use
+  retiredAt?: string; // When it was replaced by the next version
+  type: StudyType;
+  cards: Card[];
+  categories: Category[];
+  treeStructure?: TreeNode[];
+  tasks?: TreeTestTask[];
+  settings: StudySettings;
 }
 
 export interface StudySettings {
-  maxParticipants?: number;
+  maxParticipants?: number; // The study closes once this many participants have completed it
+  closeDate?: string; // The study closes at this time (ISO date)
   minParticipants?: number;
   
   // Card Sorting Settings
@@ -129,7 +181,8 @@ export interface StudySettings {
   allowBacktracking?: boolean;
   showSearchFunctionality?: boolean;
   maxDepth?: number;
-  timeLimit?: number; // in seconds
+  timeLimit?: number; // per task, in seconds
+  studyTimeLimit?: number; // whole tree test, in seconds
   
   // General Settings
   showProgress?: boolean;
@@ -151,12 +204,15 @@ export interface BaseResult {
   demographics?: Record<string, any>;
   participantName?: string;
   participantEmail?: string;
+  attempt?: number; // 1 for a participant's first time through the study, counting up on retakes
+  studyVersion?: number; // Version of the study the result was collected under, 1 when absent
 }
 
 export interface CardSortResult extends BaseResult {
   studyType: 'card-sorting' | 'open-card-sorting' | 'reverse-card-sorting';
   cardSortResults: CategoryResult[];
   customCategories?: CategoryResult[]; // For open card sorting
+  journey?: JourneyData; // Card movements and category changes made while sorting
 }
 
 export interface TreeTestResult extends BaseResult {
@@ -167,12 +223,19 @@ export interface TreeTestResult extends BaseResult {
 export interface TaskResult {
   taskId: number;
   task: string;
-  path: string[];
+  path: string[]; // Route taken, in visit order
+  events?: NavigationEvent[];
   success: boolean;
+  outcome?: TaskOutcome; // Absent when the task had no correct answers defined
   clicks: number;
   duration: number;
   finalDestination: string;
+  selectedNodeId?: number;
   gaveUp: boolean;
+  timedOut?: boolean; // Closed automatically when a time limit ran out
+  usedSearch?: boolean;
+  backtracks?: number;
+  timeToFirstClick?: number;
   directSuccess: boolean; // Found without backtracking
 }
 
@@ -185,6 +248,11 @@ export interface CategoryResult {
 
 export type StudyResult = CardSortResult | TreeTestResult;
 
+// Stored results: study id -> participant (invite code, or participant id when anonymous) -> attempts, oldest first
+export type StudyResultsIndex = Record<string, Record<string, StudyResult[]>>;
+
+export type SimilarityMetric = 'co-occurrence' | 'jaccard' | 'weighted-co-occurrence' | 'actual-agreement';
+
 export interface SimilarityPair {
   cardId1: number;
   cardId2: number;
@@ -192,6 +260,7 @@ export interface SimilarityPair {
   cardName2: string;
   coOccurrence: number;
   similarity: number;
+  confidenceInterval?: { lower: number; upper: number }; // 95% Wilson interval, same 0-1 scale as similarity
 }
 
 export interface CategoryFrequency {
@@ -202,7 +271,18 @@ export interface CategoryFrequency {
   cards: { id: number; text: string; frequency: number }[];
 }
 
-export type ViewMode = 'dashboard' | 'study-creator' | 'participant-view' | 'analytics' | 'participant-complete' | 'participant-manager' | 'participant-entry';
+export type ViewMode = 'dashboard' | 'study-creator' | 'participant-view' | 'analytics' | 'participant-complete' | 'participant-manager' | 'participant-entry' | 'comparison';
+
+// Screens that have their own URL
+export type AppRoute =
+  | { name: 'dashboard' }
+  | { name: 'comparison' }
+  | { name: 'new-study' }
+  | { name: 'edit-study'; studyId: number }
+  | { name: 'analytics'; studyId: number }
+  | { name: 'participants'; studyId: number }
+  | { name: 'preview'; studyId: number } // A researcher trying the study from the dashboard
+  | { name: 'participate'; studyId?: number; inviteCode?: string };
 
 export interface ParticipantSession {
   participantId: string;
@@ -214,9 +294,45 @@ export interface ParticipantSession {
   demographics?: Record<string, any>;
   participantName?: string;
   participantEmail?: string;
+  pausedDuration?: number; // ms spent paused, left out of totalDuration
+  pausedAt?: number; // Set while the session is paused
+}
+
+// Progress through a session, checkpointed as the participant works so they can resume it
+export interface CardSortProgress {
+  unsortedCardIds: number[];
+  categories: { id: number; name: string; cardIds: number[]; isUserCreated?: boolean }[];
+  journey?: JourneyData;
+}
+
+export interface TreeTestProgress {
+  currentTaskIndex: number;
+  completedTasks: TaskResult[];
+  currentTask?: TreeTestTaskProgress; // Picked up where it was left on resume
+}
+
+export interface TreeTestTaskProgress {
+  startTime: number;
+  pauseOffset: number; // Session paused time before the task began
+  navigationEvents: NavigationEvent[];
+  expandedNodeIds: number[];
+  currentNodeId: number | null;
+  currentPath: string[];
+  selectedNodeId: number | null;
+}
+
+export interface SessionCheckpoint {
+  inviteCode: string;
+  session: ParticipantSession;
+  studyVersion: number; // Checkpoints from an earlier version of the study are not resumed
+  savedAt: number;
+  cardSort?: CardSortProgress;
+  treeTest?: TreeTestProgress;
 }
 
 // Analytics types
+export type LinkageMethod = 'single' | 'complete' | 'average' | 'ward';
+
 export interface ClusterNode {
   name: string;
   children: ClusterNode[];
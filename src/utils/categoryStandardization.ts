@@ -0,0 +1,190 @@
+import { CardSortResult, CategoryResult, Study, StudyResult } from '../types';
+
+export interface CategoryNameUsage {
+  name: string;
+  count: number; // Participants who used this exact name
+}
+
+export interface CategoryMergeProposal {
+  standardName: string;
+  names: CategoryNameUsage[];
+  similarity: number; // Lowest similarity that linked the names, 0-1
+}
+
+const STOP_WORDS = new Set(['and', 'the', 'of', 'for', 'a', 'an', 'my', 'your']);
+
+/**
+ * Reduce a category name to a comparable form: lowercase, "&" as "and",
+ * punctuation removed, whitespace collapsed and simple plurals made singular
+ */
+export function normalizeCategoryName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word))
+    .join(' ');
+}
+
+function levenshtein(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+/**
+ * Similarity of two category names (0-1): the better of shared meaningful
+ * words and edit distance between the normalized names
+ */
+export function categoryNameSimilarity(a: string, b: string): number {
+  const normalizedA = normalizeCategoryName(a);
+  const normalizedB = normalizeCategoryName(b);
+  if (!normalizedA || !normalizedB) return 0;
+  if (normalizedA === normalizedB) return 1;
+
+  const wordsA = new Set(normalizedA.split(' ').filter(word => !STOP_WORDS.has(word)));
+  const wordsB = new Set(normalizedB.split(' ').filter(word => !STOP_WORDS.has(word)));
+  const shared = [...wordsA].filter(word => wordsB.has(word)).length;
+  // Overlap against the shorter name so "Billing" matches "Billing & Payments"
+  const wordSimilarity = Math.min(wordsA.size, wordsB.size) > 0 ? shared / Math.min(wordsA.size, wordsB.size) : 0;
+
+  const editSimilarity = 1 - levenshtein(normalizedA, normalizedB) / Math.max(normalizedA.length, normalizedB.length);
+
+  return Math.max(wordSimilarity, editSimilarity);
+}
+
+/**
+ * Count how many participants used each category name (trimmed, exact)
+ */
+export function getCategoryNameUsage(results: CardSortResult[]): CategoryNameUsage[] {
+  const usage = new Map<string, Set<string>>();
+  results.forEach(result => {
+    result.cardSortResults.forEach(category => {
+      const name = category.categoryName.trim();
+      if (!name) return;
+      if (!usage.has(name)) usage.set(name, new Set());
+      usage.get(name)!.add(result.participantId);
+    });
+  });
+
+  return Array.from(usage.entries())
+    .map(([name, participants]) => ({ name, count: participants.size }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+}
+
+/**
+ * Propose groups of names that look like the same category. Names are linked
+ * when their similarity reaches the threshold; each group is named after its
+ * most used member.
+ */
+export function proposeCategoryMerges(results: CardSortResult[], threshold: number = 0.75): CategoryMergeProposal[] {
+  const usage = getCategoryNameUsage(results);
+  const parent = usage.map((_, i) => i);
+  const linkSimilarity = usage.map(() => 1);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+  for (let i = 0; i < usage.length; i++) {
+    for (let j = i + 1; j < usage.length; j++) {
+      const similarity = categoryNameSimilarity(usage[i].name, usage[j].name);
+      if (similarity < threshold) continue;
+      const rootI = find(i);
+      const rootJ = find(j);
+      if (rootI === rootJ) continue;
+      // Usage is sorted by count, so the lower index stays the representative
+      const [keep, merge] = rootI < rootJ ? [rootI, rootJ] : [rootJ, rootI];
+      parent[merge] = keep;
+      linkSimilarity[keep] = Math.min(linkSimilarity[keep], linkSimilarity[merge], similarity);
+    }
+  }
+
+  const groups = new Map<number, CategoryNameUsage[]>();
+  usage.forEach((entry, i) => {
+    const root = find(i);
+    if (!groups.has(root)) groups.set(root, []);
+    groups.get(root)!.push(entry);
+  });
+
+  return Array.from(groups.entries())
+    .filter(([, names]) => names.length > 1)
+    .map(([root, names]) => ({
+      standardName: usage[root].name,
+      names,
+      similarity: linkSimilarity[root]
+    }))
+    .sort((a, b) => b.names.reduce((sum, n) => sum + n.count, 0) - a.names.reduce((sum, n) => sum + n.count, 0));
+}
+
+/**
+ * Look up the standardized name for a participant's category name
+ */
+export function standardizeCategoryName(name: string, mappings: Record<string, string> | undefined): string {
+  const trimmed = name.trim();
+  return mappings?.[trimmed] || trimmed;
+}
+
+/**
+ * Rewrite card sort results to use standardized category names. Categories a
+ * participant created that map to the same name are combined, and every
+ * standardized category shares one id so frequencies line up across participants.
+ */
+export function applyCategoryMappings(results: CardSortResult[], mappings: Record<string, string>): CardSortResult[] {
+  const idsByName = new Map<string, number>();
+
+  return results.map(result => {
+    const merged = new Map<string, CategoryResult>();
+
+    result.cardSortResults.forEach(category => {
+      const name = standardizeCategoryName(category.categoryName, mappings);
+      if (!idsByName.has(name)) idsByName.set(name, category.categoryId);
+
+      const existing = merged.get(name);
+      if (existing) {
+        const cardIds = new Set(existing.cards.map(card => card.id));
+        existing.cards.push(...category.cards.filter(card => !cardIds.has(card.id)));
+        existing.isCustomCategory = existing.isCustomCategory || category.isCustomCategory;
+      } else {
+        merged.set(name, {
+          ...category,
+          categoryId: idsByName.get(name)!,
+          categoryName: name,
+          cards: [...category.cards]
+        });
+      }
+    });
+
+    return { ...result, cardSortResults: Array.from(merged.values()) };
+  });
+}
+
+/**
+ * Check whether a study has any confirmed category mappings
+ */
+export function hasCategoryMappings(study: Study): boolean {
+  return Object.keys(study.categoryMappings || {}).length > 0;
+}
+
+/**
+ * Apply a study's category mappings to its card sort results; other results pass through
+ */
+export function standardizeStudyResults<T extends StudyResult>(study: Study, results: T[]): T[] {
+  if (!hasCategoryMappings(study)) return results;
+
+  const cardSortResults = results.filter(result => 'cardSortResults' in result) as unknown as CardSortResult[];
+  const standardized = applyCategoryMappings(cardSortResults, study.categoryMappings!);
+  let next = 0;
+  return results.map(result => ('cardSortResults' in result ? (standardized[next++] as unknown as T) : result));
+}
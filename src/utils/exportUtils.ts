@@ -1,8 +1,14 @@
-import { StudyResult, CardSortResult, TreeTestResult, Study } from '../types';
+import { StudyResult, CardSortResult, TreeTestResult, Study, SimilarityMetric } from '../types';
 import * as Papa from 'papaparse';
 import * as XLSX from 'xlsx';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
+import { getTaskOutcome } from './treeTestUtils';
+import { hasCategoryMappings, standardizeCategoryName, standardizeStudyResults } from './categoryStandardization';
+import { SimilarityAnalysis, SIMILARITY_METRIC_LABELS } from '../analytics';
+import { calculateCardAgreementScores } from '../analytics/agreementScores';
+import { checkSampleSize, wilsonPercentInterval, formatInterval } from '../analytics/confidenceIntervals';
+import { createEnvelope } from '../storage/migrations';
 
 export type ExportFormat = 'csv' | 'json' | 'excel' | 'pdf';
 
@@ -11,6 +17,7 @@ export interface ExportOptions {
   includeDemographics?: boolean;
   includeTimestamps?: boolean;
   includeAgreementScores?: boolean;
+  similarityMetric?: SimilarityMetric; // Card-pair similarity measure used in the report
 }
 
 // Generate CSV data (existing functionality)
@@ -23,6 +30,7 @@ export const generateCSVData = (results: StudyResult[], study: Study, options: E
       studyId: result.studyId,
       studyType: result.studyType,
       studyName: study.name,
+      studyVersion: result.studyVersion ?? 1,
       ...(options.includeTimestamps && {
         startTime: new Date(result.startTime).toISOString(),
         completionTime: new Date(result.completionTime).toISOString(),
@@ -44,7 +52,8 @@ export const generateCSVData = (results: StudyResult[], study: Study, options: E
             cardImageUrl: (card as any).image?.fileName || '',
             cardIcon: (card as any).icon?.name || '',
             categoryId: category.categoryId,
-            categoryName: category.categoryName,
+            categoryName: standardizeCategoryName(category.categoryName, study.categoryMappings),
+            ...(hasCategoryMappings(study) && { originalCategoryName: category.categoryName }),
             isCustomCategory: category.isCustomCategory || false,
           });
         });
@@ -58,10 +67,17 @@ export const generateCSVData = (results: StudyResult[], study: Study, options: E
           task: taskResult.task,
           path: taskResult.path.join(' > '),
           success: taskResult.success,
+          outcome: getTaskOutcome(taskResult),
           clicks: taskResult.clicks,
           taskDuration: taskResult.duration,
           finalDestination: taskResult.finalDestination,
+          selectedNodeId: taskResult.selectedNodeId ?? '',
           gaveUp: taskResult.gaveUp,
+          timedOut: taskResult.timedOut || false,
+          usedSearch: taskResult.usedSearch || false,
+          searchQueries: (taskResult.events || []).filter(e => e.type === 'search').map(e => e.query).join(' | '),
+          backtracks: taskResult.backtracks ?? '',
+          timeToFirstClick: taskResult.timeToFirstClick ?? '',
           directSuccess: taskResult.directSuccess,
         });
       });
@@ -74,6 +90,8 @@ export const generateCSVData = (results: StudyResult[], study: Study, options: E
 // Generate Excel workbook
 export const generateExcelWorkbook = (results: StudyResult[], study: Study, options: ExportOptions = {}): XLSX.WorkBook => {
   const wb = XLSX.utils.book_new();
+  const similarityMetric = options.similarityMetric || 'co-occurrence';
+  const sampleSize = checkSampleSize(results.length, study.settings.minParticipants);
 
   // Study Overview Sheet
   const overviewData = [
@@ -83,6 +101,10 @@ export const generateExcelWorkbook = (results: StudyResult[], study: Study, opti
     ['Created Date', new Date(study.created).toLocaleDateString()],
     ['Total Participants', results.length],
     ['Description', study.description || ''],
+    ['Similarity Metric', study.type === 'tree-testing' ? 'N/A' : SIMILARITY_METRIC_LABELS[similarityMetric]],
+    ['Minimum Participants', sampleSize.minParticipants],
+    ['Sample Size Warning', sampleSize.message || 'None'],
+    ['Confidence Intervals', '95% Wilson score intervals'],
     ['', ''],
     ['Participants Summary', ''],
     ['Participant ID', 'Completion Time', 'Duration (ms)', 'Study Type']
@@ -108,9 +130,9 @@ export const generateExcelWorkbook = (results: StudyResult[], study: Study, opti
   }
 
   // Card Sorting specific sheets
-  const cardSortResults = results.filter(r =>
+  const cardSortResults = standardizeStudyResults(study, results.filter(r =>
     ['card-sorting', 'open-card-sorting', 'reverse-card-sorting'].includes(r.studyType)
-  ) as CardSortResult[];
+  ) as CardSortResult[]);
 
   if (cardSortResults.length > 0) {
     // Category Summary
@@ -130,11 +152,14 @@ export const generateExcelWorkbook = (results: StudyResult[], study: Study, opti
     });
 
     categoryMap.forEach((data, categoryName) => {
+      const usageInterval = wilsonPercentInterval(data.participants.size, cardSortResults.length);
       categoryData.push({
         'Category Name': categoryName,
         'Total Cards': data.count,
         'Used by Participants': data.participants.size,
-        'Usage Percentage': Math.round((data.participants.size / cardSortResults.length) * 100)
+        'Usage Percentage': Math.round((data.participants.size / cardSortResults.length) * 100),
+        'Usage 95% CI Lower (%)': Math.round(usageInterval.lower),
+        'Usage 95% CI Upper (%)': Math.round(usageInterval.upper)
       });
     });
 
@@ -142,6 +167,49 @@ export const generateExcelWorkbook = (results: StudyResult[], study: Study, opti
       const categoryWS = XLSX.utils.json_to_sheet(categoryData);
       XLSX.utils.book_append_sheet(wb, categoryWS, 'Category Analysis');
     }
+
+    // Category name standardization applied to the analysis above
+    if (hasCategoryMappings(study)) {
+      const mappingData = Object.entries(study.categoryMappings!).map(([original, standardized]) => ({
+        'Original Name': original,
+        'Standardized Name': standardized
+      }));
+      const mappingWS = XLSX.utils.json_to_sheet(mappingData);
+      XLSX.utils.book_append_sheet(wb, mappingWS, 'Category Mappings');
+    }
+
+    // Card Agreement
+    if (options.includeAgreementScores) {
+      const agreementData = calculateCardAgreementScores(cardSortResults).map(card => ({
+        'Card': card.cardText,
+        'Consensus Category': card.consensusCategory,
+        'Agreement (%)': Math.round(card.agreementScore),
+        '95% CI Lower (%)': Math.round(card.confidenceInterval.lower),
+        '95% CI Upper (%)': Math.round(card.confidenceInterval.upper),
+        'Categories Used': card.uniquePlacements,
+        'Participants': card.totalParticipants
+      }));
+
+      if (agreementData.length > 0) {
+        const agreementWS = XLSX.utils.json_to_sheet(agreementData);
+        XLSX.utils.book_append_sheet(wb, agreementWS, 'Card Agreement');
+      }
+    }
+
+    // Card Similarity
+    const similarityData = SimilarityAnalysis.calculateCardSimilarity(cardSortResults, similarityMetric).map(pair => ({
+      'Card 1': pair.cardName1,
+      'Card 2': pair.cardName2,
+      'Grouped Together': pair.coOccurrence,
+      [`Similarity (${SIMILARITY_METRIC_LABELS[similarityMetric]})`]: Math.round(pair.similarity * 1000) / 1000,
+      '95% CI Lower': Math.round((pair.confidenceInterval?.lower ?? 0) * 1000) / 1000,
+      '95% CI Upper': Math.round((pair.confidenceInterval?.upper ?? 0) * 1000) / 1000
+    }));
+
+    if (similarityData.length > 0) {
+      const similarityWS = XLSX.utils.json_to_sheet(similarityData);
+      XLSX.utils.book_append_sheet(wb, similarityWS, 'Card Similarity');
+    }
   }
 
   // Tree Testing specific sheets
@@ -149,18 +217,20 @@ export const generateExcelWorkbook = (results: StudyResult[], study: Study, opti
 
   if (treeTestResults.length > 0) {
     const taskData: any[] = [];
-    const taskMap = new Map<string, { successes: number; totalAttempts: number; totalClicks: number; directSuccesses: number }>();
+    const taskMap = new Map<string, { successes: number; totalAttempts: number; totalClicks: number; directSuccesses: number; gaveUp: number; timedOut: number }>();
 
     treeTestResults.forEach(result => {
       result.treeTestResults.forEach(taskResult => {
         const key = taskResult.task;
         if (!taskMap.has(key)) {
-          taskMap.set(key, { successes: 0, totalAttempts: 0, totalClicks: 0, directSuccesses: 0 });
+          taskMap.set(key, { successes: 0, totalAttempts: 0, totalClicks: 0, directSuccesses: 0, gaveUp: 0, timedOut: 0 });
         }
         const entry = taskMap.get(key)!;
         entry.totalAttempts++;
         if (taskResult.success) entry.successes++;
         if (taskResult.directSuccess) entry.directSuccesses++;
+        if (taskResult.gaveUp) entry.gaveUp++;
+        if (taskResult.timedOut) entry.timedOut++;
         entry.totalClicks += taskResult.clicks;
       });
     });
@@ -170,6 +240,8 @@ export const generateExcelWorkbook = (results: StudyResult[], study: Study, opti
         'Task': taskName,
         'Success Rate (%)': Math.round((data.successes / data.totalAttempts) * 100),
         'Direct Success Rate (%)': Math.round((data.directSuccesses / data.totalAttempts) * 100),
+        'Gave Up (%)': Math.round((data.gaveUp / data.totalAttempts) * 100),
+        'Timed Out (%)': Math.round((data.timedOut / data.totalAttempts) * 100),
         'Average Clicks': Math.round(data.totalClicks / data.totalAttempts * 10) / 10,
         'Total Attempts': data.totalAttempts
       });
@@ -185,7 +257,9 @@ export const generateExcelWorkbook = (results: StudyResult[], study: Study, opti
 };
 
 // Generate PDF report
-export const generatePDFReport = (results: StudyResult[], study: Study, _options: ExportOptions = {}): jsPDF => {
+export const generatePDFReport = (results: StudyResult[], study: Study, options: ExportOptions = {}): jsPDF => {
+  const similarityMetric = options.similarityMetric || 'co-occurrence';
+  const sampleSize = checkSampleSize(results.length, study.settings.minParticipants);
   const doc = new jsPDF();
   const pageWidth = doc.internal.pageSize.width;
   let yPosition = 20;
@@ -210,7 +284,8 @@ export const generatePDFReport = (results: StudyResult[], study: Study, _options
     `Study Type: ${study.type}`,
     `Created: ${new Date(study.created).toLocaleDateString()}`,
     `Total Participants: ${results.length}`,
-    `Description: ${study.description || 'N/A'}`
+    `Description: ${study.description || 'N/A'}`,
+    ...(study.type !== 'tree-testing' ? [`Similarity Metric: ${SIMILARITY_METRIC_LABELS[similarityMetric]}`] : [])
   ];
 
   overviewText.forEach(text => {
@@ -218,6 +293,15 @@ export const generatePDFReport = (results: StudyResult[], study: Study, _options
     yPosition += 6;
   });
 
+  if (sampleSize.message) {
+    doc.setTextColor(180, 83, 9);
+    doc.splitTextToSize(sampleSize.message, pageWidth - 40).forEach((line: string) => {
+      doc.text(line, 20, yPosition);
+      yPosition += 6;
+    });
+    doc.setTextColor(0, 0, 0);
+  }
+
   yPosition += 10;
 
   // Participant Summary Table
@@ -241,9 +325,9 @@ export const generatePDFReport = (results: StudyResult[], study: Study, _options
   }
 
   // Card Sorting Analysis
-  const cardSortResults = results.filter(r =>
+  const cardSortResults = standardizeStudyResults(study, results.filter(r =>
     ['card-sorting', 'open-card-sorting', 'reverse-card-sorting'].includes(r.studyType)
-  ) as CardSortResult[];
+  ) as CardSortResult[]);
 
   if (cardSortResults.length > 0) {
     if (yPosition > 250) {
@@ -277,18 +361,86 @@ export const generatePDFReport = (results: StudyResult[], study: Study, _options
         categoryName,
         data.count.toString(),
         data.participants.size.toString(),
-        `${Math.round((data.participants.size / cardSortResults.length) * 100)}%`
+        `${Math.round((data.participants.size / cardSortResults.length) * 100)}%`,
+        formatInterval(wilsonPercentInterval(data.participants.size, cardSortResults.length))
       ]);
 
     autoTable(doc, {
       startY: yPosition,
-      head: [['Category Name', 'Total Cards', 'Used by Participants', 'Usage %']],
+      head: [['Category Name', 'Total Cards', 'Used by Participants', 'Usage %', 'Usage 95% CI']],
       body: categoryTableData,
       styles: { fontSize: 8 },
       headStyles: { fillColor: [79, 70, 229] }
     });
 
     yPosition = (doc as any).lastAutoTable.finalY + 15;
+
+    // Most similar card pairs
+    const similarityTableData = SimilarityAnalysis.calculateCardSimilarity(cardSortResults, similarityMetric)
+      .slice(0, 15)
+      .map(pair => [
+        pair.cardName1,
+        pair.cardName2,
+        pair.coOccurrence.toString(),
+        pair.similarity.toFixed(2),
+        pair.confidenceInterval
+          ? `${pair.confidenceInterval.lower.toFixed(2)}–${pair.confidenceInterval.upper.toFixed(2)}`
+          : ''
+      ]);
+
+    if (similarityTableData.length > 0) {
+      if (yPosition > 230) {
+        doc.addPage();
+        yPosition = 20;
+      }
+
+      doc.setFontSize(11);
+      doc.text(`Most Similar Card Pairs (${SIMILARITY_METRIC_LABELS[similarityMetric]})`, 20, yPosition);
+      yPosition += 6;
+
+      autoTable(doc, {
+        startY: yPosition,
+        head: [['Card 1', 'Card 2', 'Grouped Together', 'Similarity', '95% CI']],
+        body: similarityTableData,
+        styles: { fontSize: 8 },
+        headStyles: { fillColor: [79, 70, 229] }
+      });
+
+      yPosition = (doc as any).lastAutoTable.finalY + 15;
+    }
+
+    // Card agreement with confidence intervals
+    if (options.includeAgreementScores) {
+      const agreementTableData = calculateCardAgreementScores(cardSortResults)
+        .slice(0, 20)
+        .map(card => [
+          card.cardText,
+          card.consensusCategory,
+          `${Math.round(card.agreementScore)}%`,
+          formatInterval(card.confidenceInterval)
+        ]);
+
+      if (agreementTableData.length > 0) {
+        if (yPosition > 230) {
+          doc.addPage();
+          yPosition = 20;
+        }
+
+        doc.setFontSize(11);
+        doc.text('Card Agreement', 20, yPosition);
+        yPosition += 6;
+
+        autoTable(doc, {
+          startY: yPosition,
+          head: [['Card', 'Consensus Category', 'Agreement', '95% CI']],
+          body: agreementTableData,
+          styles: { fontSize: 8 },
+          headStyles: { fillColor: [79, 70, 229] }
+        });
+
+        yPosition = (doc as any).lastAutoTable.finalY + 15;
+      }
+    }
   }
 
   // Tree Testing Analysis
@@ -374,12 +526,11 @@ export const exportResults = async (
       }
 
       case 'json': {
-        const jsonContent = JSON.stringify({
+        const jsonContent = JSON.stringify(createEnvelope({
           study,
           results,
-          exportOptions: options,
-          exportedAt: new Date().toISOString()
-        }, null, 2);
+          exportOptions: options
+        }), null, 2);
         const blob = new Blob([jsonContent], { type: 'application/json;charset=utf-8;' });
         downloadBlob(blob, `${baseFilename}.json`);
         break;
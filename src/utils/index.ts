@@ -1,6 +1,9 @@
 // Utility functions for VUX Sort
 import { StudyResult, CardSortResult, TreeTestResult, Study } from '../types';
 import * as Papa from 'papaparse';
+import { getTaskOutcome } from './treeTestUtils';
+import { hasCategoryMappings, standardizeCategoryName } from './categoryStandardization';
+import { createEnvelope } from '../storage/migrations';
 
 export const generateCSV = (results: StudyResult[], study: Study): string => {
   const data: any[] = [];
@@ -15,10 +18,12 @@ export const generateCSV = (results: StudyResult[], study: Study): string => {
             studyId: result.studyId,
             studyType: result.studyType,
             studyName: study.name,
+            studyVersion: result.studyVersion ?? 1,
             cardId: card.id,
             cardText: card.text,
             categoryId: category.categoryId,
-            categoryName: category.categoryName,
+            categoryName: standardizeCategoryName(category.categoryName, study.categoryMappings),
+            ...(hasCategoryMappings(study) && { originalCategoryName: category.categoryName }),
             isCustomCategory: category.isCustomCategory || false,
             startTime: new Date(result.startTime).toISOString(),
             completionTime: new Date(result.completionTime).toISOString(),
@@ -34,14 +39,22 @@ export const generateCSV = (results: StudyResult[], study: Study): string => {
           studyId: result.studyId,
           studyType: result.studyType,
           studyName: study.name,
+          studyVersion: result.studyVersion ?? 1,
           taskId: taskResult.taskId,
           task: taskResult.task,
           path: taskResult.path.join(' > '),
           success: taskResult.success,
+          outcome: getTaskOutcome(taskResult),
           clicks: taskResult.clicks,
           duration: taskResult.duration,
           finalDestination: taskResult.finalDestination,
+          selectedNodeId: taskResult.selectedNodeId ?? '',
           gaveUp: taskResult.gaveUp,
+          timedOut: taskResult.timedOut || false,
+          usedSearch: taskResult.usedSearch || false,
+          searchQueries: (taskResult.events || []).filter(e => e.type === 'search').map(e => e.query).join(' | '),
+          backtracks: taskResult.backtracks ?? '',
+          timeToFirstClick: taskResult.timeToFirstClick ?? '',
           directSuccess: taskResult.directSuccess,
           startTime: new Date(result.startTime).toISOString(),
           completionTime: new Date(result.completionTime).toISOString(),
@@ -67,7 +80,7 @@ export const exportResults = (results: StudyResult[], study: Study, format: 'csv
     mimeType = 'text/csv';
     extension = 'csv';
   } else {
-    content = JSON.stringify({ study, results }, null, 2);
+    content = JSON.stringify(createEnvelope({ study, results }), null, 2);
     mimeType = 'application/json';
     extension = 'json';
   }
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { TreeTestResult } from '../types';
+import { importLegacyResults } from './legacyImport';
+
+const mapping = { participant: 'Participant', task: 'Task', path: 'Path', success: 'Outcome' };
+
+const importPaths = (...paths: string[]) => importLegacyResults(
+  paths.map((path, index) => ({ Participant: `P${index + 1}`, Task: 'Find returns', Path: path, Outcome: 'Success' })),
+  'tree-test-long',
+  mapping,
+  { studyName: 'Imported tree test' }
+);
+
+describe('importLegacyResults for tree tests', () => {
+  it('leaves a leading Home step out of the tree and the recorded path', () => {
+    const { study, results } = importPaths('Home > Help > Returns', 'Help > Returns');
+
+    expect(study.treeStructure!.map(node => node.name)).toEqual(['Help']);
+    expect(study.treeStructure![0].children.map(node => node.name)).toEqual(['Returns']);
+    expect((results[0] as TreeTestResult).treeTestResults[0].path).toEqual(['Help', 'Returns']);
+    expect((results[0] as TreeTestResult).treeTestResults[0].selectedNodeId).toBe(study.treeStructure![0].children[0].id);
+  });
+
+  it('keeps a slash inside a label', () => {
+    const { study } = importPaths('Help > Returns/Exchanges');
+
+    expect(study.treeStructure![0].children.map(node => node.name)).toEqual(['Returns/Exchanges']);
+  });
+
+  it('splits on a spaced slash', () => {
+    const { study } = importPaths('Home / Help / Returns');
+
+    expect(study.treeStructure!.map(node => node.name)).toEqual(['Help']);
+    expect(study.treeStructure![0].children.map(node => node.name)).toEqual(['Returns']);
+  });
+});
@@ -0,0 +1,462 @@
+import { Card, CardSortResult, Category, CategoryResult, Study, StudyResult, StudyType, TaskResult, TreeNode, TreeTestResult, TreeTestTask } from '../types';
+
+/**
+ * CSV layouts exported by other card sorting and tree testing tools
+ */
+export type LegacyFormat = 'card-sort-long' | 'card-sort-matrix' | 'tree-test-long';
+
+/**
+ * Which CSV column holds each field. Matrix imports read one participant per column.
+ */
+export interface LegacyColumnMapping {
+  participant?: string;
+  card?: string;
+  category?: string;
+  task?: string;
+  path?: string;
+  destination?: string;
+  success?: string;
+  clicks?: string;
+  duration?: string;
+  startTime?: string;
+  completionTime?: string;
+  participantColumns?: string[];
+}
+
+export type LegacyField = Exclude<keyof LegacyColumnMapping, 'participantColumns'>;
+
+export interface LegacyFieldDefinition {
+  key: LegacyField;
+  label: string;
+  required: boolean;
+}
+
+export interface LegacyImportOptions {
+  studyName: string;
+  studyType?: StudyType; // Card sorts only; legacy category names become predefined categories for closed sorts
+}
+
+export interface LegacyImportResult {
+  study: Study;
+  results: StudyResult[];
+  warnings: string[];
+}
+
+type CSVRow = Record<string, string>;
+
+const TIMING_FIELDS: LegacyFieldDefinition[] = [
+  { key: 'startTime', label: 'Start time', required: false },
+  { key: 'completionTime', label: 'Completion time', required: false },
+  { key: 'duration', label: 'Duration (ms)', required: false }
+];
+
+export const LEGACY_FORMATS: Record<LegacyFormat, { label: string; description: string; fields: LegacyFieldDefinition[] }> = {
+  'card-sort-long': {
+    label: 'Card sort, one row per placement',
+    description: 'Each row records one participant placing one card into one category.',
+    fields: [
+      { key: 'participant', label: 'Participant', required: true },
+      { key: 'card', label: 'Card', required: true },
+      { key: 'category', label: 'Category', required: true },
+      ...TIMING_FIELDS
+    ]
+  },
+  'card-sort-matrix': {
+    label: 'Card sort, card × participant matrix',
+    description: 'Each row is a card; each participant column holds the category that participant chose.',
+    fields: [{ key: 'card', label: 'Card', required: true }]
+  },
+  'tree-test-long': {
+    label: 'Tree test, one row per task attempt',
+    description: 'Each row records one participant attempting one task.',
+    fields: [
+      { key: 'participant', label: 'Participant', required: true },
+      { key: 'task', label: 'Task', required: true },
+      { key: 'path', label: 'Path taken', required: true },
+      { key: 'destination', label: 'Final destination', required: false },
+      { key: 'success', label: 'Outcome / success', required: true },
+      { key: 'clicks', label: 'Clicks', required: false },
+      ...TIMING_FIELDS
+    ]
+  }
+};
+
+// Header spellings seen in exports from common tools, compared without case, spaces or punctuation
+const COLUMN_ALIASES: Record<LegacyField, string[]> = {
+  participant: ['participant', 'participant id', 'respondent', 'respondent id', 'response id', 'user', 'user id', 'session id'],
+  card: ['card', 'card text', 'card name', 'card label', 'item', 'label'],
+  category: ['category', 'category name', 'group', 'group name', 'bucket', 'pile'],
+  task: ['task', 'task text', 'task name', 'question'],
+  path: ['path', 'path taken', 'navigation path', 'click path', 'route'],
+  destination: ['destination', 'final destination', 'answer', 'selected answer', 'chosen answer', 'selected node'],
+  success: ['success', 'outcome', 'result', 'correct', 'status'],
+  clicks: ['clicks', 'click count', 'number of clicks'],
+  duration: ['duration', 'total duration', 'duration ms', 'task duration', 'time taken', 'time'],
+  startTime: ['start time', 'started', 'started at', 'start'],
+  completionTime: ['completion time', 'completed', 'completed at', 'end time', 'finished', 'finished at']
+};
+
+// A bare '/' is left out: it appears inside labels such as "Returns/Exchanges"
+const PATH_SEPARATORS = [' > ', '>', ' / ', '|', '→'];
+
+const normalizeHeader = (header: string): string => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+function findColumn(headers: string[], field: LegacyField): string | undefined {
+  const aliases = COLUMN_ALIASES[field].map(normalizeHeader);
+  return headers.find(header => aliases.includes(normalizeHeader(header)));
+}
+
+/**
+ * Guess the layout of a legacy CSV from its headers
+ */
+export function detectLegacyFormat(headers: string[]): LegacyFormat {
+  if (findColumn(headers, 'task') && (findColumn(headers, 'path') || findColumn(headers, 'destination'))) {
+    return 'tree-test-long';
+  }
+  if (findColumn(headers, 'participant') && findColumn(headers, 'category')) {
+    return 'card-sort-long';
+  }
+  return 'card-sort-matrix';
+}
+
+/**
+ * Pre-fill a column mapping from recognizable header names
+ */
+export function suggestColumnMapping(format: LegacyFormat, headers: string[]): LegacyColumnMapping {
+  const mapping: LegacyColumnMapping = {};
+  LEGACY_FORMATS[format].fields.forEach(field => {
+    const column = findColumn(headers, field.key);
+    if (column) mapping[field.key] = column;
+  });
+
+  if (format === 'card-sort-matrix') {
+    // Without a recognizable card column, the first column usually holds the card labels
+    mapping.card = mapping.card ?? headers[0];
+    mapping.participantColumns = headers.filter(header => header !== mapping.card);
+  }
+  return mapping;
+}
+
+/**
+ * List what is missing from a column mapping before it can be imported
+ */
+export function validateColumnMapping(format: LegacyFormat, mapping: LegacyColumnMapping): string[] {
+  const errors = LEGACY_FORMATS[format].fields
+    .filter(field => field.required && mapping[field.key] === undefined)
+    .map(field => `Choose the column that holds the ${field.label.toLowerCase()}`);
+
+  if (format === 'card-sort-matrix' && !mapping.participantColumns?.length) {
+    errors.push('Choose at least one participant column');
+  }
+  return errors;
+}
+
+const cell = (row: CSVRow, column: string | undefined): string => (column !== undefined ? (row[column] ?? '').trim() : '');
+
+function parseNumber(value: string): number | undefined {
+  if (value === '') return undefined;
+  const parsed = Number(value);
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+function parseTimestamp(value: string): number | undefined {
+  if (value === '') return undefined;
+  const numeric = Number(value);
+  if (!isNaN(numeric)) return numeric;
+  const parsed = new Date(value).getTime();
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * Start, completion and duration for a participant, filling in whichever columns are absent
+ */
+function readTiming(rows: CSVRow[], mapping: LegacyColumnMapping, importedAt: number, perRowDurations: boolean) {
+  const first = rows[0] || {};
+  const durations = rows.map(row => parseNumber(cell(row, mapping.duration))).filter((d): d is number => d !== undefined);
+  // Tree tests time each task; card sort exports repeat the session duration on every row
+  const totalDuration = durations.length === 0 ? 0 : perRowDurations ? durations.reduce((sum, d) => sum + d, 0) : Math.max(...durations);
+  const startTime = parseTimestamp(cell(first, mapping.startTime));
+  const completionTime = parseTimestamp(cell(first, mapping.completionTime));
+
+  const start = startTime ?? (completionTime !== undefined ? completionTime - totalDuration : importedAt);
+  const end = completionTime ?? start + totalDuration;
+  return { startTime: start, completionTime: end, totalDuration: totalDuration || Math.max(0, end - start) };
+}
+
+function groupBy(rows: CSVRow[], column: string): Map<string, CSVRow[]> {
+  const groups = new Map<string, CSVRow[]>();
+  rows.forEach(row => {
+    const key = cell(row, column);
+    if (!key) return;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(row);
+  });
+  return groups;
+}
+
+function createImportedStudy(name: string, type: StudyType, importedAt: number): Study {
+  const now = new Date(importedAt).toISOString();
+  return {
+    id: importedAt,
+    name,
+    description: 'Imported from a legacy CSV export',
+    type,
+    cards: [],
+    categories: [],
+    participants: 0,
+    // The participants took part in another tool, so there is nothing left to run
+    status: 'closed',
+    statusChangedAt: now,
+    closedReason: 'manual',
+    created: now,
+    updated: now,
+    settings: {}
+  };
+}
+
+/**
+ * Build card sort results from placements (participant -> card -> category)
+ */
+function buildCardSortResults(
+  placements: { participant: string; rows: CSVRow[]; entries: { card: string; category: string }[] }[],
+  mapping: LegacyColumnMapping,
+  options: LegacyImportOptions,
+  importedAt: number,
+  warnings: string[]
+): LegacyImportResult {
+  const studyType = options.studyType && options.studyType !== 'tree-testing' ? options.studyType : 'open-card-sorting';
+  const cardIds = new Map<string, number>();
+  const categoryIds = new Map<string, number>();
+
+  placements.forEach(({ entries }) => entries.forEach(({ card, category }) => {
+    if (!cardIds.has(card)) cardIds.set(card, cardIds.size + 1);
+    if (!categoryIds.has(category)) categoryIds.set(category, categoryIds.size + 1);
+  }));
+
+  const study = createImportedStudy(options.studyName, studyType, importedAt);
+  const cards: Card[] = Array.from(cardIds.entries()).map(([text, id]) => ({ id, text }));
+  study.cards = cards;
+  if (studyType !== 'open-card-sorting') {
+    study.categories = Array.from(categoryIds.entries()).map(([name, id]): Category => ({ id, name, cards: [] }));
+  }
+
+  const results = placements.map(({ participant, rows, entries }): CardSortResult => {
+    const categories = new Map<string, CategoryResult>();
+    const placed = new Set<string>();
+    entries.forEach(({ card, category }) => {
+      if (placed.has(card)) {
+        warnings.push(`Participant ${participant} placed "${card}" more than once; kept the first placement`);
+        return;
+      }
+      placed.add(card);
+      if (!categories.has(category)) {
+        categories.set(category, {
+          categoryId: categoryIds.get(category)!,
+          categoryName: category,
+          cards: [],
+          isCustomCategory: studyType === 'open-card-sorting'
+        });
+      }
+      categories.get(category)!.cards.push({ id: cardIds.get(card)!, text: card });
+    });
+
+    return {
+      participantId: participant,
+      studyId: study.id,
+      studyType,
+      ...readTiming(rows, mapping, importedAt, false),
+      cardSortResults: Array.from(categories.values())
+    };
+  });
+
+  study.participants = results.length;
+  return { study, results, warnings };
+}
+
+function splitPath(value: string): string[] {
+  if (!value) return [];
+  const separator = PATH_SEPARATORS.find(candidate => value.includes(candidate));
+  const steps = (separator ? value.split(separator) : [value]).map(step => step.trim()).filter(Boolean);
+  // Paths that start at the root name it "Home", like recorded breadcrumbs; it is not a node of the tree
+  return steps[0] === 'Home' ? steps.slice(1) : steps;
+}
+
+/**
+ * Read an outcome cell such as "Direct success", "Fail", "Skip", "1" or "true"
+ */
+function parseOutcome(value: string): { success: boolean; partial: boolean; gaveUp: boolean; direct?: boolean } {
+  const normalized = value.toLowerCase();
+  const gaveUp = /skip|gave up|give up|abandon/.test(normalized);
+  const partial = /partial/.test(normalized);
+  const success = !gaveUp && !partial && (/success|correct|pass/.test(normalized) || ['true', '1', 'yes', 'y'].includes(normalized)) &&
+    !/incorrect|unsuccess|fail/.test(normalized);
+  const direct = /indirect/.test(normalized) ? false : /direct/.test(normalized) ? true : undefined;
+  return { success, partial, gaveUp, direct };
+}
+
+/**
+ * Follow a recorded path through the tree. Returning to a node already on the
+ * route counts as a backtrack rather than a new child of the current node.
+ */
+function walkPath(path: string[]): { routes: string[][]; backtracks: number } {
+  let route: string[] = [];
+  let backtracks = 0;
+  const routes = path.map(step => {
+    const earlier = route.lastIndexOf(step);
+    if (earlier !== -1) {
+      route = route.slice(0, earlier + 1);
+      backtracks++;
+    } else {
+      route = [...route, step];
+    }
+    return route;
+  });
+  return { routes, backtracks };
+}
+
+const routeKey = (route: string[]): string => route.join('\u0000');
+
+/**
+ * Recreate the navigation tree from the routes participants took
+ */
+function buildTreeFromRoutes(routes: string[][]): { tree: TreeNode[]; nodeIds: Map<string, number> } {
+  const tree: TreeNode[] = [];
+  const nodes = new Map<string, TreeNode>();
+
+  routes.forEach(route => route.forEach((name, level) => {
+    const key = routeKey(route.slice(0, level + 1));
+    if (nodes.has(key)) return;
+    const parent = level > 0 ? nodes.get(routeKey(route.slice(0, level))) : undefined;
+    const node: TreeNode = { id: nodes.size + 1, name, children: [], level, ...(parent && { parentId: parent.id }) };
+    nodes.set(key, node);
+    (parent ? parent.children : tree).push(node);
+  }));
+
+  return { tree, nodeIds: new Map(Array.from(nodes.entries()).map(([key, node]) => [key, node.id])) };
+}
+
+function importTreeTest(rows: CSVRow[], mapping: LegacyColumnMapping, options: LegacyImportOptions, importedAt: number): LegacyImportResult {
+  const warnings: string[] = [];
+  const taskIds = new Map<string, number>();
+  const attempts = rows
+    .filter(row => cell(row, mapping.participant) && cell(row, mapping.task))
+    .map(row => {
+      const task = cell(row, mapping.task);
+      if (!taskIds.has(task)) taskIds.set(task, taskIds.size + 1);
+      const path = splitPath(cell(row, mapping.path));
+      const destination = cell(row, mapping.destination);
+      // A destination outside the recorded path is treated as the last step taken
+      if (destination && path[path.length - 1] !== destination) path.push(destination);
+      const { routes, backtracks } = walkPath(path);
+      const finalRoute = routes[routes.length - 1] || [];
+      return { row, task, path, routes, finalRoute, backtracks, outcome: parseOutcome(cell(row, mapping.success)) };
+    });
+
+  const { tree, nodeIds } = buildTreeFromRoutes(attempts.flatMap(attempt => attempt.routes));
+  const nodeIdFor = (route: string[]) => (route.length > 0 ? nodeIds.get(routeKey(route)) : undefined);
+
+  const correctNodes = new Map<string, Set<number>>();
+  attempts.forEach(({ task, finalRoute, outcome }) => {
+    const nodeId = nodeIdFor(finalRoute);
+    if (outcome.success && nodeId !== undefined) {
+      if (!correctNodes.has(task)) correctNodes.set(task, new Set());
+      correctNodes.get(task)!.add(nodeId);
+    }
+  });
+
+  const study = createImportedStudy(options.studyName, 'tree-testing', importedAt);
+  study.treeStructure = tree;
+  study.tasks = Array.from(taskIds.entries()).map(([text, id]): TreeTestTask => ({
+    id,
+    text,
+    // Destinations that counted as a success in the source tool become the task's answers
+    correctNodeIds: Array.from(correctNodes.get(text) || []),
+    acceptableNodeIds: []
+  }));
+  const tasksWithoutAnswers = study.tasks.filter(task => task.correctNodeIds.length === 0);
+  if (tasksWithoutAnswers.length > 0) {
+    warnings.push(`${tasksWithoutAnswers.length} task(s) had no successful attempts, so no correct answer could be inferred`);
+  }
+
+  const byParticipant = new Map<string, typeof attempts>();
+  attempts.forEach(attempt => {
+    const participant = cell(attempt.row, mapping.participant);
+    if (!byParticipant.has(participant)) byParticipant.set(participant, []);
+    byParticipant.get(participant)!.push(attempt);
+  });
+
+  const results = Array.from(byParticipant.entries()).map(([participant, participantAttempts]): TreeTestResult => {
+    const treeTestResults = participantAttempts.map(({ row, task, path, finalRoute, backtracks, outcome }): TaskResult => {
+      return {
+        taskId: taskIds.get(task)!,
+        task,
+        path,
+        success: outcome.success,
+        outcome: outcome.partial ? 'partial' : outcome.success ? 'success' : 'failure',
+        clicks: parseNumber(cell(row, mapping.clicks)) ?? path.length,
+        duration: parseNumber(cell(row, mapping.duration)) ?? 0,
+        finalDestination: path[path.length - 1] || '',
+        selectedNodeId: outcome.gaveUp ? undefined : nodeIdFor(finalRoute),
+        gaveUp: outcome.gaveUp,
+        backtracks,
+        directSuccess: outcome.success && (outcome.direct ?? backtracks === 0)
+      };
+    });
+
+    return {
+      participantId: participant,
+      studyId: study.id,
+      studyType: 'tree-testing',
+      ...readTiming(participantAttempts.map(attempt => attempt.row), mapping, importedAt, true),
+      treeTestResults
+    };
+  });
+
+  study.participants = results.length;
+  return { study, results, warnings };
+}
+
+/**
+ * Convert rows of a legacy CSV export into a study and its results
+ */
+export function importLegacyResults(
+  rows: CSVRow[],
+  format: LegacyFormat,
+  mapping: LegacyColumnMapping,
+  options: LegacyImportOptions
+): LegacyImportResult {
+  const errors = validateColumnMapping(format, mapping);
+  if (errors.length > 0) {
+    throw new Error(errors.join('. '));
+  }
+
+  const importedAt = Date.now();
+  if (format === 'tree-test-long') {
+    return importTreeTest(rows, mapping, options, importedAt);
+  }
+
+  const warnings: string[] = [];
+  if (format === 'card-sort-long') {
+    const placements = Array.from(groupBy(rows, mapping.participant!).entries()).map(([participant, participantRows]) => ({
+      participant,
+      rows: participantRows,
+      entries: participantRows
+        .map(row => ({ card: cell(row, mapping.card), category: cell(row, mapping.category) }))
+        .filter(entry => entry.card && entry.category)
+    }));
+    return buildCardSortResults(placements, mapping, options, importedAt, warnings);
+  }
+
+  const cardRows = rows.filter(row => cell(row, mapping.card));
+  const placements = mapping.participantColumns!.map(participant => ({
+    participant,
+    rows: [],
+    entries: cardRows
+      .map(row => ({ card: cell(row, mapping.card), category: cell(row, participant) }))
+      .filter(entry => entry.category)
+  })).filter(placement => {
+    if (placement.entries.length === 0) warnings.push(`Column "${placement.participant}" has no placements and was skipped`);
+    return placement.entries.length > 0;
+  });
+  return buildCardSortResults(placements, mapping, options, importedAt, warnings);
+}
@@ -0,0 +1,89 @@
+import { StudyResult, StudyResultsIndex } from '../types';
+
+export interface ResultQueryOptions {
+  attempts?: 'all' | 'latest'; // 'latest' keeps one result per participant
+  version?: number; // Only results collected under this study version
+}
+
+/**
+ * Identify who a result belongs to within a study. Invited participants are
+ * keyed by invite code so their retakes collect together; anonymous sessions
+ * by participant id.
+ */
+export function getParticipantKey(result: StudyResult): string {
+  return result.inviteCode || result.participantId;
+}
+
+/**
+ * Add a completed result, numbering it as the participant's next attempt
+ */
+export function addResult(index: StudyResultsIndex, result: StudyResult): StudyResultsIndex {
+  const studyKey = String(result.studyId);
+  const participantKey = getParticipantKey(result);
+  const studyResults = index[studyKey] || {};
+  const attempts = studyResults[participantKey] || [];
+
+  return {
+    ...index,
+    [studyKey]: {
+      ...studyResults,
+      [participantKey]: [...attempts, { ...result, attempt: attempts.length + 1 }]
+    }
+  };
+}
+
+/**
+ * Build an index from a flat list of results, oldest attempts first
+ */
+export function indexResults(results: StudyResult[]): StudyResultsIndex {
+  return [...results]
+    .sort((a, b) => a.completionTime - b.completionTime)
+    .reduce<StudyResultsIndex>((index, result) => addResult(index, result), {});
+}
+
+/**
+ * All results collected for a study, optionally only each participant's latest attempt
+ */
+export function getResultsForStudy(
+  index: StudyResultsIndex,
+  studyId: number,
+  options: ResultQueryOptions = {}
+): StudyResult[] {
+  const participants = Object.values(index[String(studyId)] || {}).map(attempts =>
+    options.version === undefined ? attempts : attempts.filter(attempt => (attempt.studyVersion ?? 1) === options.version)
+  );
+  if (options.attempts === 'latest') {
+    return participants.map(attempts => attempts[attempts.length - 1]).filter(Boolean);
+  }
+  return participants.flat();
+}
+
+/**
+ * Every attempt one participant made at a study, oldest first
+ */
+export function getParticipantResults(index: StudyResultsIndex, studyId: number, participantKey: string): StudyResult[] {
+  return index[String(studyId)]?.[participantKey] || [];
+}
+
+/**
+ * Number of results that are retakes rather than a participant's first attempt
+ */
+export function countRetakes(index: StudyResultsIndex, studyId: number): number {
+  return Object.values(index[String(studyId)] || {}).reduce((sum, attempts) => sum + Math.max(0, attempts.length - 1), 0);
+}
+
+/**
+ * Drop every result collected for a study
+ */
+export function removeStudyResults(index: StudyResultsIndex, studyId: number): StudyResultsIndex {
+  const updated = { ...index };
+  delete updated[String(studyId)];
+  return updated;
+}
+
+/**
+ * Flatten the index into a single list of results across all studies
+ */
+export function getAllResults(index: StudyResultsIndex): StudyResult[] {
+  return Object.values(index).flatMap(participants => Object.values(participants).flat());
+}
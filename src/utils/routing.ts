@@ -0,0 +1,77 @@
+import { AppRoute } from '../types';
+
+const STUDY_ROUTES: Record<string, 'edit-study' | 'analytics' | 'participants' | 'preview' | 'participate'> = {
+  edit: 'edit-study',
+  analytics: 'analytics',
+  participants: 'participants',
+  preview: 'preview',
+  participate: 'participate'
+};
+
+/**
+ * Read a route from a URL path and query string; unknown paths give null
+ */
+export const parseRoute = (pathname: string, search: string = ''): AppRoute | null => {
+  const segments = pathname.split('/').filter(Boolean);
+  const inviteCode = new URLSearchParams(search).get('code')?.trim().toUpperCase() || undefined;
+
+  if (segments.length === 0) return { name: 'dashboard' };
+  if (segments.length === 1 && segments[0] === 'compare') return { name: 'comparison' };
+  if (segments.length === 1 && segments[0] === 'participate') return { name: 'participate', inviteCode };
+  if (segments.length === 2 && segments[0] === 'study' && segments[1] === 'new') return { name: 'new-study' };
+
+  if (segments.length === 3 && segments[0] === 'study' && /^\d+$/.test(segments[1]) && STUDY_ROUTES[segments[2]]) {
+    const studyId = Number(segments[1]);
+    const name = STUDY_ROUTES[segments[2]];
+    return name === 'participate' ? { name, studyId, inviteCode } : { name, studyId };
+  }
+
+  return null;
+};
+
+/**
+ * The URL path, with query string, for a route. Participant links match generateParticipantLink.
+ */
+export const formatRoute = (route: AppRoute): string => {
+  switch (route.name) {
+    case 'dashboard':
+      return '/';
+    case 'comparison':
+      return '/compare';
+    case 'new-study':
+      return '/study/new';
+    case 'edit-study':
+      return `/study/${route.studyId}/edit`;
+    case 'analytics':
+      return `/study/${route.studyId}/analytics`;
+    case 'participants':
+      return `/study/${route.studyId}/participants`;
+    case 'preview':
+      return `/study/${route.studyId}/preview`;
+    case 'participate': {
+      const path = route.studyId === undefined ? '/participate' : `/study/${route.studyId}/participate`;
+      return route.inviteCode ? `${path}?code=${encodeURIComponent(route.inviteCode)}` : path;
+    }
+  }
+};
+
+/**
+ * Show a route in the address bar. Navigating adds a history entry so the
+ * browser's back button returns to the previous screen; replacing does not.
+ */
+export const pushRoute = (route: AppRoute, options: { replace?: boolean } = {}): void => {
+  const path = formatRoute(route);
+  if (path === window.location.pathname + window.location.search) return;
+
+  if (options.replace) {
+    window.history.replaceState(null, '', path);
+  } else {
+    window.history.pushState(null, '', path);
+  }
+};
+
+/**
+ * The route in the address bar right now
+ */
+export const getCurrentRoute = (): AppRoute | null =>
+  parseRoute(window.location.pathname, window.location.search);
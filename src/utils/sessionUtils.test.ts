@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { ParticipantSession, SessionCheckpoint } from '../types';
+import { resumeSession } from './sessionUtils';
+
+const session: ParticipantSession = {
+  participantId: 'P1',
+  studyId: 1,
+  startTime: 0,
+  isComplete: false,
+  studyType: 'tree-testing',
+  inviteCode: 'ABC123',
+  pausedDuration: 1000
+};
+
+const checkpoint = (changes: Partial<ParticipantSession>, savedAt: number): SessionCheckpoint => ({
+  inviteCode: 'ABC123',
+  session: { ...session, ...changes },
+  studyVersion: 1,
+  savedAt
+});
+
+describe('resumeSession', () => {
+  it('counts a pause from when it started until the session resumes', () => {
+    const resumed = resumeSession(checkpoint({ pausedAt: 5000 }, 6000), 9000);
+
+    expect(resumed.pausedDuration).toBe(1000 + 4000);
+    expect(resumed.pausedAt).toBeUndefined();
+  });
+
+  it('does not count time since the last checkpoint when the participant left without pausing', () => {
+    const resumed = resumeSession(checkpoint({}, 6000), 9000);
+
+    expect(resumed.pausedDuration).toBe(1000);
+    expect(resumed.pausedAt).toBeUndefined();
+  });
+});
@@ -0,0 +1,88 @@
+import { Card, CardSortProgress, Category, ParticipantSession, SessionCheckpoint, Study } from '../types';
+import { JourneyData } from '../analytics/journeyTracking';
+import { getStudyVersionNumber } from './studyVersions';
+
+/**
+ * Time the session has spent paused, including a pause still under way
+ */
+export const getPausedDuration = (session: ParticipantSession, now: number = Date.now()): number =>
+  (session.pausedDuration || 0) + (session.pausedAt !== undefined ? now - session.pausedAt : 0);
+
+export const pauseSession = (session: ParticipantSession, now: number = Date.now()): ParticipantSession =>
+  session.pausedAt !== undefined ? session : { ...session, pausedAt: now };
+
+export const unpauseSession = (session: ParticipantSession, now: number = Date.now()): ParticipantSession =>
+  session.pausedAt === undefined ? session : { ...session, pausedDuration: getPausedDuration(session, now), pausedAt: undefined };
+
+export const createCheckpoint = (session: ParticipantSession, study: Study, inviteCode: string): SessionCheckpoint => ({
+  inviteCode,
+  session,
+  studyVersion: getStudyVersionNumber(study),
+  savedAt: Date.now()
+});
+
+/**
+ * Whether a checkpoint can be picked up for the study as it is now
+ */
+export const canResumeCheckpoint = (checkpoint: SessionCheckpoint, study: Study): boolean =>
+  checkpoint.session.studyId === study.id && checkpoint.studyVersion === getStudyVersionNumber(study);
+
+/**
+ * Pick a saved session back up. Only a pause the participant started counts
+ * as paused time; leaving without pausing does not stop the clock.
+ */
+export const resumeSession = (checkpoint: SessionCheckpoint, now: number = Date.now()): ParticipantSession =>
+  unpauseSession(checkpoint.session, now);
+
+export const getCardSortProgress = (unsortedCards: Card[], categories: Category[], journey?: JourneyData): CardSortProgress => ({
+  unsortedCardIds: unsortedCards.map(card => card.id),
+  categories: categories.map(category => ({
+    id: category.id,
+    name: category.name,
+    cardIds: category.cards.map(card => card.id),
+    ...(category.isUserCreated !== undefined && { isUserCreated: category.isUserCreated })
+  })),
+  ...(journey && { journey })
+});
+
+/**
+ * Rebuild card sort state from a checkpoint. Predefined categories keep
+ * their study details; cards the study no longer has are dropped.
+ */
+export const restoreCardSortProgress = (study: Study, progress: CardSortProgress): { unsortedCards: Card[]; categories: Category[] } => {
+  const cardsById = new Map(study.cards.map(card => [card.id, card]));
+  const studyCategories = new Map(study.categories.map(category => [category.id, category]));
+  const toCards = (ids: number[]) => ids.flatMap(id => {
+    const card = cardsById.get(id);
+    return card ? [card] : [];
+  });
+
+  return {
+    unsortedCards: toCards(progress.unsortedCardIds),
+    categories: progress.categories.map(saved => ({
+      ...studyCategories.get(saved.id),
+      id: saved.id,
+      name: saved.name,
+      cards: toCards(saved.cardIds),
+      ...(saved.isUserCreated !== undefined && { isUserCreated: saved.isUserCreated })
+    }))
+  };
+};
+
+/**
+ * Apply changes to a saved checkpoint, if the invite code still has one
+ */
+export const updateCheckpoint = (
+  checkpoints: Record<string, SessionCheckpoint>,
+  inviteCode: string,
+  changes: Partial<Omit<SessionCheckpoint, 'inviteCode'>>
+): Record<string, SessionCheckpoint> =>
+  checkpoints[inviteCode]
+    ? { ...checkpoints, [inviteCode]: { ...checkpoints[inviteCode], ...changes, savedAt: Date.now() } }
+    : checkpoints;
+
+export const removeCheckpoints = (
+  checkpoints: Record<string, SessionCheckpoint>,
+  shouldRemove: (checkpoint: SessionCheckpoint) => boolean
+): Record<string, SessionCheckpoint> =>
+  Object.fromEntries(Object.entries(checkpoints).filter(([, checkpoint]) => !shouldRemove(checkpoint)));
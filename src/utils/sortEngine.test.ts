@@ -0,0 +1,300 @@
+import { describe, expect, it } from 'vitest';
+import { createTestStudy } from '../__fixtures__/studies';
+import {
+  createSortState,
+  getCompletionProblems,
+  getSortEvents,
+  getSortRules,
+  SortAction,
+  SortRules,
+  SortSnapshot,
+  SortState,
+  sortReducer
+} from './sortEngine';
+
+const [password, billing, deleteAccount] = [
+  { id: 1, text: 'Change password' },
+  { id: 2, text: 'Billing history' },
+  { id: 3, text: 'Delete account' }
+];
+
+const study = createTestStudy({
+  cards: [password, billing, deleteAccount],
+  categories: [
+    { id: 1, name: 'Security', cards: [] },
+    { id: 2, name: 'Payments', cards: [] }
+  ]
+});
+
+describe('getSortRules', () => {
+  it('lets participants add categories to open and hybrid sorts', () => {
+    expect(getSortRules({ ...study, type: 'open-card-sorting' }).allowCustomCategories).toBe(true);
+    expect(getSortRules({ ...study, type: 'open-card-sorting', settings: { sortType: 'hybrid' } }).allowCustomCategories).toBe(true);
+  });
+
+  it('lets participants add categories to closed sorts only when the study allows it', () => {
+    expect(getSortRules(study).allowCustomCategories).toBe(false);
+    expect(getSortRules(study).minCardsPerCategory).toBe(0);
+
+    const rules = getSortRules({ ...study, settings: { allowCustomCategories: true, minCardsPerCategory: 2 } });
+    expect(rules.allowCustomCategories).toBe(true);
+    expect(rules.minCardsPerCategory).toBe(2);
+  });
+});
+
+const openStudy = createTestStudy({ type: 'open-card-sorting', cards: study.cards, settings: { maxCustomCategories: 2 } });
+
+// The state after each action, failing on any the reducer refuses
+const run = (state: SortState, rules: SortRules, actions: SortAction[]): SortState =>
+  actions.reduce((current, action) => {
+    const { state: next, error } = sortReducer(current, action, rules);
+    expect(error).toBeNull();
+    return next;
+  }, state);
+
+const cardIds = (state: SortSnapshot) => ({
+  unsorted: state.unsortedCards.map(card => card.id),
+  categories: Object.fromEntries(state.categories.map(cat => [cat.name, cat.cards.map(card => card.id)]))
+});
+
+describe('sortReducer', () => {
+  const rules = getSortRules(study);
+  const initial = createSortState(study);
+
+  it('places, moves and unplaces a card, reporting each movement', () => {
+    const placed = sortReducer(initial, { type: 'place', cardId: 1, categoryId: 1 }, rules);
+    expect(cardIds(placed.state)).toEqual({ unsorted: [2, 3], categories: { Security: [1], Payments: [] } });
+    expect(placed.events).toEqual([{ type: 'movement', card: password, fromCategory: null, toCategory: 'Security' }]);
+
+    const moved = sortReducer(placed.state, { type: 'move', cardId: 1, categoryId: 2 }, rules);
+    expect(cardIds(moved.state)).toEqual({ unsorted: [2, 3], categories: { Security: [], Payments: [1] } });
+    expect(moved.events).toEqual([{ type: 'movement', card: password, fromCategory: 'Security', toCategory: 'Payments' }]);
+
+    const unplaced = sortReducer(moved.state, { type: 'unplace', cardId: 1 }, rules);
+    expect(cardIds(unplaced.state)).toEqual({ unsorted: [2, 3, 1], categories: { Security: [], Payments: [] } });
+    expect(unplaced.events).toEqual([{ type: 'movement', card: password, fromCategory: 'Payments', toCategory: null }]);
+  });
+
+  it('refuses to place a card that is already in a category', () => {
+    const placed = run(initial, rules, [{ type: 'place', cardId: 1, categoryId: 1 }]);
+
+    const transition = sortReducer(placed, { type: 'place', cardId: 1, categoryId: 2 }, rules);
+
+    expect(transition.error).toBe('That card is already in "Security"');
+    expect(transition.state).toBe(placed);
+  });
+
+  it('refuses to unplace cards in a reverse sort', () => {
+    const reverse = { ...study, type: 'reverse-card-sorting' as const };
+
+    const transition = sortReducer(createSortState(reverse), { type: 'unplace', cardId: 1 }, getSortRules(reverse));
+
+    expect(transition.error).toBe('Every card needs a category in this study');
+  });
+
+  it('refuses custom categories in a closed sort that does not allow them', () => {
+    const transition = sortReducer(initial, { type: 'createCategory', name: 'Other' }, rules);
+
+    expect(transition.error).toBe('This study uses a fixed set of categories');
+    expect(transition.state).toBe(initial);
+  });
+
+  it('refuses categories beyond the maximum', () => {
+    const openRules = getSortRules(openStudy);
+    const full = run(createSortState(openStudy), openRules, [
+      { type: 'createCategory', name: 'Security' },
+      { type: 'createCategory', name: 'Payments' }
+    ]);
+
+    const transition = sortReducer(full, { type: 'createCategory', name: 'Other' }, openRules);
+
+    expect(transition.error).toBe('You can create a maximum of 2 categories.');
+    expect(transition.state).toBe(full);
+  });
+
+  it('refuses category names already in use, ignoring case and spaces', () => {
+    const openRules = getSortRules({ ...openStudy, settings: {} });
+    const state = run(createSortState(openStudy), openRules, [
+      { type: 'createCategory', name: 'Security' },
+      { type: 'createCategory', name: 'Payments' }
+    ]);
+
+    expect(sortReducer(state, { type: 'createCategory', name: ' security ' }, openRules).error)
+      .toBe('There is already a category called "security"');
+    expect(sortReducer(state, { type: 'renameCategory', categoryId: 2, name: 'SECURITY' }, openRules).error)
+      .toBe('There is already a category called "SECURITY"');
+  });
+
+  it('returns the cards of a deleted category to the unsorted pile', () => {
+    const openRules = getSortRules(openStudy);
+    const state = run(createSortState(openStudy), openRules, [
+      { type: 'createCategory', name: 'Security' },
+      { type: 'place', cardId: 1, categoryId: 1 }
+    ]);
+
+    const transition = sortReducer(state, { type: 'deleteCategory', categoryId: 1 }, openRules);
+
+    expect(cardIds(transition.state)).toEqual({ unsorted: [2, 3, 1], categories: {} });
+    expect(transition.events).toEqual([
+      { type: 'movement', card: password, fromCategory: 'Security', toCategory: null },
+      { type: 'category', change: 'delete', categoryName: 'Security' }
+    ]);
+  });
+
+  it('merges a category into another, keeping all of its cards', () => {
+    const openRules = getSortRules(openStudy);
+    const state = run(createSortState(openStudy), openRules, [
+      { type: 'createCategory', name: 'Security' },
+      { type: 'createCategory', name: 'Payments' },
+      { type: 'place', cardId: 1, categoryId: 1 },
+      { type: 'place', cardId: 3, categoryId: 1 },
+      { type: 'place', cardId: 2, categoryId: 2 }
+    ]);
+
+    const transition = sortReducer(state, { type: 'merge', sourceId: 1, targetId: 2 }, openRules);
+
+    expect(cardIds(transition.state)).toEqual({ unsorted: [], categories: { Payments: [2, 1, 3] } });
+    expect(transition.events).toEqual([
+      { type: 'movement', card: password, fromCategory: 'Security', toCategory: 'Payments' },
+      { type: 'movement', card: deleteAccount, fromCategory: 'Security', toCategory: 'Payments' },
+      { type: 'category', change: 'delete', categoryName: 'Security' }
+    ]);
+  });
+
+  it('refuses to merge away or delete a category that is part of the study', () => {
+    const customRules = getSortRules({ ...study, settings: { allowCustomCategories: true } });
+
+    expect(sortReducer(initial, { type: 'merge', sourceId: 1, targetId: 2 }, customRules).error)
+      .toBe('"Security" is part of the study and can\'t be changed');
+    expect(sortReducer(initial, { type: 'deleteCategory', categoryId: 1 }, customRules).error)
+      .toBe('"Security" is part of the study and can\'t be changed');
+  });
+
+  it('undoes and redoes a change, reporting the reverse movement', () => {
+    const placed = run(initial, rules, [{ type: 'place', cardId: 1, categoryId: 1 }]);
+    const moved = run(placed, rules, [{ type: 'move', cardId: 1, categoryId: 2 }]);
+
+    const undone = sortReducer(moved, { type: 'undo' }, rules);
+    expect(cardIds(undone.state)).toEqual(cardIds(placed));
+    expect(undone.events).toEqual([{ type: 'movement', card: password, fromCategory: 'Payments', toCategory: 'Security' }]);
+
+    const redone = sortReducer(undone.state, { type: 'redo' }, rules);
+    expect(cardIds(redone.state)).toEqual(cardIds(moved));
+    expect(redone.events).toEqual([{ type: 'movement', card: password, fromCategory: 'Security', toCategory: 'Payments' }]);
+    expect(redone.state.past).toHaveLength(moved.past.length);
+    expect(redone.state.future).toEqual([]);
+  });
+
+  it('drops the redo history once a new change is made', () => {
+    const undone = run(initial, rules, [
+      { type: 'place', cardId: 1, categoryId: 1 },
+      { type: 'undo' },
+      { type: 'place', cardId: 2, categoryId: 1 }
+    ]);
+
+    expect(undone.future).toEqual([]);
+    expect(sortReducer(undone, { type: 'redo' }, rules).error).toBe('Nothing to redo');
+  });
+
+  it('refuses to undo with no history', () => {
+    expect(sortReducer(initial, { type: 'undo' }, rules).error).toBe('Nothing to undo');
+  });
+
+  it('keeps only the most recent 100 changes to undo', () => {
+    const actions: SortAction[] = Array.from({ length: 60 }).flatMap((): SortAction[] => [
+      { type: 'place', cardId: 1, categoryId: 1 },
+      { type: 'unplace', cardId: 1 }
+    ]);
+
+    const state = run(initial, rules, actions);
+
+    expect(state.past).toHaveLength(100);
+    expect(cardIds(state.past[0])).toEqual({ unsorted: [2, 3, 1], categories: { Security: [], Payments: [] } });
+  });
+});
+
+describe('getCompletionProblems', () => {
+  const initial = createSortState(study);
+
+  it('asks for every card to be sorted by default', () => {
+    expect(getCompletionProblems(initial, getSortRules(study))).toEqual(['Sort 3 more cards']);
+  });
+
+  it('lets cards stay unsorted when the study allows it', () => {
+    expect(getCompletionProblems(initial, getSortRules({ ...study, settings: { allowUncategorized: true } }))).toEqual([]);
+    expect(getCompletionProblems(initial, getSortRules({ ...study, settings: { requireAllCardsPlaced: false } }))).toEqual([]);
+  });
+
+  it('lets cards stay unsorted when uncategorized cards are allowed, whatever the older switch says', () => {
+    const rules = getSortRules({ ...study, settings: { allowUncategorized: true, requireAllCardsPlaced: true } });
+
+    expect(getCompletionProblems(initial, rules)).toEqual([]);
+  });
+
+  it('asks for a category in an open sort', () => {
+    const rules = getSortRules({ ...openStudy, settings: { allowUncategorized: true } });
+
+    expect(getCompletionProblems(createSortState(openStudy), rules)).toEqual(['Create at least one category to organize your cards']);
+  });
+
+  it('asks for enough cards in each created category', () => {
+    const openRules = getSortRules({ ...openStudy, settings: { minCardsPerCategory: 2 } });
+    const state = run(createSortState(openStudy), openRules, [
+      { type: 'createCategory', name: 'Security' },
+      { type: 'place', cardId: 1, categoryId: 1 },
+      { type: 'place', cardId: 2, categoryId: 1 },
+      { type: 'createCategory', name: 'Other' },
+      { type: 'place', cardId: 3, categoryId: 2 }
+    ]);
+
+    expect(getCompletionProblems(state, openRules)).toEqual(['"Other" needs at least 2 cards']);
+  });
+
+  it('accepts an empty created category when the study sets no minimum', () => {
+    const openRules = getSortRules({ ...openStudy, settings: { minCardsPerCategory: 0 } });
+    const state = run(createSortState(openStudy), openRules, [
+      { type: 'createCategory', name: 'Security' },
+      { type: 'place', cardId: 1, categoryId: 1 },
+      { type: 'place', cardId: 2, categoryId: 1 },
+      { type: 'place', cardId: 3, categoryId: 1 },
+      { type: 'createCategory', name: 'Other' }
+    ]);
+
+    expect(openRules.minCardsPerCategory).toBe(0);
+    expect(getCompletionProblems(state, openRules)).toEqual([]);
+  });
+});
+
+describe('getSortEvents', () => {
+  it('lists created and renamed categories, then card movements, then deleted categories', () => {
+    const before = {
+      unsortedCards: [password],
+      categories: [
+        { id: 1, name: 'Security', cards: [billing] },
+        { id: 2, name: 'Payments', cards: [] }
+      ]
+    };
+    const after = {
+      unsortedCards: [billing],
+      categories: [
+        { id: 2, name: 'Billing', cards: [password] },
+        { id: 3, name: 'Other', cards: [] }
+      ]
+    };
+
+    expect(getSortEvents(before, after)).toEqual([
+      { type: 'category', change: 'rename', categoryName: 'Billing', previousName: 'Payments' },
+      { type: 'category', change: 'create', categoryName: 'Other' },
+      { type: 'movement', card: billing, fromCategory: 'Security', toCategory: null },
+      { type: 'movement', card: password, fromCategory: null, toCategory: 'Billing' },
+      { type: 'category', change: 'delete', categoryName: 'Security' }
+    ]);
+  });
+
+  it('reports nothing when only the order within a category changes', () => {
+    const before = { unsortedCards: [], categories: [{ id: 1, name: 'Security', cards: [password, billing] }] };
+    const after = { unsortedCards: [], categories: [{ id: 1, name: 'Security', cards: [billing, password] }] };
+
+    expect(getSortEvents(before, after)).toEqual([]);
+  });
+});
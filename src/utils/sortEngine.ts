@@ -0,0 +1,311 @@
+import { Card, CardSortProgress, Category, Study } from '../types';
+import { CategoryEventType, JourneyTracker } from '../analytics/journeyTracking';
+import { restoreCardSortProgress } from './sessionUtils';
+import { SortTargetId } from './sortInteraction';
+
+/**
+ * What a participant may do in a sort, from its study type and settings
+ */
+export interface SortRules {
+  hasUnsortedPile: boolean; // Reverse sorts start with every card in a category
+  allowCustomCategories: boolean;
+  maxCustomCategories: number;
+  minCardsPerCategory: number; // For categories the participant created
+  requireAllCardsPlaced: boolean;
+}
+
+export interface SortSnapshot {
+  unsortedCards: Card[];
+  categories: Category[];
+}
+
+export interface SortState extends SortSnapshot {
+  past: SortSnapshot[]; // Most recent last
+  future: SortSnapshot[]; // Undone changes, next redo first
+}
+
+export type SortAction =
+  | { type: 'place'; cardId: number; categoryId: number } // From the unsorted pile into a category
+  | { type: 'move'; cardId: number; categoryId: number } // From one category to another
+  | { type: 'unplace'; cardId: number } // Back to the unsorted pile
+  | { type: 'createCategory'; name: string }
+  | { type: 'renameCategory'; categoryId: number; name: string }
+  | { type: 'deleteCategory'; categoryId: number } // Its cards go back to the unsorted pile
+  | { type: 'merge'; sourceId: number; targetId: number } // Moves the source's cards into the target and removes the source
+  | { type: 'undo' }
+  | { type: 'redo' };
+
+/**
+ * A change an action made, in the terms journey tracking records
+ */
+export type SortEvent =
+  | { type: 'movement'; card: Card; fromCategory: string | null; toCategory: string | null }
+  | { type: 'category'; change: CategoryEventType; categoryName: string; previousName?: string };
+
+export interface SortTransition {
+  state: SortState;
+  events: SortEvent[];
+  error: string | null; // Why the action was refused; the state is unchanged
+}
+
+export const DEFAULT_MAX_CUSTOM_CATEGORIES = 10;
+const MAX_CATEGORY_NAME_LENGTH = 50;
+const MAX_HISTORY = 100;
+
+export const getSortRules = (study: Study): SortRules => {
+  const { settings } = study;
+  // Open and hybrid sorts always let participants add categories; other sorts only when the study allows it
+  const allowCustomCategories = study.type === 'open-card-sorting' || Boolean(settings.allowCustomCategories);
+  return {
+    hasUnsortedPile: study.type !== 'reverse-card-sorting',
+    allowCustomCategories,
+    maxCustomCategories: settings.maxCustomCategories || DEFAULT_MAX_CUSTOM_CATEGORIES,
+    minCardsPerCategory: allowCustomCategories ? settings.minCardsPerCategory ?? 1 : 0,
+    // Allowing uncategorized cards overrides the older all-cards-placed switch
+    requireAllCardsPlaced: !settings.allowUncategorized && settings.requireAllCardsPlaced !== false
+  };
+};
+
+/**
+ * Where a participant starts: resumed from a checkpoint, or the study's
+ * cards unsorted. Reverse sorts deal the cards out evenly across the categories.
+ */
+export const createSortState = (study: Study, progress?: CardSortProgress): SortState => {
+  if (progress) {
+    return { ...restoreCardSortProgress(study, progress), past: [], future: [] };
+  }
+
+  if (study.type === 'reverse-card-sorting') {
+    const categories: Category[] = (study.categories || []).map(cat => ({ ...cat, cards: [] }));
+    (study.cards || []).forEach((card, index) => categories[index % categories.length]?.cards.push(card));
+    return { unsortedCards: [], categories, past: [], future: [] };
+  }
+
+  const studyCategories = study.categories || [];
+  const categories = study.type !== 'open-card-sorting'
+    ? studyCategories.map(cat => ({ ...cat, cards: [] }))
+    : study.settings.sortType === 'hybrid'
+      ? studyCategories.map(cat => ({ ...cat, cards: [], isUserCreated: false }))
+      : [];
+  return { unsortedCards: [...(study.cards || [])], categories, past: [], future: [] };
+};
+
+export const getCardCategory = (snapshot: SortSnapshot, cardId: number): Category | null =>
+  snapshot.categories.find(cat => cat.cards.some(card => card.id === cardId)) || null;
+
+/**
+ * The action that puts a card where it was dropped
+ */
+export const getMoveAction = (snapshot: SortSnapshot, cardId: number, to: SortTargetId): SortAction => {
+  if (to === 'unsorted') return { type: 'unplace', cardId };
+  return getCardCategory(snapshot, cardId)
+    ? { type: 'move', cardId, categoryId: to }
+    : { type: 'place', cardId, categoryId: to };
+};
+
+const toSnapshot = ({ unsortedCards, categories }: SortSnapshot): SortSnapshot => ({ unsortedCards, categories });
+
+const withoutCard = (snapshot: SortSnapshot, cardId: number): SortSnapshot => ({
+  unsortedCards: snapshot.unsortedCards.filter(card => card.id !== cardId),
+  categories: snapshot.categories.map(cat =>
+    cat.cards.some(card => card.id === cardId) ? { ...cat, cards: cat.cards.filter(card => card.id !== cardId) } : cat
+  )
+});
+
+const withCardIn = (snapshot: SortSnapshot, card: Card, categoryId: number): SortSnapshot => ({
+  ...snapshot,
+  categories: snapshot.categories.map(cat => (cat.id === categoryId ? { ...cat, cards: [...cat.cards, card] } : cat))
+});
+
+const validateCategoryName = (snapshot: SortSnapshot, name: string, categoryId?: number): string | null => {
+  if (!name) return 'Give the category a name';
+  if (name.length > MAX_CATEGORY_NAME_LENGTH) return `Category names can be up to ${MAX_CATEGORY_NAME_LENGTH} characters`;
+  const duplicate = snapshot.categories.some(cat => cat.id !== categoryId && cat.name.trim().toLowerCase() === name.toLowerCase());
+  return duplicate ? `There is already a category called "${name}"` : null;
+};
+
+// Only categories the participant created can be renamed, merged away or deleted
+const findOwnCategory = (snapshot: SortSnapshot, categoryId: number): Category | string => {
+  const category = snapshot.categories.find(cat => cat.id === categoryId);
+  if (!category) return 'That category no longer exists';
+  return category.isUserCreated ? category : `"${category.name}" is part of the study and can't be changed`;
+};
+
+// The edited cards and categories, the same snapshot if nothing changes, or why the action is refused
+const editSnapshot = (snapshot: SortSnapshot, action: SortAction, rules: SortRules): SortSnapshot | string => {
+  switch (action.type) {
+    case 'place':
+    case 'move': {
+      const target = snapshot.categories.find(cat => cat.id === action.categoryId);
+      if (!target) return 'That category no longer exists';
+      const from = getCardCategory(snapshot, action.cardId);
+
+      if (action.type === 'place') {
+        const card = snapshot.unsortedCards.find(card => card.id === action.cardId);
+        if (!card) return from ? `That card is already in "${from.name}"` : 'That card is not in this study';
+        return withCardIn(withoutCard(snapshot, card.id), card, target.id);
+      }
+
+      if (!from) return "That card isn't in a category yet";
+      if (from.id === target.id) return snapshot;
+      const card = from.cards.find(card => card.id === action.cardId)!;
+      return withCardIn(withoutCard(snapshot, card.id), card, target.id);
+    }
+
+    case 'unplace': {
+      if (!rules.hasUnsortedPile) return 'Every card needs a category in this study';
+      const from = getCardCategory(snapshot, action.cardId);
+      if (!from) return snapshot;
+      const card = from.cards.find(card => card.id === action.cardId)!;
+      const without = withoutCard(snapshot, card.id);
+      return { ...without, unsortedCards: [...without.unsortedCards, card] };
+    }
+
+    case 'createCategory': {
+      if (!rules.allowCustomCategories) return 'This study uses a fixed set of categories';
+      const created = snapshot.categories.filter(cat => cat.isUserCreated).length;
+      if (created >= rules.maxCustomCategories) {
+        return `You can create a maximum of ${rules.maxCustomCategories} categories.`;
+      }
+      const name = action.name.trim();
+      const problem = validateCategoryName(snapshot, name);
+      if (problem) return problem;
+
+      // Ids only need to be unique within the participant's sort
+      const id = Math.max(0, ...snapshot.categories.map(cat => cat.id)) + 1;
+      return { ...snapshot, categories: [...snapshot.categories, { id, name, cards: [], isUserCreated: true }] };
+    }
+
+    case 'renameCategory': {
+      const category = findOwnCategory(snapshot, action.categoryId);
+      if (typeof category === 'string') return category;
+      const name = action.name.trim();
+      if (name === category.name) return snapshot;
+      const problem = validateCategoryName(snapshot, name, category.id);
+      if (problem) return problem;
+      return { ...snapshot, categories: snapshot.categories.map(cat => (cat.id === category.id ? { ...cat, name } : cat)) };
+    }
+
+    case 'deleteCategory': {
+      const category = findOwnCategory(snapshot, action.categoryId);
+      if (typeof category === 'string') return category;
+      return {
+        unsortedCards: [...snapshot.unsortedCards, ...category.cards],
+        categories: snapshot.categories.filter(cat => cat.id !== category.id)
+      };
+    }
+
+    case 'merge': {
+      const source = findOwnCategory(snapshot, action.sourceId);
+      if (typeof source === 'string') return source;
+      const target = snapshot.categories.find(cat => cat.id === action.targetId);
+      if (!target) return 'That category no longer exists';
+      if (target.id === source.id) return "A category can't be merged into itself";
+      return {
+        ...snapshot,
+        categories: snapshot.categories
+          .filter(cat => cat.id !== source.id)
+          .map(cat => (cat.id === target.id ? { ...cat, cards: [...cat.cards, ...source.cards] } : cat))
+      };
+    }
+
+    default:
+      return snapshot;
+  }
+};
+
+/**
+ * What changed between two sorts: categories created and renamed, cards
+ * moved, then categories deleted, in the order journey tracking expects
+ */
+export const getSortEvents = (before: SortSnapshot, after: SortSnapshot): SortEvent[] => {
+  const beforeIds = new Set(before.categories.map(cat => cat.id));
+  const afterIds = new Set(after.categories.map(cat => cat.id));
+  const events: SortEvent[] = [];
+
+  after.categories.forEach(cat => {
+    const previous = before.categories.find(prev => prev.id === cat.id);
+    if (!beforeIds.has(cat.id)) {
+      events.push({ type: 'category', change: 'create', categoryName: cat.name });
+    } else if (previous && previous.name !== cat.name) {
+      events.push({ type: 'category', change: 'rename', categoryName: cat.name, previousName: previous.name });
+    }
+  });
+
+  [...after.unsortedCards, ...after.categories.flatMap(cat => cat.cards)].forEach(card => {
+    const from = getCardCategory(before, card.id);
+    const to = getCardCategory(after, card.id);
+    if (from?.id !== to?.id) {
+      events.push({ type: 'movement', card, fromCategory: from?.name ?? null, toCategory: to?.name ?? null });
+    }
+  });
+
+  before.categories
+    .filter(cat => !afterIds.has(cat.id))
+    .forEach(cat => events.push({ type: 'category', change: 'delete', categoryName: cat.name }));
+
+  return events;
+};
+
+/**
+ * Apply an action. Refused actions leave the state as it was and say why;
+ * every other change can be undone.
+ */
+export const sortReducer = (state: SortState, action: SortAction, rules: SortRules): SortTransition => {
+  if (action.type === 'undo' || action.type === 'redo') {
+    const isUndo = action.type === 'undo';
+    const restored = isUndo ? state.past[state.past.length - 1] : state.future[0];
+    if (!restored) return { state, events: [], error: isUndo ? 'Nothing to undo' : 'Nothing to redo' };
+
+    const next: SortState = isUndo
+      ? { ...restored, past: state.past.slice(0, -1), future: [toSnapshot(state), ...state.future] }
+      : { ...restored, past: [...state.past, toSnapshot(state)], future: state.future.slice(1) };
+    return { state: next, events: getSortEvents(state, next), error: null };
+  }
+
+  const edited = editSnapshot(state, action, rules);
+  if (typeof edited === 'string') return { state, events: [], error: edited };
+  if (edited === state) return { state, events: [], error: null };
+
+  const next: SortState = {
+    ...edited,
+    past: [...state.past, toSnapshot(state)].slice(-MAX_HISTORY),
+    future: []
+  };
+  return { state: next, events: getSortEvents(state, next), error: null };
+};
+
+/**
+ * Record a transition's changes in a participant's journey
+ */
+export const trackSortEvents = (tracker: JourneyTracker, events: SortEvent[]): void => {
+  events.forEach(event => {
+    if (event.type === 'movement') {
+      tracker.trackMovement(String(event.card.id), event.card.text, event.fromCategory, event.toCategory);
+    } else {
+      tracker.trackCategoryChange(event.change, event.categoryName, event.previousName);
+    }
+  });
+};
+
+/**
+ * What still stands between the participant and finishing the sort
+ */
+export const getCompletionProblems = (snapshot: SortSnapshot, rules: SortRules): string[] => {
+  const problems: string[] = [];
+  const remaining = snapshot.unsortedCards.length;
+
+  if (rules.requireAllCardsPlaced && remaining > 0) {
+    problems.push(`Sort ${remaining} more card${remaining !== 1 ? 's' : ''}`);
+  }
+  if (rules.allowCustomCategories && snapshot.categories.length === 0) {
+    problems.push('Create at least one category to organize your cards');
+  }
+  snapshot.categories
+    .filter(cat => cat.isUserCreated && cat.cards.length < rules.minCardsPerCategory)
+    .forEach(cat => problems.push(
+      `"${cat.name}" needs at least ${rules.minCardsPerCategory} card${rules.minCardsPerCategory !== 1 ? 's' : ''}`
+    ));
+
+  return problems;
+};
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import {
+  describeCancel,
+  describeDrop,
+  describePickUp,
+  describeTarget,
+  getEdgeScroll,
+  getNextTargetIndex,
+  hasPassedDragThreshold,
+  parseSortTargetId,
+  SortTarget
+} from './sortInteraction';
+
+const billing: SortTarget = { id: 2, label: 'Category: Billing' };
+
+describe('getNextTargetIndex', () => {
+  it('steps forward and back with the arrow keys, wrapping at either end', () => {
+    expect(getNextTargetIndex('ArrowRight', 0, 3)).toBe(1);
+    expect(getNextTargetIndex('ArrowDown', 2, 3)).toBe(0);
+    expect(getNextTargetIndex('ArrowLeft', 1, 3)).toBe(0);
+    expect(getNextTargetIndex('ArrowUp', 0, 3)).toBe(2);
+  });
+
+  it('jumps to the first and last targets with Home and End', () => {
+    expect(getNextTargetIndex('Home', 2, 3)).toBe(0);
+    expect(getNextTargetIndex('End', 0, 3)).toBe(2);
+  });
+
+  it('jumps to a target by number only when it exists', () => {
+    expect(getNextTargetIndex('1', 2, 3)).toBe(0);
+    expect(getNextTargetIndex('3', 0, 3)).toBe(2);
+    expect(getNextTargetIndex('4', 0, 3)).toBeNull();
+    expect(getNextTargetIndex('0', 0, 3)).toBeNull();
+  });
+
+  it('ignores other keys and empty target lists', () => {
+    expect(getNextTargetIndex('a', 0, 3)).toBeNull();
+    expect(getNextTargetIndex('ArrowRight', 0, 0)).toBeNull();
+  });
+});
+
+describe('parseSortTargetId', () => {
+  it('reads category ids and the unsorted pile', () => {
+    expect(parseSortTargetId('12')).toBe(12);
+    expect(parseSortTargetId('unsorted')).toBe('unsorted');
+  });
+
+  it('returns null for missing or unreadable values', () => {
+    expect(parseSortTargetId(undefined)).toBeNull();
+    expect(parseSortTargetId('')).toBeNull();
+    expect(parseSortTargetId('billing')).toBeNull();
+  });
+});
+
+describe('hasPassedDragThreshold', () => {
+  it('treats small movements as a tap and larger ones as a drag', () => {
+    const start = { x: 10, y: 10 };
+    expect(hasPassedDragThreshold(start, { x: 13, y: 14 })).toBe(false);
+    expect(hasPassedDragThreshold(start, { x: 16, y: 10 })).toBe(true);
+    expect(hasPassedDragThreshold(start, { x: 14, y: 15 })).toBe(true);
+  });
+});
+
+describe('getEdgeScroll', () => {
+  it('scrolls up near the top, down near the bottom and not in between', () => {
+    expect(getEdgeScroll(10, 800)).toBe(-12);
+    expect(getEdgeScroll(790, 800)).toBe(12);
+    expect(getEdgeScroll(400, 800)).toBe(0);
+  });
+});
+
+describe('screen reader messages', () => {
+  it('say where a picked up card currently is', () => {
+    expect(describePickUp('Invoices', billing)).toMatch(/^Picked up Invoices, currently in Category: Billing\. /);
+    expect(describePickUp('Invoices', undefined)).toMatch(/^Picked up Invoices\. /);
+  });
+
+  it('count the target position from one', () => {
+    expect(describeTarget('Invoices', billing, 1, 4)).toBe('Invoices over Category: Billing, 2 of 4.');
+  });
+
+  it('tell a move apart from a card staying put', () => {
+    expect(describeDrop('Invoices', billing, true)).toBe('Invoices moved to Category: Billing.');
+    expect(describeDrop('Invoices', billing, false)).toBe('Invoices stays in Category: Billing.');
+    expect(describeDrop('Invoices', undefined, false)).toBe('Invoices stays in its place.');
+    expect(describeCancel('Invoices')).toBe('Invoices put back where it was.');
+  });
+});
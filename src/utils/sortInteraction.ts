@@ -0,0 +1,85 @@
+/**
+ * Where a card can be dropped: a category by id, or back among the unsorted cards
+ */
+export type SortTargetId = number | 'unsorted';
+
+export interface SortTarget {
+  id: SortTargetId;
+  label: string; // Read out to screen reader users, e.g. "Category: Billing"
+}
+
+export interface SortPoint {
+  x: number;
+  y: number;
+}
+
+// How far a pointer has to travel before a press becomes a drag, so taps still pick cards up
+export const DRAG_THRESHOLD = 6;
+
+export const UNSORTED_TARGET_LABEL = 'Cards to sort';
+
+export const hasPassedDragThreshold = (start: SortPoint, point: SortPoint): boolean =>
+  Math.hypot(point.x - start.x, point.y - start.y) >= DRAG_THRESHOLD;
+
+export const formatSortTargetId = (id: SortTargetId): string => String(id);
+
+export const parseSortTargetId = (value: string | undefined): SortTargetId | null => {
+  if (value === undefined || value === '') return null;
+  if (value === 'unsorted') return 'unsorted';
+  const id = Number(value);
+  return isNaN(id) ? null : id;
+};
+
+/**
+ * The target a keyboard command moves to from the current one, wrapping at
+ * either end, or null if the key is not a move command
+ */
+export const getNextTargetIndex = (key: string, index: number, count: number): number | null => {
+  if (count === 0) return null;
+  switch (key) {
+    case 'ArrowRight':
+    case 'ArrowDown':
+      return (index + 1) % count;
+    case 'ArrowLeft':
+    case 'ArrowUp':
+      return (index - 1 + count) % count;
+    case 'Home':
+      return 0;
+    case 'End':
+      return count - 1;
+    default:
+      // Number keys jump straight to a target
+      return /^[1-9]$/.test(key) && Number(key) <= count ? Number(key) - 1 : null;
+  }
+};
+
+export const KEYBOARD_INSTRUCTIONS =
+  'Press Space or Enter to pick up a card. Use the arrow keys or number keys to choose where it goes, ' +
+  'then press Space or Enter to drop it, or Escape to put it back. You can also select a card, then select a category.';
+
+export const describePickUp = (cardText: string, target: SortTarget | undefined): string =>
+  `Picked up ${cardText}${target ? `, currently in ${target.label}` : ''}. ` +
+  'Use the arrow keys to choose where it goes, Enter to drop it, Escape to cancel.';
+
+export const describeTarget = (cardText: string, target: SortTarget, index: number, count: number): string =>
+  `${cardText} over ${target.label}, ${index + 1} of ${count}.`;
+
+export const describeDrop = (cardText: string, target: SortTarget | undefined, moved: boolean): string =>
+  moved ? `${cardText} moved to ${target?.label}.` : `${cardText} stays in ${target?.label ?? 'its place'}.`;
+
+export const describeCancel = (cardText: string): string =>
+  `${cardText} put back where it was.`;
+
+// Dragging within this many pixels of the top or bottom of the window scrolls it
+const EDGE_SCROLL_ZONE = 48;
+const EDGE_SCROLL_STEP = 12;
+
+/**
+ * How far to scroll the window while dragging at this height, since touch
+ * drags cannot scroll the page themselves
+ */
+export const getEdgeScroll = (y: number, viewportHeight: number): number => {
+  if (y < EDGE_SCROLL_ZONE) return -EDGE_SCROLL_STEP;
+  if (y > viewportHeight - EDGE_SCROLL_ZONE) return EDGE_SCROLL_STEP;
+  return 0;
+};
@@ -0,0 +1,172 @@
+import { Study, StudyCloseReason, StudyResultsIndex, StudyStatus } from '../types';
+import { getResultsForStudy } from './resultUtils';
+import { hasTaskAnswers } from './treeTestUtils';
+
+export const STUDY_STATUS_LABELS: Record<StudyStatus, string> = {
+  draft: 'Draft',
+  live: 'Live',
+  paused: 'Paused',
+  closed: 'Closed'
+};
+
+// Which statuses a study can move to from each status
+const TRANSITIONS: Record<StudyStatus, StudyStatus[]> = {
+  draft: ['live'],
+  live: ['paused', 'closed'],
+  paused: ['live', 'closed'],
+  closed: ['live']
+};
+
+const CLOSE_REASON_LABELS: Record<StudyCloseReason, string> = {
+  manual: 'Closed by the researcher',
+  'max-participants': 'Reached its participant limit',
+  'close-date': 'Reached its close date'
+};
+
+export const getStudyStatus = (study: Study): StudyStatus => study.status ?? 'live';
+
+export const canTransitionStudy = (study: Study, to: StudyStatus): boolean =>
+  TRANSITIONS[getStudyStatus(study)].includes(to);
+
+export const getCloseReasonLabel = (study: Study): string =>
+  study.closedReason ? CLOSE_REASON_LABELS[study.closedReason] : CLOSE_REASON_LABELS.manual;
+
+/**
+ * Participants who have completed the study, across all its versions
+ */
+export const getCompletedParticipantCount = (study: Study, results: StudyResultsIndex): number =>
+  getResultsForStudy(results, study.id, { attempts: 'latest' }).length;
+
+/**
+ * Why the study should close now, if it should
+ */
+export const getAutoCloseReason = (
+  study: Study,
+  results: StudyResultsIndex,
+  now: number = Date.now()
+): StudyCloseReason | null => {
+  if (getStudyStatus(study) === 'draft' || getStudyStatus(study) === 'closed') return null;
+
+  const { maxParticipants, closeDate } = study.settings;
+  if (maxParticipants && getCompletedParticipantCount(study, results) >= maxParticipants) return 'max-participants';
+  if (closeDate && new Date(closeDate).getTime() <= now) return 'close-date';
+  return null;
+};
+
+/**
+ * Gaps in what participants would see: missing cards, unanswerable tasks,
+ * closed sorts without categories. A draft can be saved with any of these;
+ * a live, paused or closed study cannot.
+ */
+export const validateStudyContent = (study: Study): string[] => {
+  const problems: string[] = [];
+
+  if (!study.name.trim()) {
+    problems.push('Give the study a name');
+  }
+
+  if (study.type === 'tree-testing') {
+    if (!study.treeStructure?.length) problems.push('Add a tree structure');
+    if (!study.tasks?.length) {
+      problems.push('Add at least one task');
+    } else if (study.tasks.some(task => !hasTaskAnswers(task))) {
+      problems.push('Mark at least one correct answer in the tree for every task');
+    }
+  } else {
+    if (study.cards.length === 0) problems.push('Add at least one card');
+    if ((study.type === 'card-sorting' || study.type === 'reverse-card-sorting') &&
+        (study.categories.length === 0 || study.categories.some(category => !category.name.trim()))) {
+      problems.push('Closed sorts need at least one category, and every category needs a name');
+    }
+  }
+
+  return problems;
+};
+
+/**
+ * Problems that keep a study from launching: its content, plus a participant
+ * limit or close date it has already reached
+ */
+export const validateStudyForLaunch = (
+  study: Study,
+  results: StudyResultsIndex = {},
+  now: number = Date.now()
+): string[] => {
+  const problems = validateStudyContent(study);
+
+  const { maxParticipants, closeDate } = study.settings;
+  if (maxParticipants && getCompletedParticipantCount(study, results) >= maxParticipants) {
+    problems.push(`The study already has ${maxParticipants} participants; raise the participant limit to reopen it`);
+  }
+  if (closeDate && new Date(closeDate).getTime() <= now) {
+    problems.push('The close date has passed; move it later or clear it');
+  }
+
+  return problems;
+};
+
+/**
+ * Move a study to another status. Launching checks the study first; invalid
+ * moves throw.
+ */
+export const transitionStudy = (
+  study: Study,
+  to: StudyStatus,
+  results: StudyResultsIndex = {},
+  reason: StudyCloseReason = 'manual'
+): Study => {
+  if (!canTransitionStudy(study, to)) {
+    throw new Error(`A ${getStudyStatus(study)} study cannot be set to ${to}`);
+  }
+
+  if (to === 'live') {
+    const problems = validateStudyForLaunch(study, results);
+    if (problems.length > 0) {
+      throw new Error(`${study.name} is not ready to launch: ${problems.join('; ')}`);
+    }
+  }
+
+  const now = new Date().toISOString();
+  return {
+    ...study,
+    status: to,
+    statusChangedAt: now,
+    closedReason: to === 'closed' ? reason : undefined,
+    updated: now
+  };
+};
+
+/**
+ * Close the study if it has reached its participant limit or close date
+ */
+export const applyAutoClose = (study: Study, results: StudyResultsIndex, now: number = Date.now()): Study => {
+  const reason = getAutoCloseReason(study, results, now);
+  return reason ? transitionStudy(study, 'closed', results, reason) : study;
+};
+
+/**
+ * Earliest upcoming close date among live and paused studies
+ */
+export const getNextCloseTime = (studies: Study[], now: number = Date.now()): number | null => {
+  const upcoming = studies
+    .filter(study => getStudyStatus(study) === 'live' || getStudyStatus(study) === 'paused')
+    .map(study => (study.settings.closeDate ? new Date(study.settings.closeDate).getTime() : NaN))
+    .filter(time => !isNaN(time) && time > now);
+  return upcoming.length > 0 ? Math.min(...upcoming) : null;
+};
+
+/**
+ * Why participants cannot start the study right now, or null if they can
+ */
+export const getEntryRefusal = (study: Study): string | null => {
+  switch (getStudyStatus(study)) {
+    case 'draft':
+      return `"${study.name}" has not opened yet. Please check back later or contact the study administrator.`;
+    case 'paused':
+      return `"${study.name}" is paused at the moment. Please try again later.`;
+    case 'closed':
+      return `"${study.name}" is closed and no longer accepting participants. Thank you for your interest!`;
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { Study } from '../types';
+import { createTestStudy } from '../__fixtures__/studies';
+import { applyStudyEdit } from './studyVersions';
+
+const opened = createTestStudy({ name: 'Nav labels', cards: [{ id: 1, text: 'Returns' }], status: 'live' });
+
+describe('applyStudyEdit', () => {
+  it('keeps status and invites that changed while the editor was open', () => {
+    const current: Study = {
+      ...opened,
+      participants: 1,
+      status: 'closed',
+      closedReason: 'max-participants',
+      invites: [{
+        id: 'invite_1',
+        studyId: 1,
+        email: 'p1@example.com',
+        inviteCode: 'ABC123',
+        status: 'completed',
+        invitedAt: '2024-01-01T00:00:00.000Z',
+        remindersSent: 0
+      }]
+    };
+    const edited: Study = { ...opened, name: 'Navigation labels', cards: [{ id: 1, text: 'Returns and refunds' }] };
+
+    const saved = applyStudyEdit(current, edited, {});
+
+    expect(saved.name).toBe('Navigation labels');
+    expect(saved.cards).toEqual(edited.cards);
+    expect(saved.status).toBe('closed');
+    expect(saved.closedReason).toBe('max-participants');
+    expect(saved.participants).toBe(1);
+    expect(saved.invites).toEqual(current.invites);
+  });
+
+  it('takes the status of a draft launched from the editor', () => {
+    const draft: Study = { ...opened, status: 'draft' };
+
+    const saved = applyStudyEdit(draft, { ...draft, status: 'live', statusChangedAt: '2024-01-02T00:00:00.000Z' }, {});
+
+    expect(saved.status).toBe('live');
+    expect(saved.statusChangedAt).toBe('2024-01-02T00:00:00.000Z');
+  });
+});
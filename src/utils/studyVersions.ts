@@ -0,0 +1,122 @@
+import { Study, StudyResultsIndex, StudyVersion } from '../types';
+import { getResultsForStudy } from './resultUtils';
+import { getStudyStatus } from './studyLifecycle';
+
+/**
+ * A study version with how many participants completed it
+ */
+export interface StudyVersionSummary extends StudyVersion {
+  current: boolean;
+  resultCount: number;
+}
+
+type StudyVersionContent = Omit<StudyVersion, 'version' | 'createdAt' | 'retiredAt'>;
+
+const getVersionContent = (study: Study): StudyVersionContent => ({
+  type: study.type,
+  cards: study.cards,
+  categories: study.categories,
+  treeStructure: study.treeStructure,
+  tasks: study.tasks,
+  settings: study.settings
+});
+
+export const getStudyVersionNumber = (study: Study): number => study.version ?? 1;
+
+/**
+ * The parts of a study that participants see, as of its current version
+ */
+export const snapshotStudyVersion = (study: Study): StudyVersion => ({
+  version: getStudyVersionNumber(study),
+  createdAt: study.versionHistory?.[study.versionHistory.length - 1]?.retiredAt || study.created,
+  ...getVersionContent(study)
+});
+
+// Scheduling settings decide when a study runs, not what participants see
+const getComparableContent = (study: Study) => {
+  const content = getVersionContent(study);
+  return { ...content, settings: { ...content.settings, maxParticipants: undefined, closeDate: undefined } };
+};
+
+/**
+ * Whether two studies differ in anything a participant would see
+ */
+export const hasContentChanges = (previous: Study, next: Study): boolean =>
+  JSON.stringify(getComparableContent(previous)) !== JSON.stringify(getComparableContent(next));
+
+/**
+ * A study is locked once participants have completed its current version;
+ * further edits go into a new version
+ */
+export const isStudyVersionLocked = (study: Study, results: StudyResultsIndex): boolean =>
+  getResultsForStudy(results, study.id, { version: getStudyVersionNumber(study) }).length > 0;
+
+/**
+ * Apply an edit from the study editor. Editing a locked study keeps its
+ * current content as a history entry and makes the edit the next version,
+ * so existing results stay tied to what their participants saw.
+ *
+ * Only what the editor edits is taken from it; status, invites and
+ * participant counts may have changed since it opened and are kept.
+ */
+export const applyStudyEdit = (previous: Study, edited: Study, results: StudyResultsIndex): Study => {
+  const currentVersion = getStudyVersionNumber(previous);
+  const base: Study = {
+    ...previous,
+    ...getVersionContent(edited),
+    name: edited.name,
+    description: edited.description,
+    updated: edited.updated,
+    // Drafts go live from the editor
+    ...(getStudyStatus(previous) === 'draft' && {
+      status: edited.status,
+      statusChangedAt: edited.statusChangedAt
+    }),
+    version: currentVersion
+  };
+
+  if (!isStudyVersionLocked(previous, results) || !hasContentChanges(previous, edited)) {
+    return base;
+  }
+
+  const now = new Date().toISOString();
+  return {
+    ...base,
+    version: currentVersion + 1,
+    versionHistory: [...(previous.versionHistory || []), { ...snapshotStudyVersion(previous), retiredAt: now }],
+    updated: now
+  };
+};
+
+/**
+ * Every version of a study, oldest first, ending with the current one
+ */
+export const getStudyVersions = (study: Study, results: StudyResultsIndex): StudyVersionSummary[] =>
+  [...(study.versionHistory || []), snapshotStudyVersion(study)].map(version => ({
+    ...version,
+    current: version.version === getStudyVersionNumber(study),
+    resultCount: getResultsForStudy(results, study.id, { attempts: 'latest', version: version.version }).length
+  }));
+
+/**
+ * The study as it was at one of its versions, for analyzing that version's results
+ */
+export const getStudyAtVersion = (study: Study, version: number): Study => {
+  if (version === getStudyVersionNumber(study)) return study;
+
+  const snapshot = study.versionHistory?.find(entry => entry.version === version);
+  if (!snapshot) {
+    throw new Error(`${study.name} has no version ${version}`);
+  }
+
+  return {
+    ...study,
+    type: snapshot.type,
+    cards: snapshot.cards,
+    categories: snapshot.categories,
+    treeStructure: snapshot.treeStructure,
+    tasks: snapshot.tasks,
+    settings: snapshot.settings,
+    version
+  };
+};
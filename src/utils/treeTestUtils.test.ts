@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { NavigationEvent, TreeNode } from '../types';
+import { createTreeTestTask, normalizeTreeTestTasks, summarizeNavigation } from './treeTestUtils';
+
+describe('createTreeTestTask', () => {
+  it('numbers the first task 1', () => {
+    expect(createTreeTestTask('Find the returns policy', [])).toEqual({
+      id: 1,
+      text: 'Find the returns policy',
+      correctNodeIds: [],
+      acceptableNodeIds: []
+    });
+  });
+
+  it('numbers a task after the highest existing id', () => {
+    const existing = [createTreeTestTask('First', []), { ...createTreeTestTask('Second', []), id: 7 }];
+
+    expect(createTreeTestTask('Third', existing).id).toBe(8);
+  });
+
+  it('numbers after legacy tasks that kept their index as id', () => {
+    const legacy = normalizeTreeTestTasks(['First', 'Second']);
+
+    expect(createTreeTestTask('Third', legacy).id).toBe(2);
+  });
+});
+
+describe('summarizeNavigation', () => {
+  const tree: TreeNode[] = [
+    { id: 1, name: 'Help', level: 0, children: [{ id: 2, name: 'Returns', parentId: 1, level: 1, children: [] }] }
+  ];
+
+  it('times the first click from the first tree event, not a search', () => {
+    const events: NavigationEvent[] = [
+      { type: 'search', nodeId: null, nodeName: '', query: 'returns', timestamp: 1500 },
+      { type: 'search-select', nodeId: 2, nodeName: 'Returns', query: 'returns', timestamp: 4000 }
+    ];
+
+    const summary = summarizeNavigation(events, 1000, tree);
+
+    expect(summary.timeToFirstClick).toBe(3000);
+    expect(summary.route).toEqual(['Home', 'Returns']);
+    expect(summary.searchQueries).toEqual(['returns']);
+  });
+
+  it('has no first click when the participant only searched', () => {
+    const events: NavigationEvent[] = [{ type: 'search', nodeId: null, nodeName: '', query: 'returns', timestamp: 1500 }];
+
+    expect(summarizeNavigation(events, 1000, tree).timeToFirstClick).toBeNull();
+  });
+});
@@ -0,0 +1,218 @@
+import { Study, TreeNode, TreeTestTask, TaskOutcome, TaskResult, NavigationEvent, NavigationEventType } from '../types';
+
+/**
+ * Create a new tree test task with no answers defined yet, numbered after the study's existing tasks
+ */
+export function createTreeTestTask(text: string, existingTasks: TreeTestTask[]): TreeTestTask {
+  return {
+    id: Math.max(0, ...existingTasks.map(task => task.id)) + 1,
+    text,
+    correctNodeIds: [],
+    acceptableNodeIds: []
+  };
+}
+
+/**
+ * Upgrade legacy string-only tasks into structured tasks.
+ * Legacy tasks keep their index as id so existing results still line up.
+ */
+export function normalizeTreeTestTasks(tasks: Array<TreeTestTask | string> | undefined): TreeTestTask[] {
+  if (!tasks) return [];
+
+  return tasks.map((task, index) => {
+    if (typeof task === 'string') {
+      return { id: index, text: task, correctNodeIds: [], acceptableNodeIds: [] };
+    }
+    return {
+      ...task,
+      correctNodeIds: task.correctNodeIds || [],
+      acceptableNodeIds: task.acceptableNodeIds || []
+    };
+  });
+}
+
+/**
+ * Normalize the tree test tasks of a stored study
+ */
+export function normalizeStudyTasks(study: Study): Study {
+  if (!study.tasks) return study;
+  return {
+    ...study,
+    tasks: normalizeTreeTestTasks(study.tasks as Array<TreeTestTask | string>)
+  };
+}
+
+/**
+ * Check whether a task has at least one correct answer to score against
+ */
+export function hasTaskAnswers(task: TreeTestTask): boolean {
+  return task.correctNodeIds.length > 0;
+}
+
+/**
+ * Score the node a participant selected against the task's answers.
+ * Returns null when the task has no correct answers defined.
+ */
+export function evaluateTaskAnswer(task: TreeTestTask, selectedNodeId: number | null): TaskOutcome | null {
+  if (!hasTaskAnswers(task)) return null;
+  if (selectedNodeId === null) return 'failure';
+  if (task.correctNodeIds.includes(selectedNodeId)) return 'success';
+  if (task.acceptableNodeIds?.includes(selectedNodeId)) return 'partial';
+  return 'failure';
+}
+
+/**
+ * Resolve the outcome of a task result, falling back to the
+ * self-reported success flag for results collected without answers
+ */
+export function getTaskOutcome(taskResult: TaskResult): TaskOutcome {
+  if (taskResult.outcome) return taskResult.outcome;
+  return taskResult.success ? 'success' : 'failure';
+}
+
+/**
+ * Find a node anywhere in the tree by id
+ */
+export function findNodeById(nodes: TreeNode[], id: number): TreeNode | null {
+  for (const node of nodes) {
+    if (node.id === id) return node;
+    const found = findNodeById(node.children, id);
+    if (found) return found;
+  }
+  return null;
+}
+
+/**
+ * Flatten the tree into a depth-first list with each node's depth
+ */
+export function flattenTree(nodes: TreeNode[], depth: number = 0): Array<{ node: TreeNode; depth: number }> {
+  return nodes.flatMap(node => [
+    { node, depth },
+    ...flattenTree(node.children, depth + 1)
+  ]);
+}
+
+/**
+ * Map each node id to its parent id (top-level nodes map to null)
+ */
+export function buildParentMap(
+  nodes: TreeNode[],
+  parentId: number | null = null,
+  map: Map<number, number | null> = new Map()
+): Map<number, number | null> {
+  nodes.forEach(node => {
+    map.set(node.id, parentId);
+    buildParentMap(node.children, node.id, map);
+  });
+  return map;
+}
+
+/**
+ * Check whether a node sits below another node (Home, null, is above everything)
+ */
+export function isDescendantOf(parentMap: Map<number, number | null>, nodeId: number, ancestorId: number | null): boolean {
+  if (ancestorId === null) return true;
+  let current = parentMap.get(nodeId) ?? null;
+  while (current !== null) {
+    if (current === ancestorId) return true;
+    current = parentMap.get(current) ?? null;
+  }
+  return false;
+}
+
+/**
+ * Create a timestamped navigation event
+ */
+export function createNavigationEvent(type: NavigationEventType, node: TreeNode | null, query?: string): NavigationEvent {
+  return {
+    type,
+    nodeId: node ? node.id : null,
+    nodeName: node ? node.name : type === 'search' ? '' : 'Home',
+    ...(query !== undefined && { query }),
+    timestamp: Date.now()
+  };
+}
+
+/**
+ * Find nodes whose label contains the query (case-insensitive)
+ */
+export function searchTree(nodes: TreeNode[], query: string): TreeNode[] {
+  const normalized = query.trim().toLowerCase();
+  if (!normalized) return [];
+  return flattenTree(nodes)
+    .map(({ node }) => node)
+    .filter(node => node.name.toLowerCase().includes(normalized));
+}
+
+export interface NavigationSummary {
+  route: string[];
+  backtracks: number;
+  timeToFirstClick: number | null;
+  isDirect: boolean;
+  usedSearch: boolean;
+  searchQueries: string[];
+}
+
+/**
+ * Derive the route, backtrack count and first-click timing from a task's event log.
+ * Collapsing, going back, or jumping to a node outside the current branch counts as a backtrack.
+ */
+export function summarizeNavigation(
+  events: NavigationEvent[],
+  taskStartTime: number,
+  treeStructure: TreeNode[]
+): NavigationSummary {
+  const parentMap = buildParentMap(treeStructure);
+  let location: number | null = null;
+  let backtracks = 0;
+
+  events.forEach(event => {
+    // Searching doesn't move the participant; jumping to a result is not backtracking
+    if (event.type === 'search') return;
+    if (event.type === 'search-select') {
+      location = event.nodeId;
+      return;
+    }
+
+    if (event.type === 'back' || event.type === 'collapse') {
+      backtracks++;
+    } else if (
+      event.nodeId !== null &&
+      event.nodeId !== location &&
+      !isDescendantOf(parentMap, event.nodeId, location)
+    ) {
+      backtracks++;
+    }
+
+    location = event.type === 'collapse' && event.nodeId !== null
+      ? parentMap.get(event.nodeId) ?? null
+      : event.nodeId;
+  });
+
+  const searchQueries = events
+    .filter(event => event.type === 'search' && event.query)
+    .map(event => event.query!);
+  // Typing a search is not a click in the tree
+  const clicks = events.filter(event => event.type !== 'search');
+
+  return {
+    route: ['Home', ...clicks.map(event => event.nodeName)],
+    backtracks,
+    timeToFirstClick: clicks.length > 0 ? clicks[0].timestamp - taskStartTime : null,
+    isDirect: backtracks === 0,
+    usedSearch: events.some(event => event.type === 'search' || event.type === 'search-select'),
+    searchQueries
+  };
+}
+
+/**
+ * Drop answer references to nodes that no longer exist in the tree
+ */
+export function pruneTaskAnswers(task: TreeTestTask, treeStructure: TreeNode[]): TreeTestTask {
+  const exists = (id: number) => findNodeById(treeStructure, id) !== null;
+  return {
+    ...task,
+    correctNodeIds: task.correctNodeIds.filter(exists),
+    acceptableNodeIds: (task.acceptableNodeIds || []).filter(exists)
+  };
+}
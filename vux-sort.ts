@@ -0,0 +1,14 @@
+#!/usr/bin/env tsx
+
+import { runCli } from './src/cli';
+
+async function main() {
+  try {
+    process.exitCode = await runCli(process.argv.slice(2));
+  } catch (error) {
+    console.error('vux-sort failed:', error);
+    process.exit(1);
+  }
+}
+
+main();